@@ -0,0 +1,33 @@
+-- Convert Float euro amounts to integer cents
+--
+-- Run once on an existing database BEFORE pushing the new schema:
+--   npx prisma db execute --file prisma/sql/20261019_money_to_cents.sql --schema prisma/schema.prisma
+--   npm run db:push
+--
+-- Amounts are rounded half away from zero to whole cents (same policy as src/lib/money.ts).
+-- Requires SQLite 3.35+ or PostgreSQL for DROP COLUMN.
+
+-- Invoices: subtotal, vat_amount, total → *_cents
+ALTER TABLE "invoices" ADD COLUMN "subtotal_cents" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "invoices" ADD COLUMN "vat_amount_cents" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "invoices" ADD COLUMN "total_cents" INTEGER NOT NULL DEFAULT 0;
+
+UPDATE "invoices" SET
+    "subtotal_cents" = CAST(ROUND(CAST("subtotal" * 100 AS NUMERIC)) AS INTEGER),
+    "vat_amount_cents" = CAST(ROUND(CAST("vat_amount" * 100 AS NUMERIC)) AS INTEGER),
+    "total_cents" = CAST(ROUND(CAST("total" * 100 AS NUMERIC)) AS INTEGER);
+
+ALTER TABLE "invoices" DROP COLUMN "subtotal";
+ALTER TABLE "invoices" DROP COLUMN "vat_amount";
+ALTER TABLE "invoices" DROP COLUMN "total";
+
+-- Line items: unit_price, total → *_cents
+ALTER TABLE "line_items" ADD COLUMN "unit_price_cents" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "line_items" ADD COLUMN "total_cents" INTEGER NOT NULL DEFAULT 0;
+
+UPDATE "line_items" SET
+    "unit_price_cents" = CAST(ROUND(CAST("unit_price" * 100 AS NUMERIC)) AS INTEGER),
+    "total_cents" = CAST(ROUND(CAST("total" * 100 AS NUMERIC)) AS INTEGER);
+
+ALTER TABLE "line_items" DROP COLUMN "unit_price";
+ALTER TABLE "line_items" DROP COLUMN "total";
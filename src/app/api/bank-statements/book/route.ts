@@ -0,0 +1,92 @@
+// Bank payment booking API endpoint
+// Books the credits of an imported statement the user accepted in review
+// as payments of the chosen invoices
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { BankBookingError, bookBankPayments, validateBankPaymentBookings } from '@/lib/bank/booking'
+
+// POST - Book accepted credits
+// Body: { payments: [{ invoiceId, archiveId, amountCents, bookingDate, reference?, payerName? }] }
+export async function POST(request: Request) {
+    // Rate limiting: 30 bookings per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`bank-statements-book:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 30
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        const userId = session.user.id
+
+        // Get user's company (required for multi-tenant filtering)
+        const company = await prisma.company.findFirst({
+            where: {
+                userId
+            }
+        })
+
+        // User hasn't completed company setup yet
+        if (!company) {
+            return NextResponse.json(
+                { error: 'Please complete company setup first' },
+                { status: 400 }
+            )
+        }
+
+        // Parse request body
+        const body = await request.json()
+
+        const validationError = validateBankPaymentBookings(body.payments)
+        if (validationError) {
+            return NextResponse.json(
+                { error: validationError },
+                { status: 400 }
+            )
+        }
+
+        // All payments are booked or none, a failed booking throws and rolls back
+        const result = await prisma.$transaction(async (tx) =>
+            bookBankPayments(company.id, userId, body.payments, tx)
+        )
+
+        return NextResponse.json(result, { status: 201 })
+    } catch (error) {
+        // Invoice can't be paid or another request booked a credit first, nothing was booked
+        if (error instanceof BankBookingError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: error.status }
+            )
+        }
+
+        console.error('Error booking bank payments:', error)
+        return NextResponse.json(
+            { error: 'Failed to book payments' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,99 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { auth, prisma } = vi.hoisted(() => ({
+    auth: vi.fn(),
+    prisma: {
+        company: { findFirst: vi.fn() },
+        invoice: { findMany: vi.fn() },
+        payment: { findMany: vi.fn() },
+    },
+}))
+
+vi.mock('@/lib/auth', () => ({ auth }))
+vi.mock('@/lib/db/client', () => ({ prisma }))
+
+import { POST } from '@/app/api/bank-statements/route'
+
+const fixture = (fileName: string) =>
+    readFileSync(path.join(process.cwd(), 'src', 'utils', 'bank', '__fixtures__', fileName))
+
+/**
+ * Import request uploading a statement file as multipart form data
+ */
+function importRequest(fileName: string): Request {
+    const formData = new FormData()
+    formData.append('file', new File([fixture(fileName)], fileName, { type: 'text/plain' }))
+    return new Request('http://localhost/api/bank-statements', { method: 'POST', body: formData })
+}
+
+// Open invoice INV-001 paid with its Finnish reference
+const openInvoice = {
+    id: 'inv-001',
+    invoiceNumber: 'INV-001',
+    rfReference: '10016',
+    totalCents: 164280,
+    customer: { name: 'Asiakas Oy' },
+    creditNotes: [],
+    payments: [],
+}
+
+beforeEach(() => {
+    vi.clearAllMocks()
+    auth.mockResolvedValue({ user: { id: 'user-1' } })
+    prisma.company.findFirst.mockResolvedValue({ id: 'company-1', iban: 'FI21 1234 5600 0007 85' })
+    prisma.invoice.findMany.mockResolvedValue([openInvoice])
+    prisma.payment.findMany.mockResolvedValue([])
+})
+
+describe('POST /api/bank-statements', () => {
+    it('matches the payments of a KTL file to open invoices', async () => {
+        const res = await POST(importRequest('ktl-valid.txt'))
+        const body = await res.json()
+
+        expect(res.status).toBe(200)
+        expect(body.format).toBe('ktl')
+        expect(body.isCompanyAccount).toBe(true)
+        expect(body.matches.map((match: { status: string, invoiceId: string | null }) => [match.status, match.invoiceId]))
+            .toEqual([['matched', 'inv-001'], ['unmatched', null]])
+        expect(prisma.invoice.findMany).toHaveBeenCalledWith(expect.objectContaining({
+            where: expect.objectContaining({ companyId: 'company-1' })
+        }))
+    })
+
+    it('leaves corrections out of the matched payments', async () => {
+        const res = await POST(importRequest('ktl-correction.txt'))
+        const body = await res.json()
+
+        expect(res.status).toBe(200)
+        expect(body.matches).toHaveLength(2)
+    })
+
+    it('marks payments booked from an earlier import', async () => {
+        prisma.payment.findMany.mockResolvedValue([{ bankArchiveId: '2601295934970001' }])
+
+        const body = await (await POST(importRequest('ktl-valid.txt'))).json()
+
+        expect(body.matches[0].status).toBe('booked')
+    })
+
+    it.each([
+        ['ktl-sum-mismatch.txt', 'sum record payment total 174281 does not match the batch (174280)'],
+        ['ktl-record-length.txt', 'record is longer than 90 characters'],
+    ])('rejects the invalid file %s', async (fileName, message) => {
+        const res = await POST(importRequest(fileName))
+
+        expect(res.status).toBe(400)
+        expect((await res.json()).error).toContain(message)
+        expect(prisma.invoice.findMany).not.toHaveBeenCalled()
+    })
+
+    it('requires a session', async () => {
+        auth.mockResolvedValue(null)
+
+        const res = await POST(importRequest('ktl-valid.txt'))
+
+        expect(res.status).toBe(401)
+    })
+})
@@ -0,0 +1,110 @@
+// Bank statement import API endpoint
+// Reads the incoming payments of an uploaded camt.053 / camt.054 or KTL file and matches them
+// to open invoices by reference and amount. Nothing is booked here, the matches are
+// reviewed first and booked through /api/bank-statements/book
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { findBankCreditMatches } from '@/lib/bank/matching'
+import { decodeBankStatement, parseBankStatement } from '@/utils/bank/parse'
+import { BankStatement } from '@/utils/bank/statement'
+import { normalizeIban } from '@/utils/eu/iban'
+
+// Largest accepted statement file, a month of daily statements fits easily
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+// POST - Parse a statement file and match its credits
+// Body: multipart form data with the statement file in "file"
+export async function POST(request: Request) {
+    // Rate limiting: 30 imports per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`bank-statements:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 30
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Get user's company (required for multi-tenant filtering)
+        const company = await prisma.company.findFirst({
+            where: {
+                userId: session.user.id
+            }
+        })
+
+        // User hasn't completed company setup yet
+        if (!company) {
+            return NextResponse.json(
+                { error: 'Please complete company setup first' },
+                { status: 400 }
+            )
+        }
+
+        const formData = await request.formData()
+        const file = formData.get('file')
+
+        if (!(file instanceof File)) {
+            return NextResponse.json(
+                { error: 'Statement file is required' },
+                { status: 400 }
+            )
+        }
+
+        if (file.size > MAX_FILE_SIZE) {
+            return NextResponse.json(
+                { error: 'Statement file is too large' },
+                { status: 413 }
+            )
+        }
+
+        // Unreadable files are the user's to fix, not server errors
+        let statement: BankStatement
+        try {
+            statement = parseBankStatement(decodeBankStatement(await file.arrayBuffer()))
+        } catch (error) {
+            return NextResponse.json(
+                { error: `Invalid statement file: ${error instanceof Error ? error.message : 'unknown error'}` },
+                { status: 400 }
+            )
+        }
+
+        const { matches, invoices } = await findBankCreditMatches(company.id, statement.credits)
+
+        return NextResponse.json({
+            format: statement.format,
+            iban: statement.iban,
+            // A statement of another account is shown with a warning
+            isCompanyAccount: !statement.iban || normalizeIban(statement.iban) === normalizeIban(company.iban),
+            matches,
+            invoices,
+        })
+    } catch (error) {
+        console.error('Error importing bank statement:', error)
+        return NextResponse.json(
+            { error: 'Failed to import bank statement' },
+            { status: 500 }
+        )
+    }
+}
@@ -5,6 +5,12 @@ import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/db/client'
 import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { isReferenceType } from '@/lib/invoices/reference'
+import { normalizeBusinessId, validateBusinessId } from '@/utils/finnish/business-id'
+import { resolveVatNumber } from '@/utils/eu/vat-number'
+import { verifyVatNumberOnSave } from '@/lib/vat/vies'
+import { normalizeBic, normalizeIban, validateBic, validateIban } from '@/utils/eu/iban'
+import { bicFromFinnishIban } from '@/utils/finnish/bank-codes'
 
 // GET - Fetch all companies for current user
 export async function GET() {
@@ -75,13 +81,53 @@ export async function POST(request: Request) {
         const body = await request.json()
 
         // Validate required fields
-        if (!body.name || !body.address || !body.postalCode || !body.city || !body.email || !body.phone || !body.bankAccount || !body.bic) {
+        if (!body.name || !body.address || !body.postalCode || !body.city || !body.email || !body.phone || !body.bankAccount) {
             return NextResponse.json(
                 { error: 'Missing required fields' },
                 { status: 400 }
             )
         }
 
+        if (body.referenceType !== undefined && !isReferenceType(body.referenceType)) {
+            return NextResponse.json(
+                { error: 'Invalid reference type' },
+                { status: 400 }
+            )
+        }
+
+        // Y-tunnus is optional (private persons), but must have a valid check digit
+        if (body.businessId && !validateBusinessId(body.businessId)) {
+            return NextResponse.json(
+                { error: 'Invalid business ID (Y-tunnus)' },
+                { status: 400 }
+            )
+        }
+
+        // A mistyped IBAN would end up in the SEPA QR code and virtual barcode of every invoice
+        if (!validateIban(body.bankAccount)) {
+            return NextResponse.json(
+                { error: 'Invalid IBAN' },
+                { status: 400 }
+            )
+        }
+
+        // BIC can be left out for Finnish accounts, it is derived from the bank ID
+        const bic = body.bic ? normalizeBic(body.bic) : bicFromFinnishIban(body.bankAccount)
+
+        if (!bic) {
+            return NextResponse.json(
+                { error: 'Missing required fields' },
+                { status: 400 }
+            )
+        }
+
+        if (!validateBic(bic)) {
+            return NextResponse.json(
+                { error: 'Invalid BIC' },
+                { status: 400 }
+            )
+        }
+
         // Check if user already has a company (optional - remove if user can have multiple)
         const existingCompany = await prisma.company.findFirst({
             where: {
@@ -96,20 +142,27 @@ export async function POST(request: Request) {
             )
         }
 
+        // Record whether the FI VAT number is registered in VIES
+        // Companies below the VAT threshold are not, so this never blocks the setup
+        const businessId = body.businessId ? normalizeBusinessId(body.businessId) : ''
+        const { vatVerifiedAt } = await verifyVatNumberOnSave(resolveVatNumber({ businessId, country: body.country || null }))
+
         // Create company linked to current user
         const company = await prisma.company.create({
             data: {
                 userId: session.user.id, // Link to authenticated user
                 name: body.name,
-                businessId: body.businessId || '', // Optional field
+                businessId, // Optional field
                 address: body.address,
                 postalCode: body.postalCode,
                 city: body.city,
                 country: body.country || 'Finland',
                 email: body.email,
                 phone: body.phone,
-                iban: body.bankAccount,
-                bic: body.bic,
+                iban: normalizeIban(body.bankAccount),
+                bic,
+                referenceType: body.referenceType || 'rf',
+                vatVerifiedAt,
             }
         })
 
@@ -121,4 +174,79 @@ export async function POST(request: Request) {
             { status: 500 }
         )
     }
-}
\ No newline at end of file
+}
+
+// PATCH - Update company settings
+// Body: { referenceType?: 'rf' | 'finnish' }
+export async function PATCH(request: Request) {
+    // Rate limiting: 20 updates per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`companies-update:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 20
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Get user's company
+        const company = await prisma.company.findFirst({
+            where: {
+                userId: session.user.id
+            }
+        })
+
+        // User hasn't completed company setup yet
+        if (!company) {
+            return NextResponse.json(
+                { error: 'Please complete company setup first' },
+                { status: 400 }
+            )
+        }
+
+        // Parse request body
+        const body = await request.json()
+
+        // Reference type applies to invoices created after the change
+        if (body.referenceType !== undefined && !isReferenceType(body.referenceType)) {
+            return NextResponse.json(
+                { error: 'Invalid reference type' },
+                { status: 400 }
+            )
+        }
+
+        const updated = await prisma.company.update({
+            where: { id: company.id },
+            data: {
+                referenceType: body.referenceType,
+            }
+        })
+
+        return NextResponse.json(updated)
+    } catch (error) {
+        console.error('Error updating company:', error)
+        return NextResponse.json(
+            { error: 'Failed to update company' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,180 @@
+// Single customer address API endpoint
+// Updates and deletes one billing or delivery address of a customer of the authenticated user's company
+// Draft invoices using a deleted address fall back to the customer's own address
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { toAddressData, validateAddressInput } from '@/lib/customers/contacts'
+
+interface RouteContext {
+    params: Promise<{
+        id: string
+        addressId: string
+    }>
+}
+
+// PUT - Replace all fields of an address
+export async function PUT(request: Request, { params }: RouteContext) {
+    // Rate limiting: 60 address changes per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`customer-addresses:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 60
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        const { id, addressId } = await params
+
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Security check: address's customer must belong to user's company
+        const existing = await prisma.customerAddress.findFirst({
+            where: {
+                id: addressId,
+                customer: {
+                    id,
+                    company: {
+                        userId: session.user.id
+                    }
+                }
+            }
+        })
+
+        if (!existing) {
+            return NextResponse.json(
+                { error: 'Address not found' },
+                { status: 404 }
+            )
+        }
+
+        // Parse request body
+        const body = await request.json()
+
+        const validationError = validateAddressInput(body)
+        if (validationError) {
+            return NextResponse.json(
+                { error: validationError },
+                { status: 400 }
+            )
+        }
+
+        const data = toAddressData(body)
+
+        const address = await prisma.$transaction(async (tx) => {
+            // Only one default address of each type per customer
+            if (data.isDefault) {
+                await tx.customerAddress.updateMany({
+                    where: {
+                        customerId: existing.customerId,
+                        type: data.type,
+                        id: { not: existing.id }
+                    },
+                    data: { isDefault: false }
+                })
+            }
+
+            return tx.customerAddress.update({
+                where: { id: existing.id },
+                data
+            })
+        })
+
+        return NextResponse.json(address)
+    } catch (error) {
+        console.error('Error updating address:', error)
+        return NextResponse.json(
+            { error: 'Failed to update address' },
+            { status: 500 }
+        )
+    }
+}
+
+// DELETE - Delete an address
+// Issued invoices keep the address in their archived PDF
+export async function DELETE(request: Request, { params }: RouteContext) {
+    // Rate limiting: 60 address changes per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`customer-addresses:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 60
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        const { id, addressId } = await params
+
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Security check: address's customer must belong to user's company
+        const address = await prisma.customerAddress.findFirst({
+            where: {
+                id: addressId,
+                customer: {
+                    id,
+                    company: {
+                        userId: session.user.id
+                    }
+                }
+            }
+        })
+
+        if (!address) {
+            return NextResponse.json(
+                { error: 'Address not found' },
+                { status: 404 }
+            )
+        }
+
+        // Invoices referencing the address are unlinked (onDelete: SetNull)
+        await prisma.customerAddress.delete({
+            where: { id: address.id }
+        })
+
+        return NextResponse.json({ deleted: true })
+    } catch (error) {
+        console.error('Error deleting address:', error)
+        return NextResponse.json(
+            { error: 'Failed to delete address' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,157 @@
+// Customer addresses API endpoint
+// Lists and adds billing and delivery addresses of one customer of the authenticated user's company
+// An invoice can use one of each, the default address of each type is preselected
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { toAddressData, validateAddressInput } from '@/lib/customers/contacts'
+
+interface RouteContext {
+    params: Promise<{
+        id: string
+    }>
+}
+
+// GET - Fetch the addresses of a customer, grouped by type with the default first
+export async function GET(_request: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params
+
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Security check: customer must belong to user's company
+        const customer = await prisma.customer.findFirst({
+            where: {
+                id,
+                company: {
+                    userId: session.user.id
+                }
+            }
+        })
+
+        if (!customer) {
+            return NextResponse.json(
+                { error: 'Customer not found' },
+                { status: 404 }
+            )
+        }
+
+        const addresses = await prisma.customerAddress.findMany({
+            where: { customerId: customer.id },
+            orderBy: [{ type: 'asc' }, { isDefault: 'desc' }, { createdAt: 'asc' }]
+        })
+
+        return NextResponse.json(addresses)
+    } catch (error) {
+        console.error('Error fetching addresses:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+// POST - Add an address to a customer
+// A new default address replaces the previous default of the same type
+export async function POST(request: Request, { params }: RouteContext) {
+    // Rate limiting: 60 address changes per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`customer-addresses:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 60
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        const { id } = await params
+
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Security check: customer must belong to user's company
+        const customer = await prisma.customer.findFirst({
+            where: {
+                id,
+                company: {
+                    userId: session.user.id
+                }
+            }
+        })
+
+        if (!customer) {
+            return NextResponse.json(
+                { error: 'Customer not found' },
+                { status: 404 }
+            )
+        }
+
+        // Parse request body
+        const body = await request.json()
+
+        const validationError = validateAddressInput(body)
+        if (validationError) {
+            return NextResponse.json(
+                { error: validationError },
+                { status: 400 }
+            )
+        }
+
+        const data = toAddressData(body)
+
+        const address = await prisma.$transaction(async (tx) => {
+            // Only one default address of each type per customer
+            if (data.isDefault) {
+                await tx.customerAddress.updateMany({
+                    where: {
+                        customerId: customer.id,
+                        type: data.type
+                    },
+                    data: { isDefault: false }
+                })
+            }
+
+            return tx.customerAddress.create({
+                data: {
+                    ...data,
+                    customerId: customer.id
+                }
+            })
+        })
+
+        return NextResponse.json(address, { status: 201 })
+    } catch (error) {
+        console.error('Error creating address:', error)
+        return NextResponse.json(
+            { error: 'Failed to create address' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,179 @@
+// Single customer contact API endpoint
+// Updates and deletes one contact person of a customer of the authenticated user's company
+// Draft invoices addressed to a deleted contact fall back to the customer's own email
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { toContactData, validateContactInput } from '@/lib/customers/contacts'
+
+interface RouteContext {
+    params: Promise<{
+        id: string
+        contactId: string
+    }>
+}
+
+// PUT - Replace all fields of a contact
+export async function PUT(request: Request, { params }: RouteContext) {
+    // Rate limiting: 60 contact changes per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`customer-contacts:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 60
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        const { id, contactId } = await params
+
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Security check: contact's customer must belong to user's company
+        const existing = await prisma.customerContact.findFirst({
+            where: {
+                id: contactId,
+                customer: {
+                    id,
+                    company: {
+                        userId: session.user.id
+                    }
+                }
+            }
+        })
+
+        if (!existing) {
+            return NextResponse.json(
+                { error: 'Contact not found' },
+                { status: 404 }
+            )
+        }
+
+        // Parse request body
+        const body = await request.json()
+
+        const validationError = validateContactInput(body)
+        if (validationError) {
+            return NextResponse.json(
+                { error: validationError },
+                { status: 400 }
+            )
+        }
+
+        const data = toContactData(body)
+
+        const contact = await prisma.$transaction(async (tx) => {
+            // Only one default contact per customer
+            if (data.isDefault) {
+                await tx.customerContact.updateMany({
+                    where: {
+                        customerId: existing.customerId,
+                        id: { not: existing.id }
+                    },
+                    data: { isDefault: false }
+                })
+            }
+
+            return tx.customerContact.update({
+                where: { id: existing.id },
+                data
+            })
+        })
+
+        return NextResponse.json(contact)
+    } catch (error) {
+        console.error('Error updating contact:', error)
+        return NextResponse.json(
+            { error: 'Failed to update contact' },
+            { status: 500 }
+        )
+    }
+}
+
+// DELETE - Delete a contact
+// Issued invoices keep the recipient in their archived PDF
+export async function DELETE(request: Request, { params }: RouteContext) {
+    // Rate limiting: 60 contact changes per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`customer-contacts:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 60
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        const { id, contactId } = await params
+
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Security check: contact's customer must belong to user's company
+        const contact = await prisma.customerContact.findFirst({
+            where: {
+                id: contactId,
+                customer: {
+                    id,
+                    company: {
+                        userId: session.user.id
+                    }
+                }
+            }
+        })
+
+        if (!contact) {
+            return NextResponse.json(
+                { error: 'Contact not found' },
+                { status: 404 }
+            )
+        }
+
+        // Invoices referencing the contact are unlinked (onDelete: SetNull)
+        await prisma.customerContact.delete({
+            where: { id: contact.id }
+        })
+
+        return NextResponse.json({ deleted: true })
+    } catch (error) {
+        console.error('Error deleting contact:', error)
+        return NextResponse.json(
+            { error: 'Failed to delete contact' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,154 @@
+// Customer contacts API endpoint
+// Lists and adds contact persons of one customer of the authenticated user's company
+// An invoice can be addressed to one of them, the default contact is preselected
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { toContactData, validateContactInput } from '@/lib/customers/contacts'
+
+interface RouteContext {
+    params: Promise<{
+        id: string
+    }>
+}
+
+// GET - Fetch the contacts of a customer, default contact first
+export async function GET(_request: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params
+
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Security check: customer must belong to user's company
+        const customer = await prisma.customer.findFirst({
+            where: {
+                id,
+                company: {
+                    userId: session.user.id
+                }
+            }
+        })
+
+        if (!customer) {
+            return NextResponse.json(
+                { error: 'Customer not found' },
+                { status: 404 }
+            )
+        }
+
+        const contacts = await prisma.customerContact.findMany({
+            where: { customerId: customer.id },
+            orderBy: [{ isDefault: 'desc' }, { name: 'asc' }]
+        })
+
+        return NextResponse.json(contacts)
+    } catch (error) {
+        console.error('Error fetching contacts:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+// POST - Add a contact person to a customer
+// A new default contact replaces the previous default
+export async function POST(request: Request, { params }: RouteContext) {
+    // Rate limiting: 60 contact changes per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`customer-contacts:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 60
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        const { id } = await params
+
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Security check: customer must belong to user's company
+        const customer = await prisma.customer.findFirst({
+            where: {
+                id,
+                company: {
+                    userId: session.user.id
+                }
+            }
+        })
+
+        if (!customer) {
+            return NextResponse.json(
+                { error: 'Customer not found' },
+                { status: 404 }
+            )
+        }
+
+        // Parse request body
+        const body = await request.json()
+
+        const validationError = validateContactInput(body)
+        if (validationError) {
+            return NextResponse.json(
+                { error: validationError },
+                { status: 400 }
+            )
+        }
+
+        const data = toContactData(body)
+
+        const contact = await prisma.$transaction(async (tx) => {
+            // Only one default contact per customer
+            if (data.isDefault) {
+                await tx.customerContact.updateMany({
+                    where: { customerId: customer.id },
+                    data: { isDefault: false }
+                })
+            }
+
+            return tx.customerContact.create({
+                data: {
+                    ...data,
+                    customerId: customer.id
+                }
+            })
+        })
+
+        return NextResponse.json(contact, { status: 201 })
+    } catch (error) {
+        console.error('Error creating contact:', error)
+        return NextResponse.json(
+            { error: 'Failed to create contact' },
+            { status: 500 }
+        )
+    }
+}
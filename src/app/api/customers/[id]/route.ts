@@ -0,0 +1,277 @@
+// Single customer API endpoint
+// Fetch, update and delete one customer of the authenticated user's company
+// Customers referenced by invoices are archived instead of deleted
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { toCustomerData, validateCustomerInput } from '@/lib/customers/customer-input'
+import { verifyVatNumberOnSave } from '@/lib/vat/vies'
+import { resolveVatNumber } from '@/utils/eu/vat-number'
+
+interface RouteContext {
+    params: Promise<{
+        id: string
+    }>
+}
+
+// GET - Fetch a single customer
+export async function GET(_request: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params
+
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Get user's company
+        const company = await prisma.company.findFirst({
+            where: {
+                userId: session.user.id
+            }
+        })
+
+        // User doesn't have a company yet
+        if (!company) {
+            return NextResponse.json(
+                { error: 'Please complete company setup first' },
+                { status: 400 }
+            )
+        }
+
+        // Security check: customer must belong to user's company
+        const customer = await prisma.customer.findFirst({
+            where: {
+                id,
+                companyId: company.id
+            }
+        })
+
+        if (!customer) {
+            return NextResponse.json(
+                { error: 'Customer not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json(customer)
+    } catch (error) {
+        console.error('Error fetching customer:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+// PUT - Replace all editable fields of a customer
+// Requires the same fields as customer creation
+// Invoices that are already issued keep their own buyer snapshot
+export async function PUT(request: Request, { params }: RouteContext) {
+    // Rate limiting: 60 customer updates per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`customers-update:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 60
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        const { id } = await params
+
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Get user's company
+        const company = await prisma.company.findFirst({
+            where: {
+                userId: session.user.id
+            }
+        })
+
+        // User doesn't have a company yet
+        if (!company) {
+            return NextResponse.json(
+                { error: 'Please complete company setup first' },
+                { status: 400 }
+            )
+        }
+
+        // Security check: customer must belong to user's company
+        const existing = await prisma.customer.findFirst({
+            where: {
+                id,
+                companyId: company.id
+            }
+        })
+
+        if (!existing) {
+            return NextResponse.json(
+                { error: 'Customer not found' },
+                { status: 404 }
+            )
+        }
+
+        // Parse request body
+        const body = await request.json()
+
+        // Validate required fields, e-invoice addresses and language
+        const validationError = validateCustomerInput(body)
+        if (validationError) {
+            return NextResponse.json(
+                { error: validationError },
+                { status: 400 }
+            )
+        }
+
+        const data = toCustomerData(body)
+
+        // A given VAT number must be registered in VIES
+        // Numbers derived from the Y-tunnus are only recorded as verified or not
+        const { check, vatVerifiedAt } = await verifyVatNumberOnSave(resolveVatNumber(data), {
+            vatNumber: resolveVatNumber(existing),
+            vatVerifiedAt: existing.vatVerifiedAt
+        })
+        if (data.vatNumber && check?.status === 'invalid') {
+            return NextResponse.json(
+                { error: 'VAT number is not registered in VIES' },
+                { status: 400 }
+            )
+        }
+
+        const customer = await prisma.customer.update({
+            where: { id: existing.id },
+            data: {
+                ...data,
+                vatVerifiedAt
+            }
+        })
+
+        return NextResponse.json(customer)
+    } catch (error) {
+        console.error('Error updating customer:', error)
+        return NextResponse.json(
+            { error: 'Failed to update customer' },
+            { status: 500 }
+        )
+    }
+}
+
+// DELETE - Delete a customer
+// Customers with invoices are archived instead: invoices must keep their buyer,
+// so the customer only disappears from the customer list and invoice form
+export async function DELETE(request: Request, { params }: RouteContext) {
+    // Rate limiting: 20 customer deletions per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`customers-delete:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 20
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        const { id } = await params
+
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Get user's company
+        const company = await prisma.company.findFirst({
+            where: {
+                userId: session.user.id
+            }
+        })
+
+        // User doesn't have a company yet
+        if (!company) {
+            return NextResponse.json(
+                { error: 'Please complete company setup first' },
+                { status: 400 }
+            )
+        }
+
+        // Security check: customer must belong to user's company
+        const customer = await prisma.customer.findFirst({
+            where: {
+                id,
+                companyId: company.id
+            },
+            include: {
+                _count: {
+                    select: { invoices: true }
+                }
+            }
+        })
+
+        if (!customer) {
+            return NextResponse.json(
+                { error: 'Customer not found' },
+                { status: 404 }
+            )
+        }
+
+        // Invoices reference the customer without cascade, so archive it
+        if (customer._count.invoices > 0) {
+            await prisma.customer.update({
+                where: { id: customer.id },
+                data: { archivedAt: customer.archivedAt ?? new Date() }
+            })
+
+            return NextResponse.json({ deleted: false, archived: true })
+        }
+
+        await prisma.customer.delete({
+            where: { id: customer.id }
+        })
+
+        return NextResponse.json({ deleted: true, archived: false })
+    } catch (error) {
+        console.error('Error deleting customer:', error)
+        return NextResponse.json(
+            { error: 'Failed to delete customer' },
+            { status: 500 }
+        )
+    }
+}
@@ -6,6 +6,9 @@ import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/db/client'
 import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { toCustomerData, validateCustomerInput } from '@/lib/customers/customer-input'
+import { verifyVatNumberOnSave } from '@/lib/vat/vies'
+import { resolveVatNumber } from '@/utils/eu/vat-number'
 
 // GET - Fetch all customers for current user's company
 export async function GET() {
@@ -37,9 +40,20 @@ export async function GET() {
         }
 
         // Fetch customers belonging to user's company
+        // Archived customers are kept for their invoices but can't be invoiced again
+        // Contacts and addresses are listed for the invoice form's recipient selection
         const customers = await prisma.customer.findMany({
             where: {
-                companyId: company.id
+                companyId: company.id,
+                archivedAt: null
+            },
+            include: {
+                contacts: {
+                    orderBy: [{ isDefault: 'desc' }, { name: 'asc' }]
+                },
+                addresses: {
+                    orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }]
+                }
             },
             orderBy: {
                 createdAt: 'desc'
@@ -104,10 +118,23 @@ export async function POST(request: Request) {
         // Parse request body
         const body = await request.json()
 
-        // Validate required fields
-        if (!body.name || !body.address || !body.postalCode || !body.city || !body.email) {
+        // Validate required fields, e-invoice addresses and language
+        const validationError = validateCustomerInput(body)
+        if (validationError) {
+            return NextResponse.json(
+                { error: validationError },
+                { status: 400 }
+            )
+        }
+
+        const data = toCustomerData(body)
+
+        // A given VAT number must be registered in VIES
+        // Numbers derived from the Y-tunnus are only recorded as verified or not
+        const { check, vatVerifiedAt } = await verifyVatNumberOnSave(resolveVatNumber(data))
+        if (data.vatNumber && check?.status === 'invalid') {
             return NextResponse.json(
-                { error: 'Missing required fields' },
+                { error: 'VAT number is not registered in VIES' },
                 { status: 400 }
             )
         }
@@ -116,14 +143,8 @@ export async function POST(request: Request) {
         const customer = await prisma.customer.create({
             data: {
                 companyId: company.id, // Link to company
-                name: body.name,
-                businessId: body.businessId || null,
-                address: body.address,
-                postalCode: body.postalCode,
-                city: body.city,
-                country: body.country || 'Finland',
-                email: body.email,
-                phone: body.phone || null,
+                ...data,
+                vatVerifiedAt,
             }
         })
 
@@ -0,0 +1,91 @@
+// Factur-X download endpoint
+// Returns the invoice as Factur-X (EN 16931 profile) CII XML, the XML embedded in hybrid PDF/A-3 invoices
+// Invoices failing the EN 16931 business rules are rejected with the failed rules
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { generateCIIXML } from '@/utils/einvoice/generateCIIXML'
+import { validateInvoiceEN16931 } from '@/utils/einvoice/en16931'
+import { INVOICE_RECIPIENT_INCLUDE, withInvoiceRecipient } from '@/lib/invoices/recipient'
+
+interface RouteContext {
+    params: Promise<{
+        id: string
+    }>
+}
+
+// GET - Download invoice as CII XML
+export async function GET(_request: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params
+
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Fetch invoice only if it belongs to user's company
+        const invoice = await prisma.invoice.findFirst({
+            where: {
+                id,
+                company: {
+                    userId: session.user.id
+                }
+            },
+            include: {
+                company: true,
+                customer: true,
+                ...INVOICE_RECIPIENT_INCLUDE,
+                lineItems: {
+                    orderBy: { order: 'asc' }
+                },
+                creditedInvoice: {
+                    select: { invoiceNumber: true, invoiceDate: true }
+                }
+            }
+        })
+
+        if (!invoice) {
+            return NextResponse.json(
+                { error: 'Invoice not found' },
+                { status: 404 }
+            )
+        }
+
+        // Addressed to the contact and addresses selected on the invoice
+        const addressedInvoice = withInvoiceRecipient(invoice)
+
+        const validationErrors = validateInvoiceEN16931(addressedInvoice)
+        if (validationErrors.length > 0) {
+            return NextResponse.json(
+                {
+                    error: 'Invoice does not pass e-invoice validation',
+                    validationErrors
+                },
+                { status: 422 }
+            )
+        }
+
+        const xml = generateCIIXML(addressedInvoice)
+
+        return new NextResponse(xml, {
+            headers: {
+                'Content-Type': 'application/xml; charset=utf-8',
+                'Content-Disposition': `attachment; filename="Factur-X_${invoice.invoiceNumber}.xml"`,
+            }
+        })
+    } catch (error) {
+        console.error('Error generating Factur-X invoice:', error)
+        return NextResponse.json(
+            { error: 'Failed to generate Factur-X invoice' },
+            { status: 500 }
+        )
+    }
+}
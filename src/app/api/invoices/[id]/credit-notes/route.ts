@@ -0,0 +1,264 @@
+// Credit notes API endpoint
+// Lists and creates credit notes (hyvityslasku) for an issued invoice
+// Creating a credit note updates the original invoice's open balance and status
+// and archives the credit note PDF
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { calculateInvoiceTotals } from '@/lib/invoices/totals'
+import { generateDocumentNumber } from '@/lib/invoices/numbering'
+import { settleInvoiceStatus } from '@/lib/invoices/settlement'
+import { buildCreditNoteLineItems, CREDIT_NOTE_TYPE, CREDITABLE_STATUSES } from '@/lib/invoices/credit-notes'
+import { archiveInvoice, ARCHIVE_TRANSACTION_TIMEOUT_MS } from '@/lib/invoices/archive'
+
+interface RouteContext {
+    params: Promise<{
+        id: string
+    }>
+}
+
+// GET - Fetch credit notes issued against an invoice
+export async function GET(_request: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params
+
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Fetch invoice only if it belongs to user's company
+        const invoice = await prisma.invoice.findFirst({
+            where: {
+                id,
+                company: {
+                    userId: session.user.id
+                }
+            },
+            include: {
+                creditNotes: {
+                    orderBy: { createdAt: 'asc' },
+                    include: {
+                        lineItems: {
+                            orderBy: { order: 'asc' }
+                        }
+                    }
+                }
+            }
+        })
+
+        if (!invoice) {
+            return NextResponse.json(
+                { error: 'Invoice not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json(invoice.creditNotes)
+    } catch (error) {
+        console.error('Error fetching credit notes:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+// POST - Create credit note for selected line items
+// Body: { lineItems: [{ lineItemId: string, quantity?: number }], notes?: string }
+export async function POST(request: Request, { params }: RouteContext) {
+    // Rate limiting: 30 credit notes per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`credit-notes:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 30
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        const { id } = await params
+
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        const userId = session.user.id
+
+        // Get user's company (required for multi-tenant filtering)
+        const company = await prisma.company.findFirst({
+            where: {
+                userId
+            }
+        })
+
+        // User hasn't completed company setup yet
+        if (!company) {
+            return NextResponse.json(
+                { error: 'Please complete company setup first' },
+                { status: 400 }
+            )
+        }
+
+        // Security check: original must be an invoice of user's company
+        const original = await prisma.invoice.findFirst({
+            where: {
+                id,
+                companyId: company.id,
+                type: 'invoice'
+            }
+        })
+
+        if (!original) {
+            return NextResponse.json(
+                { error: 'Invoice not found' },
+                { status: 404 }
+            )
+        }
+
+        // Only issued invoices can be credited
+        if (!CREDITABLE_STATUSES.includes(original.status)) {
+            return NextResponse.json(
+                { error: `Invoices with status ${original.status} cannot be credited` },
+                { status: 409 }
+            )
+        }
+
+        // Parse request body
+        const body = await request.json()
+
+        const today = new Date()
+
+        // Create credit note and update the original in one transaction
+        const creditNote = await prisma.$transaction(async (tx) => {
+            // Writing the original first locks it, so concurrent credit notes of the same
+            // invoice run one after another and each sees the lines credited before it
+            const current = await tx.invoice.update({
+                where: { id: original.id },
+                data: { updatedAt: today },
+                include: {
+                    lineItems: {
+                        orderBy: { order: 'asc' },
+                        include: {
+                            creditLineItems: {
+                                select: { quantity: true }
+                            }
+                        }
+                    }
+                }
+            })
+
+            if (!CREDITABLE_STATUSES.includes(current.status)) {
+                return { error: `Invoices with status ${current.status} cannot be credited`, status: 409 }
+            }
+
+            // Copy selected lines with negative quantities
+            const result = buildCreditNoteLineItems(current.lineItems, body.lineItems)
+            if ('error' in result) {
+                return { error: result.error, status: 400 }
+            }
+
+            const totals = calculateInvoiceTotals(result.lineItems)
+
+            // Credit notes have their own number series (HYV-001, ...)
+            const invoiceNumber = await generateDocumentNumber(company.id, CREDIT_NOTE_TYPE, tx)
+
+            const created = await tx.invoice.create({
+                data: {
+                    invoiceNumber,
+                    type: CREDIT_NOTE_TYPE,
+                    creditedInvoiceId: original.id,
+                    companyId: company.id,
+                    customerId: original.customerId,
+                    invoiceDate: today,
+                    dueDate: today,
+                    rfReference: original.rfReference,  // Credit refers to the original payment reference
+                    subtotalCents: totals.subtotalCents,
+                    vatAmountCents: totals.vatAmountCents,
+                    totalCents: totals.totalCents,
+                    status: 'sent',  // Credit notes are issued immediately
+                    notes: body.notes || null,
+                    vatTreatment: original.vatTreatment,      // Credited lines keep the VAT treatment
+                    deliveryMethod: original.deliveryMethod,
+                    // Sent to the same contact and addresses as the original
+                    contactId: original.contactId,
+                    billingAddressId: original.billingAddressId,
+                    deliveryAddressId: original.deliveryAddressId,
+                    lineItems: {
+                        create: result.lineItems.map((item, index) => ({
+                            description: item.description,
+                            quantity: item.quantity,
+                            unitPriceCents: item.unitPriceCents,
+                            vatRate: item.vatRate,
+                            totalCents: totals.lineTotalsCents[index],
+                            creditedLineItemId: item.creditedLineItemId,
+                            order: index + 1,
+                        })),
+                    },
+                    statusChanges: {
+                        create: {
+                            userId,
+                            fromStatus: 'draft',
+                            toStatus: 'sent',
+                            note: `Hyvitys laskulle ${original.invoiceNumber}`,
+                        }
+                    },
+                },
+                include: {
+                    lineItems: {
+                        orderBy: { order: 'asc' }
+                    }
+                }
+            })
+
+            // Fully credited invoice has nothing left to pay, a credit covering
+            // the unpaid rest of a partially paid invoice settles it as paid
+            await settleInvoiceStatus(original.id, userId, `Hyvityslasku ${invoiceNumber}`, tx)
+
+            // Credit notes are issued immediately, archive their PDF right away
+            await archiveInvoice(created.id, tx)
+
+            return created
+        }, {
+            timeout: ARCHIVE_TRANSACTION_TIMEOUT_MS
+        })
+
+        if ('error' in creditNote) {
+            return NextResponse.json(
+                { error: creditNote.error },
+                { status: creditNote.status }
+            )
+        }
+
+        return NextResponse.json(creditNote, { status: 201 })
+    } catch (error) {
+        console.error('Error creating credit note:', error)
+        return NextResponse.json(
+            { error: 'Failed to create credit note' },
+            { status: 500 }
+        )
+    }
+}
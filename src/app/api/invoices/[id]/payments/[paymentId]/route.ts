@@ -0,0 +1,90 @@
+// Single invoice payment API endpoint
+// Removes a payment recorded by mistake, the invoice status follows the remaining payments
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { formatCents } from '@/lib/money'
+import { settleInvoiceStatus } from '@/lib/invoices/settlement'
+
+interface RouteContext {
+    params: Promise<{
+        id: string
+        paymentId: string
+    }>
+}
+
+// DELETE - Remove a payment
+export async function DELETE(request: Request, { params }: RouteContext) {
+    // Rate limiting: 60 payment changes per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`invoice-payments:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 60
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        const { id, paymentId } = await params
+
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        const userId = session.user.id
+
+        // Security check: payment's invoice must belong to user's company
+        const payment = await prisma.payment.findFirst({
+            where: {
+                id: paymentId,
+                invoice: {
+                    id,
+                    company: {
+                        userId
+                    }
+                }
+            }
+        })
+
+        if (!payment) {
+            return NextResponse.json(
+                { error: 'Payment not found' },
+                { status: 404 }
+            )
+        }
+
+        // Remove the payment and update the invoice status in one transaction
+        const status = await prisma.$transaction(async (tx) => {
+            await tx.payment.delete({
+                where: { id: payment.id }
+            })
+
+            return settleInvoiceStatus(payment.invoiceId, userId, `Maksu ${formatCents(payment.amountCents)} € poistettu`, tx)
+        })
+
+        return NextResponse.json({ deleted: true, status })
+    } catch (error) {
+        console.error('Error deleting payment:', error)
+        return NextResponse.json(
+            { error: 'Failed to delete payment' },
+            { status: 500 }
+        )
+    }
+}
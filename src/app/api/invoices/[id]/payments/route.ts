@@ -0,0 +1,171 @@
+// Invoice payments API endpoint
+// Lists and records payments received for an issued invoice
+// Recording a payment moves the invoice to partially paid or paid (see lib/invoices/settlement)
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { formatCents } from '@/lib/money'
+import { calculateOpenBalanceCents, calculatePaidCents } from '@/lib/invoices/balance'
+import { PAYABLE_STATUSES, toPaymentData, validatePaymentInput } from '@/lib/invoices/payments'
+import { settleInvoiceStatus } from '@/lib/invoices/settlement'
+
+interface RouteContext {
+    params: Promise<{
+        id: string
+    }>
+}
+
+// GET - Fetch payments of an invoice with the paid total and open balance
+export async function GET(_request: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params
+
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Fetch invoice only if it belongs to user's company
+        const invoice = await prisma.invoice.findFirst({
+            where: {
+                id,
+                company: {
+                    userId: session.user.id
+                }
+            },
+            include: {
+                payments: {
+                    orderBy: [{ paymentDate: 'asc' }, { createdAt: 'asc' }]
+                },
+                creditNotes: {
+                    select: { totalCents: true }
+                }
+            }
+        })
+
+        if (!invoice) {
+            return NextResponse.json(
+                { error: 'Invoice not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json({
+            payments: invoice.payments,
+            paidCents: calculatePaidCents(invoice.payments),
+            openBalanceCents: calculateOpenBalanceCents(invoice, invoice.creditNotes, invoice.payments),
+        })
+    } catch (error) {
+        console.error('Error fetching payments:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+// POST - Record a payment
+// Body: { amountCents: number, paymentDate: 'YYYY-MM-DD', method?: string, reference?: string, note?: string }
+export async function POST(request: Request, { params }: RouteContext) {
+    // Rate limiting: 60 payment changes per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`invoice-payments:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 60
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        const { id } = await params
+
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        const userId = session.user.id
+
+        // Security check: invoice must belong to user's company
+        const invoice = await prisma.invoice.findFirst({
+            where: {
+                id,
+                type: 'invoice',
+                company: {
+                    userId
+                }
+            }
+        })
+
+        if (!invoice) {
+            return NextResponse.json(
+                { error: 'Invoice not found' },
+                { status: 404 }
+            )
+        }
+
+        // Only issued invoices are paid
+        if (!PAYABLE_STATUSES.includes(invoice.status)) {
+            return NextResponse.json(
+                { error: `Payments cannot be recorded for invoices with status ${invoice.status}` },
+                { status: 409 }
+            )
+        }
+
+        // Parse request body
+        const body = await request.json()
+
+        const validationError = validatePaymentInput(body)
+        if (validationError) {
+            return NextResponse.json(
+                { error: validationError },
+                { status: 400 }
+            )
+        }
+
+        // Record the payment and update the invoice status in one transaction
+        const payment = await prisma.$transaction(async (tx) => {
+            const created = await tx.payment.create({
+                data: {
+                    invoiceId: invoice.id,
+                    companyId: invoice.companyId,
+                    ...toPaymentData(body),
+                }
+            })
+
+            await settleInvoiceStatus(invoice.id, userId, `Maksu ${formatCents(created.amountCents)} €`, tx)
+
+            return created
+        })
+
+        return NextResponse.json(payment, { status: 201 })
+    } catch (error) {
+        console.error('Error recording payment:', error)
+        return NextResponse.json(
+            { error: 'Failed to record payment' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,128 @@
+// PDF download endpoint
+// Renders the invoice PDF on the server with the same layout as the download button
+// ?format=finvoice or ?format=cii returns a hybrid PDF/A-3 with the XML embedded
+// Issued invoices are served from the PDF archive as they were sent, regardless of format
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { renderStoredInvoicePDF } from '@/lib/invoices/pdf'
+import { INVOICE_RECIPIENT_INCLUDE, withInvoiceRecipient } from '@/lib/invoices/recipient'
+import { verifyInvoiceArchive } from '@/lib/invoices/archive'
+import { validateInvoiceEN16931 } from '@/utils/einvoice/en16931'
+import { isHybridFormat } from '@/utils/pdf/pdfa'
+import { getInvoicePDFFileName } from '@/utils/pdf/renderInvoicePDF'
+
+interface RouteContext {
+    params: Promise<{
+        id: string
+    }>
+}
+
+// GET - Download invoice as PDF
+export async function GET(request: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params
+
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        const format = new URL(request.url).searchParams.get('format')
+        if (format !== null && !isHybridFormat(format)) {
+            return NextResponse.json(
+                { error: 'Invalid format' },
+                { status: 400 }
+            )
+        }
+
+        // Fetch invoice only if it belongs to user's company
+        const invoice = await prisma.invoice.findFirst({
+            where: {
+                id,
+                company: {
+                    userId: session.user.id
+                }
+            },
+            include: {
+                company: true,
+                customer: true,
+                ...INVOICE_RECIPIENT_INCLUDE,
+                lineItems: {
+                    orderBy: { order: 'asc' }
+                },
+                creditedInvoice: {
+                    select: { invoiceNumber: true, invoiceDate: true }
+                },
+                archive: true
+            }
+        })
+
+        if (!invoice) {
+            return NextResponse.json(
+                { error: 'Invoice not found' },
+                { status: 404 }
+            )
+        }
+
+        // Issued invoice: serve the archived file, never re-render
+        if (invoice.archive) {
+            // A modified archive must not be handed out as the original
+            if (!verifyInvoiceArchive(invoice.archive)) {
+                console.error(`Archived PDF checksum mismatch for invoice ${invoice.id}`)
+                return NextResponse.json(
+                    { error: 'Archived PDF is corrupted' },
+                    { status: 500 }
+                )
+            }
+
+            return new NextResponse(Buffer.from(invoice.archive.pdf), {
+                headers: {
+                    'Content-Type': 'application/pdf',
+                    'Content-Disposition': `attachment; filename="${invoice.archive.fileName}"`,
+                    'Content-Length': String(invoice.archive.pdf.length),
+                }
+            })
+        }
+
+        // Addressed to the contact and addresses selected on the invoice
+        const addressedInvoice = withInvoiceRecipient(invoice)
+
+        // Finvoice 3.0 and Factur-X embed an EN 16931 invoice, same rules as the XML downloads
+        if (format) {
+            const validationErrors = validateInvoiceEN16931(addressedInvoice)
+            if (validationErrors.length > 0) {
+                return NextResponse.json(
+                    {
+                        error: 'Invoice does not pass e-invoice validation',
+                        validationErrors
+                    },
+                    { status: 422 }
+                )
+            }
+        }
+
+        const pdf = await renderStoredInvoicePDF(addressedInvoice, format ?? undefined)
+
+        return new NextResponse(Buffer.from(pdf), {
+            headers: {
+                'Content-Type': 'application/pdf',
+                'Content-Disposition': `attachment; filename="${getInvoicePDFFileName(invoice)}"`,
+                'Content-Length': String(pdf.length),
+            }
+        })
+    } catch (error) {
+        console.error('Error generating invoice PDF:', error)
+        return NextResponse.json(
+            { error: 'Failed to generate invoice PDF' },
+            { status: 500 }
+        )
+    }
+}
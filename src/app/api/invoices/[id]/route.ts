@@ -0,0 +1,384 @@
+// Single invoice API endpoint
+// Handles fetching and updating one invoice of the authenticated user's company
+// Draft invoices can be fully edited, sent invoices keep their financial fields locked
+// Status is not editable here, use POST /api/invoices/[id]/status instead
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { calculateInvoiceTotals, clientTotalsMatch, validateLineItems } from '@/lib/invoices/totals'
+import { isDeliveryMethod } from '@/lib/invoices/delivery'
+import { validateInvoiceDates } from '@/lib/invoices/payment-terms'
+import { RECIPIENT_FIELDS, toRecipientSelection, validateRecipientSelection } from '@/lib/invoices/recipient'
+import { isVatRateAllowed, isVatTreatment } from '@/utils/finnish/vat-rates'
+
+interface RouteContext {
+    params: Promise<{
+        id: string
+    }>
+}
+
+// LineItem type for invoice updates
+type LineItemInput = {
+    description: string
+    quantity: number
+    unitPriceCents: number  // Price per unit in cents
+    vatRate: number
+}
+
+// Fields that affect the amount, payer or payment details of an invoice
+// These can only be changed while the invoice is still a draft
+const FINANCIAL_FIELDS = [
+    'customerId',
+    'invoiceDate',
+    'dueDate',
+    'subtotalCents',
+    'vatAmountCents',
+    'totalCents',
+    'lineItems',
+    'vatTreatment',
+    ...RECIPIENT_FIELDS,
+] as const
+
+// GET - Fetch a single invoice with company, customer and line items
+export async function GET(_request: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params
+
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Get user's company (required for multi-tenant filtering)
+        const company = await prisma.company.findFirst({
+            where: {
+                userId: session.user.id
+            }
+        })
+
+        // User hasn't completed company setup yet
+        if (!company) {
+            return NextResponse.json(
+                { error: 'Please complete company setup first' },
+                { status: 400 }
+            )
+        }
+
+        // Fetch invoice only if it belongs to user's company
+        const invoice = await prisma.invoice.findFirst({
+            where: {
+                id,
+                companyId: company.id
+            },
+            include: {
+                company: true,
+                customer: true,
+                lineItems: {
+                    orderBy: { order: 'asc' }
+                }
+            }
+        })
+
+        if (!invoice) {
+            return NextResponse.json(
+                { error: 'Invoice not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json(invoice)
+    } catch (error) {
+        console.error('Error fetching invoice:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+// PUT - Replace all editable fields of a draft invoice
+// Requires customer, dates and line items, same as invoice creation
+export async function PUT(request: Request, context: RouteContext) {
+    return updateInvoice(request, context, true)
+}
+
+// PATCH - Update only the fields present in the request body
+// Non-financial fields (notes, buyer reference, delivery method) can be changed after the invoice has been sent
+export async function PATCH(request: Request, context: RouteContext) {
+    return updateInvoice(request, context, false)
+}
+
+// Shared update logic for PUT and PATCH
+// Line items are replaced as a whole inside the same update query
+async function updateInvoice(request: Request, { params }: RouteContext, requireAll: boolean) {
+    // Rate limiting: 60 invoice updates per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`invoices-update:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 60
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        const { id } = await params
+
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Get user's company (required for multi-tenant filtering)
+        const company = await prisma.company.findFirst({
+            where: {
+                userId: session.user.id
+            }
+        })
+
+        // User hasn't completed company setup yet
+        if (!company) {
+            return NextResponse.json(
+                { error: 'Please complete company setup first' },
+                { status: 400 }
+            )
+        }
+
+        // Security check: invoice must belong to user's company
+        const existing = await prisma.invoice.findFirst({
+            where: {
+                id,
+                companyId: company.id
+            },
+            include: {
+                lineItems: {
+                    orderBy: { order: 'asc' }
+                }
+            }
+        })
+
+        if (!existing) {
+            return NextResponse.json(
+                { error: 'Invoice not found' },
+                { status: 404 }
+            )
+        }
+
+        // Parse request body (invoice data from frontend)
+        const body = await request.json()
+
+        // Security check: Validate companyId matches user's company
+        if (body.companyId && body.companyId !== company.id) {
+            return NextResponse.json(
+                { error: 'Invalid company ID' },
+                { status: 403 }
+            )
+        }
+
+        // Full replacement needs the same fields as invoice creation
+        if (requireAll && (!body.customerId || !body.invoiceDate || !body.dueDate || !Array.isArray(body.lineItems))) {
+            return NextResponse.json(
+                { error: 'Missing required fields' },
+                { status: 400 }
+            )
+        }
+
+        // Sent invoices are locked: amounts, payer and dates can no longer change
+        const changesFinancialFields = FINANCIAL_FIELDS.some(field => body[field] !== undefined)
+        if (existing.status !== 'draft' && (requireAll || changesFinancialFields)) {
+            return NextResponse.json(
+                { error: 'Only draft invoices can be edited' },
+                { status: 409 }
+            )
+        }
+
+        // Security check: Validate new customer belongs to user's company
+        if (body.customerId !== undefined) {
+            const customer = await prisma.customer.findUnique({
+                where: { id: body.customerId }
+            })
+
+            if (!customer || customer.companyId !== company.id) {
+                return NextResponse.json(
+                    { error: 'Invalid customer ID' },
+                    { status: 403 }
+                )
+            }
+        }
+
+        // Contact and addresses must be the customer's own
+        // A new customer drops the previous customer's selections unless new ones are given
+        const customerId: string = body.customerId ?? existing.customerId
+        const recipient = toRecipientSelection(
+            body,
+            customerId === existing.customerId
+                ? existing
+                : { contactId: null, billingAddressId: null, deliveryAddressId: null }
+        )
+        const recipientError = await validateRecipientSelection(customerId, recipient)
+        if (recipientError) {
+            return NextResponse.json(
+                { error: recipientError },
+                { status: 400 }
+            )
+        }
+
+        const dateError = validateInvoiceDates(body, requireAll)
+        if (dateError) {
+            return NextResponse.json(
+                { error: dateError },
+                { status: 400 }
+            )
+        }
+
+        // Validate new line items before calculating amounts
+        const replacesLineItems = body.lineItems !== undefined
+        if (replacesLineItems) {
+            const lineItemError = validateLineItems(body.lineItems)
+            if (lineItemError) {
+                return NextResponse.json(
+                    { error: lineItemError },
+                    { status: 400 }
+                )
+            }
+        }
+
+        // Validate VAT treatment and delivery method when given
+        if (body.vatTreatment !== undefined && !isVatTreatment(body.vatTreatment)) {
+            return NextResponse.json(
+                { error: 'Invalid VAT treatment' },
+                { status: 400 }
+            )
+        }
+        if (body.deliveryMethod !== undefined && !isDeliveryMethod(body.deliveryMethod)) {
+            return NextResponse.json(
+                { error: 'Invalid delivery method' },
+                { status: 400 }
+            )
+        }
+
+        // Server calculates all amounts from new or stored line items
+        // Client totals are only cross-checked, never stored as such
+        const lineItems: LineItemInput[] = replacesLineItems ? body.lineItems : existing.lineItems
+
+        // Reverse charge and export invoices carry no Finnish VAT
+        const vatTreatment = body.vatTreatment ?? existing.vatTreatment
+        if (lineItems.some(item => !isVatRateAllowed(item.vatRate, vatTreatment))) {
+            return NextResponse.json(
+                { error: 'Reverse charge and export invoices must have VAT rate 0' },
+                { status: 400 }
+            )
+        }
+        const totals = calculateInvoiceTotals(lineItems)
+
+        if (!clientTotalsMatch(body, totals)) {
+            return NextResponse.json(
+                {
+                    error: 'Invoice totals do not match line items',
+                    expected: {
+                        subtotalCents: totals.subtotalCents,
+                        vatAmountCents: totals.vatAmountCents,
+                        totalCents: totals.totalCents
+                    }
+                },
+                { status: 422 }
+            )
+        }
+
+        // Update invoice and replace line items in one transaction
+        // Invoice number and RF reference are kept, so no number is burned
+        const invoice = await prisma.$transaction(async (tx) => {
+            // The status condition guards against a concurrent transition,
+            // e.g. a draft being sent and archived while it is edited
+            const result = await tx.invoice.updateMany({
+                where: {
+                    id: existing.id,
+                    status: existing.status
+                },
+                data: {
+                    customerId: body.customerId,
+                    invoiceDate: body.invoiceDate !== undefined ? new Date(body.invoiceDate) : undefined,
+                    dueDate: body.dueDate !== undefined ? new Date(body.dueDate) : undefined,
+                    // Stored totals only change together with the line items
+                    subtotalCents: replacesLineItems ? totals.subtotalCents : undefined,
+                    vatAmountCents: replacesLineItems ? totals.vatAmountCents : undefined,
+                    totalCents: replacesLineItems ? totals.totalCents : undefined,
+                    buyerReference: body.buyerReference !== undefined ? body.buyerReference || null : undefined,
+                    notes: body.notes !== undefined ? body.notes || null : undefined,
+                    vatTreatment: body.vatTreatment,
+                    deliveryMethod: body.deliveryMethod,
+                    ...recipient,
+                }
+            })
+
+            if (result.count === 0) {
+                return null
+            }
+
+            if (replacesLineItems) {
+                await tx.lineItem.deleteMany({
+                    where: { invoiceId: existing.id }
+                })
+                await tx.lineItem.createMany({
+                    data: lineItems.map((item, index) => ({
+                        invoiceId: existing.id,
+                        description: item.description,
+                        quantity: item.quantity,
+                        unitPriceCents: item.unitPriceCents,
+                        vatRate: item.vatRate,
+                        totalCents: totals.lineTotalsCents[index],
+                        order: index + 1,  // Maintain line item order
+                    }))
+                })
+            }
+
+            // Include related data in response for immediate display
+            return tx.invoice.findUnique({
+                where: { id: existing.id },
+                include: {
+                    company: true,
+                    customer: true,
+                    lineItems: {
+                        orderBy: { order: 'asc' }
+                    },
+                }
+            })
+        })
+
+        if (!invoice) {
+            return NextResponse.json(
+                { error: 'Invoice status was changed by another request' },
+                { status: 409 }
+            )
+        }
+
+        return NextResponse.json(invoice)
+    } catch (error) {
+        console.error('Error updating invoice:', error)
+        return NextResponse.json(
+            { error: 'Failed to update invoice' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,248 @@
+// Invoice status transition endpoint
+// Moves an invoice through its lifecycle (draft → sent → paid ...)
+// Rejects transitions not allowed by the status machine and records each change
+// Payment and credit statuses are not set here, they follow payments and credit notes
+// E-invoices are validated against EN 16931 before they can be marked sent
+// Issuing an invoice archives its PDF (see lib/invoices/archive)
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { canTransition, getAllowedTransitions, isInvoiceStatus, SETTLEMENT_STATUSES } from '@/lib/invoices/status'
+import { validateInvoiceEN16931 } from '@/utils/einvoice/en16931'
+import { hasEInvoiceAddress } from '@/utils/einvoice/addresses'
+import { archiveInvoice, ARCHIVE_TRANSACTION_TIMEOUT_MS } from '@/lib/invoices/archive'
+import { INVOICE_RECIPIENT_INCLUDE, withInvoiceRecipient } from '@/lib/invoices/recipient'
+
+interface RouteContext {
+    params: Promise<{
+        id: string
+    }>
+}
+
+// GET - Fetch status history and currently allowed transitions
+export async function GET(_request: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params
+
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Fetch invoice only if it belongs to user's company
+        const invoice = await prisma.invoice.findFirst({
+            where: {
+                id,
+                company: {
+                    userId: session.user.id
+                }
+            },
+            include: {
+                statusChanges: {
+                    orderBy: { createdAt: 'asc' },
+                    include: {
+                        user: {
+                            select: { id: true, name: true, email: true }
+                        }
+                    }
+                }
+            }
+        })
+
+        if (!invoice) {
+            return NextResponse.json(
+                { error: 'Invoice not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json({
+            status: invoice.status,
+            allowedTransitions: getAllowedTransitions(invoice.status),
+            history: invoice.statusChanges,
+        })
+    } catch (error) {
+        console.error('Error fetching invoice status:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+// POST - Transition invoice to a new status
+// Body: { status: string, note?: string }
+export async function POST(request: Request, { params }: RouteContext) {
+    // Rate limiting: 60 status changes per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`invoices-status:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 60
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        const { id } = await params
+
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        const userId = session.user.id
+
+        // Parse request body
+        const body = await request.json()
+
+        // Validate requested status is a known one
+        if (!isInvoiceStatus(body.status)) {
+            return NextResponse.json(
+                { error: 'Invalid status' },
+                { status: 400 }
+            )
+        }
+
+        // Security check: invoice must belong to user's company
+        const invoice = await prisma.invoice.findFirst({
+            where: {
+                id,
+                company: {
+                    userId
+                }
+            },
+            include: {
+                company: true,
+                customer: true,
+                ...INVOICE_RECIPIENT_INCLUDE,
+                lineItems: {
+                    orderBy: { order: 'asc' }
+                }
+            }
+        })
+
+        if (!invoice) {
+            return NextResponse.json(
+                { error: 'Invoice not found' },
+                { status: 404 }
+            )
+        }
+
+        // Credit notes are issued once and have no lifecycle of their own
+        if (invoice.type === 'credit_note') {
+            return NextResponse.json(
+                { error: 'Credit note status cannot be changed' },
+                { status: 409 }
+            )
+        }
+
+        // Paid and credited follow the recorded payments and credit notes
+        if (SETTLEMENT_STATUSES.includes(body.status)) {
+            return NextResponse.json(
+                { error: `Status ${body.status} follows the payments and credit notes of the invoice, record a payment or issue a credit note instead` },
+                { status: 409 }
+            )
+        }
+
+        // Enforce the status machine
+        if (!canTransition(invoice.status, body.status)) {
+            return NextResponse.json(
+                {
+                    error: `Cannot change status from ${invoice.status} to ${body.status}`,
+                    allowedTransitions: getAllowedTransitions(invoice.status)
+                },
+                { status: 409 }
+            )
+        }
+
+        // E-invoices must pass the EN 16931 business rules before they are sent
+        if (body.status === 'sent' && hasEInvoiceAddress(invoice.customer)) {
+            const validationErrors = validateInvoiceEN16931(withInvoiceRecipient(invoice))
+            if (validationErrors.length > 0) {
+                return NextResponse.json(
+                    {
+                        error: 'Invoice does not pass e-invoice validation',
+                        validationErrors
+                    },
+                    { status: 422 }
+                )
+            }
+        }
+
+        // Update status and record the change in one transaction
+        // The status condition guards against a concurrent transition
+        const updated = await prisma.$transaction(async (tx) => {
+            const result = await tx.invoice.updateMany({
+                where: {
+                    id: invoice.id,
+                    status: invoice.status
+                },
+                data: {
+                    status: body.status
+                }
+            })
+
+            if (result.count === 0) {
+                return null
+            }
+
+            await tx.invoiceStatusChange.create({
+                data: {
+                    invoiceId: invoice.id,
+                    userId,
+                    fromStatus: invoice.status,
+                    toStatus: body.status,
+                    note: body.note || null,
+                }
+            })
+
+            // Issued invoice keeps the PDF it was sent with
+            if (body.status === 'sent') {
+                await archiveInvoice(invoice.id, tx)
+            }
+
+            return tx.invoice.findUnique({
+                where: { id: invoice.id }
+            })
+        }, {
+            timeout: ARCHIVE_TRANSACTION_TIMEOUT_MS
+        })
+
+        if (!updated) {
+            return NextResponse.json(
+                { error: 'Invoice status was changed by another request' },
+                { status: 409 }
+            )
+        }
+
+        return NextResponse.json(updated)
+    } catch (error) {
+        console.error('Error changing invoice status:', error)
+        return NextResponse.json(
+            { error: 'Failed to change invoice status' },
+            { status: 500 }
+        )
+    }
+}
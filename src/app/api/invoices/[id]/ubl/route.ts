@@ -0,0 +1,91 @@
+// UBL download endpoint
+// Returns the invoice as Peppol BIS Billing 3.0 UBL XML
+// Invoices failing the EN 16931 business rules are rejected with the failed rules
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { generateUBLXML } from '@/utils/einvoice/generateUBLXML'
+import { validateInvoiceEN16931 } from '@/utils/einvoice/en16931'
+import { INVOICE_RECIPIENT_INCLUDE, withInvoiceRecipient } from '@/lib/invoices/recipient'
+
+interface RouteContext {
+    params: Promise<{
+        id: string
+    }>
+}
+
+// GET - Download invoice as UBL XML
+export async function GET(_request: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params
+
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Fetch invoice only if it belongs to user's company
+        const invoice = await prisma.invoice.findFirst({
+            where: {
+                id,
+                company: {
+                    userId: session.user.id
+                }
+            },
+            include: {
+                company: true,
+                customer: true,
+                ...INVOICE_RECIPIENT_INCLUDE,
+                lineItems: {
+                    orderBy: { order: 'asc' }
+                },
+                creditedInvoice: {
+                    select: { invoiceNumber: true, invoiceDate: true }
+                }
+            }
+        })
+
+        if (!invoice) {
+            return NextResponse.json(
+                { error: 'Invoice not found' },
+                { status: 404 }
+            )
+        }
+
+        // Addressed to the contact and addresses selected on the invoice
+        const addressedInvoice = withInvoiceRecipient(invoice)
+
+        const validationErrors = validateInvoiceEN16931(addressedInvoice)
+        if (validationErrors.length > 0) {
+            return NextResponse.json(
+                {
+                    error: 'Invoice does not pass e-invoice validation',
+                    validationErrors
+                },
+                { status: 422 }
+            )
+        }
+
+        const xml = generateUBLXML(addressedInvoice)
+
+        return new NextResponse(xml, {
+            headers: {
+                'Content-Type': 'application/xml; charset=utf-8',
+                'Content-Disposition': `attachment; filename="UBL_${invoice.invoiceNumber}.xml"`,
+            }
+        })
+    } catch (error) {
+        console.error('Error generating UBL invoice:', error)
+        return NextResponse.json(
+            { error: 'Failed to generate UBL invoice' },
+            { status: 500 }
+        )
+    }
+}
@@ -5,14 +5,20 @@
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/db/client'
-import { calculateRFReference } from '@/utils/finnish/rf-reference'
 import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { calculateInvoiceTotals, clientTotalsMatch, validateLineItems } from '@/lib/invoices/totals'
+import { generateDocumentNumber } from '@/lib/invoices/numbering'
+import { calculateInvoiceReference, isReferenceType } from '@/lib/invoices/reference'
+import { isDeliveryMethod } from '@/lib/invoices/delivery'
+import { validateInvoiceDates } from '@/lib/invoices/payment-terms'
+import { toRecipientSelection, validateRecipientSelection } from '@/lib/invoices/recipient'
+import { isVatRateAllowed, isVatTreatment } from '@/utils/finnish/vat-rates'
 
 // LineItem type for invoice creation
 type LineItemInput = {
     description: string
     quantity: number
-    unitPrice: number
+    unitPriceCents: number  // Price per unit in cents
     vatRate: number
 }
 
@@ -140,75 +146,132 @@ export async function POST(request: Request) {
             )
         }
 
-        // Generate unique invoice number (auto-increment per company)
-        // Get the highest invoice number for this company to avoid duplicates
-        const lastInvoice = await prisma.invoice.findFirst({
-            where: {
-                companyId: company.id
-            },
-            orderBy: {
-                invoiceNumber: 'desc'  // Order by invoice number string (INV-001, INV-002, etc.)
-            }
-        })
+        // Archived customers are kept for old invoices only
+        if (customer.archivedAt) {
+            return NextResponse.json(
+                { error: 'Customer is archived' },
+                { status: 400 }
+            )
+        }
 
-        // DEBUG: Log invoice number generation process
-        console.log('=== INVOICE NUMBER GENERATION DEBUG ===')
-        console.log('Company ID:', company.id)
-        console.log('Last invoice found:', lastInvoice)
-
-        // Parse last number and increment, or start from 001
-        let nextNumber = 1
-        if (lastInvoice) {
-            console.log('Last invoice number:', lastInvoice.invoiceNumber)
-            const lastNumberStr = lastInvoice.invoiceNumber.split('-')[1]
-            console.log('Extracted number:', lastNumberStr)
-            nextNumber = parseInt(lastNumberStr) + 1
-            console.log('Next number will be:', nextNumber)
-        } else {
-            console.log('No previous invoices found, starting from 001')
+        // Contact and addresses must be the customer's own
+        const recipient = toRecipientSelection(body)
+        const recipientError = await validateRecipientSelection(customer.id, recipient)
+        if (recipientError) {
+            return NextResponse.json(
+                { error: recipientError },
+                { status: 400 }
+            )
         }
 
-        const invoiceNumber = `INV-${String(nextNumber).padStart(3, '0')}`
-        console.log('Generated invoice number:', invoiceNumber)
-        console.log('=======================================')
+        const dateError = validateInvoiceDates(body)
+        if (dateError) {
+            return NextResponse.json(
+                { error: dateError },
+                { status: 400 }
+            )
+        }
 
-        // Calculate RF reference (Finnish reference number standard)
-        // Used for automatic payment matching in Finnish banks
-        const rfReference = calculateRFReference(invoiceNumber)
+        // Validate line items before calculating amounts
+        const lineItemError = validateLineItems(body.lineItems)
+        if (lineItemError) {
+            return NextResponse.json(
+                { error: lineItemError },
+                { status: 400 }
+            )
+        }
 
-        // Create invoice with line items in a single database transaction
-        // This ensures data consistency (all or nothing)
-        const invoice = await prisma.invoice.create({
-            data: {
+        // VAT treatment and delivery method default to the customer's settings
+        const vatTreatment = body.vatTreatment ?? customer.vatTreatment
+        const deliveryMethod = body.deliveryMethod ?? customer.deliveryMethod
+        if (!isVatTreatment(vatTreatment)) {
+            return NextResponse.json(
+                { error: 'Invalid VAT treatment' },
+                { status: 400 }
+            )
+        }
+        if (!isDeliveryMethod(deliveryMethod)) {
+            return NextResponse.json(
+                { error: 'Invalid delivery method' },
+                { status: 400 }
+            )
+        }
+
+        // Server calculates all amounts, client totals are only cross-checked
+        const lineItems: LineItemInput[] = body.lineItems
+
+        // Reverse charge and export invoices carry no Finnish VAT
+        if (lineItems.some(item => !isVatRateAllowed(item.vatRate, vatTreatment))) {
+            return NextResponse.json(
+                { error: 'Reverse charge and export invoices must have VAT rate 0' },
+                { status: 400 }
+            )
+        }
+        const totals = calculateInvoiceTotals(lineItems)
+
+        if (!clientTotalsMatch(body, totals)) {
+            return NextResponse.json(
+                {
+                    error: 'Invoice totals do not match line items',
+                    expected: {
+                        subtotalCents: totals.subtotalCents,
+                        vatAmountCents: totals.vatAmountCents,
+                        totalCents: totals.totalCents
+                    }
+                },
+                { status: 422 }
+            )
+        }
+
+        // Number allocation and invoice creation in a single database transaction
+        // A failed create rolls back the sequence, so no numbers are skipped
+        const invoice = await prisma.$transaction(async (tx) => {
+            // Next number from the company's invoice sequence (e.g. INV-2026-004)
+            const invoiceNumber = await generateDocumentNumber(company.id, 'invoice', tx)
+
+            // Calculate payment reference (RF or Finnish, chosen per company)
+            // Used for automatic payment matching in Finnish banks
+            const rfReference = calculateInvoiceReference(
                 invoiceNumber,
-                companyId: company.id,  // Link to authenticated user's company
-                customerId: body.customerId,
-                invoiceDate: new Date(body.invoiceDate),
-                dueDate: new Date(body.dueDate),
-                rfReference,
-                subtotal: body.subtotal,
-                vatAmount: body.vatAmount,
-                total: body.total,
-                status: body.status || 'draft',
-                notes: body.notes || null,
-                // Create line items at the same time (nested create)
-                lineItems: {
-                    create: body.lineItems.map((item: LineItemInput, index: number) => ({
-                        description: item.description,
-                        quantity: item.quantity,
-                        unitPrice: item.unitPrice,
-                        vatRate: item.vatRate,
-                        total: item.quantity * item.unitPrice,
-                        order: index + 1,  // Maintain line item order
-                    })),
+                isReferenceType(company.referenceType) ? company.referenceType : 'rf'
+            )
+
+            return tx.invoice.create({
+                data: {
+                    invoiceNumber,
+                    companyId: company.id,  // Link to authenticated user's company
+                    customerId: body.customerId,
+                    invoiceDate: new Date(body.invoiceDate),
+                    dueDate: new Date(body.dueDate),
+                    rfReference,
+                    subtotalCents: totals.subtotalCents,
+                    vatAmountCents: totals.vatAmountCents,
+                    totalCents: totals.totalCents,
+                    status: 'draft',  // New invoices always start as drafts, see /api/invoices/[id]/status
+                    buyerReference: body.buyerReference || null,
+                    notes: body.notes || null,
+                    vatTreatment,
+                    deliveryMethod,
+                    ...recipient,
+                    // Create line items at the same time (nested create)
+                    lineItems: {
+                        create: lineItems.map((item, index) => ({
+                            description: item.description,
+                            quantity: item.quantity,
+                            unitPriceCents: item.unitPriceCents,
+                            vatRate: item.vatRate,
+                            totalCents: totals.lineTotalsCents[index],
+                            order: index + 1,  // Maintain line item order
+                        })),
+                    },
                 },
-            },
-            // Include related data in response for immediate display
-            include: {
-                company: true,
-                customer: true,
-                lineItems: true,
-            }
+                // Include related data in response for immediate display
+                include: {
+                    company: true,
+                    customer: true,
+                    lineItems: true,
+                }
+            })
         })
 
         return NextResponse.json(invoice, { status: 201 })
@@ -0,0 +1,191 @@
+// Number sequences API endpoint
+// Reads and updates the document numbering pattern of the user's company
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { findHighestUsedNumber, getNumberSequence } from '@/lib/invoices/numbering'
+import {
+    DOCUMENT_TYPES,
+    DocumentType,
+    formatDocumentNumber,
+    getNextRunningNumber,
+    NumberPattern,
+    validateNumberPattern,
+} from '@/lib/invoices/number-pattern'
+
+// GET - Fetch number sequences of user's company, one per document type
+export async function GET() {
+    try {
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Get user's company
+        const company = await prisma.company.findFirst({
+            where: {
+                userId: session.user.id
+            }
+        })
+
+        // User hasn't completed company setup yet
+        if (!company) {
+            return NextResponse.json(
+                { error: 'Please complete company setup first' },
+                { status: 400 }
+            )
+        }
+
+        const sequences = await Promise.all(
+            DOCUMENT_TYPES.map(type => getNumberSequence(company.id, type))
+        )
+
+        return NextResponse.json(sequences)
+    } catch (error) {
+        console.error('Error fetching number sequences:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+// PUT - Update numbering pattern of one document type
+// Body: { documentType, prefix, includeYear, padding, yearlyReset, nextNumber? }
+export async function PUT(request: Request) {
+    // Rate limiting: 20 updates per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`number-sequences:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 20
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Get user's company
+        const company = await prisma.company.findFirst({
+            where: {
+                userId: session.user.id
+            }
+        })
+
+        // User hasn't completed company setup yet
+        if (!company) {
+            return NextResponse.json(
+                { error: 'Please complete company setup first' },
+                { status: 400 }
+            )
+        }
+
+        // Parse request body
+        const body = await request.json()
+
+        if (!DOCUMENT_TYPES.includes(body.documentType)) {
+            return NextResponse.json(
+                { error: 'Invalid document type' },
+                { status: 400 }
+            )
+        }
+
+        const patternError = validateNumberPattern(body)
+        if (patternError) {
+            return NextResponse.json(
+                { error: patternError },
+                { status: 400 }
+            )
+        }
+
+        const documentType: DocumentType = body.documentType
+        const pattern: NumberPattern = {
+            prefix: body.prefix,
+            includeYear: body.includeYear,
+            padding: body.padding,
+            yearlyReset: body.yearlyReset,
+        }
+
+        const sequence = await prisma.$transaction(async (tx) => {
+            const current = await getNumberSequence(company.id, documentType, tx)
+
+            // Numbers can be skipped forward but never reused
+            if (body.nextNumber !== undefined && (
+                !Number.isInteger(body.nextNumber) || body.nextNumber < current.nextNumber
+            )) {
+                return { error: 'Next number cannot be lower than the current next number' }
+            }
+
+            // Invoices and credit notes share the company's number space
+            const otherType = DOCUMENT_TYPES.find(type => type !== documentType)!
+            const other = await getNumberSequence(company.id, otherType, tx)
+            if (other.prefix.toUpperCase() === pattern.prefix.toUpperCase()) {
+                return { error: 'Invoices and credit notes must have different prefixes' }
+            }
+
+            // Turning on yearly reset starts counting the current year from here
+            const year = new Date().getFullYear()
+            const currentYear = pattern.yearlyReset && !current.yearlyReset ? year : current.currentYear
+            const nextNumber: number = body.nextNumber ?? current.nextNumber
+
+            // A changed pattern must not continue into numbers already used,
+            // e.g. dropping the year after yearly resets
+            const next = getNextRunningNumber({ ...pattern, nextNumber, currentYear }, year)
+            const highestUsed = await findHighestUsedNumber(company.id, pattern, year, tx)
+            if (next <= highestUsed) {
+                return {
+                    error: `Number ${formatDocumentNumber(pattern, year, next)} is already in use, next number must be at least ${highestUsed + 1}`
+                }
+            }
+
+            return tx.numberSequence.update({
+                where: { id: current.id },
+                data: {
+                    ...pattern,
+                    currentYear,
+                    ...(body.nextNumber !== undefined && { nextNumber: body.nextNumber }),
+                }
+            })
+        })
+
+        if ('error' in sequence) {
+            return NextResponse.json(
+                { error: sequence.error },
+                { status: 400 }
+            )
+        }
+
+        return NextResponse.json(sequence)
+    } catch (error) {
+        console.error('Error updating number sequence:', error)
+        return NextResponse.json(
+            { error: 'Failed to update number sequence' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,139 @@
+// PDF template API endpoint
+// Reads and updates the PDF layout (logo, colours, font, footer, payment blocks) of the user's company
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { getPdfTemplate } from '@/lib/invoices/pdf'
+import { PdfTemplateSettings, validatePdfTemplate } from '@/utils/pdf/template'
+
+// GET - Fetch PDF template of user's company, defaults if not saved yet
+export async function GET() {
+    try {
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Get user's company
+        const company = await prisma.company.findFirst({
+            where: {
+                userId: session.user.id
+            }
+        })
+
+        // User hasn't completed company setup yet
+        if (!company) {
+            return NextResponse.json(
+                { error: 'Please complete company setup first' },
+                { status: 400 }
+            )
+        }
+
+        const template = await getPdfTemplate(company.id)
+
+        return NextResponse.json(template)
+    } catch (error) {
+        console.error('Error fetching PDF template:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+// PUT - Save PDF template of user's company
+// Body: { logo, accentColor, font, vatRegistered, tradeRegistered, homeMunicipality, footerText, showQrCode, showBarcode, showTransferForm }
+export async function PUT(request: Request) {
+    // Rate limiting: 20 updates per hour per IP
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`pdf-template:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 20
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        // Get current authenticated session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Get user's company
+        const company = await prisma.company.findFirst({
+            where: {
+                userId: session.user.id
+            }
+        })
+
+        // User hasn't completed company setup yet
+        if (!company) {
+            return NextResponse.json(
+                { error: 'Please complete company setup first' },
+                { status: 400 }
+            )
+        }
+
+        // Parse request body
+        const body = await request.json()
+
+        const templateError = validatePdfTemplate(body)
+        if (templateError) {
+            return NextResponse.json(
+                { error: templateError },
+                { status: 400 }
+            )
+        }
+
+        // Empty footer fields are stored as null
+        const data: PdfTemplateSettings = {
+            logo: body.logo,
+            accentColor: body.accentColor,
+            font: body.font,
+            vatRegistered: body.vatRegistered,
+            tradeRegistered: body.tradeRegistered,
+            homeMunicipality: body.homeMunicipality?.trim() || null,
+            footerText: body.footerText?.trim() || null,
+            showQrCode: body.showQrCode,
+            showBarcode: body.showBarcode,
+            showTransferForm: body.showTransferForm,
+        }
+
+        // Issued invoices keep their archived PDF, the template applies to new documents
+        const template = await prisma.pdfTemplate.upsert({
+            where: { companyId: company.id },
+            update: data,
+            create: { companyId: company.id, ...data },
+        })
+
+        return NextResponse.json(template)
+    } catch (error) {
+        console.error('Error updating PDF template:', error)
+        return NextResponse.json(
+            { error: 'Failed to update PDF template' },
+            { status: 500 }
+        )
+    }
+}
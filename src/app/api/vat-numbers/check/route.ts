@@ -0,0 +1,63 @@
+// VAT number check API endpoint
+// Lets the customer and company forms check a VAT number in VIES before saving
+// Returns the registered name and address when the member state discloses them
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { checkVatNumber } from '@/lib/vat/vies'
+
+// POST - Check a VAT number
+// Body: { vatNumber: string }
+export async function POST(request: Request) {
+    // Rate limiting: 60 checks per hour per IP, VIES has a fair use limit
+    const ip = getClientIp(request)
+    const rateLimitResult = rateLimit(`vat-check:${ip}`, {
+        interval: 60 * 60 * 1000, // 1 hour
+        maxRequests: 60
+    })
+
+    if (!rateLimitResult.success) {
+        return NextResponse.json(
+            {
+                error: 'Too many requests. Please try again later.',
+                resetTime: rateLimitResult.resetTime
+            },
+            { status: 429 }
+        )
+    }
+
+    try {
+        // Get current session
+        const session = await auth()
+
+        // Check if user is authenticated
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            )
+        }
+
+        // Parse request body
+        const body = await request.json()
+
+        if (!body.vatNumber || typeof body.vatNumber !== 'string') {
+            return NextResponse.json(
+                { error: 'VAT number is required' },
+                { status: 400 }
+            )
+        }
+
+        // Malformed numbers come back invalid without a VIES lookup
+        const check = await checkVatNumber(body.vatNumber)
+
+        return NextResponse.json(check)
+    } catch (error) {
+        console.error('Error checking VAT number:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
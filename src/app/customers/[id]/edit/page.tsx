@@ -0,0 +1,39 @@
+// Customer edit page - reuses the new customer form
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import CustomerForm from '@/components/customer/CustomerForm'
+import { notFound } from 'next/navigation'
+
+interface PageProps {
+    params: Promise<{
+        id: string
+    }>
+}
+
+export default async function EditCustomerPage({ params }: PageProps) {
+    // Await params for Next.js 15 compatibility
+    const { id } = await params
+
+    // Get session
+    const session = await auth()
+
+    if (!session?.user?.id) {
+        return <div>Unauthorized</div>
+    }
+
+    // Fetch customer only if it belongs to the user's company
+    const customer = await prisma.customer.findFirst({
+        where: {
+            id,
+            company: {
+                userId: session.user.id
+            }
+        }
+    })
+
+    if (!customer) {
+        notFound()
+    }
+
+    return <CustomerForm customer={customer} />
+}
@@ -0,0 +1,279 @@
+// Customer detail page - contact data, contacts and addresses, invoices and open balance of one customer
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import DeleteCustomerButton from '@/components/customer/DeleteCustomerButton'
+import CustomerContacts from '@/components/customer/CustomerContacts'
+import CustomerAddresses from '@/components/customer/CustomerAddresses'
+import { getStatusBadgeClass, getStatusLabel } from '@/lib/invoices/status'
+import {
+    calculateCustomerCreditCents,
+    calculateCustomerOpenBalanceCents,
+    calculateOpenBalanceCents,
+    OPEN_BALANCE_STATUSES,
+} from '@/lib/invoices/balance'
+import { INVOICE_LANGUAGE_LABELS, toInvoiceLanguage } from '@/lib/i18n/languages'
+import { countryLabel } from '@/lib/i18n/countries'
+import { getDeliveryMethodLabel } from '@/lib/invoices/delivery'
+import { isVatTreatment, VAT_TREATMENT_LABELS } from '@/utils/finnish/vat-rates'
+import { formatCents } from '@/lib/money'
+import { resolveVatNumber } from '@/utils/eu/vat-number'
+import { notFound } from 'next/navigation'
+
+interface PageProps {
+    params: Promise<{
+        id: string
+    }>
+}
+
+export default async function CustomerDetailPage({ params }: PageProps) {
+    // Await params for Next.js 15 compatibility
+    const { id } = await params
+
+    // Get session
+    const session = await auth()
+
+    if (!session?.user?.id) {
+        return <div>Unauthorized</div>
+    }
+
+    // Fetch customer only if it belongs to the user's company
+    const customer = await prisma.customer.findFirst({
+        where: {
+            id,
+            company: {
+                userId: session.user.id
+            }
+        },
+        include: {
+            contacts: {
+                orderBy: [{ isDefault: 'desc' }, { name: 'asc' }]
+            },
+            addresses: {
+                orderBy: [{ type: 'asc' }, { isDefault: 'desc' }, { createdAt: 'asc' }]
+            },
+            invoices: {
+                orderBy: { invoiceDate: 'desc' },
+                include: {
+                    // Credit notes reduce the open balance of the invoice they credit
+                    creditNotes: {
+                        select: { totalCents: true }
+                    },
+                    payments: {
+                        select: { amountCents: true }
+                    }
+                }
+            }
+        }
+    })
+
+    if (!customer) {
+        notFound()
+    }
+
+    const openBalanceCents = calculateCustomerOpenBalanceCents(customer.invoices)
+    const creditCents = calculateCustomerCreditCents(customer.invoices)
+    const hasEInvoiceAddress = customer.einvoiceAddress || customer.peppolId
+    const vatNumber = resolveVatNumber(customer)
+
+    return (
+        <div className="min-h-screen bg-gray-50 p-8">
+            <div className="max-w-5xl mx-auto">
+                {/* Header */}
+                <div className="mb-6 flex justify-between items-center">
+                    <div>
+                        <h1 className="text-4xl font-bold mb-2">{customer.name}</h1>
+                        {customer.archivedAt && (
+                            <p className="text-gray-600 text-lg">
+                                Arkistoitu {new Date(customer.archivedAt).toLocaleDateString('fi-FI')}
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="flex gap-4">
+                        <a href={`/customers/${customer.id}/edit`}
+                            className="px-6 py-3 text-lg border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50"
+                        >
+                            ✏️ Muokkaa
+                        </a>
+
+                        {!customer.archivedAt && (
+                            <DeleteCustomerButton customerId={customer.id} hasInvoices={customer.invoices.length > 0} />
+                        )}
+
+                        <a href="/customers"
+                            className="px-6 py-3 text-lg border border-gray-300 rounded-lg hover:bg-gray-50"
+                        >
+                            ← Takaisin
+                        </a>
+                    </div>
+                </div>
+
+                <div className="bg-white rounded-lg shadow-lg p-8 mb-6">
+                    <div className="grid grid-cols-2 gap-8">
+                        {/* Contact data */}
+                        <div>
+                            <h3 className="text-lg font-semibold text-gray-700 mb-3">Yhteystiedot</h3>
+                            <p className="text-gray-600">
+                                {customer.businessId ? `Y-tunnus: ${customer.businessId}` : 'Yksityishenkilö'}
+                            </p>
+                            {vatNumber && (
+                                <p className="text-gray-600">
+                                    ALV-numero: {vatNumber}{' '}
+                                    {customer.vatVerifiedAt ? (
+                                        <span className="text-green-700 text-sm">
+                                            ✓ VIES {new Date(customer.vatVerifiedAt).toLocaleDateString('fi-FI')}
+                                        </span>
+                                    ) : (
+                                        <span className="text-gray-400 text-sm">ei vahvistettu VIES:stä</span>
+                                    )}
+                                </p>
+                            )}
+                            <p className="text-gray-600">{customer.address}</p>
+                            <p className="text-gray-600">{customer.postalCode} {customer.city}</p>
+                            <p className="text-gray-600">{countryLabel(customer.country)}</p>
+                            <p className="text-gray-600 mt-2">{customer.email}</p>
+                            {customer.phone && <p className="text-gray-600">{customer.phone}</p>}
+                        </div>
+
+                        {/* Invoicing settings */}
+                        <div>
+                            <h3 className="text-lg font-semibold text-gray-700 mb-3">Laskutus</h3>
+                            <p className="text-gray-600">
+                                Laskun kieli: {INVOICE_LANGUAGE_LABELS[toInvoiceLanguage(customer.language)]}
+                            </p>
+                            <p className="text-gray-600">Maksuehto: {customer.paymentTermDays} pv netto</p>
+                            <p className="text-gray-600">
+                                Arvonlisävero: {isVatTreatment(customer.vatTreatment)
+                                    ? VAT_TREATMENT_LABELS[customer.vatTreatment]
+                                    : customer.vatTreatment}
+                            </p>
+                            <p className="text-gray-600">Toimitustapa: {getDeliveryMethodLabel(customer.deliveryMethod)}</p>
+                            {customer.einvoiceAddress && (
+                                <p className="text-gray-600">
+                                    Verkkolaskuosoite: {customer.einvoiceAddress}
+                                    {customer.einvoiceOperator && ` (välittäjä ${customer.einvoiceOperator})`}
+                                </p>
+                            )}
+                            {customer.peppolId && (
+                                <p className="text-gray-600">Peppol-tunniste: {customer.peppolId}</p>
+                            )}
+                            {!hasEInvoiceAddress && (
+                                <p className="text-gray-400 italic">Ei verkkolaskuosoitetta</p>
+                            )}
+                            {customer.defaultNotes && (
+                                <p className="text-gray-600 mt-2 whitespace-pre-line">Lisätiedot: {customer.defaultNotes}</p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Open balance of unpaid invoices */}
+                    <div className="mt-8 p-6 bg-blue-50 rounded-lg flex justify-between items-center">
+                        <span className="text-lg text-gray-700">Avoinna yhteensä</span>
+                        <span className="text-2xl font-bold text-blue-600">{formatCents(openBalanceCents)} €</span>
+                    </div>
+
+                    {/* Overpayments to refund or deduct from later invoices */}
+                    {creditCents > 0 && (
+                        <div className="mt-4 p-6 bg-green-50 rounded-lg flex justify-between items-center">
+                            <span className="text-lg text-gray-700">Asiakkaan hyvityssaldo (liikasuoritukset)</span>
+                            <span className="text-2xl font-bold text-green-700">{formatCents(creditCents)} €</span>
+                        </div>
+                    )}
+                </div>
+
+                {/* Contact persons and billing/delivery addresses selectable on invoices */}
+                <div className="grid grid-cols-2 gap-6 mb-6">
+                    <div className="bg-white rounded-lg shadow p-6">
+                        <h2 className="text-2xl font-semibold mb-4">Yhteyshenkilöt</h2>
+                        <CustomerContacts customerId={customer.id} contacts={customer.contacts} />
+                    </div>
+                    <div className="bg-white rounded-lg shadow p-6">
+                        <h2 className="text-2xl font-semibold mb-4">Osoitteet</h2>
+                        <CustomerAddresses customerId={customer.id} addresses={customer.addresses} />
+                    </div>
+                </div>
+
+                {/* Invoices of the customer */}
+                <div className="bg-white rounded-lg shadow overflow-hidden">
+                    <div className="flex justify-between items-center p-6">
+                        <h2 className="text-2xl font-semibold">Laskut</h2>
+                        {!customer.archivedAt && (
+                            <a href="/invoices/new" className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600">
+                                + Uusi lasku
+                            </a>
+                        )}
+                    </div>
+
+                    {customer.invoices.length === 0 ? (
+                        <div className="p-8 text-center text-gray-500">
+                            Asiakkaalla ei ole laskuja.
+                        </div>
+                    ) : (
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-6 py-4 text-left text-sm font-medium text-gray-700">
+                                        Laskun numero
+                                    </th>
+                                    <th className="px-6 py-4 text-left text-sm font-medium text-gray-700">
+                                        Päivämäärä
+                                    </th>
+                                    <th className="px-6 py-4 text-left text-sm font-medium text-gray-700">
+                                        Eräpäivä
+                                    </th>
+                                    <th className="px-6 py-4 text-right text-sm font-medium text-gray-700">
+                                        Summa
+                                    </th>
+                                    <th className="px-6 py-4 text-right text-sm font-medium text-gray-700">
+                                        Avoinna
+                                    </th>
+                                    <th className="px-6 py-4 text-left text-sm font-medium text-gray-700">
+                                        Tila
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {customer.invoices.map((invoice) => {
+                                    // Only unpaid invoices have an amount left to pay
+                                    const isOpen = invoice.type === 'invoice' && OPEN_BALANCE_STATUSES.includes(invoice.status)
+
+                                    return (
+                                        <tr key={invoice.id} className="hover:bg-gray-50">
+                                            <td className="px-6 py-4 text-lg">
+                                                <a href={`/invoices/${invoice.id}`} className="text-blue-600 hover:underline">
+                                                    {invoice.invoiceNumber}
+                                                </a>
+                                                {invoice.type === 'credit_note' && (
+                                                    <span className="ml-2 text-sm text-purple-700">Hyvityslasku</span>
+                                                )}
+                                            </td>
+                                            <td className="px-6 py-4 text-lg">
+                                                {new Date(invoice.invoiceDate).toLocaleDateString('fi-FI')}
+                                            </td>
+                                            <td className="px-6 py-4 text-lg">
+                                                {new Date(invoice.dueDate).toLocaleDateString('fi-FI')}
+                                            </td>
+                                            <td className="px-6 py-4 text-lg text-right">
+                                                {formatCents(invoice.totalCents)} €
+                                            </td>
+                                            <td className="px-6 py-4 text-lg text-right">
+                                                {isOpen
+                                                    ? `${formatCents(Math.max(0, calculateOpenBalanceCents(invoice, invoice.creditNotes, invoice.payments)))} €`
+                                                    : '–'}
+                                            </td>
+                                            <td className="px-6 py-4">
+                                                <span className={`px-3 py-1 text-sm rounded-full ${getStatusBadgeClass(invoice.status)}`}>
+                                                    {getStatusLabel(invoice.status)}
+                                                </span>
+                                            </td>
+                                        </tr>
+                                    )
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
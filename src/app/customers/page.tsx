@@ -17,9 +17,11 @@ export default async function CustomersPage() {
                 userId: session.user.id
             }
         },
-        orderBy: {
-            name: 'asc'
-        }
+        // Archived customers last
+        orderBy: [
+            { archivedAt: { sort: 'asc', nulls: 'first' } },
+            { name: 'asc' }
+        ]
     })
 
     return (
@@ -72,9 +74,14 @@ export default async function CustomersPage() {
                             <tbody className="bg-white divide-y divide-gray-200">
                                 {/* Map through customers and render rows */}
                                 {customers.map((customer) => (
-                                    <tr key={customer.id} className="hover:bg-gray-50">
+                                    <tr key={customer.id} className={`hover:bg-gray-50 ${customer.archivedAt ? 'text-gray-400' : ''}`}>
                                         <td className="px-6 py-4 text-lg font-semibold">
-                                            {customer.name}
+                                            <a href={`/customers/${customer.id}`} className="text-blue-600 hover:underline">
+                                                {customer.name}
+                                            </a>
+                                            {customer.archivedAt && (
+                                                <span className="ml-2 text-sm font-normal text-gray-500">Arkistoitu</span>
+                                            )}
                                         </td>
                                         <td className="px-6 py-4 text-lg">
                                             {/* Show businessId or "Yksityishenkilö" if null */}
@@ -0,0 +1,72 @@
+// Credit note page - creates a credit note (hyvityslasku) for an issued invoice
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import CreditNoteForm from '@/components/invoice/CreditNoteForm'
+import { CREDITABLE_STATUSES, getRemainingCreditQuantity } from '@/lib/invoices/credit-notes'
+import { notFound, redirect } from 'next/navigation'
+
+interface PageProps {
+    params: Promise<{
+        id: string
+    }>
+}
+
+export default async function CreditInvoicePage({ params }: PageProps) {
+    // Await params for Next.js 15 compatibility
+    const { id } = await params
+
+    // Get session
+    const session = await auth()
+
+    if (!session?.user?.id) {
+        return <div>Unauthorized</div>
+    }
+
+    // Fetch invoice only if it belongs to the user's company
+    const invoice = await prisma.invoice.findFirst({
+        where: {
+            id,
+            type: 'invoice',
+            company: {
+                userId: session.user.id
+            }
+        },
+        include: {
+            lineItems: {
+                orderBy: { order: 'asc' },
+                include: {
+                    creditLineItems: {
+                        select: { quantity: true }
+                    }
+                }
+            }
+        }
+    })
+
+    if (!invoice) {
+        notFound()
+    }
+
+    // Only issued invoices can be credited
+    if (!CREDITABLE_STATUSES.includes(invoice.status)) {
+        redirect(`/invoices/${invoice.id}`)
+    }
+
+    return (
+        <CreditNoteForm
+            invoice={{
+                id: invoice.id,
+                invoiceNumber: invoice.invoiceNumber,
+                lineItems: invoice.lineItems
+                    .map((item) => ({
+                        id: item.id,
+                        description: item.description,
+                        unitPriceCents: item.unitPriceCents,
+                        vatRate: item.vatRate,
+                        remainingQuantity: getRemainingCreditQuantity(item)
+                    }))
+                    .filter((item) => item.remainingQuantity > 0)
+            }}
+        />
+    )
+}
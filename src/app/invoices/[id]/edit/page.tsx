@@ -0,0 +1,72 @@
+// Invoice edit page - reuses the new invoice form for draft invoices
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import InvoiceForm from '@/components/invoice/InvoiceForm'
+import { centsToEuros } from '@/lib/money'
+import { notFound, redirect } from 'next/navigation'
+
+interface PageProps {
+    params: Promise<{
+        id: string
+    }>
+}
+
+export default async function EditInvoicePage({ params }: PageProps) {
+    // Await params for Next.js 15 compatibility
+    const { id } = await params
+
+    // Get session
+    const session = await auth()
+
+    if (!session?.user?.id) {
+        return <div>Unauthorized</div>
+    }
+
+    // Fetch invoice only if it belongs to the user's company
+    const invoice = await prisma.invoice.findFirst({
+        where: {
+            id,
+            company: {
+                userId: session.user.id
+            }
+        },
+        include: {
+            lineItems: {
+                orderBy: { order: 'asc' }
+            }
+        }
+    })
+
+    if (!invoice) {
+        notFound()
+    }
+
+    // Only drafts can be edited, sent invoices go back to the detail page
+    if (invoice.status !== 'draft') {
+        redirect(`/invoices/${invoice.id}`)
+    }
+
+    return (
+        <InvoiceForm
+            invoice={{
+                id: invoice.id,
+                customerId: invoice.customerId,
+                invoiceDate: invoice.invoiceDate.toISOString().split('T')[0],
+                dueDate: invoice.dueDate.toISOString().split('T')[0],
+                buyerReference: invoice.buyerReference,
+                notes: invoice.notes,
+                vatTreatment: invoice.vatTreatment,
+                deliveryMethod: invoice.deliveryMethod,
+                contactId: invoice.contactId,
+                billingAddressId: invoice.billingAddressId,
+                deliveryAddressId: invoice.deliveryAddressId,
+                lineItems: invoice.lineItems.map((item) => ({
+                    description: item.description,
+                    quantity: item.quantity,
+                    unitPrice: centsToEuros(item.unitPriceCents),
+                    vatRate: item.vatRate
+                }))
+            }}
+        />
+    )
+}
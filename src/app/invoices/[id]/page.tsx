@@ -1,5 +1,22 @@
+import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/db/client'
 import DownloadPDFButton from '@/components/invoice/DownloadPDFButton'
+import InvoiceStatusActions from '@/components/invoice/InvoiceStatusActions'
+import InvoicePayments from '@/components/invoice/InvoicePayments'
+import { getStatusLabel } from '@/lib/invoices/status'
+import { calculateInvoiceTotals } from '@/lib/invoices/totals'
+import { formatCents } from '@/lib/money'
+import { formatVatRate, isVatTreatment, VAT_TREATMENT_LABELS } from '@/utils/finnish/vat-rates'
+import { getDeliveryMethodLabel } from '@/lib/invoices/delivery'
+import { calculateOpenBalanceCents, calculatePaidCents } from '@/lib/invoices/balance'
+import { PAYABLE_STATUSES } from '@/lib/invoices/payments'
+import { CREDITABLE_STATUSES } from '@/lib/invoices/credit-notes'
+import { validateInvoiceEN16931 } from '@/utils/einvoice/en16931'
+import { hasEInvoiceAddress } from '@/utils/einvoice/addresses'
+import { buildInvoiceEmail, getInvoiceMailtoLink } from '@/lib/invoices/email'
+import { getPdfTemplate } from '@/lib/invoices/pdf'
+import { INVOICE_RECIPIENT_INCLUDE, withInvoiceRecipient } from '@/lib/invoices/recipient'
+import { formatIban } from '@/utils/eu/iban'
 import { notFound } from 'next/navigation'
 
 interface PageProps {
@@ -12,34 +29,86 @@ export default async function InvoiceDetailPage({ params }: PageProps) {
     // Await params for Next.js 15 compatibility
     const { id } = await params
 
-    // Fetch invoice with all relations
-    const invoice = await prisma.invoice.findUnique({
-        where: { id },
+    // Get session
+    const session = await auth()
+
+    if (!session?.user?.id) {
+        return <div>Unauthorized</div>
+    }
+
+    // Fetch invoice with all relations, only if it belongs to the user's company
+    const storedInvoice = await prisma.invoice.findFirst({
+        where: {
+            id,
+            company: {
+                userId: session.user.id
+            }
+        },
         include: {
             company: true,
             customer: true,
+            ...INVOICE_RECIPIENT_INCLUDE,
             lineItems: {
                 orderBy: { order: 'asc' }
+            },
+            statusChanges: {
+                orderBy: { createdAt: 'asc' },
+                include: {
+                    user: {
+                        select: { name: true, email: true }
+                    }
+                }
+            },
+            // Original invoice of a credit note
+            creditedInvoice: {
+                select: { id: true, invoiceNumber: true, invoiceDate: true }
+            },
+            // Credit notes issued against this invoice
+            creditNotes: {
+                orderBy: { createdAt: 'asc' },
+                select: { id: true, invoiceNumber: true, invoiceDate: true, totalCents: true }
+            },
+            payments: {
+                orderBy: [{ paymentDate: 'asc' }, { createdAt: 'asc' }]
+            },
+            // PDF archived when the invoice was issued
+            archive: {
+                select: { createdAt: true, sha256: true }
             }
         }
     })
 
     // If invoice not found, show 404
-    if (!invoice) {
+    if (!storedInvoice) {
         notFound()
     }
 
+    // Customer data with the contact and addresses selected on the invoice,
+    // as printed on the PDF and used for the email and e-invoice
+    const invoice = withInvoiceRecipient(storedInvoice)
+
+    // Company's PDF layout for the browser download
+    const pdfTemplate = await getPdfTemplate(invoice.companyId)
+
     // Format dates
     const invoiceDate = new Date(invoice.invoiceDate).toLocaleDateString('fi-FI')
     const dueDate = new Date(invoice.dueDate).toLocaleDateString('fi-FI')
 
-    // Status translation
-    const statusMap: { [key: string]: string } = {
-        draft: 'Luonnos',
-        sent: 'Lähetetty',
-        paid: 'Maksettu',
-        overdue: 'Myöhässä'
-    }
+    // VAT breakdown per rate (net, VAT and gross for each rate)
+    const { vatBreakdown } = calculateInvoiceTotals(invoice.lineItems)
+
+    // Credit notes and payments reduce the amount left to pay on the original invoice
+    // Only the amount not yet credited can be credited, paid or not
+    const isCreditNote = invoice.type === 'credit_note'
+    const paidCents = calculatePaidCents(invoice.payments)
+    const openBalanceCents = calculateOpenBalanceCents(invoice, invoice.creditNotes, invoice.payments)
+    const canCredit = !isCreditNote && CREDITABLE_STATUSES.includes(invoice.status)
+        && calculateOpenBalanceCents(invoice, invoice.creditNotes) > 0
+
+    // E-invoice drafts are checked against EN 16931 before they can be sent
+    const einvoiceErrors = invoice.status === 'draft' && hasEInvoiceAddress(invoice.customer)
+        ? validateInvoiceEN16931(invoice)
+        : []
 
     return (
         <div className="min-h-screen bg-gray-50 p-8">
@@ -47,14 +116,82 @@ export default async function InvoiceDetailPage({ params }: PageProps) {
                 {/* Header */}
                 <div className="mb-6 flex justify-between items-center">
                     <div>
-                        <h1 className="text-4xl font-bold mb-2">Lasku {invoice.invoiceNumber}</h1>
+                        <h1 className="text-4xl font-bold mb-2">
+                            {isCreditNote ? 'Hyvityslasku' : 'Lasku'} {invoice.invoiceNumber}
+                        </h1>
+                        {invoice.creditedInvoice && (
+                            <p className="text-gray-600 text-lg">
+                                Hyvittää laskun{' '}
+                                <a href={`/invoices/${invoice.creditedInvoice.id}`} className="text-blue-600 hover:underline">
+                                    {invoice.creditedInvoice.invoiceNumber}
+                                </a>
+                            </p>
+                        )}
                         <p className="text-gray-600 text-lg">
-                            Tila: <span className="font-semibold">{statusMap[invoice.status]}</span>
+                            Tila: <span className="font-semibold">{getStatusLabel(invoice.status)}</span>
                         </p>
+                        <p className="text-gray-600">
+                            Toimitustapa: {getDeliveryMethodLabel(invoice.deliveryMethod)}
+                            {invoice.vatTreatment !== 'domestic' && isVatTreatment(invoice.vatTreatment) && (
+                                <>, {VAT_TREATMENT_LABELS[invoice.vatTreatment]}</>
+                            )}
+                        </p>
+                        {invoice.archive && (
+                            <p className="text-gray-500 text-sm">
+                                PDF arkistoitu {new Date(invoice.archive.createdAt).toLocaleString('fi-FI')},
+                                SHA-256 <span className="font-mono" title={invoice.archive.sha256}>{invoice.archive.sha256.slice(0, 16)}…</span>
+                            </p>
+                        )}
+                        {!isCreditNote && (
+                            <div className="mt-3">
+                                <InvoiceStatusActions invoiceId={invoice.id} status={invoice.status} />
+                            </div>
+                        )}
                     </div>
 
                     <div className="flex gap-4">
-                        <DownloadPDFButton invoice={invoice} />
+                        {/* Only drafts can be edited */}
+                        {invoice.status === 'draft' && (
+                            <a href={`/invoices/${invoice.id}/edit`}
+                                className="px-6 py-3 text-lg border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50"
+                            >
+                                ✏️ Muokkaa
+                            </a>
+                        )}
+
+                        {/* Issued invoices with an open balance can be credited */}
+                        {canCredit && (
+                            <a href={`/invoices/${invoice.id}/credit`}
+                                className="px-6 py-3 text-lg border border-purple-600 text-purple-600 rounded-lg hover:bg-purple-50"
+                            >
+                                Hyvitä
+                            </a>
+                        )}
+
+                        <DownloadPDFButton invoice={invoice} template={pdfTemplate} archived={!!invoice.archive} />
+
+                        {/* Email in the customer's language, PDF attached by the user */}
+                        <a href={getInvoiceMailtoLink(buildInvoiceEmail(invoice))}
+                            className="px-6 py-3 text-lg border border-gray-300 rounded-lg hover:bg-gray-50"
+                        >
+                            Lähetä sähköpostilla
+                        </a>
+
+                        {/* Finvoice XML for e-invoicing */}
+                        <a href={`/api/invoices/${invoice.id}/finvoice`}
+                            className="px-6 py-3 text-lg border border-gray-300 rounded-lg hover:bg-gray-50"
+                        >
+                            Finvoice
+                        </a>
+
+                        {/* Peppol BIS 3.0 UBL for e-invoice customers */}
+                        {hasEInvoiceAddress(invoice.customer) && (
+                            <a href={`/api/invoices/${invoice.id}/ubl`}
+                                className="px-6 py-3 text-lg border border-gray-300 rounded-lg hover:bg-gray-50"
+                            >
+                                UBL
+                            </a>
+                        )}
 
                         <a href="/invoices"
                             className="px-6 py-3 text-lg border border-gray-300 rounded-lg hover:bg-gray-50"
@@ -64,6 +201,22 @@ export default async function InvoiceDetailPage({ params }: PageProps) {
                     </div>
                 </div>
 
+                {/* E-invoice validation errors */}
+                {einvoiceErrors.length > 0 && (
+                    <div className="bg-yellow-50 border border-yellow-300 rounded-lg p-6 mb-6">
+                        <h3 className="text-lg font-semibold text-yellow-800 mb-2">
+                            Verkkolasku ei läpäise tarkistusta
+                        </h3>
+                        <ul className="space-y-1 text-yellow-900">
+                            {einvoiceErrors.map((error, index) => (
+                                <li key={index}>
+                                    <span className="font-mono text-sm">{error.rule}</span>: {error.message}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
                 {/* Invoice Details Card */}
                 <div className="bg-white rounded-lg shadow-lg p-8 mb-6">
                     <div className="grid grid-cols-2 gap-8 mb-8">
@@ -85,9 +238,27 @@ export default async function InvoiceDetailPage({ params }: PageProps) {
                             {invoice.customer.businessId && (
                                 <p className="text-gray-600">Y-tunnus: {invoice.customer.businessId}</p>
                             )}
+                            {invoice.customer.contactName && (
+                                <p className="text-gray-600">Att. {invoice.customer.contactName}</p>
+                            )}
+                            {invoice.customer.addressName && (
+                                <p className="text-gray-600">{invoice.customer.addressName}</p>
+                            )}
                             <p className="text-gray-600">{invoice.customer.address}</p>
                             <p className="text-gray-600">{invoice.customer.postalCode} {invoice.customer.city}</p>
                             <p className="text-gray-600 mt-2">{invoice.customer.email}</p>
+                            {invoice.customer.deliveryAddress && (
+                                <div className="mt-3">
+                                    <p className="text-sm font-semibold text-gray-700">Toimitusosoite</p>
+                                    {invoice.customer.deliveryAddress.name && (
+                                        <p className="text-gray-600">{invoice.customer.deliveryAddress.name}</p>
+                                    )}
+                                    <p className="text-gray-600">{invoice.customer.deliveryAddress.address}</p>
+                                    <p className="text-gray-600">
+                                        {invoice.customer.deliveryAddress.postalCode} {invoice.customer.deliveryAddress.city}
+                                    </p>
+                                </div>
+                            )}
                         </div>
                     </div>
 
@@ -123,6 +294,9 @@ export default async function InvoiceDetailPage({ params }: PageProps) {
                                         <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">
                                             À-hinta
                                         </th>
+                                        <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">
+                                            ALV
+                                        </th>
                                         <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">
                                             Yhteensä
                                         </th>
@@ -138,10 +312,13 @@ export default async function InvoiceDetailPage({ params }: PageProps) {
                                                 {item.quantity}
                                             </td>
                                             <td className="px-6 py-4 text-right text-gray-900">
-                                                {item.unitPrice.toFixed(2)} €
+                                                {formatCents(item.unitPriceCents)} €
+                                            </td>
+                                            <td className="px-6 py-4 text-right text-gray-900">
+                                                {formatVatRate(item.vatRate)}
                                             </td>
                                             <td className="px-6 py-4 text-right font-semibold text-gray-900">
-                                                {item.total.toFixed(2)} €
+                                                {formatCents(item.totalCents)} €
                                             </td>
                                         </tr>
                                     ))}
@@ -152,24 +329,100 @@ export default async function InvoiceDetailPage({ params }: PageProps) {
                         )}
                     </div>
 
+                    {/* VAT Breakdown */}
+                    <div className="mb-8">
+                        <h3 className="text-xl font-semibold mb-4">ALV-erittely</h3>
+                        <table className="min-w-full border rounded-lg">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-6 py-3 text-left text-sm font-semibold text-gray-700">
+                                        ALV-kanta
+                                    </th>
+                                    <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">
+                                        Veroton
+                                    </th>
+                                    <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">
+                                        ALV
+                                    </th>
+                                    <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">
+                                        Verollinen
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                                {vatBreakdown.map((row) => (
+                                    <tr key={row.vatRate}>
+                                        <td className="px-6 py-4 text-gray-900">{formatVatRate(row.vatRate)}</td>
+                                        <td className="px-6 py-4 text-right text-gray-900">{formatCents(row.netCents)} €</td>
+                                        <td className="px-6 py-4 text-right text-gray-900">{formatCents(row.vatCents)} €</td>
+                                        <td className="px-6 py-4 text-right text-gray-900">{formatCents(row.grossCents)} €</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
                     {/* Totals */}
                     <div className="flex justify-end">
                         <div className="w-80 space-y-2 bg-gray-50 p-6 rounded-lg">
                             <div className="flex justify-between text-lg">
                                 <span className="text-gray-600">Veroton summa:</span>
-                                <span className="font-semibold">{invoice.subtotal.toFixed(2)} €</span>
+                                <span className="font-semibold">{formatCents(invoice.subtotalCents)} €</span>
                             </div>
                             <div className="flex justify-between text-lg">
-                                <span className="text-gray-600">ALV (25,5%):</span>
-                                <span className="font-semibold">{invoice.vatAmount.toFixed(2)} €</span>
+                                <span className="text-gray-600">ALV yhteensä:</span>
+                                <span className="font-semibold">{formatCents(invoice.vatAmountCents)} €</span>
                             </div>
                             <div className="flex justify-between text-2xl font-bold border-t-2 pt-3">
                                 <span>YHTEENSÄ:</span>
-                                <span className="text-blue-600">{invoice.total.toFixed(2)} €</span>
+                                <span className="text-blue-600">{formatCents(invoice.totalCents)} €</span>
                             </div>
+                            {invoice.payments.length > 0 && (
+                                <div className="flex justify-between text-lg pt-2">
+                                    <span className="text-gray-600">Maksettu:</span>
+                                    <span className="font-semibold">{formatCents(paidCents)} €</span>
+                                </div>
+                            )}
+                            {(invoice.creditNotes.length > 0 || invoice.payments.length > 0) && (
+                                <div className="flex justify-between text-lg pt-2">
+                                    <span className="text-gray-600">{openBalanceCents < 0 ? 'Liikasuoritus:' : 'Avoinna:'}</span>
+                                    <span className="font-semibold">{formatCents(Math.abs(openBalanceCents))} €</span>
+                                </div>
+                            )}
                         </div>
                     </div>
 
+                    {/* Credit Notes */}
+                    {invoice.creditNotes.length > 0 && (
+                        <div className="mt-8">
+                            <h3 className="text-lg font-semibold mb-3">Hyvityslaskut</h3>
+                            <ul className="space-y-1 text-gray-600">
+                                {invoice.creditNotes.map((creditNote) => (
+                                    <li key={creditNote.id}>
+                                        <a href={`/invoices/${creditNote.id}`} className="text-blue-600 hover:underline">
+                                            {creditNote.invoiceNumber}
+                                        </a>
+                                        {' '}{new Date(creditNote.invoiceDate).toLocaleDateString('fi-FI')}:{' '}
+                                        {formatCents(creditNote.totalCents)} €
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {/* Payments, overpayments become customer credit */}
+                    {!isCreditNote && (PAYABLE_STATUSES.includes(invoice.status) || invoice.payments.length > 0) && (
+                        <div className="mt-8">
+                            <h3 className="text-lg font-semibold mb-3">Maksut</h3>
+                            <InvoicePayments
+                                invoiceId={invoice.id}
+                                payments={invoice.payments}
+                                openBalanceCents={openBalanceCents}
+                                canAddPayment={PAYABLE_STATUSES.includes(invoice.status)}
+                            />
+                        </div>
+                    )}
+
                     {/* Notes */}
                     {invoice.notes && (
                         <div className="mt-8 p-4 bg-yellow-50 border-l-4 border-yellow-400 rounded">
@@ -184,13 +437,30 @@ export default async function InvoiceDetailPage({ params }: PageProps) {
                         <div className="grid grid-cols-2 gap-4">
                             <div>
                                 <p className="text-sm text-gray-600">Tilinumero (IBAN)</p>
-                                <p className="font-mono font-semibold">{invoice.company.iban}</p>                            </div>
+                                <p className="font-mono font-semibold">{formatIban(invoice.company.iban)}</p>                            </div>
                             <div>
                                 <p className="text-sm text-gray-600">BIC</p>
                                 <p className="font-mono font-semibold">{invoice.company.bic}</p>
                             </div>
                         </div>
                     </div>
+
+                    {/* Status History */}
+                    {invoice.statusChanges.length > 0 && (
+                        <div className="mt-8">
+                            <h3 className="text-lg font-semibold mb-3">Tilahistoria</h3>
+                            <ul className="space-y-1 text-gray-600">
+                                {invoice.statusChanges.map((change) => (
+                                    <li key={change.id}>
+                                        {new Date(change.createdAt).toLocaleString('fi-FI')}:{' '}
+                                        {getStatusLabel(change.fromStatus)} → {getStatusLabel(change.toStatus)}
+                                        {change.user && ` (${change.user.name || change.user.email})`}
+                                        {change.note && ` – ${change.note}`}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
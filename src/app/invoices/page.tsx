@@ -1,5 +1,7 @@
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/db/client'
+import { getStatusBadgeClass, getStatusLabel } from '@/lib/invoices/status'
+import { formatCents } from '@/lib/money'
 
 export default async function InvoicesPage() {
     // Get session
@@ -24,17 +26,6 @@ export default async function InvoicesPage() {
         }
     })
 
-    // Translate status to Finnish
-    const getStatusText = (status: string) => {
-        const statuses: { [key: string]: string } = {
-            'draft': 'Luonnos',
-            'sent': 'Lähetetty',
-            'paid': 'Maksettu',
-            'overdue': 'Myöhässä',
-        }
-        return statuses[status] || status
-    }
-
     return (
         <div className="min-h-screen p-8 bg-gray-50">
             <div className="max-w-7xl mx-auto">
@@ -48,9 +39,14 @@ export default async function InvoicesPage() {
                 {/* Header with title and create button */}
                 <div className="flex justify-between items-center mb-8">
                     <h1 className="text-4xl font-bold">Laskut</h1>
-                    <a href="/invoices/new" className="bg-green-500 text-white px-6 py-3 text-xl rounded-lg hover:bg-green-600">
-                        + Uusi lasku
-                    </a>
+                    <div className="flex gap-4">
+                        <a href="/payments/import" className="border border-blue-600 text-blue-600 px-6 py-3 text-xl rounded-lg hover:bg-blue-50">
+                            Tuo tiliote
+                        </a>
+                        <a href="/invoices/new" className="bg-green-500 text-white px-6 py-3 text-xl rounded-lg hover:bg-green-600">
+                            + Uusi lasku
+                        </a>
+                    </div>
                 </div>
 
                 {invoices.length === 0 ? (
@@ -89,6 +85,9 @@ export default async function InvoicesPage() {
                                             <a href={`/invoices/${invoice.id}`} className="text-blue-600 hover:underline">
                                                 {invoice.invoiceNumber}
                                             </a>
+                                            {invoice.type === 'credit_note' && (
+                                                <span className="ml-2 text-sm text-purple-700">Hyvityslasku</span>
+                                            )}
                                         </td>
                                         <td className="px-6 py-4 text-lg">
                                             {invoice.customer.name}
@@ -100,11 +99,11 @@ export default async function InvoicesPage() {
                                             {new Date(invoice.dueDate).toLocaleDateString('fi-FI')}
                                         </td>
                                         <td className="px-6 py-4 text-lg font-semibold">
-                                            {invoice.total.toFixed(2)} €
+                                            {formatCents(invoice.totalCents)} €
                                         </td>
                                         <td className="px-6 py-4">
-                                            <span className="px-3 py-1 text-sm rounded-full bg-yellow-100 text-yellow-800">
-                                                {getStatusText(invoice.status)}
+                                            <span className={`px-3 py-1 text-sm rounded-full ${getStatusBadgeClass(invoice.status)}`}>
+                                                {getStatusLabel(invoice.status)}
                                             </span>
                                         </td>
                                     </tr>
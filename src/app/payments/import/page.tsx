@@ -0,0 +1,6 @@
+// Bank statement import page - books incoming payments to invoices after review
+import BankStatementImport from '@/components/bank/BankStatementImport'
+
+export default function BankStatementImportPage() {
+    return <BankStatementImport />
+}
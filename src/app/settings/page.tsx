@@ -0,0 +1,92 @@
+// Settings page - company level settings such as document numbering, payment references and the PDF layout
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db/client'
+import { redirect } from 'next/navigation'
+import NumberSequenceForm from '@/components/settings/NumberSequenceForm'
+import ReferenceTypeForm from '@/components/settings/ReferenceTypeForm'
+import PdfTemplateForm from '@/components/settings/PdfTemplateForm'
+import { getNumberSequence } from '@/lib/invoices/numbering'
+import { DOCUMENT_TYPES, DocumentType } from '@/lib/invoices/number-pattern'
+import { isReferenceType } from '@/lib/invoices/reference'
+import { getPdfTemplate } from '@/lib/invoices/pdf'
+
+export default async function SettingsPage() {
+    // Get session
+    const session = await auth()
+
+    if (!session?.user?.id) {
+        return <div>Unauthorized</div>
+    }
+
+    const company = await prisma.company.findFirst({
+        where: {
+            userId: session.user.id
+        }
+    })
+
+    // Settings need a company
+    if (!company) {
+        redirect('/setup')
+    }
+
+    // Sequences are created with defaults on first visit
+    const sequences = await Promise.all(
+        DOCUMENT_TYPES.map(type => getNumberSequence(company.id, type))
+    )
+
+    const pdfTemplate = await getPdfTemplate(company.id)
+    const referenceType = isReferenceType(company.referenceType) ? company.referenceType : 'rf'
+
+    return (
+        <div className="min-h-screen p-8 bg-gray-50">
+            <div className="max-w-4xl mx-auto">
+                {/* Back to home button */}
+                <div className="mb-4">
+                    <a href="/" className="text-blue-600 hover:text-blue-800 text-lg flex items-center gap-2">
+                        ← Etusivu
+                    </a>
+                </div>
+
+                <h1 className="text-4xl font-bold mb-2">Asetukset</h1>
+                <p className="text-gray-600 text-lg mb-8">Laskujen numerointi, viitenumerot ja laskupohja</p>
+
+                <div className="space-y-8">
+                    <ReferenceTypeForm
+                        referenceType={referenceType}
+                    />
+
+                    {sequences.map((sequence) => (
+                        <NumberSequenceForm
+                            key={sequence.id}
+                            sequence={{
+                                documentType: sequence.documentType as DocumentType,
+                                prefix: sequence.prefix,
+                                includeYear: sequence.includeYear,
+                                padding: sequence.padding,
+                                yearlyReset: sequence.yearlyReset,
+                                nextNumber: sequence.nextNumber,
+                                currentYear: sequence.currentYear,
+                            }}
+                        />
+                    ))}
+
+                    <PdfTemplateForm
+                        template={pdfTemplate}
+                        referenceType={referenceType}
+                        company={{
+                            name: company.name,
+                            businessId: company.businessId,
+                            address: company.address,
+                            postalCode: company.postalCode,
+                            city: company.city,
+                            email: company.email,
+                            phone: company.phone,
+                            iban: company.iban,
+                            bic: company.bic,
+                        }}
+                    />
+                </div>
+            </div>
+        </div>
+    )
+}
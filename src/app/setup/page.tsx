@@ -7,6 +7,11 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
+import { REFERENCE_TYPES, REFERENCE_TYPE_LABELS } from '@/lib/invoices/reference'
+import { businessIdToVatNumber, validateBusinessId } from '@/utils/finnish/business-id'
+import VatNumberCheck from '@/components/vat/VatNumberCheck'
+import { formatIban, validateBic, validateIban } from '@/utils/eu/iban'
+import { bicFromFinnishIban } from '@/utils/finnish/bank-codes'
 
 export default function SetupPage() {
     const router = useRouter()
@@ -23,7 +28,10 @@ export default function SetupPage() {
         phone: '',
         bankAccount: '',
         bic: '',
+        referenceType: 'rf',
     })
+    // BIC filled in from the Finnish bank ID, replaced when the IBAN changes
+    const [derivedBic, setDerivedBic] = useState('')
 
     // Show loading while checking authentication
     if (status === 'loading') {
@@ -41,13 +49,34 @@ export default function SetupPage() {
     }
 
     // Handle input changes
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
         setFormData({
             ...formData,
             [e.target.name]: e.target.value,
         })
     }
 
+    // IBAN changes fill in the BIC of Finnish banks, unless the user has typed their own
+    const handleBankAccountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const bankAccount = e.target.value
+        const bic = bicFromFinnishIban(bankAccount) ?? ''
+        const keepBic = formData.bic && formData.bic !== derivedBic
+
+        setFormData({
+            ...formData,
+            bankAccount,
+            bic: keepBic ? formData.bic : bic,
+        })
+        setDerivedBic(keepBic ? derivedBic : bic)
+    }
+
+    // Show a valid IBAN in groups of four once the field is left
+    const handleBankAccountBlur = () => {
+        if (validateIban(formData.bankAccount)) {
+            setFormData({ ...formData, bankAccount: formatIban(formData.bankAccount) })
+        }
+    }
+
     // Handle form submission
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault()
@@ -122,6 +151,18 @@ export default function SetupPage() {
                             className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                             placeholder="esim. 1234567-8 (jätä tyhjäksi jos yksityishenkilö)"
                         />
+                        {formData.businessId && !validateBusinessId(formData.businessId) && (
+                            <p className="text-red-600 text-sm mt-1">Y-tunnus on virheellinen (tarkistusnumero ei täsmää)</p>
+                        )}
+                        {/* ALV-numero is derived from the Y-tunnus, VIES tells if it is VAT registered */}
+                        {formData.businessId && validateBusinessId(formData.businessId) && (
+                            <>
+                                <p className="text-gray-600 text-sm mt-1">
+                                    ALV-numero: {businessIdToVatNumber(formData.businessId)}
+                                </p>
+                                <VatNumberCheck vatNumber={businessIdToVatNumber(formData.businessId)} />
+                            </>
+                        )}
                     </div>
 
                     {/* Address */}
@@ -214,11 +255,15 @@ export default function SetupPage() {
                                 type="text"
                                 name="bankAccount"
                                 value={formData.bankAccount}
-                                onChange={handleChange}
+                                onChange={handleBankAccountChange}
+                                onBlur={handleBankAccountBlur}
                                 required
                                 className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                                 placeholder="FI21 1234 5600 0007 85"
                             />
+                            {formData.bankAccount && !validateIban(formData.bankAccount) && (
+                                <p className="text-red-600 text-sm mt-1">IBAN on virheellinen (tarkista tilinumero)</p>
+                            )}
                         </div>
                         <div>
                             <label className="block text-lg font-medium text-gray-700 mb-2">
@@ -233,9 +278,34 @@ export default function SetupPage() {
                                 className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                                 placeholder="NDEAFIHH"
                             />
+                            {formData.bic && !validateBic(formData.bic) && (
+                                <p className="text-red-600 text-sm mt-1">BIC on virheellinen</p>
+                            )}
+                            {formData.bic && formData.bic === derivedBic && (
+                                <p className="text-gray-600 text-sm mt-1">Päätelty tilinumerosta</p>
+                            )}
                         </div>
                     </div>
 
+                    {/* Payment reference type */}
+                    <div>
+                        <label className="block text-lg font-medium text-gray-700 mb-2">
+                            Viitenumeron tyyppi
+                        </label>
+                        <select
+                            name="referenceType"
+                            value={formData.referenceType}
+                            onChange={handleChange}
+                            className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                            {REFERENCE_TYPES.map((type) => (
+                                <option key={type} value={type}>
+                                    {REFERENCE_TYPE_LABELS[type]}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
                     {/* Submit Button */}
                     <button
                         type="submit"
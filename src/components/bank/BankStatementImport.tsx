@@ -0,0 +1,278 @@
+'use client'
+
+// Bank statement import and review
+// Uploads a statement file, shows how its incoming payments matched the open invoices
+// and books the accepted ones. Matched payments are preselected, ambiguous and unmatched
+// ones are booked only after choosing the invoice
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { formatCents } from '@/lib/money'
+import type { BankCreditMatch, BankCreditMatchStatus, MatchCandidate } from '@/lib/bank/matching'
+
+interface StatementPreview {
+    format: string
+    iban: string | null
+    isCompanyAccount: boolean
+    matches: BankCreditMatch[]
+    invoices: MatchCandidate[]
+}
+
+// Review choice of one credit
+interface Selection {
+    invoiceId: string
+    book: boolean
+}
+
+const MATCH_STATUS_LABELS: Record<BankCreditMatchStatus, string> = {
+    matched: 'Täsmää',
+    ambiguous: 'Tarkistettava',
+    unmatched: 'Ei täsmää',
+    booked: 'Kirjattu aiemmin',
+}
+
+const MATCH_STATUS_BADGE_CLASSES: Record<BankCreditMatchStatus, string> = {
+    matched: 'bg-green-100 text-green-800',
+    ambiguous: 'bg-yellow-100 text-yellow-800',
+    unmatched: 'bg-red-100 text-red-800',
+    booked: 'bg-gray-100 text-gray-600',
+}
+
+/**
+ * Label of an invoice in the invoice select
+ */
+function candidateLabel(invoice: MatchCandidate): string {
+    return `${invoice.invoiceNumber} – ${invoice.customerName} (avoinna ${formatCents(invoice.openBalanceCents)} €)`
+}
+
+export default function BankStatementImport() {
+    const router = useRouter()
+    const [loading, setLoading] = useState(false)
+    const [file, setFile] = useState<File | null>(null)
+    const [preview, setPreview] = useState<StatementPreview | null>(null)
+    const [selections, setSelections] = useState<Record<string, Selection>>({})
+
+    // Upload the file and preselect the matched payments
+    const handleUpload = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!file) {
+            return
+        }
+
+        setLoading(true)
+
+        try {
+            const formData = new FormData()
+            formData.append('file', file)
+
+            const res = await fetch('/api/bank-statements', {
+                method: 'POST',
+                body: formData,
+            })
+
+            if (res.ok) {
+                const data: StatementPreview = await res.json()
+                setPreview(data)
+                setSelections(Object.fromEntries(data.matches.map(match => [match.credit.archiveId, {
+                    invoiceId: match.invoiceId ?? '',
+                    book: match.status === 'matched',
+                }])))
+            } else {
+                const errorData = await res.json()
+                alert(`Tiliotteen luku epäonnistui: ${errorData.error || 'Tuntematon virhe'}`)
+            }
+        } catch (error) {
+            console.error('Bank statement upload error:', error)
+            alert('Tiliotteen luku epäonnistui')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const updateSelection = (archiveId: string, change: Partial<Selection>) => {
+        setSelections(prev => ({ ...prev, [archiveId]: { ...prev[archiveId], ...change } }))
+    }
+
+    const accepted = (preview?.matches ?? []).filter(match =>
+        match.status !== 'booked' && selections[match.credit.archiveId]?.book
+    )
+
+    // Book the accepted payments
+    const handleBook = async () => {
+        if (accepted.some(match => !selections[match.credit.archiveId].invoiceId)) {
+            alert('Valitse lasku jokaiselle kirjattavalle maksulle')
+            return
+        }
+
+        setLoading(true)
+
+        try {
+            const res = await fetch('/api/bank-statements/book', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    payments: accepted.map(({ credit }) => ({
+                        invoiceId: selections[credit.archiveId].invoiceId,
+                        archiveId: credit.archiveId,
+                        amountCents: credit.amountCents,
+                        bookingDate: credit.bookingDate,
+                        reference: credit.reference,
+                        payerName: credit.payerName,
+                    })),
+                }),
+            })
+
+            if (res.ok) {
+                const result = await res.json()
+                alert(`Kirjattu ${result.booked} maksua${result.skipped ? `, ${result.skipped} oli jo kirjattu` : ''}`)
+                router.push('/invoices')
+            } else {
+                const errorData = await res.json()
+                alert(`Virhe tallennuksessa: ${errorData.error || 'Tuntematon virhe'}`)
+            }
+        } catch (error) {
+            console.error('Bank payment booking error:', error)
+            alert('Virhe tallennuksessa')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-50 p-8">
+            <div className="max-w-7xl mx-auto">
+                <div className="mb-4">
+                    <a href="/invoices" className="text-blue-600 hover:text-blue-800 text-lg flex items-center gap-2">
+                        ← Laskut
+                    </a>
+                </div>
+
+                <div className="bg-white rounded-lg shadow-lg p-8">
+                    <div className="mb-8">
+                        <h1 className="text-4xl font-bold mb-2">Tiliotteen tuonti</h1>
+                        <p className="text-gray-600 text-lg">
+                            Saapuneet maksut kohdistetaan laskuihin viitenumeron ja summan perusteella.
+                            Tuettuja ovat camt.053- ja camt.054-tiliotteet sekä KTL-viitesiirtoaineistot.
+                        </p>
+                    </div>
+
+                    {/* Statement file */}
+                    <form onSubmit={handleUpload} className="flex gap-4 items-center mb-8">
+                        <input
+                            type="file"
+                            accept=".xml,.txt,.ktl,.dat,application/xml,text/xml,text/plain"
+                            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                            className="flex-1 px-4 py-3 text-lg border border-gray-300 rounded-lg"
+                        />
+                        <button
+                            type="submit"
+                            disabled={loading || !file}
+                            className="px-6 py-3 text-lg bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+                        >
+                            {loading && !preview ? 'Luetaan...' : 'Lue tiliote'}
+                        </button>
+                    </form>
+
+                    {preview && (
+                        <>
+                            <p className="text-gray-600 mb-4">
+                                {preview.format}{preview.iban && `, tili ${preview.iban}`}: {preview.matches.length} saapunutta maksua
+                            </p>
+                            {!preview.isCompanyAccount && (
+                                <p className="mb-4 p-4 bg-yellow-50 border border-yellow-300 rounded-lg text-yellow-900">
+                                    Tiliote on eri tililtä kuin yrityksen tilinumero. Tarkista ennen kirjaamista.
+                                </p>
+                            )}
+
+                            {preview.matches.length === 0 ? (
+                                <p className="text-gray-400 italic">Tiliotteella ei ole saapuneita maksuja</p>
+                            ) : (
+                                <table className="min-w-full divide-y divide-gray-200 border rounded-lg mb-6">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Kirjaa</th>
+                                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Päivä</th>
+                                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Maksaja</th>
+                                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Viite / viesti</th>
+                                            <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Summa</th>
+                                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Tila</th>
+                                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Lasku</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="bg-white divide-y divide-gray-200">
+                                        {preview.matches.map(({ credit, status, candidates }) => {
+                                            const selection = selections[credit.archiveId]
+                                            const isBooked = status === 'booked'
+                                            // Candidates first, then every other payable invoice
+                                            const others = preview.invoices.filter(invoice =>
+                                                !candidates.some(candidate => candidate.invoiceId === invoice.invoiceId)
+                                            )
+
+                                            return (
+                                                <tr key={credit.archiveId}>
+                                                    <td className="px-4 py-3">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={!isBooked && selection.book}
+                                                            disabled={isBooked}
+                                                            onChange={(e) => updateSelection(credit.archiveId, { book: e.target.checked })}
+                                                        />
+                                                    </td>
+                                                    <td className="px-4 py-3">{new Date(credit.bookingDate).toLocaleDateString('fi-FI')}</td>
+                                                    <td className="px-4 py-3">{credit.payerName ?? '–'}</td>
+                                                    <td className="px-4 py-3 font-mono text-sm">{credit.reference ?? credit.message ?? '–'}</td>
+                                                    <td className="px-4 py-3 text-right">{formatCents(credit.amountCents)} €</td>
+                                                    <td className="px-4 py-3">
+                                                        <span className={`px-3 py-1 text-sm rounded-full ${MATCH_STATUS_BADGE_CLASSES[status]}`}>
+                                                            {MATCH_STATUS_LABELS[status]}
+                                                        </span>
+                                                    </td>
+                                                    <td className="px-4 py-3">
+                                                        {!isBooked && (
+                                                            <select
+                                                                value={selection.invoiceId}
+                                                                onChange={(e) => updateSelection(credit.archiveId, {
+                                                                    invoiceId: e.target.value,
+                                                                    book: e.target.value !== '',
+                                                                })}
+                                                                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                                                            >
+                                                                <option value="">– Valitse lasku –</option>
+                                                                {candidates.map((invoice) => (
+                                                                    <option key={invoice.invoiceId} value={invoice.invoiceId}>
+                                                                        {candidateLabel(invoice)}
+                                                                    </option>
+                                                                ))}
+                                                                {others.length > 0 && (
+                                                                    <optgroup label="Muut laskut">
+                                                                        {others.map((invoice) => (
+                                                                            <option key={invoice.invoiceId} value={invoice.invoiceId}>
+                                                                                {candidateLabel(invoice)}
+                                                                            </option>
+                                                                        ))}
+                                                                    </optgroup>
+                                                                )}
+                                                            </select>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                            )
+                                        })}
+                                    </tbody>
+                                </table>
+                            )}
+
+                            <button
+                                type="button"
+                                onClick={handleBook}
+                                disabled={loading || accepted.length === 0}
+                                className="w-full bg-green-600 text-white py-4 text-xl font-semibold rounded-lg hover:bg-green-700 transition disabled:bg-gray-400"
+                            >
+                                {loading ? 'Kirjataan...' : `Kirjaa ${accepted.length} maksua`}
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,177 @@
+'use client'
+
+// Client component for the billing and delivery addresses of a customer
+// Lists, adds and deletes addresses, the default of each type is preselected on new invoices
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { ADDRESS_TYPE_LABELS, ADDRESS_TYPES, isAddressType } from '@/lib/customers/contacts'
+import { countryLabel, countryOptions, DEFAULT_COUNTRY } from '@/lib/i18n/countries'
+
+interface Address {
+    id: string
+    type: string
+    name: string | null
+    address: string
+    postalCode: string
+    city: string
+    country: string
+    isDefault: boolean
+}
+
+interface CustomerAddressesProps {
+    customerId: string
+    addresses: Address[]
+}
+
+const EMPTY_ADDRESS = {
+    type: 'billing' as string,
+    name: '',
+    address: '',
+    postalCode: '',
+    city: '',
+    country: DEFAULT_COUNTRY as string,
+    isDefault: false,
+}
+
+export default function CustomerAddresses({ customerId, addresses }: CustomerAddressesProps) {
+    const router = useRouter()
+    const [loading, setLoading] = useState(false)
+    const [formData, setFormData] = useState(EMPTY_ADDRESS)
+
+    // Handle input changes
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target
+        const checked = e.target instanceof HTMLInputElement && e.target.type === 'checkbox' ? e.target.checked : undefined
+        setFormData(prev => ({ ...prev, [name]: checked ?? value }))
+    }
+
+    // Send an address change and reload the customer page
+    const save = async (url: string, method: string, body?: object) => {
+        setLoading(true)
+
+        try {
+            const res = await fetch(url, {
+                method,
+                headers: { 'Content-Type': 'application/json' },
+                body: body ? JSON.stringify(body) : undefined,
+            })
+
+            if (res.ok) {
+                router.refresh()
+                return true
+            }
+
+            const errorData = await res.json()
+            alert(`Virhe tallennuksessa: ${errorData.error || 'Tuntematon virhe'}`)
+        } catch (error) {
+            console.error('Address save error:', error)
+            alert('Virhe tallennuksessa')
+        } finally {
+            setLoading(false)
+        }
+        return false
+    }
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (await save(`/api/customers/${customerId}/addresses`, 'POST', formData)) {
+            setFormData(EMPTY_ADDRESS)
+        }
+    }
+
+    const handleSetDefault = (address: Address) =>
+        save(`/api/customers/${customerId}/addresses/${address.id}`, 'PUT', { ...address, isDefault: true })
+
+    const handleDelete = (address: Address) => {
+        if (confirm(`Poistetaanko osoite ${address.address}, ${address.city}?`)) {
+            save(`/api/customers/${customerId}/addresses/${address.id}`, 'DELETE')
+        }
+    }
+
+    return (
+        <div>
+            {addresses.length === 0 ? (
+                <p className="text-gray-400 italic mb-4">
+                    Ei lisäosoitteita, laskut lähetetään asiakkaan osoitteeseen
+                </p>
+            ) : (
+                <ul className="divide-y divide-gray-200 mb-4">
+                    {addresses.map((address) => (
+                        <li key={address.id} className="py-3 flex justify-between items-center">
+                            <div>
+                                <p className="font-semibold">
+                                    {isAddressType(address.type) ? ADDRESS_TYPE_LABELS[address.type] : address.type}
+                                    {address.isDefault && (
+                                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">Oletus</span>
+                                    )}
+                                </p>
+                                <p className="text-gray-600 text-sm">
+                                    {[address.name, address.address, `${address.postalCode} ${address.city}`, countryLabel(address.country)]
+                                        .filter(Boolean)
+                                        .join(', ')}
+                                </p>
+                            </div>
+                            <div className="flex gap-3 text-sm">
+                                {!address.isDefault && (
+                                    <button type="button" onClick={() => handleSetDefault(address)} disabled={loading}
+                                        className="text-blue-600 hover:underline disabled:opacity-50"
+                                    >
+                                        Aseta oletukseksi
+                                    </button>
+                                )}
+                                <button type="button" onClick={() => handleDelete(address)} disabled={loading}
+                                    className="text-red-600 hover:underline disabled:opacity-50"
+                                >
+                                    Poista
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {/* New address */}
+            <form onSubmit={handleAdd} className="grid grid-cols-2 gap-3">
+                <select name="type" value={formData.type} onChange={handleChange}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                    {ADDRESS_TYPES.map((type) => (
+                        <option key={type} value={type}>{ADDRESS_TYPE_LABELS[type]}</option>
+                    ))}
+                </select>
+                <input type="text" name="name" value={formData.name} onChange={handleChange}
+                    placeholder="Lisärivi, esim. osasto tai toimipaikka"
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input type="text" name="address" value={formData.address} onChange={handleChange} required
+                    placeholder="Katuosoite *"
+                    className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input type="text" name="postalCode" value={formData.postalCode} onChange={handleChange} required
+                    placeholder="Postinumero *"
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input type="text" name="city" value={formData.city} onChange={handleChange} required
+                    placeholder="Kaupunki *"
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <select name="country" value={formData.country} onChange={handleChange}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                    {countryOptions().map(({ code, label }) => (
+                        <option key={code} value={code}>{label}</option>
+                    ))}
+                </select>
+                <label className="flex items-center gap-2 text-gray-700">
+                    <input type="checkbox" name="isDefault" checked={formData.isDefault} onChange={handleChange} />
+                    Oletusosoite
+                </label>
+                <button type="submit" disabled={loading}
+                    className="col-span-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                >
+                    + Lisää osoite
+                </button>
+            </form>
+        </div>
+    )
+}
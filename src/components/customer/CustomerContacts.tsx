@@ -0,0 +1,153 @@
+'use client'
+
+// Client component for the contact persons of a customer
+// Lists, adds and deletes contacts, the default contact is preselected on new invoices
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface Contact {
+    id: string
+    name: string
+    role: string | null
+    email: string | null
+    phone: string | null
+    isDefault: boolean
+}
+
+interface CustomerContactsProps {
+    customerId: string
+    contacts: Contact[]
+}
+
+const EMPTY_CONTACT = {
+    name: '',
+    role: '',
+    email: '',
+    phone: '',
+    isDefault: false,
+}
+
+export default function CustomerContacts({ customerId, contacts }: CustomerContactsProps) {
+    const router = useRouter()
+    const [loading, setLoading] = useState(false)
+    const [formData, setFormData] = useState(EMPTY_CONTACT)
+
+    // Handle input changes
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value, type, checked } = e.target
+        setFormData(prev => ({ ...prev, [name]: type === 'checkbox' ? checked : value }))
+    }
+
+    // Send a contact change and reload the customer page
+    const save = async (url: string, method: string, body?: object) => {
+        setLoading(true)
+
+        try {
+            const res = await fetch(url, {
+                method,
+                headers: { 'Content-Type': 'application/json' },
+                body: body ? JSON.stringify(body) : undefined,
+            })
+
+            if (res.ok) {
+                router.refresh()
+                return true
+            }
+
+            const errorData = await res.json()
+            alert(`Virhe tallennuksessa: ${errorData.error || 'Tuntematon virhe'}`)
+        } catch (error) {
+            console.error('Contact save error:', error)
+            alert('Virhe tallennuksessa')
+        } finally {
+            setLoading(false)
+        }
+        return false
+    }
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (await save(`/api/customers/${customerId}/contacts`, 'POST', formData)) {
+            setFormData(EMPTY_CONTACT)
+        }
+    }
+
+    const handleSetDefault = (contact: Contact) =>
+        save(`/api/customers/${customerId}/contacts/${contact.id}`, 'PUT', { ...contact, isDefault: true })
+
+    const handleDelete = (contact: Contact) => {
+        if (confirm(`Poistetaanko yhteyshenkilö ${contact.name}?`)) {
+            save(`/api/customers/${customerId}/contacts/${contact.id}`, 'DELETE')
+        }
+    }
+
+    return (
+        <div>
+            {contacts.length === 0 ? (
+                <p className="text-gray-400 italic mb-4">Ei yhteyshenkilöitä</p>
+            ) : (
+                <ul className="divide-y divide-gray-200 mb-4">
+                    {contacts.map((contact) => (
+                        <li key={contact.id} className="py-3 flex justify-between items-center">
+                            <div>
+                                <p className="font-semibold">
+                                    {contact.name}
+                                    {contact.role && <span className="font-normal text-gray-600"> – {contact.role}</span>}
+                                    {contact.isDefault && (
+                                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">Oletus</span>
+                                    )}
+                                </p>
+                                <p className="text-gray-600 text-sm">
+                                    {[contact.email, contact.phone].filter(Boolean).join(' · ')}
+                                </p>
+                            </div>
+                            <div className="flex gap-3 text-sm">
+                                {!contact.isDefault && (
+                                    <button type="button" onClick={() => handleSetDefault(contact)} disabled={loading}
+                                        className="text-blue-600 hover:underline disabled:opacity-50"
+                                    >
+                                        Aseta oletukseksi
+                                    </button>
+                                )}
+                                <button type="button" onClick={() => handleDelete(contact)} disabled={loading}
+                                    className="text-red-600 hover:underline disabled:opacity-50"
+                                >
+                                    Poista
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {/* New contact */}
+            <form onSubmit={handleAdd} className="grid grid-cols-2 gap-3">
+                <input type="text" name="name" value={formData.name} onChange={handleChange} required
+                    placeholder="Nimi *"
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input type="text" name="role" value={formData.role} onChange={handleChange}
+                    placeholder="Rooli, esim. ostoreskontra"
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input type="email" name="email" value={formData.email} onChange={handleChange}
+                    placeholder="Sähköposti"
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input type="tel" name="phone" value={formData.phone} onChange={handleChange}
+                    placeholder="Puhelin"
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <label className="flex items-center gap-2 text-gray-700">
+                    <input type="checkbox" name="isDefault" checked={formData.isDefault} onChange={handleChange} />
+                    Oletusyhteyshenkilö
+                </label>
+                <button type="submit" disabled={loading}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                >
+                    + Lisää yhteyshenkilö
+                </button>
+            </form>
+        </div>
+    )
+}
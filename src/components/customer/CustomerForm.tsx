@@ -0,0 +1,433 @@
+'use client'
+
+// Customer form
+// Used for both creating a new customer and editing an existing one
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { DEFAULT_INVOICE_LANGUAGE, INVOICE_LANGUAGE_LABELS, INVOICE_LANGUAGES } from '@/lib/i18n/languages'
+import { countryOptions, DEFAULT_COUNTRY, toCountryCode } from '@/lib/i18n/countries'
+import { DEFAULT_PAYMENT_TERM_DAYS, MAX_PAYMENT_TERM_DAYS } from '@/lib/invoices/payment-terms'
+import { DEFAULT_DELIVERY_METHOD, DELIVERY_METHOD_LABELS, DELIVERY_METHODS } from '@/lib/invoices/delivery'
+import { isFinnishCustomer, MAX_DEFAULT_NOTES_LENGTH } from '@/lib/customers/customer-input'
+import { validateBusinessId } from '@/utils/finnish/business-id'
+import { resolveVatNumber } from '@/utils/eu/vat-number'
+import VatNumberCheck from '@/components/vat/VatNumberCheck'
+import { DEFAULT_VAT_TREATMENT, VAT_TREATMENT_LABELS, VAT_TREATMENTS } from '@/utils/finnish/vat-rates'
+
+// Stored customer being edited, optional fields may be null
+interface EditableCustomer {
+    id: string
+    name: string
+    businessId: string | null
+    vatNumber: string | null
+    vatRegistered: boolean
+    address: string
+    postalCode: string
+    city: string
+    country: string
+    email: string
+    phone: string | null
+    peppolId: string | null
+    einvoiceAddress: string | null
+    einvoiceOperator: string | null
+    language: string
+    paymentTermDays: number
+    vatTreatment: string
+    deliveryMethod: string
+    defaultNotes: string | null
+}
+
+interface CustomerFormProps {
+    customer?: EditableCustomer
+}
+
+export default function CustomerForm({ customer }: CustomerFormProps) {
+    const router = useRouter()
+    const isEditing = !!customer
+    const [loading, setLoading] = useState(false)
+    const [formData, setFormData] = useState({
+        name: customer?.name ?? '',
+        businessId: customer?.businessId ?? '',
+        vatNumber: customer?.vatNumber ?? '',
+        vatRegistered: customer?.vatRegistered ?? true,
+        address: customer?.address ?? '',
+        postalCode: customer?.postalCode ?? '',
+        city: customer?.city ?? '',
+        // Older customers may have a country name, unknown names must be picked again
+        country: customer ? toCountryCode(customer.country) ?? '' : DEFAULT_COUNTRY as string,
+        email: customer?.email ?? '',
+        phone: customer?.phone ?? '',
+        peppolId: customer?.peppolId ?? '',
+        einvoiceAddress: customer?.einvoiceAddress ?? '',
+        einvoiceOperator: customer?.einvoiceOperator ?? '',
+        language: customer?.language ?? DEFAULT_INVOICE_LANGUAGE as string,
+        paymentTermDays: customer?.paymentTermDays ?? DEFAULT_PAYMENT_TERM_DAYS,
+        vatTreatment: customer?.vatTreatment ?? DEFAULT_VAT_TREATMENT as string,
+        deliveryMethod: customer?.deliveryMethod ?? DEFAULT_DELIVERY_METHOD as string,
+        defaultNotes: customer?.defaultNotes ?? '',
+    })
+
+    // Finnish customers' business ID is a Y-tunnus with a check digit
+    const isFinnish = isFinnishCustomer(formData.country)
+    const invalidBusinessId = !!formData.businessId && isFinnish && !validateBusinessId(formData.businessId)
+
+    // Customer page to return to after saving or cancelling
+    const returnUrl = isEditing ? `/customers/${customer.id}` : '/customers'
+
+    // Handle input changes
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+        setFormData({
+            ...formData,
+            [e.target.name]: e.target.value,
+        })
+    }
+
+    // Handle form submission
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setLoading(true)
+
+        try {
+            // Create a new customer or update the existing one
+            const res = await fetch(isEditing ? `/api/customers/${customer.id}` : '/api/customers', {
+                method: isEditing ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(formData),
+            })
+
+            if (res.ok) {
+                router.push(returnUrl)
+                router.refresh()
+            } else {
+                const errorData = await res.json()
+                alert(`Virhe tallennuksessa: ${errorData.error || 'Tuntematon virhe'}`)
+            }
+        } catch (error) {
+            console.error('Customer save error:', error)
+            alert('Virhe tallennuksessa')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-50 p-8">
+            <div className="max-w-3xl mx-auto">
+                <div className="bg-white rounded-lg shadow-lg p-8">
+                    <div className="mb-8">
+                        <h1 className="text-4xl font-bold mb-2">{isEditing ? 'Muokkaa asiakasta' : 'Lisää uusi asiakas'}</h1>
+                        <p className="text-gray-600 text-lg">Täytä asiakkaan tiedot</p>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="space-y-6">
+                        <div>
+                            <label className="block text-lg font-medium text-gray-700 mb-2">
+                                Nimi *
+                            </label>
+                            <input
+                                type="text"
+                                name="name"
+                                value={formData.name}
+                                onChange={handleChange}
+                                required
+                                className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                placeholder="Yritys Oy tai Matti Meikäläinen"
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-lg font-medium text-gray-700 mb-2">
+                                {isFinnish ? 'Y-tunnus' : 'Yritystunnus'} (valinnainen)
+                            </label>
+                            <input
+                                type="text"
+                                name="businessId"
+                                value={formData.businessId}
+                                onChange={handleChange}
+                                className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                placeholder={isFinnish ? '1234567-8' : 'Kotimaan rekisterinumero'}
+                            />
+                            {invalidBusinessId && (
+                                <p className="text-red-600 text-sm mt-1">Y-tunnus on virheellinen (tarkistusnumero ei täsmää)</p>
+                            )}
+                        </div>
+
+                        <div>
+                            <label className="block text-lg font-medium text-gray-700 mb-2">
+                                ALV-numero (valinnainen)
+                            </label>
+                            <input
+                                type="text"
+                                name="vatNumber"
+                                value={formData.vatNumber}
+                                onChange={handleChange}
+                                className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                placeholder="esim. SE556677889901, ALV-rekisteröidyille suomalaisille muodostetaan Y-tunnuksesta"
+                            />
+                            {/* Only VAT registered Finnish customers have the FI VAT number of their Y-tunnus */}
+                            {isFinnish && (
+                                <label className="flex items-center gap-2 text-gray-700 mt-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={formData.vatRegistered}
+                                        onChange={(e) => setFormData({ ...formData, vatRegistered: e.target.checked })}
+                                        className="w-5 h-5"
+                                    />
+                                    Merkitty arvonlisäverorekisteriin
+                                </label>
+                            )}
+                            <VatNumberCheck
+                                vatNumber={resolveVatNumber(formData) ?? ''}
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-lg font-medium text-gray-700 mb-2">
+                                Osoite *
+                            </label>
+                            <input
+                                type="text"
+                                name="address"
+                                value={formData.address}
+                                onChange={handleChange}
+                                required
+                                className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                placeholder="Esimerkkikatu 1"
+                            />
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-4">
+                            <div>
+                                <label className="block text-lg font-medium text-gray-700 mb-2">
+                                    Postinumero *
+                                </label>
+                                <input
+                                    type="text"
+                                    name="postalCode"
+                                    value={formData.postalCode}
+                                    onChange={handleChange}
+                                    required
+                                    className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    placeholder="00100"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-lg font-medium text-gray-700 mb-2">
+                                    Kaupunki *
+                                </label>
+                                <input
+                                    type="text"
+                                    name="city"
+                                    value={formData.city}
+                                    onChange={handleChange}
+                                    required
+                                    className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    placeholder="Helsinki"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-lg font-medium text-gray-700 mb-2">
+                                    Maa *
+                                </label>
+                                <select
+                                    name="country"
+                                    value={formData.country}
+                                    onChange={handleChange}
+                                    required
+                                    className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                >
+                                    <option value="" disabled>Valitse maa</option>
+                                    {countryOptions().map(({ code, label }) => (
+                                        <option key={code} value={code}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-lg font-medium text-gray-700 mb-2">
+                                    Sähköposti *
+                                </label>
+                                <input
+                                    type="email"
+                                    name="email"
+                                    value={formData.email}
+                                    onChange={handleChange}
+                                    required
+                                    className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    placeholder="asiakas@example.com"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-lg font-medium text-gray-700 mb-2">
+                                    Puhelin *
+                                </label>
+                                <input
+                                    type="tel"
+                                    name="phone"
+                                    value={formData.phone}
+                                    onChange={handleChange}
+                                    required
+                                    className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    placeholder="+358 40 123 4567"
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-lg font-medium text-gray-700 mb-2">
+                                Laskun kieli
+                            </label>
+                            <select
+                                name="language"
+                                value={formData.language}
+                                onChange={handleChange}
+                                className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                                {INVOICE_LANGUAGES.map((language) => (
+                                    <option key={language} value={language}>
+                                        {INVOICE_LANGUAGE_LABELS[language]}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {/* Defaults for new invoices of the customer */}
+                        <div className="border-t pt-6">
+                            <h2 className="text-xl font-semibold text-gray-900 mb-4">Laskutuksen oletukset</h2>
+                            <div className="grid grid-cols-3 gap-4">
+                                <div>
+                                    <label className="block text-lg font-medium text-gray-700 mb-2">
+                                        Maksuehto (pv)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        name="paymentTermDays"
+                                        value={formData.paymentTermDays}
+                                        onChange={(e) => setFormData({ ...formData, paymentTermDays: parseInt(e.target.value) || 0 })}
+                                        min="0"
+                                        max={MAX_PAYMENT_TERM_DAYS}
+                                        step="1"
+                                        className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-lg font-medium text-gray-700 mb-2">
+                                        Arvonlisävero
+                                    </label>
+                                    <select
+                                        name="vatTreatment"
+                                        value={formData.vatTreatment}
+                                        onChange={handleChange}
+                                        className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    >
+                                        {VAT_TREATMENTS.map((treatment) => (
+                                            <option key={treatment} value={treatment}>
+                                                {VAT_TREATMENT_LABELS[treatment]}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-lg font-medium text-gray-700 mb-2">
+                                        Toimitustapa
+                                    </label>
+                                    <select
+                                        name="deliveryMethod"
+                                        value={formData.deliveryMethod}
+                                        onChange={handleChange}
+                                        className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    >
+                                        {DELIVERY_METHODS.map((method) => (
+                                            <option key={method} value={method}>
+                                                {DELIVERY_METHOD_LABELS[method]}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+                            <div className="mt-4">
+                                <label className="block text-lg font-medium text-gray-700 mb-2">
+                                    Laskun lisätiedot
+                                </label>
+                                <textarea
+                                    name="defaultNotes"
+                                    value={formData.defaultNotes}
+                                    onChange={handleChange}
+                                    maxLength={MAX_DEFAULT_NOTES_LENGTH}
+                                    rows={3}
+                                    className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    placeholder="Esim. tilausnumero tai toimitusehdot, täytetään uusille laskuille"
+                                />
+                            </div>
+                        </div>
+
+                        {/* E-invoice address (Finvoice / Peppol) */}
+                        <div className="border-t pt-6">
+                            <h2 className="text-xl font-semibold text-gray-900 mb-4">Verkkolaskutus (valinnainen)</h2>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-lg font-medium text-gray-700 mb-2">
+                                        Verkkolaskuosoite (OVT)
+                                    </label>
+                                    <input
+                                        type="text"
+                                        name="einvoiceAddress"
+                                        value={formData.einvoiceAddress}
+                                        onChange={handleChange}
+                                        className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                        placeholder="003712345678"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-lg font-medium text-gray-700 mb-2">
+                                        Välittäjätunnus
+                                    </label>
+                                    <input
+                                        type="text"
+                                        name="einvoiceOperator"
+                                        value={formData.einvoiceOperator}
+                                        onChange={handleChange}
+                                        className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                        placeholder="003721291126"
+                                    />
+                                </div>
+                            </div>
+                            <div className="mt-4">
+                                <label className="block text-lg font-medium text-gray-700 mb-2">
+                                    Peppol-tunniste
+                                </label>
+                                <input
+                                    type="text"
+                                    name="peppolId"
+                                    value={formData.peppolId}
+                                    onChange={handleChange}
+                                    className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    placeholder="0216:003712345678"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="flex gap-4 pt-4">
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className="flex-1 bg-green-600 text-white py-4 text-xl font-semibold rounded-lg hover:bg-green-700 transition disabled:bg-gray-400"
+                            >
+                                {loading ? 'Tallennetaan...' : 'Tallenna asiakas'}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => router.push(returnUrl)}
+                                className="px-8 py-4 text-xl border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                            >
+                                Peruuta
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>
+    )
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+'use client'
+
+// Client component for deleting a customer
+// Customers with invoices are archived by the API instead of deleted
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface DeleteCustomerButtonProps {
+    customerId: string
+    hasInvoices: boolean
+}
+
+export default function DeleteCustomerButton({ customerId, hasInvoices }: DeleteCustomerButtonProps) {
+    const router = useRouter()
+    const [loading, setLoading] = useState(false)
+
+    const handleDelete = async () => {
+        const question = hasInvoices
+            ? 'Asiakkaalla on laskuja, joten se arkistoidaan. Arkistoitua asiakasta ei voi valita uusille laskuille. Jatketaanko?'
+            : 'Poistetaanko asiakas pysyvästi?'
+        if (!confirm(question)) {
+            return
+        }
+
+        setLoading(true)
+
+        try {
+            const res = await fetch(`/api/customers/${customerId}`, {
+                method: 'DELETE',
+            })
+
+            if (res.ok) {
+                router.push('/customers')
+                router.refresh()
+            } else {
+                const errorData = await res.json()
+                alert(`Poisto epäonnistui: ${errorData.error || 'Tuntematon virhe'}`)
+            }
+        } catch (error) {
+            console.error('Customer delete error:', error)
+            alert('Poisto epäonnistui')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <button
+            type="button"
+            onClick={handleDelete}
+            disabled={loading}
+            className="px-6 py-3 text-lg border border-red-600 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50"
+        >
+            {hasInvoices ? 'Arkistoi' : 'Poista'}
+        </button>
+    )
+}
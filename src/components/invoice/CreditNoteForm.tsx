@@ -0,0 +1,180 @@
+'use client'
+
+// Credit note form
+// Lets the user pick which lines of the original invoice to credit and how much
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { calculateInvoiceTotals } from '@/lib/invoices/totals'
+import { formatCents } from '@/lib/money'
+import { formatVatRate } from '@/utils/finnish/vat-rates'
+
+interface CreditNoteFormProps {
+    invoice: {
+        id: string
+        invoiceNumber: string
+        lineItems: Array<{
+            id: string
+            description: string
+            unitPriceCents: number
+            vatRate: number
+            remainingQuantity: number  // Quantity not yet credited
+        }>
+    }
+}
+
+export default function CreditNoteForm({ invoice }: CreditNoteFormProps) {
+    const router = useRouter()
+    const [loading, setLoading] = useState(false)
+    const [notes, setNotes] = useState('')
+
+    // Credited quantity per line, 0 = line not credited
+    // Starts with everything selected (full credit)
+    const [quantities, setQuantities] = useState<Record<string, number>>(
+        Object.fromEntries(invoice.lineItems.map(item => [item.id, item.remainingQuantity]))
+    )
+
+    // Preview of the credit note totals (negative amounts)
+    const selectedLines = invoice.lineItems.filter(item => quantities[item.id] > 0)
+    const totals = calculateInvoiceTotals(selectedLines.map(item => ({
+        quantity: -quantities[item.id],
+        unitPriceCents: item.unitPriceCents,
+        vatRate: item.vatRate
+    })))
+
+    // Handle form submission
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+
+        if (selectedLines.length === 0) {
+            alert('Valitse hyvitettävät rivit')
+            return
+        }
+
+        setLoading(true)
+
+        try {
+            const res = await fetch(`/api/invoices/${invoice.id}/credit-notes`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    lineItems: selectedLines.map(item => ({
+                        lineItemId: item.id,
+                        quantity: quantities[item.id]
+                    })),
+                    notes,
+                }),
+            })
+
+            if (res.ok) {
+                const creditNote = await res.json()
+                router.push(`/invoices/${creditNote.id}`)
+            } else {
+                const errorData = await res.json()
+                alert(`Virhe tallennuksessa: ${errorData.error || 'Tuntematon virhe'}`)
+            }
+        } catch (error) {
+            console.error('Credit note error:', error)
+            alert('Virhe tallennuksessa')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-50 p-8">
+            <div className="max-w-4xl mx-auto">
+                <div className="bg-white rounded-lg shadow-lg p-8">
+                    <div className="mb-8">
+                        <h1 className="text-4xl font-bold mb-2">Hyvityslasku</h1>
+                        <p className="text-gray-600 text-lg">Hyvitettävä lasku {invoice.invoiceNumber}</p>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="space-y-6">
+                        <div className="border rounded-lg overflow-hidden">
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Kuvaus</th>
+                                        <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">À-hinta</th>
+                                        <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">ALV</th>
+                                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-700 w-40">Hyvitettävä määrä</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="bg-white divide-y divide-gray-200">
+                                    {invoice.lineItems.map((item) => (
+                                        <tr key={item.id}>
+                                            <td className="px-4 py-3">{item.description}</td>
+                                            <td className="px-4 py-3 text-right">{formatCents(item.unitPriceCents)} €</td>
+                                            <td className="px-4 py-3 text-right">{formatVatRate(item.vatRate)}</td>
+                                            <td className="px-4 py-3">
+                                                <input
+                                                    type="number"
+                                                    value={quantities[item.id]}
+                                                    onChange={(e) => setQuantities({
+                                                        ...quantities,
+                                                        [item.id]: Math.min(parseFloat(e.target.value) || 0, item.remainingQuantity)
+                                                    })}
+                                                    className="w-full px-3 py-2 border rounded-lg"
+                                                    min="0"
+                                                    max={item.remainingQuantity}
+                                                    step="any"
+                                                />
+                                                <p className="text-xs text-gray-500 mt-1">enintään {item.remainingQuantity}</p>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {/* Totals Summary */}
+                        <div className="bg-gray-50 p-4 rounded-lg space-y-2">
+                            <div className="flex justify-between text-lg">
+                                <span className="text-gray-600">Veroton summa:</span>
+                                <span className="font-semibold">{formatCents(totals.subtotalCents)} €</span>
+                            </div>
+                            <div className="flex justify-between text-lg">
+                                <span className="text-gray-600">ALV:</span>
+                                <span className="font-semibold">{formatCents(totals.vatAmountCents)} €</span>
+                            </div>
+                            <div className="flex justify-between text-xl border-t pt-2">
+                                <span className="font-bold">Hyvitys yhteensä:</span>
+                                <span className="font-bold text-blue-600">{formatCents(totals.totalCents)} €</span>
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-lg font-medium text-gray-700 mb-2">
+                                Hyvityksen syy
+                            </label>
+                            <textarea
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                rows={3}
+                                className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                placeholder="esim. Virheellinen tuntimäärä"
+                            />
+                        </div>
+
+                        <div className="flex gap-4 pt-4">
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className="flex-1 bg-blue-600 text-white py-4 text-xl font-semibold rounded-lg hover:bg-blue-700 transition disabled:bg-gray-400"
+                            >
+                                {loading ? 'Tallennetaan...' : 'Luo hyvityslasku'}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => router.push(`/invoices/${invoice.id}`)}
+                                className="px-8 py-4 text-xl border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                            >
+                                Peruuta
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>
+    )
+}
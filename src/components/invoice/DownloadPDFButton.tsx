@@ -1,72 +1,101 @@
 'use client'
 
 // Client component for downloading invoice as PDF
-// Uses jsPDF to generate Finnish invoice format
+// Uses jsPDF to generate Finnish invoice format in the customer's language
+// Hybrid PDF/A-3 embeds the Finvoice or Factur-X XML fetched from the API
+// Issued invoices are downloaded from the PDF archive instead of rendered again
+import { useState } from 'react'
 import { generateInvoicePDF } from '@/utils/pdf/generateInvoicePDF'
+import { InvoiceData } from '@/utils/pdf/renderInvoicePDF'
+import { fetchPdfAAssets, HYBRID_FORMAT_LABELS, HYBRID_FORMATS, HybridFormat } from '@/utils/pdf/pdfa'
+import { PdfTemplateSettings } from '@/utils/pdf/template'
+
+// Finvoice and Factur-X XML endpoints
+const XML_ENDPOINTS: Record<HybridFormat, string> = {
+    finvoice: 'finvoice',
+    cii: 'cii',
+}
 
 interface DownloadPDFButtonProps {
-    invoice: {
-        invoiceNumber: string
-        invoiceDate: Date
-        dueDate: Date
-        rfReference: string
-        status: string
-        subtotal: number
-        vatAmount: number
-        total: number
-        notes?: string | null
-        company: {
-            name: string
-            businessId: string
-            address: string
-            postalCode: string
-            city: string
-            email: string
-            phone: string | null
-            iban: string
-            bic: string
-        }
-        customer: {
-            name: string
-            businessId?: string | null
-            address: string
-            postalCode: string
-            city: string
-            email: string
-        }
-        lineItems: Array<{
-            description: string
-            quantity: number
-            unitPrice: number
-            total: number
-        }>
+    invoice: InvoiceData & {
+        id: string
     }
+    template: PdfTemplateSettings    // Company's PDF layout
+    archived: boolean    // PDF was archived when the invoice was issued
 }
 
-export default function DownloadPDFButton({ invoice }: DownloadPDFButtonProps) {
+export default function DownloadPDFButton({ invoice, template, archived }: DownloadPDFButtonProps) {
+    // Plain PDF or hybrid PDF/A-3 with embedded XML
+    const [format, setFormat] = useState<HybridFormat | ''>('')
+    const [loading, setLoading] = useState(false)
+
+    // Fetch the structured invoice to embed
+    const fetchXml = async (hybridFormat: HybridFormat) => {
+        const res = await fetch(`/api/invoices/${invoice.id}/${XML_ENDPOINTS[hybridFormat]}`)
+        if (!res.ok) {
+            const errorData = await res.json()
+            // E-invoice validation lists the failed business rules
+            const details = (errorData.validationErrors ?? [])
+                .map((error: { rule: string, message: string }) => `\n${error.rule}: ${error.message}`)
+                .join('')
+            throw new Error(`${errorData.error || 'Tuntematon virhe'}${details}`)
+        }
+        return res.text()
+    }
+
     // Handle PDF download
-    const handleDownload = () => {
-        // Format dates to Finnish locale
-        const invoiceDate = new Date(invoice.invoiceDate).toLocaleDateString('fi-FI')
-        const dueDate = new Date(invoice.dueDate).toLocaleDateString('fi-FI')
+    const handleDownload = async () => {
+        setLoading(true)
 
-        // Prepare data for PDF generation
-        const pdfData = {
-            ...invoice,
-            invoiceDate,
-            dueDate,
+        try {
+            // Generate and download PDF
+            if (format) {
+                const [xml, assets] = await Promise.all([fetchXml(format), fetchPdfAAssets(template.font)])
+                await generateInvoicePDF(invoice, { hybrid: { format, xml, assets }, template })
+            } else {
+                await generateInvoicePDF(invoice, { template })
+            }
+        } catch (error) {
+            console.error('PDF generation error:', error)
+            alert(`PDF:n luonti epäonnistui: ${error instanceof Error ? error.message : 'Tuntematon virhe'}`)
+        } finally {
+            setLoading(false)
         }
+    }
 
-        // Generate and download PDF
-        generateInvoicePDF(pdfData)
+    // Archived PDF is served as it was sent
+    if (archived) {
+        return (
+            <a href={`/api/invoices/${invoice.id}/pdf`}
+                className="px-6 py-3 bg-blue-600 text-white text-lg font-semibold rounded-lg hover:bg-blue-700 transition-colors shadow-lg"
+            >
+                📥 Lataa PDF
+            </a>
+        )
     }
 
     return (
-        <button
-            onClick={handleDownload}
-            className="px-6 py-3 bg-blue-600 text-white text-lg font-semibold rounded-lg hover:bg-blue-700 transition-colors shadow-lg"
-        >
-            📥 Lataa PDF
-        </button>
+        <div className="flex items-center gap-2">
+            <button
+                onClick={handleDownload}
+                disabled={loading}
+                className="px-6 py-3 bg-blue-600 text-white text-lg font-semibold rounded-lg hover:bg-blue-700 transition-colors shadow-lg disabled:opacity-50"
+            >
+                📥 Lataa PDF
+            </button>
+            <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as HybridFormat | '')}
+                aria-label="PDF-muoto"
+                className="px-3 py-3 border border-gray-300 rounded-lg"
+            >
+                <option value="">Tavallinen PDF</option>
+                {HYBRID_FORMATS.map((hybridFormat) => (
+                    <option key={hybridFormat} value={hybridFormat}>
+                        PDF/A-3 + {HYBRID_FORMAT_LABELS[hybridFormat]}
+                    </option>
+                ))}
+            </select>
+        </div>
     )
-}
\ No newline at end of file
+}
@@ -0,0 +1,651 @@
+'use client'
+
+// Invoice form shared by the create and edit pages
+// Without an existing invoice it creates a new one (POST /api/invoices),
+// otherwise it saves changes to the draft (PUT /api/invoices/[id])
+import { useState, useEffect, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { calculateInvoiceTotals } from '@/lib/invoices/totals'
+import { eurosToCents, formatCents } from '@/lib/money'
+import { calculateDueDate, DEFAULT_PAYMENT_TERM_DAYS } from '@/lib/invoices/payment-terms'
+import { DEFAULT_DELIVERY_METHOD, DELIVERY_METHOD_LABELS, DELIVERY_METHODS } from '@/lib/invoices/delivery'
+import { ADDRESS_TYPE_LABELS, AddressType } from '@/lib/customers/contacts'
+import {
+    DEFAULT_VAT_RATE,
+    DEFAULT_VAT_TREATMENT,
+    FINNISH_VAT_RATES,
+    formatVatRate,
+    VAT_TREATMENT_LABELS,
+    VAT_TREATMENTS,
+} from '@/utils/finnish/vat-rates'
+
+// Type definitions
+type CustomerContact = {
+    id: string
+    name: string
+    role: string | null
+    isDefault: boolean
+}
+
+type CustomerAddress = {
+    id: string
+    type: string
+    name: string | null
+    address: string
+    postalCode: string
+    city: string
+    isDefault: boolean
+}
+
+// Payment terms, VAT treatment, delivery method and notes prefill new invoices of the customer
+// Default contact and addresses are preselected as the invoice's recipient
+type Customer = {
+    id: string
+    name: string
+    businessId?: string
+    paymentTermDays: number
+    vatTreatment: string
+    deliveryMethod: string
+    defaultNotes: string | null
+    contacts: CustomerContact[]
+    addresses: CustomerAddress[]
+}
+
+// Unit price is edited in euros and converted to cents for calculation and saving
+type LineItemFormData = {
+    description: string
+    quantity: number
+    unitPrice: number
+    vatRate: number
+}
+
+interface InvoiceFormProps {
+    // Existing draft invoice when editing (dates as YYYY-MM-DD strings)
+    invoice?: {
+        id: string
+        customerId: string
+        invoiceDate: string
+        dueDate: string
+        buyerReference: string | null
+        notes: string | null
+        vatTreatment: string
+        deliveryMethod: string
+        contactId: string | null
+        billingAddressId: string | null
+        deliveryAddressId: string | null
+        lineItems: LineItemFormData[]
+    }
+}
+
+/**
+ * VAT rate of new lines, reverse charge and export invoices carry no Finnish VAT
+ */
+function defaultVatRateFor(vatTreatment: string): number {
+    return vatTreatment === 'domestic' ? DEFAULT_VAT_RATE : 0
+}
+
+/**
+ * Addresses of one type, empty selection means the customer's own address
+ */
+function addressesOfType(customer: Customer | undefined, type: AddressType): CustomerAddress[] {
+    return customer?.addresses.filter(address => address.type === type) ?? []
+}
+
+/**
+ * One-line label of an address option
+ */
+function formatAddressOption(address: CustomerAddress): string {
+    return [address.name, address.address, `${address.postalCode} ${address.city}`].filter(Boolean).join(', ')
+}
+
+export default function InvoiceForm({ invoice }: InvoiceFormProps) {
+    const router = useRouter()
+    const [loading, setLoading] = useState(false)
+    const [customers, setCustomers] = useState<Customer[]>([])
+    const isEditing = !!invoice
+
+    const [formData, setFormData] = useState({
+        companyId: '',
+        customerId: invoice?.customerId ?? '',
+        invoiceDate: invoice?.invoiceDate ?? new Date().toISOString().split('T')[0],
+        dueDate: invoice?.dueDate ?? '',
+        buyerReference: invoice?.buyerReference ?? '',
+        notes: invoice?.notes ?? '',
+        vatTreatment: invoice?.vatTreatment ?? DEFAULT_VAT_TREATMENT as string,
+        deliveryMethod: invoice?.deliveryMethod ?? DEFAULT_DELIVERY_METHOD as string,
+        contactId: invoice?.contactId ?? '',
+        billingAddressId: invoice?.billingAddressId ?? '',
+        deliveryAddressId: invoice?.deliveryAddressId ?? '',
+    })
+
+    // LineItems state - array of invoice line items
+    const [lineItems, setLineItems] = useState<LineItemFormData[]>(
+        invoice?.lineItems.map(item => ({
+            description: item.description,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            vatRate: item.vatRate
+        })) ?? [
+            {
+                description: '',
+                quantity: 1,
+                unitPrice: 0,
+                vatRate: DEFAULT_VAT_RATE
+            }
+        ]
+    )
+
+    // Add a new empty line item
+    const addLineItem = () => {
+        setLineItems([
+            ...lineItems,
+            { description: '', quantity: 1, unitPrice: 0, vatRate: defaultVatRateFor(formData.vatTreatment) }
+        ])
+    }
+
+    // Remove a line item by index (keep at least one)
+    const removeLineItem = (index: number) => {
+        if (lineItems.length > 1) {
+            setLineItems(lineItems.filter((_, i) => i !== index))
+        }
+    }
+
+    // Update a specific field in a line item
+    const updateLineItem = (index: number, field: string, value: string | number) => {
+        const updated = [...lineItems]
+        updated[index] = { ...updated[index], [field]: value }
+        setLineItems(updated)
+    }
+
+    // Fetch companies and customers on mount
+    useEffect(() => {
+        fetchCustomers()
+
+        // Keep the saved due date when editing an existing invoice
+        if (isEditing) return
+
+        // Due date from the default payment terms until a customer is selected
+        setFormData(prev => ({
+            ...prev,
+            dueDate: calculateDueDate(prev.invoiceDate, DEFAULT_PAYMENT_TERM_DAYS)
+        }))
+    }, [isEditing])
+
+    // Line items in the API format (unit price in cents)
+    const lineItemsInCents = useMemo(() => lineItems.map(item => ({
+        description: item.description,
+        quantity: item.quantity,
+        unitPriceCents: eurosToCents(item.unitPrice),
+        vatRate: item.vatRate
+    })), [lineItems])
+
+    // Calculate totals per VAT rate automatically when line items change
+    // Uses the same calculation as the server, which recomputes them on save
+    const totals = useMemo(() => calculateInvoiceTotals(lineItemsInCents), [lineItemsInCents])
+
+    const fetchCustomers = async () => {
+        try {
+            const res = await fetch('/api/customers')
+            const data = await res.json()
+
+            // Check if response is an error
+            if (data.error) {
+                console.error('Customer fetch error:', data.error)
+                // If no company setup, redirect to setup
+                if (data.error.includes('company setup')) {
+                    window.location.href = '/setup'
+                    return
+                }
+                setCustomers([]) // Set empty array on error
+                return
+            }
+
+            // Set customers if data is valid array
+            if (Array.isArray(data)) {
+                setCustomers(data)
+            } else {
+                setCustomers([])
+            }
+        } catch (error) {
+            console.error('Failed to fetch customers:', error)
+            setCustomers([])
+        }
+    }
+
+    // Handle input changes
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target
+        setFormData(prev => ({ ...prev, [name]: value }))
+    }
+
+    // Change the VAT treatment and the line rates with it
+    // Reverse charge and export lines are 0 %, returning to domestic restores the general rate
+    const changeVatTreatment = (vatTreatment: string) => {
+        if (vatTreatment !== formData.vatTreatment) {
+            setLineItems(items => items.map(item => ({ ...item, vatRate: defaultVatRateFor(vatTreatment) })))
+        }
+        setFormData(prev => ({ ...prev, vatTreatment }))
+    }
+
+    // Select a customer and fill in the customer's invoice defaults
+    // Notes are only replaced if they are empty or still the previous customer's default notes
+    const handleCustomerChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const customer = customers.find(c => c.id === e.target.value)
+        const previous = customers.find(c => c.id === formData.customerId)
+
+        if (!customer) {
+            setFormData(prev => ({
+                ...prev,
+                customerId: e.target.value,
+                contactId: '',
+                billingAddressId: '',
+                deliveryAddressId: '',
+            }))
+            return
+        }
+
+        const keepNotes = formData.notes !== '' && formData.notes !== (previous?.defaultNotes ?? '')
+        changeVatTreatment(customer.vatTreatment)
+        setFormData(prev => ({
+            ...prev,
+            customerId: customer.id,
+            dueDate: calculateDueDate(prev.invoiceDate, customer.paymentTermDays),
+            deliveryMethod: customer.deliveryMethod,
+            notes: keepNotes ? prev.notes : customer.defaultNotes ?? '',
+            contactId: customer.contacts.find(contact => contact.isDefault)?.id ?? '',
+            billingAddressId: addressesOfType(customer, 'billing').find(address => address.isDefault)?.id ?? '',
+            deliveryAddressId: addressesOfType(customer, 'delivery').find(address => address.isDefault)?.id ?? '',
+        }))
+    }
+
+    // Contacts and addresses of the selected customer
+    const selectedCustomer = customers.find(c => c.id === formData.customerId)
+    const contacts = selectedCustomer?.contacts ?? []
+    const billingAddresses = addressesOfType(selectedCustomer, 'billing')
+    const deliveryAddresses = addressesOfType(selectedCustomer, 'delivery')
+
+    // Handle form submission
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+
+        if (!formData.customerId) {
+            alert('Valitse asiakas')
+            return
+        }
+
+        setLoading(true)
+
+        try {
+            // Totals are sent for cross-checking, the server calculates its own
+            const payload = {
+                ...formData,
+                subtotalCents: totals.subtotalCents,
+                vatAmountCents: totals.vatAmountCents,
+                totalCents: totals.totalCents,
+                lineItems: lineItemsInCents,
+            }
+
+            // Create a new invoice or update the existing draft
+            const res = await fetch(isEditing ? `/api/invoices/${invoice.id}` : '/api/invoices', {
+                method: isEditing ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload),
+            })
+
+            if (res.ok) {
+                router.push(isEditing ? `/invoices/${invoice.id}` : '/invoices')
+            } else {
+                const errorData = await res.json()
+                alert(`Virhe tallennuksessa: ${errorData.error || 'Tuntematon virhe'}`)
+            }
+        } catch (error) {
+            console.error('Submit error:', error)
+            alert('Virhe tallennuksessa')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-50 p-8">
+            <div className="max-w-4xl mx-auto">
+                <div className="bg-white rounded-lg shadow-lg p-8">
+                    <div className="mb-8">
+                        <h1 className="text-4xl font-bold mb-2">{isEditing ? 'Muokkaa laskua' : 'Luo uusi lasku'}</h1>
+                        <p className="text-gray-600 text-lg">Täytä laskun tiedot</p>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="space-y-6">
+                        <div>
+                            <label className="block text-lg font-medium text-gray-700 mb-2">
+                                Asiakas *
+                            </label>
+                            <select
+                                name="customerId"
+                                value={formData.customerId}
+                                onChange={handleCustomerChange}
+                                required
+                                className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                                <option value="">Valitse asiakas</option>
+                                {Array.isArray(customers) && customers.length > 0 ? (
+                                    customers.map((customer) => (
+                                        <option key={customer.id} value={customer.id}>
+                                            {customer.name} {customer.businessId ? `(${customer.businessId})` : ''}
+                                        </option>
+                                    ))
+                                ) : (
+                                    <option value="" disabled>
+                                        Ei asiakkaita - luo asiakas ensin
+                                    </option>
+                                )}
+                            </select>
+                            <a href="/customers/new" className="text-blue-600 hover:underline text-sm mt-2 inline-block">
+                                + Lisää uusi asiakas
+                            </a>
+                        </div>
+
+                        {/* Recipient: only shown when the customer has contacts or extra addresses */}
+                        {(contacts.length > 0 || billingAddresses.length > 0 || deliveryAddresses.length > 0) && (
+                            <div className="grid grid-cols-3 gap-4">
+                                <div>
+                                    <label className="block text-lg font-medium text-gray-700 mb-2">
+                                        Yhteyshenkilö
+                                    </label>
+                                    <select
+                                        name="contactId"
+                                        value={formData.contactId}
+                                        onChange={handleChange}
+                                        className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    >
+                                        <option value="">Ei yhteyshenkilöä</option>
+                                        {contacts.map((contact) => (
+                                            <option key={contact.id} value={contact.id}>
+                                                {contact.name}{contact.role ? ` (${contact.role})` : ''}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-lg font-medium text-gray-700 mb-2">
+                                        {ADDRESS_TYPE_LABELS.billing}
+                                    </label>
+                                    <select
+                                        name="billingAddressId"
+                                        value={formData.billingAddressId}
+                                        onChange={handleChange}
+                                        className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    >
+                                        <option value="">Asiakkaan osoite</option>
+                                        {billingAddresses.map((address) => (
+                                            <option key={address.id} value={address.id}>
+                                                {formatAddressOption(address)}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-lg font-medium text-gray-700 mb-2">
+                                        {ADDRESS_TYPE_LABELS.delivery}
+                                    </label>
+                                    <select
+                                        name="deliveryAddressId"
+                                        value={formData.deliveryAddressId}
+                                        onChange={handleChange}
+                                        className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    >
+                                        <option value="">Ei erillistä toimitusosoitetta</option>
+                                        {deliveryAddresses.map((address) => (
+                                            <option key={address.id} value={address.id}>
+                                                {formatAddressOption(address)}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-lg font-medium text-gray-700 mb-2">
+                                    Laskun päivämäärä *
+                                </label>
+                                <input
+                                    type="date"
+                                    name="invoiceDate"
+                                    value={formData.invoiceDate}
+                                    onChange={handleChange}
+                                    required
+                                    className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-lg font-medium text-gray-700 mb-2">
+                                    Eräpäivä *
+                                </label>
+                                <input
+                                    type="date"
+                                    name="dueDate"
+                                    value={formData.dueDate}
+                                    onChange={handleChange}
+                                    required
+                                    className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-lg font-medium text-gray-700 mb-2">
+                                Viitteenne
+                            </label>
+                            <input
+                                type="text"
+                                name="buyerReference"
+                                value={formData.buyerReference}
+                                onChange={handleChange}
+                                className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                placeholder="Asiakkaan viite, esim. tilaaja tai kustannuspaikka"
+                            />
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-lg font-medium text-gray-700 mb-2">
+                                    Arvonlisävero
+                                </label>
+                                <select
+                                    name="vatTreatment"
+                                    value={formData.vatTreatment}
+                                    onChange={(e) => changeVatTreatment(e.target.value)}
+                                    className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                >
+                                    {VAT_TREATMENTS.map((treatment) => (
+                                        <option key={treatment} value={treatment}>
+                                            {VAT_TREATMENT_LABELS[treatment]}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-lg font-medium text-gray-700 mb-2">
+                                    Toimitustapa
+                                </label>
+                                <select
+                                    name="deliveryMethod"
+                                    value={formData.deliveryMethod}
+                                    onChange={handleChange}
+                                    className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                >
+                                    {DELIVERY_METHODS.map((method) => (
+                                        <option key={method} value={method}>
+                                            {DELIVERY_METHOD_LABELS[method]}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+
+                        {/* Line Items Section */}
+                        <div className="space-y-4">
+                            <div className="flex justify-between items-center">
+                                <h3 className="text-xl font-semibold text-gray-900">Laskurivit</h3>
+                                <button
+                                    type="button"
+                                    onClick={addLineItem}
+                                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                                >
+                                    + Lisää rivi
+                                </button>
+                            </div>
+
+                            {/* Line Items Table */}
+                            <div className="border rounded-lg overflow-hidden">
+                                <table className="min-w-full divide-y divide-gray-200">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">
+                                                Kuvaus
+                                            </th>
+                                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-700 w-24">
+                                                Määrä
+                                            </th>
+                                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-700 w-32">
+                                                À-hinta (€)
+                                            </th>
+                                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-700 w-28">
+                                                ALV
+                                            </th>
+                                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-700 w-32">
+                                                Yhteensä (€)
+                                            </th>
+                                            <th className="px-4 py-3 w-20"></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="bg-white divide-y divide-gray-200">
+                                        {lineItems.map((item, index) => (
+                                            <tr key={index}>
+                                                <td className="px-4 py-3">
+                                                    <input
+                                                        type="text"
+                                                        value={item.description}
+                                                        onChange={(e) => updateLineItem(index, 'description', e.target.value)}
+                                                        className="w-full px-3 py-2 border rounded-lg"
+                                                        placeholder="Tuote/palvelu"
+                                                        required
+                                                    />
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <input
+                                                        type="number"
+                                                        value={item.quantity === 0 ? '' : item.quantity}
+                                                        onChange={(e) => updateLineItem(index, 'quantity', parseFloat(e.target.value) || 0)}
+                                                        className="w-full px-3 py-2 border rounded-lg"
+                                                        min="0"
+                                                        step="1"
+                                                        placeholder="1"
+                                                        required
+                                                    />
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <input
+                                                        type="number"
+                                                        value={item.unitPrice === 0 ? '' : item.unitPrice}
+                                                        onChange={(e) => updateLineItem(index, 'unitPrice', parseFloat(e.target.value) || 0)}
+                                                        className="w-full px-3 py-2 border rounded-lg"
+                                                        min="0"
+                                                        step="0.01"
+                                                        placeholder="0.00"
+                                                        required
+                                                    />
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <select
+                                                        value={item.vatRate}
+                                                        onChange={(e) => updateLineItem(index, 'vatRate', parseFloat(e.target.value))}
+                                                        disabled={formData.vatTreatment !== 'domestic'}
+                                                        className="w-full px-3 py-2 border rounded-lg disabled:bg-gray-100"
+                                                    >
+                                                        {FINNISH_VAT_RATES.map((rate) => (
+                                                            <option key={rate} value={rate}>
+                                                                {formatVatRate(rate)}
+                                                            </option>
+                                                        ))}
+                                                    </select>
+                                                </td>
+                                                <td className="px-4 py-3 text-right font-medium">
+                                                    {formatCents(totals.lineTotalsCents[index])} €
+                                                </td>
+                                                <td className="px-4 py-3 text-center">
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => removeLineItem(index)}
+                                                        className="text-red-600 hover:text-red-800"
+                                                        disabled={lineItems.length === 1}
+                                                    >
+                                                        ✕
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+
+                        {/* Totals Summary */}
+                        <div className="bg-gray-50 p-4 rounded-lg space-y-2">
+                            <div className="flex justify-between text-lg">
+                                <span className="text-gray-600">Veroton summa:</span>
+                                <span className="font-semibold">{formatCents(totals.subtotalCents)} €</span>
+                            </div>
+                            {/* VAT amount per rate */}
+                            {totals.vatBreakdown.map((row) => (
+                                <div key={row.vatRate} className="flex justify-between text-lg">
+                                    <span className="text-gray-600">
+                                        ALV {formatVatRate(row.vatRate)} ({formatCents(row.netCents)} €):
+                                    </span>
+                                    <span className="font-semibold">{formatCents(row.vatCents)} €</span>
+                                </div>
+                            ))}
+                            <div className="flex justify-between text-xl border-t pt-2">
+                                <span className="font-bold">Yhteensä:</span>
+                                <span className="font-bold text-blue-600">{formatCents(totals.totalCents)} €</span>
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-lg font-medium text-gray-700 mb-2">
+                                Muistiinpanot
+                            </label>
+                            <textarea
+                                name="notes"
+                                value={formData.notes}
+                                onChange={handleChange}
+                                rows={4}
+                                className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                placeholder="Lisätiedot tai muistiinpanot..."
+                            />
+                        </div>
+
+                        <div className="flex gap-4 pt-4">
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className="flex-1 bg-blue-600 text-white py-4 text-xl font-semibold rounded-lg hover:bg-blue-700 transition disabled:bg-gray-400"
+                            >
+                                {loading ? 'Tallennetaan...' : isEditing ? 'Tallenna muutokset' : 'Luo lasku'}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => router.push(isEditing ? `/invoices/${invoice.id}` : '/invoices')}
+                                className="px-8 py-4 text-xl border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                            >
+                                Peruuta
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>
+    )
+}
\ No newline at end of file
@@ -0,0 +1,147 @@
+'use client'
+
+// Client component for the payments of an invoice
+// Lists, records and removes payments, the invoice status follows them on the server
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { centsToEuros, eurosToCents, formatCents } from '@/lib/money'
+import { getPaymentMethodLabel, PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from '@/lib/invoices/payments'
+
+interface Payment {
+    id: string
+    amountCents: number
+    paymentDate: Date | string
+    method: string
+    reference: string | null
+    note: string | null
+}
+
+interface InvoicePaymentsProps {
+    invoiceId: string
+    payments: Payment[]
+    openBalanceCents: number     // Prefilled as the amount of a new payment
+    canAddPayment: boolean       // Only issued invoices are paid
+}
+
+export default function InvoicePayments({ invoiceId, payments, openBalanceCents, canAddPayment }: InvoicePaymentsProps) {
+    const router = useRouter()
+    const [loading, setLoading] = useState(false)
+    const emptyPayment = () => ({
+        amount: openBalanceCents > 0 ? centsToEuros(openBalanceCents).toString() : '',
+        paymentDate: new Date().toISOString().split('T')[0],
+        method: 'bank_transfer',
+        reference: '',
+        note: '',
+    })
+    const [formData, setFormData] = useState(emptyPayment)
+
+    // Handle input changes
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        setFormData(prev => ({ ...prev, [e.target.name]: e.target.value }))
+    }
+
+    // Send a payment change and reload the invoice page
+    const save = async (url: string, method: string, body?: object) => {
+        setLoading(true)
+
+        try {
+            const res = await fetch(url, {
+                method,
+                headers: { 'Content-Type': 'application/json' },
+                body: body ? JSON.stringify(body) : undefined,
+            })
+
+            if (res.ok) {
+                router.refresh()
+                return true
+            }
+
+            const errorData = await res.json()
+            alert(`Virhe tallennuksessa: ${errorData.error || 'Tuntematon virhe'}`)
+        } catch (error) {
+            console.error('Payment save error:', error)
+            alert('Virhe tallennuksessa')
+        } finally {
+            setLoading(false)
+        }
+        return false
+    }
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault()
+        const { amount, ...payment } = formData
+        if (await save(`/api/invoices/${invoiceId}/payments`, 'POST', { ...payment, amountCents: eurosToCents(parseFloat(amount)) })) {
+            setFormData(emptyPayment)
+        }
+    }
+
+    const handleDelete = (payment: Payment) => {
+        if (confirm(`Poistetaanko maksu ${formatCents(payment.amountCents)} €?`)) {
+            save(`/api/invoices/${invoiceId}/payments/${payment.id}`, 'DELETE')
+        }
+    }
+
+    return (
+        <div>
+            {payments.length === 0 ? (
+                <p className="text-gray-400 italic mb-4">Ei kirjattuja maksuja</p>
+            ) : (
+                <ul className="divide-y divide-gray-200 mb-4">
+                    {payments.map((payment) => (
+                        <li key={payment.id} className="py-3 flex justify-between items-center">
+                            <div>
+                                <p className="font-semibold">
+                                    {new Date(payment.paymentDate).toLocaleDateString('fi-FI')}: {formatCents(payment.amountCents)} €
+                                    <span className="font-normal text-gray-600"> – {getPaymentMethodLabel(payment.method)}</span>
+                                </p>
+                                <p className="text-gray-600 text-sm">
+                                    {[payment.reference && `Viite ${payment.reference}`, payment.note].filter(Boolean).join(' · ')}
+                                </p>
+                            </div>
+                            <button type="button" onClick={() => handleDelete(payment)} disabled={loading}
+                                className="text-sm text-red-600 hover:underline disabled:opacity-50"
+                            >
+                                Poista
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {/* New payment */}
+            {canAddPayment && (
+                <form onSubmit={handleAdd} className="grid grid-cols-3 gap-3">
+                    <input type="number" name="amount" value={formData.amount} onChange={handleChange} required
+                        min="0.01" step="0.01" placeholder="Summa € *"
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input type="date" name="paymentDate" value={formData.paymentDate} onChange={handleChange} required
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <select name="method" value={formData.method} onChange={handleChange}
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                        {PAYMENT_METHODS.map((method) => (
+                            <option key={method} value={method}>
+                                {PAYMENT_METHOD_LABELS[method]}
+                            </option>
+                        ))}
+                    </select>
+                    <input type="text" name="reference" value={formData.reference} onChange={handleChange}
+                        placeholder="Viite"
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input type="text" name="note" value={formData.note} onChange={handleChange}
+                        placeholder="Lisätieto"
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <button type="submit" disabled={loading}
+                        className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                    >
+                        + Kirjaa maksu
+                    </button>
+                </form>
+            )}
+        </div>
+    )
+}
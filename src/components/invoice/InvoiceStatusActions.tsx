@@ -0,0 +1,68 @@
+'use client'
+
+// Client component for changing invoice status
+// Shows one button per manual transition allowed from the current status,
+// payments and credit notes move the invoice to paid or credited
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { getAllowedTransitions, STATUS_LABELS } from '@/lib/invoices/status'
+
+interface InvoiceStatusActionsProps {
+    invoiceId: string
+    status: string
+}
+
+export default function InvoiceStatusActions({ invoiceId, status }: InvoiceStatusActionsProps) {
+    const router = useRouter()
+    const [loading, setLoading] = useState(false)
+    const transitions = getAllowedTransitions(status)
+
+    if (transitions.length === 0) {
+        return null
+    }
+
+    // Send transition request and reload server data on success
+    const handleTransition = async (nextStatus: string) => {
+        setLoading(true)
+
+        try {
+            const res = await fetch(`/api/invoices/${invoiceId}/status`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ status: nextStatus }),
+            })
+
+            if (res.ok) {
+                router.refresh()
+            } else {
+                const errorData = await res.json()
+                // E-invoice validation lists the failed business rules
+                const details = (errorData.validationErrors ?? [])
+                    .map((error: { rule: string, message: string }) => `\n${error.rule}: ${error.message}`)
+                    .join('')
+                alert(`Tilan muutos epäonnistui: ${errorData.error || 'Tuntematon virhe'}${details}`)
+            }
+        } catch (error) {
+            console.error('Status change error:', error)
+            alert('Tilan muutos epäonnistui')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <div className="flex flex-wrap gap-2">
+            {transitions.map((nextStatus) => (
+                <button
+                    key={nextStatus}
+                    type="button"
+                    onClick={() => handleTransition(nextStatus)}
+                    disabled={loading}
+                    className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+                >
+                    → {STATUS_LABELS[nextStatus]}
+                </button>
+            ))}
+        </div>
+    )
+}
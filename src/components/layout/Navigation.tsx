@@ -16,6 +16,9 @@ export default function Navigation() {
                         <a href="/customers" className="text-xl hover:text-blue-200 transition">
                             Asiakkaat
                         </a>
+                        <a href="/settings" className="text-xl hover:text-blue-200 transition">
+                            Asetukset
+                        </a>
                     </div>
                 </div>
             </div>
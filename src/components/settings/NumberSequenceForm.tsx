@@ -0,0 +1,167 @@
+'use client'
+
+// Number sequence form
+// Edits the numbering pattern of one document type and previews the next number
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+    DOCUMENT_TYPE_LABELS,
+    DocumentType,
+    MAX_PADDING,
+    MAX_PREFIX_LENGTH,
+    formatDocumentNumber,
+    getNextRunningNumber,
+} from '@/lib/invoices/number-pattern'
+
+interface NumberSequenceFormProps {
+    sequence: {
+        documentType: DocumentType
+        prefix: string
+        includeYear: boolean
+        padding: number
+        yearlyReset: boolean
+        nextNumber: number
+        currentYear: number
+    }
+}
+
+export default function NumberSequenceForm({ sequence }: NumberSequenceFormProps) {
+    const router = useRouter()
+    const [loading, setLoading] = useState(false)
+    const [formData, setFormData] = useState({
+        prefix: sequence.prefix,
+        includeYear: sequence.includeYear,
+        padding: sequence.padding,
+        yearlyReset: sequence.yearlyReset,
+        nextNumber: sequence.nextNumber,
+    })
+
+    // Preview of the number the next document gets with the edited pattern
+    const year = new Date().getFullYear()
+    const preview = formatDocumentNumber(
+        formData,
+        year,
+        getNextRunningNumber({ ...formData, currentYear: sequence.currentYear }, year)
+    )
+
+    // Handle form submission
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setLoading(true)
+
+        try {
+            const res = await fetch('/api/number-sequences', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    documentType: sequence.documentType,
+                    ...formData,
+                    // Send the next number only when it was changed
+                    nextNumber: formData.nextNumber !== sequence.nextNumber ? formData.nextNumber : undefined,
+                }),
+            })
+
+            if (res.ok) {
+                router.refresh()
+            } else {
+                const errorData = await res.json()
+                alert(`Virhe tallennuksessa: ${errorData.error || 'Tuntematon virhe'}`)
+            }
+        } catch (error) {
+            console.error('Number sequence error:', error)
+            alert('Virhe tallennuksessa')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-lg p-8 space-y-6">
+            <div className="flex justify-between items-center">
+                <h2 className="text-2xl font-bold">{DOCUMENT_TYPE_LABELS[sequence.documentType]}</h2>
+                <div className="text-lg text-gray-600">
+                    Seuraava numero: <span className="font-mono font-semibold text-gray-900">{preview}</span>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+                <div>
+                    <label className="block text-lg font-medium text-gray-700 mb-2">
+                        Etuliite *
+                    </label>
+                    <input
+                        type="text"
+                        value={formData.prefix}
+                        onChange={(e) => setFormData({ ...formData, prefix: e.target.value.toUpperCase() })}
+                        required
+                        maxLength={MAX_PREFIX_LENGTH}
+                        pattern="[A-Za-z0-9]+"
+                        className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                </div>
+                <div>
+                    <label className="block text-lg font-medium text-gray-700 mb-2">
+                        Numeron pituus *
+                    </label>
+                    <input
+                        type="number"
+                        value={formData.padding}
+                        onChange={(e) => setFormData({ ...formData, padding: parseInt(e.target.value) || 1 })}
+                        required
+                        min={1}
+                        max={MAX_PADDING}
+                        className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                </div>
+                <div>
+                    <label className="block text-lg font-medium text-gray-700 mb-2">
+                        Seuraava juokseva numero *
+                    </label>
+                    <input
+                        type="number"
+                        value={formData.nextNumber}
+                        onChange={(e) => setFormData({ ...formData, nextNumber: parseInt(e.target.value) || sequence.nextNumber })}
+                        required
+                        min={sequence.nextNumber}
+                        className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                </div>
+            </div>
+
+            <div className="flex gap-8">
+                <label className="flex items-center gap-2 text-lg">
+                    <input
+                        type="checkbox"
+                        checked={formData.includeYear}
+                        onChange={(e) => setFormData({
+                            ...formData,
+                            includeYear: e.target.checked,
+                            // Yearly reset needs the year in the number
+                            yearlyReset: e.target.checked && formData.yearlyReset,
+                        })}
+                        className="w-5 h-5"
+                    />
+                    Vuosi numerossa
+                </label>
+                <label className="flex items-center gap-2 text-lg">
+                    <input
+                        type="checkbox"
+                        checked={formData.yearlyReset}
+                        disabled={!formData.includeYear}
+                        onChange={(e) => setFormData({ ...formData, yearlyReset: e.target.checked })}
+                        className="w-5 h-5"
+                    />
+                    Numerointi alkaa alusta vuosittain
+                </label>
+            </div>
+
+            <button
+                type="submit"
+                disabled={loading}
+                className="bg-green-600 text-white px-8 py-3 text-lg font-semibold rounded-lg hover:bg-green-700 transition disabled:bg-gray-400"
+            >
+                {loading ? 'Tallennetaan...' : 'Tallenna'}
+            </button>
+        </form>
+    )
+}
@@ -0,0 +1,309 @@
+'use client'
+
+// PDF template form
+// Edits the company's invoice layout and previews it live on a sample invoice
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { InvoiceData, renderInvoicePDF } from '@/utils/pdf/renderInvoicePDF'
+import { calculateInvoiceReference, ReferenceType } from '@/lib/invoices/reference'
+import {
+    MAX_FOOTER_TEXT_LENGTH,
+    MAX_HOME_MUNICIPALITY_LENGTH,
+    MAX_LOGO_BYTES,
+    PDF_FONT_LABELS,
+    PDF_FONTS,
+    PdfFont,
+    PdfTemplateSettings,
+} from '@/utils/pdf/template'
+
+interface PdfTemplateFormProps {
+    template: PdfTemplateSettings
+    company: InvoiceData['company']
+    referenceType: ReferenceType
+}
+
+// Wait for typing to pause before rendering the preview again
+const PREVIEW_DELAY_MS = 400
+
+/**
+ * Sample invoice of the company for the preview
+ */
+function buildSampleInvoice(company: InvoiceData['company'], referenceType: ReferenceType): InvoiceData {
+    const invoiceNumber = 'INV-001'
+    const invoiceDate = new Date()
+    const dueDate = new Date(invoiceDate.getTime() + 14 * 24 * 60 * 60 * 1000)
+
+    return {
+        invoiceNumber,
+        invoiceDate,
+        dueDate,
+        rfReference: calculateInvoiceReference(invoiceNumber, referenceType),
+        status: 'draft',
+        type: 'invoice',
+        subtotalCents: 15000,
+        vatAmountCents: 3825,
+        totalCents: 18825,
+        notes: 'Kiitos tilauksestanne!',
+        company,
+        customer: {
+            name: 'Esimerkki Asiakas Oy',
+            businessId: '1234567-8',
+            address: 'Esimerkkikatu 1',
+            postalCode: '00100',
+            city: 'Helsinki',
+            email: 'asiakas@example.com',
+        },
+        lineItems: [
+            { description: 'Konsultointi', quantity: 2, unitPriceCents: 5000, vatRate: 25.5, totalCents: 10000 },
+            { description: 'Ylläpito', quantity: 1, unitPriceCents: 5000, vatRate: 25.5, totalCents: 5000 },
+        ],
+    }
+}
+
+export default function PdfTemplateForm({ template, company, referenceType }: PdfTemplateFormProps) {
+    const router = useRouter()
+    const [loading, setLoading] = useState(false)
+    const [formData, setFormData] = useState<PdfTemplateSettings>(template)
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+
+    // Render the preview whenever the settings change
+    useEffect(() => {
+        let cancelled = false
+        let url: string | null = null
+
+        const timer = setTimeout(async () => {
+            try {
+                const pdf = await renderInvoicePDF(buildSampleInvoice(company, referenceType), { template: formData })
+                if (cancelled) {
+                    return
+                }
+                url = URL.createObjectURL(new Blob([new Uint8Array(pdf)], { type: 'application/pdf' }))
+                setPreviewUrl(url)
+            } catch (error) {
+                console.error('PDF preview error:', error)
+            }
+        }, PREVIEW_DELAY_MS)
+
+        return () => {
+            cancelled = true
+            clearTimeout(timer)
+            if (url) {
+                URL.revokeObjectURL(url)
+            }
+        }
+    }, [formData, company, referenceType])
+
+    // Read the uploaded logo as a data URL
+    const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        if (!file) {
+            return
+        }
+
+        if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+            alert('Logon tulee olla PNG- tai JPEG-kuva')
+            return
+        }
+        if (file.size > MAX_LOGO_BYTES) {
+            alert(`Logo voi olla enintään ${MAX_LOGO_BYTES / 1024} kt`)
+            return
+        }
+
+        const reader = new FileReader()
+        reader.onload = () => setFormData({ ...formData, logo: reader.result as string })
+        reader.readAsDataURL(file)
+    }
+
+    // Handle form submission
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setLoading(true)
+
+        try {
+            const res = await fetch('/api/pdf-template', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(formData),
+            })
+
+            if (res.ok) {
+                router.refresh()
+            } else {
+                const errorData = await res.json()
+                alert(`Virhe tallennuksessa: ${errorData.error || 'Tuntematon virhe'}`)
+            }
+        } catch (error) {
+            console.error('PDF template error:', error)
+            alert('Virhe tallennuksessa')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-lg p-8 space-y-6">
+            <div>
+                <h2 className="text-2xl font-bold">Laskupohja</h2>
+                <p className="text-gray-600">Muutos koskee uusia PDF-tiedostoja, jo lähetettyjen laskujen arkistoidut PDF:t eivät muutu.</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-8">
+                <div className="space-y-6">
+                    <div>
+                        <label className="block text-lg font-medium text-gray-700 mb-2">
+                            Logo (PNG tai JPEG)
+                        </label>
+                        <input
+                            type="file"
+                            accept="image/png,image/jpeg"
+                            onChange={handleLogoChange}
+                            className="w-full text-lg"
+                        />
+                        {formData.logo && (
+                            <div className="flex items-center gap-4 mt-2">
+                                {/* eslint-disable-next-line @next/next/no-img-element */}
+                                <img src={formData.logo} alt="Logo" className="h-12 object-contain" />
+                                <button
+                                    type="button"
+                                    onClick={() => setFormData({ ...formData, logo: null })}
+                                    className="text-red-600 hover:text-red-800"
+                                >
+                                    Poista logo
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-lg font-medium text-gray-700 mb-2">
+                                Korostusväri
+                            </label>
+                            <input
+                                type="color"
+                                value={formData.accentColor}
+                                onChange={(e) => setFormData({ ...formData, accentColor: e.target.value })}
+                                className="w-full h-12 border border-gray-300 rounded-lg"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-lg font-medium text-gray-700 mb-2">
+                                Fontti
+                            </label>
+                            <select
+                                value={formData.font}
+                                onChange={(e) => setFormData({ ...formData, font: e.target.value as PdfFont })}
+                                className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                                {PDF_FONTS.map((font) => (
+                                    <option key={font} value={font}>{PDF_FONT_LABELS[font]}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                    <p className="text-sm text-gray-500">PDF/A-3-laskuihin upotetaan valittua fonttia vastaava DejaVu-fontti (Sans, Serif tai Sans Mono).</p>
+
+                    <div className="space-y-2">
+                        <h3 className="text-lg font-semibold text-gray-900">Alatunniste</h3>
+                        <label className="flex items-center gap-2 text-lg">
+                            <input
+                                type="checkbox"
+                                checked={formData.vatRegistered}
+                                onChange={(e) => setFormData({ ...formData, vatRegistered: e.target.checked })}
+                                className="w-5 h-5"
+                            />
+                            Merkitty arvonlisäverorekisteriin
+                        </label>
+                        <label className="flex items-center gap-2 text-lg">
+                            <input
+                                type="checkbox"
+                                checked={formData.tradeRegistered}
+                                onChange={(e) => setFormData({ ...formData, tradeRegistered: e.target.checked })}
+                                className="w-5 h-5"
+                            />
+                            Merkitty kaupparekisteriin
+                        </label>
+                    </div>
+
+                    <div>
+                        <label className="block text-lg font-medium text-gray-700 mb-2">
+                            Kotipaikka
+                        </label>
+                        <input
+                            type="text"
+                            value={formData.homeMunicipality ?? ''}
+                            onChange={(e) => setFormData({ ...formData, homeMunicipality: e.target.value || null })}
+                            maxLength={MAX_HOME_MUNICIPALITY_LENGTH}
+                            className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            placeholder="Helsinki"
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block text-lg font-medium text-gray-700 mb-2">
+                            Lisäteksti
+                        </label>
+                        <textarea
+                            value={formData.footerText ?? ''}
+                            onChange={(e) => setFormData({ ...formData, footerText: e.target.value || null })}
+                            maxLength={MAX_FOOTER_TEXT_LENGTH}
+                            rows={2}
+                            className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <h3 className="text-lg font-semibold text-gray-900">Maksutiedot</h3>
+                        <label className="flex items-center gap-2 text-lg">
+                            <input
+                                type="checkbox"
+                                checked={formData.showQrCode}
+                                onChange={(e) => setFormData({ ...formData, showQrCode: e.target.checked })}
+                                className="w-5 h-5"
+                            />
+                            QR-koodi
+                        </label>
+                        <label className="flex items-center gap-2 text-lg">
+                            <input
+                                type="checkbox"
+                                checked={formData.showBarcode}
+                                onChange={(e) => setFormData({ ...formData, showBarcode: e.target.checked })}
+                                className="w-5 h-5"
+                            />
+                            Virtuaaliviivakoodi
+                        </label>
+                        <label className="flex items-center gap-2 text-lg">
+                            <input
+                                type="checkbox"
+                                checked={formData.showTransferForm}
+                                onChange={(e) => setFormData({ ...formData, showTransferForm: e.target.checked })}
+                                className="w-5 h-5"
+                            />
+                            Tilisiirtolomake ensimmäisen sivun alaosassa
+                        </label>
+                        <p className="text-sm text-gray-500">Virtuaaliviivakoodi ja tilisiirtolomake vaativat suomalaisen tilinumeron (FI-alkuinen IBAN).</p>
+                    </div>
+                </div>
+
+                {/* Live preview on a sample invoice */}
+                <div>
+                    {previewUrl ? (
+                        <iframe src={previewUrl} title="Esikatselu" className="w-full h-[640px] border border-gray-300 rounded-lg" />
+                    ) : (
+                        <div className="w-full h-[640px] flex items-center justify-center border border-gray-300 rounded-lg text-gray-500">
+                            Ladataan esikatselua...
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <button
+                type="submit"
+                disabled={loading}
+                className="bg-green-600 text-white px-8 py-3 text-lg font-semibold rounded-lg hover:bg-green-700 transition disabled:bg-gray-400"
+            >
+                {loading ? 'Tallennetaan...' : 'Tallenna'}
+            </button>
+        </form>
+    )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+// Reference type form
+// Chooses between RF and Finnish national payment references for new invoices
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { REFERENCE_TYPES, REFERENCE_TYPE_LABELS, ReferenceType } from '@/lib/invoices/reference'
+
+interface ReferenceTypeFormProps {
+    referenceType: ReferenceType
+}
+
+export default function ReferenceTypeForm({ referenceType }: ReferenceTypeFormProps) {
+    const router = useRouter()
+    const [loading, setLoading] = useState(false)
+    const [selected, setSelected] = useState<ReferenceType>(referenceType)
+
+    // Handle form submission
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setLoading(true)
+
+        try {
+            const res = await fetch('/api/companies', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ referenceType: selected }),
+            })
+
+            if (res.ok) {
+                router.refresh()
+            } else {
+                const errorData = await res.json()
+                alert(`Virhe tallennuksessa: ${errorData.error || 'Tuntematon virhe'}`)
+            }
+        } catch (error) {
+            console.error('Reference type error:', error)
+            alert('Virhe tallennuksessa')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-lg p-8 space-y-6">
+            <div>
+                <h2 className="text-2xl font-bold">Viitenumero</h2>
+                <p className="text-gray-600">Muutos koskee uusia laskuja, jo luotujen laskujen viitteet eivät muutu.</p>
+            </div>
+
+            <div className="flex gap-8">
+                {REFERENCE_TYPES.map((type) => (
+                    <label key={type} className="flex items-center gap-2 text-lg">
+                        <input
+                            type="radio"
+                            name="referenceType"
+                            value={type}
+                            checked={selected === type}
+                            onChange={() => setSelected(type)}
+                            className="w-5 h-5"
+                        />
+                        {REFERENCE_TYPE_LABELS[type]}
+                    </label>
+                ))}
+            </div>
+
+            <button
+                type="submit"
+                disabled={loading}
+                className="bg-green-600 text-white px-8 py-3 text-lg font-semibold rounded-lg hover:bg-green-700 transition disabled:bg-gray-400"
+            >
+                {loading ? 'Tallennetaan...' : 'Tallenna'}
+            </button>
+        </form>
+    )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+// Client component for checking a VAT number in VIES from a form
+// Shows whether the number is registered and the registered name, if disclosed
+import { useState } from 'react'
+
+interface VatCheckResult {
+    vatNumber: string
+    status: 'valid' | 'invalid' | 'unavailable'
+    name: string | null
+    address: string | null
+}
+
+interface VatNumberCheckProps {
+    vatNumber: string        // VAT number to check, the button is disabled while empty
+}
+
+export default function VatNumberCheck({ vatNumber }: VatNumberCheckProps) {
+    const [loading, setLoading] = useState(false)
+    const [result, setResult] = useState<VatCheckResult | null>(null)
+
+    const handleCheck = async () => {
+        setLoading(true)
+        setResult(null)
+
+        try {
+            const res = await fetch('/api/vat-numbers/check', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ vatNumber }),
+            })
+
+            if (res.ok) {
+                setResult(await res.json())
+            } else {
+                const errorData = await res.json()
+                alert(`Tarkistus epäonnistui: ${errorData.error || 'Tuntematon virhe'}`)
+            }
+        } catch (error) {
+            console.error('VAT number check error:', error)
+            alert('Tarkistus epäonnistui')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <div className="mt-2 flex items-center gap-3 text-sm">
+            <button
+                type="button"
+                onClick={handleCheck}
+                disabled={loading || !vatNumber.trim()}
+                className="px-3 py-1 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+            >
+                {loading ? 'Tarkistetaan...' : 'Tarkista VIES:stä'}
+            </button>
+
+            {result?.status === 'valid' && (
+                <span className="text-green-700">
+                    ✓ {result.vatNumber} on ALV-rekisterissä{result.name ? `: ${result.name}` : ''}
+                </span>
+            )}
+            {result?.status === 'invalid' && (
+                <span className="text-red-600">✗ {result.vatNumber} ei ole voimassa oleva ALV-numero</span>
+            )}
+            {result?.status === 'unavailable' && (
+                <span className="text-gray-500">VIES ei vastannut, yritä myöhemmin uudelleen</span>
+            )}
+        </div>
+    )
+}
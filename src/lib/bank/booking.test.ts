@@ -0,0 +1,96 @@
+import { Prisma } from '@prisma/client'
+import { describe, expect, it, vi } from 'vitest'
+import { BankBookingError, bookBankPayments, BankPaymentBooking, isBankArchiveIdConflict, validateBankPaymentBookings } from '@/lib/bank/booking'
+
+vi.mock('@/lib/db/client', () => ({ prisma: {} }))
+vi.mock('@/lib/invoices/settlement', () => ({ settleInvoiceStatus: vi.fn(async () => 'paid') }))
+
+const booking = (archiveId: string): BankPaymentBooking => ({
+    invoiceId: 'inv-001',
+    archiveId,
+    amountCents: 164280,
+    bookingDate: '2026-01-29',
+    reference: 'RF74001',
+    payerName: 'Asiakas Oy',
+})
+
+const uniqueError = (target: unknown) => new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+    code: 'P2002',
+    clientVersion: Prisma.prismaVersion.client,
+    meta: { target },
+})
+
+/**
+ * Transaction client with a payable invoice and the given payments already booked
+ */
+function fakeDb(bookedArchiveIds: string[], create = vi.fn(async () => ({})), payableInvoices = [{ id: 'inv-001' }]) {
+    return {
+        invoice: { findMany: vi.fn(async () => payableInvoices) },
+        payment: {
+            findMany: vi.fn(async () => bookedArchiveIds.map(bankArchiveId => ({ bankArchiveId }))),
+            create,
+        },
+    } as unknown as Prisma.TransactionClient
+}
+
+describe('validateBankPaymentBookings', () => {
+    it('rejects the same credit selected twice', () => {
+        expect(validateBankPaymentBookings([booking('A1'), booking('A1')])).toBe('Payment selected more than once')
+        expect(validateBankPaymentBookings([booking('A1'), booking('A2')])).toBeNull()
+    })
+})
+
+describe('bookBankPayments', () => {
+    it('skips credits booked from an earlier import', async () => {
+        const create = vi.fn(async () => ({}))
+
+        const result = await bookBankPayments('company-1', 'user-1', [booking('A1'), booking('A2')], fakeDb(['A1'], create))
+
+        expect(result).toEqual({ booked: 1, skipped: 1 })
+        expect(create).toHaveBeenCalledOnce()
+    })
+
+    it('scopes the archive references to the company', async () => {
+        const create = vi.fn(async () => ({}))
+        const db = fakeDb([], create)
+
+        await bookBankPayments('company-1', 'user-1', [booking('A1')], db)
+
+        expect(db.payment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+            where: { companyId: 'company-1', bankArchiveId: { in: ['A1'] } },
+        }))
+        expect(create).toHaveBeenCalledWith({ data: expect.objectContaining({ companyId: 'company-1', bankArchiveId: 'A1' }) })
+    })
+
+    it('fails the booking when a concurrent request booked the credit first', async () => {
+        const create = vi.fn(async () => {
+            throw uniqueError(['companyId', 'bankArchiveId'])
+        })
+
+        const booked = bookBankPayments('company-1', 'user-1', [booking('A1')], fakeDb([], create))
+
+        await expect(booked).rejects.toBeInstanceOf(BankBookingError)
+        await expect(booked).rejects.toMatchObject({ status: 409 })
+    })
+
+    it('throws before booking anything when an invoice is not payable', async () => {
+        const create = vi.fn(async () => ({}))
+
+        const booked = bookBankPayments('company-1', 'user-1', [booking('A1')], fakeDb([], create, []))
+
+        await expect(booked).rejects.toMatchObject({ status: 400, message: 'Invoice not found or not payable' })
+        expect(create).not.toHaveBeenCalled()
+    })
+})
+
+describe('isBankArchiveIdConflict', () => {
+    it('recognises the unique constraint by field or index name', () => {
+        expect(isBankArchiveIdConflict(uniqueError(['companyId', 'bankArchiveId']))).toBe(true)
+        expect(isBankArchiveIdConflict(uniqueError('payments_company_id_bank_archive_id_key'))).toBe(true)
+    })
+
+    it('ignores other errors', () => {
+        expect(isBankArchiveIdConflict(uniqueError(['id']))).toBe(false)
+        expect(isBankArchiveIdConflict(new Error('Unique constraint failed'))).toBe(false)
+    })
+})
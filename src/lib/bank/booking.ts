@@ -0,0 +1,151 @@
+// Booking reviewed bank payments
+// Each credit of an imported statement the user accepted becomes a Payment of the chosen
+// invoice, remembering the bank archive reference so it is never booked twice.
+// The archive reference is unique per company, a credit booked by a concurrent request fails the
+// booking transaction instead of being booked again. Bookings that can't be done throw
+// a BankBookingError, so the transaction is rolled back and nothing is booked
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/client'
+import { Cents, formatCents } from '@/lib/money'
+import { PAYABLE_STATUSES, validatePaymentInput } from '@/lib/invoices/payments'
+import { settleInvoiceStatus } from '@/lib/invoices/settlement'
+
+// Credit accepted in review, as sent by the review screen
+export interface BankPaymentBooking {
+    invoiceId: string
+    archiveId: string
+    amountCents: Cents
+    bookingDate: string          // YYYY-MM-DD
+    reference?: string | null
+    payerName?: string | null
+}
+
+/**
+ * Booking that can't be done, with the HTTP status to answer with
+ * 400 for invoices that can't be paid, 409 for credits booked by a concurrent request
+ */
+export class BankBookingError extends Error {
+    constructor(message: string, readonly status: 400 | 409) {
+        super(message)
+        this.name = 'BankBookingError'
+    }
+}
+
+/**
+ * Validate the accepted credits from a request body
+ * @param body - Untrusted value from the request
+ * @returns Error message, or null if all bookings are valid
+ */
+export function validateBankPaymentBookings(body: unknown): string | null {
+    if (!Array.isArray(body) || body.length === 0) {
+        return 'Select at least one payment to book'
+    }
+
+    for (const booking of body as Partial<BankPaymentBooking>[]) {
+        if (!booking?.invoiceId || typeof booking.invoiceId !== 'string') {
+            return 'Choose an invoice for every payment'
+        }
+        if (!booking.archiveId || typeof booking.archiveId !== 'string') {
+            return 'Bank archive reference is required'
+        }
+
+        const paymentError = validatePaymentInput({ amountCents: booking.amountCents, paymentDate: booking.bookingDate })
+        if (paymentError) {
+            return paymentError
+        }
+    }
+
+    if (new Set(body.map((booking: BankPaymentBooking) => booking.archiveId)).size !== body.length) {
+        return 'Payment selected more than once'
+    }
+
+    return null
+}
+
+/**
+ * Check if an error is the unique constraint of the company's bank archive references,
+ * raised when another request booked the same credit first
+ */
+export function isBankArchiveIdConflict(error: unknown): boolean {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        return false
+    }
+    // Target is the field list or the index name depending on the database
+    const target = error.meta?.target
+    const fields: unknown[] = Array.isArray(target) ? target : [target]
+    return fields.some(field => typeof field === 'string' && /bank_?archive_?id/i.test(field))
+}
+
+/**
+ * Book accepted bank credits as invoice payments
+ * Credits booked earlier are skipped, invoice statuses follow the new payments
+ *
+ * @param companyId - Company the invoices belong to
+ * @param userId - User who books the payments
+ * @param bookings - Credits that passed validateBankPaymentBookings
+ * @param db - Transaction client, booking should run in one transaction
+ * @returns Number of booked and skipped credits
+ * @throws BankBookingError if an invoice can't be paid or a credit was booked concurrently
+ */
+export async function bookBankPayments(
+    companyId: string,
+    userId: string,
+    bookings: BankPaymentBooking[],
+    db: Prisma.TransactionClient = prisma
+): Promise<{ booked: number, skipped: number }> {
+    const invoiceIds = [...new Set(bookings.map(booking => booking.invoiceId))]
+
+    // Security check: invoices must be payable invoices of the company
+    const invoices = await db.invoice.findMany({
+        where: {
+            id: { in: invoiceIds },
+            companyId,
+            type: 'invoice',
+            status: { in: PAYABLE_STATUSES }
+        },
+        select: { id: true }
+    })
+
+    if (invoices.length !== invoiceIds.length) {
+        throw new BankBookingError('Invoice not found or not payable', 400)
+    }
+
+    const alreadyBooked = await db.payment.findMany({
+        where: {
+            companyId,
+            bankArchiveId: { in: bookings.map(booking => booking.archiveId) }
+        },
+        select: { bankArchiveId: true }
+    })
+    const booked = new Set(alreadyBooked.map(payment => payment.bankArchiveId))
+
+    const newBookings = bookings.filter(booking => !booked.has(booking.archiveId))
+
+    for (const booking of newBookings) {
+        try {
+            await db.payment.create({
+                data: {
+                    invoiceId: booking.invoiceId,
+                    companyId,
+                    amountCents: booking.amountCents,
+                    paymentDate: new Date(booking.bookingDate),
+                    method: 'bank_transfer',
+                    reference: booking.reference?.replace(/\s/g, '') || null,
+                    note: booking.payerName?.trim() || null,
+                    bankArchiveId: booking.archiveId,
+                }
+            })
+        } catch (error) {
+            // Another request booked the credit after it was looked up
+            if (isBankArchiveIdConflict(error)) {
+                throw new BankBookingError('Payment was already booked, import the statement again', 409)
+            }
+            throw error
+        }
+
+        await settleInvoiceStatus(booking.invoiceId, userId, `Maksu ${formatCents(booking.amountCents)} € tiliotteelta`, db)
+    }
+
+    return { booked: newBookings.length, skipped: bookings.length - newBookings.length }
+}
@@ -0,0 +1,76 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { describe, expect, it, vi } from 'vitest'
+import { matchBankCredits, MatchCandidate } from '@/lib/bank/matching'
+import { parseCamtStatement } from '@/utils/bank/camt'
+
+// matchBankCredits is pure, the database client is not needed
+vi.mock('@/lib/db/client', () => ({ prisma: {} }))
+
+const fixture = (fileName: string) =>
+    readFileSync(path.join(process.cwd(), 'src', 'utils', 'bank', '__fixtures__', fileName), 'utf-8')
+
+const candidate = (invoiceId: string, rfReference: string, openBalanceCents: number): MatchCandidate => ({
+    invoiceId,
+    invoiceNumber: invoiceId.toUpperCase(),
+    customerName: 'Asiakas Oy',
+    rfReference,
+    openBalanceCents,
+})
+
+describe('matchBankCredits', () => {
+    const { credits } = parseCamtStatement(fixture('camt053.xml'))
+
+    it('matches the reference and open balance of camt.053 credits', () => {
+        const invoices = [candidate('inv-001', 'RF74001', 164280), candidate('inv-002', '10016', 10000)]
+
+        const matches = matchBankCredits(credits, invoices)
+
+        expect(matches.map(match => [match.status, match.invoiceId])).toEqual([
+            ['matched', 'inv-001'],
+            ['matched', 'inv-002'],
+            ['unmatched', null],
+        ])
+    })
+
+    it('matches an RF reference paid with zeros padding its body', () => {
+        const notification = parseCamtStatement(fixture('camt054.xml'))
+        const invoices = [candidate('inv-010', 'RF18539007547034', 6000)]
+
+        const [match] = matchBankCredits(notification.credits, invoices)
+
+        expect(match.status).toBe('matched')
+        expect(match.invoiceId).toBe('inv-010')
+    })
+
+    it('sends a partial payment to review with the invoice suggested', () => {
+        const [match] = matchBankCredits(credits, [candidate('inv-001', 'RF74001', 200000)])
+
+        expect(match.status).toBe('ambiguous')
+        expect(match.invoiceId).toBe('inv-001')
+    })
+
+    it('suggests invoices waiting for the amount of a payment without a reference', () => {
+        const invoices = [candidate('inv-002', '10029', 5000), candidate('inv-003', 'RF9510002', 7000)]
+
+        const match = matchBankCredits(credits, invoices)[2]
+
+        expect(match.status).toBe('unmatched')
+        expect(match.candidates.map(invoice => invoice.invoiceId)).toEqual(['inv-002'])
+    })
+
+    it('sends a second payment of the same invoice to review', () => {
+        const twice = [credits[0], { ...credits[0], archiveId: 'another' }]
+
+        const matches = matchBankCredits(twice, [candidate('inv-001', 'RF74001', 164280)])
+
+        expect(matches.map(match => match.status)).toEqual(['matched', 'ambiguous'])
+        expect(matches[1].candidates[0].openBalanceCents).toBe(0)
+    })
+
+    it('recognises credits booked from an earlier import', () => {
+        const matches = matchBankCredits(credits, [candidate('inv-001', 'RF74001', 164280)], ['260129593497B00001/1'])
+
+        expect(matches[0]).toMatchObject({ status: 'booked', invoiceId: null })
+    })
+})
@@ -0,0 +1,147 @@
+// Matching incoming bank payments to invoices
+// A payment matches an invoice when its reference is the invoice's rfReference and
+// the amount is what is left to pay. Everything else (partial payments, overpayments,
+// unknown references) is left for review before payments are booked.
+// Credits already booked (same bank archive reference) are recognised so a statement
+// can be imported twice without double booking
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/client'
+import { Cents } from '@/lib/money'
+import { calculateOpenBalanceCents } from '@/lib/invoices/balance'
+import { PAYABLE_STATUSES } from '@/lib/invoices/payments'
+import { BankCredit, normalizeBankReference } from '@/utils/bank/statement'
+
+export type BankCreditMatchStatus =
+    | 'matched'      // Reference and amount agree with one invoice
+    | 'ambiguous'    // Reference found, but the amount differs or several invoices fit
+    | 'unmatched'    // No invoice with the reference
+    | 'booked'       // Already booked from an earlier import
+
+// Invoice a credit can be booked to
+export interface MatchCandidate {
+    invoiceId: string
+    invoiceNumber: string
+    customerName: string
+    rfReference: string
+    openBalanceCents: Cents
+}
+
+export interface BankCreditMatch {
+    credit: BankCredit
+    status: BankCreditMatchStatus
+    invoiceId: string | null         // Matched or suggested invoice
+    candidates: MatchCandidate[]     // Invoices to choose from in review
+}
+
+/**
+ * Match bank credits to invoices
+ * Credits are matched in file order, each match reduces the balance left for the
+ * next credit, so a second payment of the same invoice goes to review
+ *
+ * @param credits - Incoming payments from a bank statement
+ * @param invoices - Payable invoices of the company with their open balances
+ * @param bookedArchiveIds - Bank archive references of payments already booked
+ */
+export function matchBankCredits(
+    credits: BankCredit[],
+    invoices: MatchCandidate[],
+    bookedArchiveIds: string[] = []
+): BankCreditMatch[] {
+    const balances = new Map(invoices.map(invoice => [invoice.invoiceId, invoice.openBalanceCents]))
+    const booked = new Set(bookedArchiveIds)
+    const withBalance = (invoice: MatchCandidate) => ({ ...invoice, openBalanceCents: balances.get(invoice.invoiceId) ?? 0 })
+
+    return credits.map(credit => {
+        if (booked.has(credit.archiveId)) {
+            return { credit, status: 'booked', invoiceId: null, candidates: [] }
+        }
+
+        const reference = normalizeBankReference(credit.reference)
+        const byReference = reference
+            ? invoices.filter(invoice => normalizeBankReference(invoice.rfReference) === reference).map(withBalance)
+            : []
+
+        // Without a known reference, invoices waiting for exactly this amount are suggested
+        if (byReference.length === 0) {
+            const candidates = invoices.map(withBalance).filter(invoice => invoice.openBalanceCents === credit.amountCents)
+            return { credit, status: 'unmatched', invoiceId: null, candidates }
+        }
+
+        const exact = byReference.filter(invoice => invoice.openBalanceCents === credit.amountCents)
+        const match = exact.length === 1 ? exact[0] : byReference.length === 1 ? byReference[0] : null
+
+        if (match) {
+            balances.set(match.invoiceId, match.openBalanceCents - credit.amountCents)
+        }
+
+        return {
+            credit,
+            status: exact.length === 1 ? 'matched' : 'ambiguous',
+            invoiceId: match?.invoiceId ?? null,
+            candidates: byReference,
+        }
+    })
+}
+
+/**
+ * Payable invoices of a company as match candidates
+ *
+ * @param companyId - Company whose invoices are paid
+ * @param db - Transaction client when called inside a transaction
+ */
+export async function findMatchCandidates(
+    companyId: string,
+    db: Prisma.TransactionClient = prisma
+): Promise<MatchCandidate[]> {
+    const invoices = await db.invoice.findMany({
+        where: {
+            companyId,
+            type: 'invoice',
+            status: { in: PAYABLE_STATUSES }
+        },
+        orderBy: { invoiceDate: 'asc' },
+        include: {
+            customer: { select: { name: true } },
+            creditNotes: { select: { totalCents: true } },
+            payments: { select: { amountCents: true } },
+        }
+    })
+
+    return invoices.map(invoice => ({
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        customerName: invoice.customer.name,
+        rfReference: invoice.rfReference,
+        openBalanceCents: calculateOpenBalanceCents(invoice, invoice.creditNotes, invoice.payments),
+    }))
+}
+
+/**
+ * Match bank credits to the payable invoices of a company
+ *
+ * @param companyId - Company the statement belongs to
+ * @param credits - Incoming payments from a bank statement
+ * @param db - Transaction client when called inside a transaction
+ * @returns Match of each credit and all candidates for choosing an invoice in review
+ */
+export async function findBankCreditMatches(
+    companyId: string,
+    credits: BankCredit[],
+    db: Prisma.TransactionClient = prisma
+): Promise<{ matches: BankCreditMatch[], invoices: MatchCandidate[] }> {
+    const invoices = await findMatchCandidates(companyId, db)
+
+    const booked = await db.payment.findMany({
+        where: {
+            companyId,
+            bankArchiveId: { in: credits.map(credit => credit.archiveId) }
+        },
+        select: { bankArchiveId: true }
+    })
+
+    return {
+        matches: matchBankCredits(credits, invoices, booked.map(payment => payment.bankArchiveId ?? '')),
+        invoices,
+    }
+}
@@ -0,0 +1,116 @@
+// Contact persons and additional addresses of a customer
+// Validation and normalisation shared by the contact and address API routes
+
+import { DEFAULT_COUNTRY, toCountryCode } from '@/lib/i18n/countries'
+
+export const ADDRESS_TYPES = ['billing', 'delivery'] as const
+
+export type AddressType = typeof ADDRESS_TYPES[number]
+
+// Finnish display labels for each address type
+export const ADDRESS_TYPE_LABELS: Record<AddressType, string> = {
+    billing: 'Laskutusosoite',
+    delivery: 'Toimitusosoite',
+}
+
+// Contact fields as sent by the contact form
+export interface ContactInput {
+    name: string
+    role?: string | null
+    email?: string | null
+    phone?: string | null
+    isDefault?: boolean
+}
+
+// Address fields as sent by the address form
+export interface AddressInput {
+    type: string
+    name?: string | null
+    address: string
+    postalCode: string
+    city: string
+    country?: string | null
+    isDefault?: boolean
+}
+
+/**
+ * Check if a value is a known address type
+ */
+export function isAddressType(value: unknown): value is AddressType {
+    return typeof value === 'string' && (ADDRESS_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Validate contact data from a request body
+ * @param body - Untrusted value from the request
+ * @returns Error message, or null if the contact is valid
+ */
+export function validateContactInput(body: unknown): string | null {
+    const value = body as Partial<ContactInput> | null
+
+    if (!value?.name || typeof value.name !== 'string' || !value.name.trim()) {
+        return 'Contact name is required'
+    }
+    if (value.email && (typeof value.email !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(value.email.trim()))) {
+        return 'Invalid email address'
+    }
+    if (value.isDefault !== undefined && typeof value.isDefault !== 'boolean') {
+        return 'isDefault must be a boolean'
+    }
+
+    return null
+}
+
+/**
+ * Validate address data from a request body
+ * @param body - Untrusted value from the request
+ * @returns Error message, or null if the address is valid
+ */
+export function validateAddressInput(body: unknown): string | null {
+    const value = body as Partial<AddressInput> | null
+
+    if (!isAddressType(value?.type)) {
+        return 'Address type must be billing or delivery'
+    }
+    if (!value.address || !value.postalCode || !value.city) {
+        return 'Missing required fields'
+    }
+    if (value.country && (typeof value.country !== 'string' || !toCountryCode(value.country))) {
+        return 'Invalid country'
+    }
+    if (value.isDefault !== undefined && typeof value.isDefault !== 'boolean') {
+        return 'isDefault must be a boolean'
+    }
+
+    return null
+}
+
+/**
+ * Contact fields to store, empty optional fields become null
+ * @param body - Contact data that passed validateContactInput
+ */
+export function toContactData(body: ContactInput) {
+    return {
+        name: body.name.trim(),
+        role: body.role?.trim() || null,
+        email: body.email?.trim() || null,
+        phone: body.phone?.trim() || null,
+        isDefault: body.isDefault ?? false,
+    }
+}
+
+/**
+ * Address fields to store, empty optional fields become null
+ * @param body - Address data that passed validateAddressInput
+ */
+export function toAddressData(body: AddressInput) {
+    return {
+        type: body.type,
+        name: body.name?.trim() || null,
+        address: body.address,
+        postalCode: body.postalCode,
+        city: body.city,
+        country: body.country ? toCountryCode(body.country) ?? body.country : DEFAULT_COUNTRY,
+        isDefault: body.isDefault ?? false,
+    }
+}
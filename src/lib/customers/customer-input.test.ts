@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { isFinnishCustomer, toCustomerData, validateCustomerInput } from '@/lib/customers/customer-input'
+
+const customer = {
+    name: 'Asiakas Oy',
+    businessId: '0112038-9',
+    address: 'Hämeenkatu 10',
+    postalCode: '33100',
+    city: 'Tampere',
+    country: 'FI',
+    email: 'ostolaskut@asiakas.fi',
+}
+
+// French SIREN, 9 digits without a Y-tunnus check digit
+const frenchCustomer = { ...customer, name: 'Client SAS', businessId: '732829320', country: 'FR', city: 'Paris' }
+
+describe('isFinnishCustomer', () => {
+    it('counts only Finland as Finnish', () => {
+        expect(isFinnishCustomer('FI')).toBe(true)
+        expect(isFinnishCustomer('Finland')).toBe(true)
+        expect(isFinnishCustomer(null)).toBe(true)    // Saved with the default country
+        expect(isFinnishCustomer('FR')).toBe(false)
+        expect(isFinnishCustomer('France')).toBe(false)
+    })
+})
+
+describe('validateCustomerInput', () => {
+    it('checks the Y-tunnus of Finnish customers', () => {
+        expect(validateCustomerInput(customer)).toBeNull()
+        expect(validateCustomerInput({ ...customer, businessId: '0112038-8' })).toBe('Invalid business ID (Y-tunnus)')
+    })
+
+    it('keeps the business ID of foreign customers as entered', () => {
+        expect(validateCustomerInput(frenchCustomer)).toBeNull()
+        expect(toCustomerData(frenchCustomer)).toMatchObject({ businessId: '732829320', country: 'FR' })
+    })
+
+    it('requires an entered VAT number for foreign reverse charge customers', () => {
+        const reverseCharge = { ...frenchCustomer, vatTreatment: 'reverse_charge' }
+
+        expect(validateCustomerInput(reverseCharge)).toBe('Reverse charge customers need a VAT number')
+        expect(validateCustomerInput({ ...reverseCharge, vatNumber: 'FR40303265045' })).toBeNull()
+    })
+
+    it('rejects countries that are not ISO codes or known names', () => {
+        expect(validateCustomerInput({ ...frenchCustomer, country: 'France' })).toBe('Invalid country')
+        expect(validateCustomerInput({ ...customer, country: 'XX' })).toBe('Invalid country')
+    })
+})
+
+describe('toCustomerData', () => {
+    it('stores the country as an ISO code', () => {
+        expect(toCustomerData({ ...customer, country: 'Finland' }).country).toBe('FI')
+        expect(toCustomerData({ ...customer, country: null }).country).toBe('FI')
+    })
+})
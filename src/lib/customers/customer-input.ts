@@ -0,0 +1,148 @@
+// Customer data from the customer form
+// Shared validation and normalisation for creating (POST) and updating (PUT) customers
+// Payment terms, VAT treatment, delivery method and notes are defaults for new invoices
+// Countries are stored as ISO codes, Finnish customers' Y-tunnus must have a valid check digit
+// and VAT numbers a valid EU format
+
+import { validateOvtCode, validatePeppolId } from '@/utils/einvoice/addresses'
+import { DEFAULT_COUNTRY, toCountryCode } from '@/lib/i18n/countries'
+import { normalizeBusinessId, validateBusinessId } from '@/utils/finnish/business-id'
+import { normalizeVatNumber, resolveVatNumber, validateVatNumber } from '@/utils/eu/vat-number'
+import { DEFAULT_INVOICE_LANGUAGE, isInvoiceLanguage } from '@/lib/i18n/languages'
+import { DEFAULT_PAYMENT_TERM_DAYS, isPaymentTermDays, MAX_PAYMENT_TERM_DAYS } from '@/lib/invoices/payment-terms'
+import { DEFAULT_DELIVERY_METHOD, isDeliveryMethod } from '@/lib/invoices/delivery'
+import { DEFAULT_VAT_TREATMENT, isVatTreatment } from '@/utils/finnish/vat-rates'
+
+// Default notes are printed on invoices, keep them to a short paragraph
+export const MAX_DEFAULT_NOTES_LENGTH = 1000
+
+/**
+ * Check if a customer is Finnish, whose business ID is then a Y-tunnus
+ * Only Finland counts (FI, or its name in older addresses), other and unknown countries are foreign
+ *
+ * @param country - Country as entered, Finland (the default country) if empty
+ */
+export function isFinnishCustomer(country: string | null | undefined): boolean {
+    return toCountryCode(country || DEFAULT_COUNTRY) === 'FI'
+}
+
+// Editable customer fields as sent by the customer form
+export interface CustomerInput {
+    name: string
+    businessId?: string | null
+    vatNumber?: string | null
+    vatRegistered?: boolean
+    address: string
+    postalCode: string
+    city: string
+    country?: string | null
+    email: string
+    phone?: string | null
+    peppolId?: string | null
+    einvoiceAddress?: string | null
+    einvoiceOperator?: string | null
+    language?: string | null
+    paymentTermDays?: number | null
+    vatTreatment?: string | null
+    deliveryMethod?: string | null
+    defaultNotes?: string | null
+}
+
+/**
+ * Validate customer data from a request body
+ * @param body - Untrusted value from the request
+ * @returns Error message, or null if the customer data is valid
+ */
+export function validateCustomerInput(body: unknown): string | null {
+    const value = body as Partial<CustomerInput> | null
+
+    // Validate required fields
+    if (!value?.name || !value.address || !value.postalCode || !value.city || !value.email) {
+        return 'Missing required fields'
+    }
+
+    if (value.country && (typeof value.country !== 'string' || !toCountryCode(value.country))) {
+        return 'Invalid country'
+    }
+
+    // Finnish business IDs are Y-tunnus, foreign ones are kept as entered
+    if (value.businessId && isFinnishCustomer(value.country) && !validateBusinessId(value.businessId)) {
+        return 'Invalid business ID (Y-tunnus)'
+    }
+    if (value.vatNumber && !validateVatNumber(value.vatNumber)) {
+        return 'Invalid VAT number'
+    }
+    if (value.vatRegistered !== undefined && typeof value.vatRegistered !== 'boolean') {
+        return 'vatRegistered must be a boolean'
+    }
+
+    // Reverse charge invoices must show the buyer's VAT number
+    if (value.vatTreatment === 'reverse_charge'
+        && !resolveVatNumber({
+            businessId: value.businessId ?? null,
+            vatNumber: value.vatNumber,
+            country: value.country ?? null,
+            vatRegistered: value.vatRegistered,
+        })) {
+        return 'Reverse charge customers need a VAT number'
+    }
+
+    // Validate e-invoice addresses when given
+    if (value.einvoiceAddress && !validateOvtCode(value.einvoiceAddress)) {
+        return 'Invalid e-invoice address (OVT code)'
+    }
+    if (value.peppolId && !validatePeppolId(value.peppolId)) {
+        return 'Invalid Peppol participant ID'
+    }
+
+    // Validate invoice language when given
+    if (value.language && !isInvoiceLanguage(value.language)) {
+        return 'Invalid language'
+    }
+
+    // Validate invoice defaults when given
+    if (value.paymentTermDays != null && !isPaymentTermDays(value.paymentTermDays)) {
+        return `Payment terms must be 0-${MAX_PAYMENT_TERM_DAYS} days`
+    }
+    if (value.vatTreatment && !isVatTreatment(value.vatTreatment)) {
+        return 'Invalid VAT treatment'
+    }
+    if (value.deliveryMethod && !isDeliveryMethod(value.deliveryMethod)) {
+        return 'Invalid delivery method'
+    }
+    if (value.defaultNotes && (typeof value.defaultNotes !== 'string'
+        || value.defaultNotes.length > MAX_DEFAULT_NOTES_LENGTH)) {
+        return `Default notes can be at most ${MAX_DEFAULT_NOTES_LENGTH} characters`
+    }
+
+    return null
+}
+
+/**
+ * Customer fields to store, empty optional fields become null
+ * @param body - Customer data that passed validateCustomerInput
+ */
+export function toCustomerData(body: CustomerInput) {
+    return {
+        name: body.name,
+        businessId: body.businessId
+            ? isFinnishCustomer(body.country) ? normalizeBusinessId(body.businessId) : body.businessId.trim()
+            : null,
+        vatNumber: body.vatNumber ? normalizeVatNumber(body.vatNumber) : null,
+        vatRegistered: body.vatRegistered ?? true,
+        address: body.address,
+        postalCode: body.postalCode,
+        city: body.city,
+        country: body.country ? toCountryCode(body.country) ?? body.country : DEFAULT_COUNTRY,
+        email: body.email,
+        phone: body.phone || null,
+        peppolId: body.peppolId?.trim() || null,
+        einvoiceAddress: body.einvoiceAddress?.replace(/\s/g, '') || null,
+        einvoiceOperator: body.einvoiceOperator?.replace(/\s/g, '') || null,
+        language: body.language || DEFAULT_INVOICE_LANGUAGE,
+        paymentTermDays: body.paymentTermDays ?? DEFAULT_PAYMENT_TERM_DAYS,
+        vatTreatment: body.vatTreatment || DEFAULT_VAT_TREATMENT,
+        deliveryMethod: body.deliveryMethod || DEFAULT_DELIVERY_METHOD,
+        defaultNotes: body.defaultNotes?.trim() || null,
+    }
+}
@@ -0,0 +1,90 @@
+// Countries of postal addresses
+// Addresses store the ISO 3166-1 alpha-2 code picked in the forms, addresses entered
+// before the country select may hold the country name (e.g., "Finland")
+
+// ISO 3166-1 alpha-2 codes of the officially assigned countries
+export const COUNTRY_CODES = [
+    'AD', 'AE', 'AF', 'AG', 'AI', 'AL', 'AM', 'AO', 'AQ', 'AR', 'AS', 'AT', 'AU', 'AW', 'AX', 'AZ',
+    'BA', 'BB', 'BD', 'BE', 'BF', 'BG', 'BH', 'BI', 'BJ', 'BL', 'BM', 'BN', 'BO', 'BQ', 'BR', 'BS',
+    'BT', 'BV', 'BW', 'BY', 'BZ', 'CA', 'CC', 'CD', 'CF', 'CG', 'CH', 'CI', 'CK', 'CL', 'CM', 'CN',
+    'CO', 'CR', 'CU', 'CV', 'CW', 'CX', 'CY', 'CZ', 'DE', 'DJ', 'DK', 'DM', 'DO', 'DZ', 'EC', 'EE',
+    'EG', 'EH', 'ER', 'ES', 'ET', 'FI', 'FJ', 'FK', 'FM', 'FO', 'FR', 'GA', 'GB', 'GD', 'GE', 'GF',
+    'GG', 'GH', 'GI', 'GL', 'GM', 'GN', 'GP', 'GQ', 'GR', 'GS', 'GT', 'GU', 'GW', 'GY', 'HK', 'HM',
+    'HN', 'HR', 'HT', 'HU', 'ID', 'IE', 'IL', 'IM', 'IN', 'IO', 'IQ', 'IR', 'IS', 'IT', 'JE', 'JM',
+    'JO', 'JP', 'KE', 'KG', 'KH', 'KI', 'KM', 'KN', 'KP', 'KR', 'KW', 'KY', 'KZ', 'LA', 'LB', 'LC',
+    'LI', 'LK', 'LR', 'LS', 'LT', 'LU', 'LV', 'LY', 'MA', 'MC', 'MD', 'ME', 'MF', 'MG', 'MH', 'MK',
+    'ML', 'MM', 'MN', 'MO', 'MP', 'MQ', 'MR', 'MS', 'MT', 'MU', 'MV', 'MW', 'MX', 'MY', 'MZ', 'NA',
+    'NC', 'NE', 'NF', 'NG', 'NI', 'NL', 'NO', 'NP', 'NR', 'NU', 'NZ', 'OM', 'PA', 'PE', 'PF', 'PG',
+    'PH', 'PK', 'PL', 'PM', 'PN', 'PR', 'PS', 'PT', 'PW', 'PY', 'QA', 'RE', 'RO', 'RS', 'RU', 'RW',
+    'SA', 'SB', 'SC', 'SD', 'SE', 'SG', 'SH', 'SI', 'SJ', 'SK', 'SL', 'SM', 'SN', 'SO', 'SR', 'SS',
+    'ST', 'SV', 'SX', 'SY', 'SZ', 'TC', 'TD', 'TF', 'TG', 'TH', 'TJ', 'TK', 'TL', 'TM', 'TN', 'TO',
+    'TR', 'TT', 'TV', 'TW', 'TZ', 'UA', 'UG', 'UM', 'US', 'UY', 'UZ', 'VA', 'VC', 'VE', 'VG', 'VI',
+    'VN', 'VU', 'WF', 'WS', 'YE', 'YT', 'ZA', 'ZM', 'ZW',
+] as const
+
+export type CountryCode = typeof COUNTRY_CODES[number]
+
+// Country of new addresses unless the user picks another one
+export const DEFAULT_COUNTRY: CountryCode = 'FI'
+
+// Finnish country names, as in the Finnish UI
+const COUNTRY_LABELS = new Intl.DisplayNames(['fi'], { type: 'region' })
+
+// Country names used in company and customer addresses
+const COUNTRY_NAMES: Record<string, CountryCode> = {
+    finland: 'FI',
+    suomi: 'FI',
+    sweden: 'SE',
+    ruotsi: 'SE',
+    sverige: 'SE',
+    estonia: 'EE',
+    viro: 'EE',
+    norway: 'NO',
+    norja: 'NO',
+    denmark: 'DK',
+    tanska: 'DK',
+    germany: 'DE',
+    saksa: 'DE',
+}
+
+/**
+ * Check if a value is an ISO 3166-1 alpha-2 country code
+ */
+export function isCountryCode(value: unknown): value is CountryCode {
+    return typeof value === 'string' && (COUNTRY_CODES as readonly string[]).includes(value)
+}
+
+/**
+ * Convert a country name or code to an ISO 3166-1 alpha-2 code
+ * Unknown countries are not guessed, the address must then be corrected
+ *
+ * @param country - Country as stored in the address (e.g., "Finland" or "FI")
+ * @returns Country code (e.g., "FI"), or null for unknown countries
+ */
+export function toCountryCode(country: string): CountryCode | null {
+    const trimmed = country.trim()
+    const code = trimmed.toUpperCase()
+    if (isCountryCode(code)) {
+        return code
+    }
+    return COUNTRY_NAMES[trimmed.toLowerCase()] ?? null
+}
+
+/**
+ * Finnish name of a country for display
+ * @param country - Country as stored in the address (e.g., "SE" or "Finland")
+ * @returns Country name (e.g., "Ruotsi"), names of unknown countries as stored
+ */
+export function countryLabel(country: string): string {
+    const code = toCountryCode(country)
+    return code ? COUNTRY_LABELS.of(code) ?? code : country
+}
+
+/**
+ * Countries for the address forms, sorted by their Finnish name
+ */
+export function countryOptions(): { code: CountryCode, label: string }[] {
+    return COUNTRY_CODES
+        .map(code => ({ code, label: countryLabel(code) }))
+        .sort((a, b) => a.label.localeCompare(b.label, 'fi'))
+}
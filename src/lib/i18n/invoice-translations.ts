@@ -0,0 +1,262 @@
+// Invoice translations (Finnish, Swedish, English)
+// Every text printed on the invoice PDF or written in the invoice email
+// Swedish follows Finland-Swedish usage (FO-nummer, referensnummer)
+
+import { InvoiceLanguage } from '@/lib/i18n/languages'
+
+export interface InvoiceTranslations {
+    // Document
+    invoiceTitle: string
+    creditNoteTitle: string
+    invoiceFileName: string          // File name prefix, e.g. Lasku_INV-001.pdf
+    creditNoteFileName: string
+    invoiceNumber: string
+    invoiceDate: string
+    dueDate: string
+    creditsInvoice: string           // Credit note header: invoice being credited
+    reference: string
+
+    // Parties
+    seller: string
+    buyer: string
+    businessId: string
+    attention: string                // Prefix of the contact person line, e.g. Att. Maija Meikäläinen
+    deliveryAddress: string
+
+    // Line items table
+    description: string
+    quantity: string
+    unitPrice: string
+    vat: string
+    lineTotal: string
+
+    // VAT breakdown table
+    vatRate: string
+    netAmount: string
+    vatAmount: string
+    grossAmount: string
+
+    // Totals
+    subtotal: string
+    vatTotal: string
+    total: string
+    reverseChargeNote: string        // Required text on reverse charge invoices
+    exportNote: string               // VAT 0 % justification on export invoices
+
+    // Credit note details
+    credit: string
+    originalInvoice: string
+    creditAmount: string
+    creditInfo: string
+
+    // Payment details
+    paymentDetails: string
+    account: string
+    scanToPay: string
+    virtualBarcode: string
+    copyBarcode: string
+
+    // Footer
+    notes: string
+    paymentTerms: (days: number) => string
+    created: string
+    page: (page: number, pageCount: number) => string
+    vatRegistered: string            // Legal footer of the PDF template
+    tradeRegistered: string
+    homeMunicipality: string
+
+    // Email
+    emailInvoiceSubject: (invoiceNumber: string, companyName: string) => string
+    emailCreditNoteSubject: (invoiceNumber: string, companyName: string) => string
+    emailGreeting: string
+    emailInvoiceIntro: (invoiceNumber: string) => string
+    emailCreditNoteIntro: (invoiceNumber: string) => string
+    emailAmount: string
+    emailClosing: string
+}
+
+export const INVOICE_TRANSLATIONS: Record<InvoiceLanguage, InvoiceTranslations> = {
+    fi: {
+        invoiceTitle: 'LASKU',
+        creditNoteTitle: 'HYVITYSLASKU',
+        invoiceFileName: 'Lasku',
+        creditNoteFileName: 'Hyvityslasku',
+        invoiceNumber: 'Laskun numero',
+        invoiceDate: 'Laskun päivämäärä',
+        dueDate: 'Eräpäivä',
+        creditsInvoice: 'Hyvittää laskun',
+        reference: 'Viitenumero',
+
+        seller: 'Laskuttaja',
+        buyer: 'Asiakas',
+        businessId: 'Y-tunnus',
+        attention: 'Att.',
+        deliveryAddress: 'Toimitusosoite',
+
+        description: 'Kuvaus',
+        quantity: 'Määrä',
+        unitPrice: 'À-hinta (€)',
+        vat: 'ALV',
+        lineTotal: 'Yhteensä (€)',
+
+        vatRate: 'ALV-kanta',
+        netAmount: 'Veroton (€)',
+        vatAmount: 'ALV (€)',
+        grossAmount: 'Verollinen (€)',
+
+        subtotal: 'Veroton summa',
+        vatTotal: 'ALV yhteensä',
+        total: 'YHTEENSÄ',
+        reverseChargeNote: 'Käännetty verovelvollisuus',
+        exportNote: 'ALV 0 %, vienti EU:n ulkopuolelle (AVL 70 §)',
+
+        credit: 'Hyvitys',
+        originalInvoice: 'Alkuperäinen lasku',
+        creditAmount: 'Hyvityksen määrä',
+        creditInfo: 'Hyvitys vähennetään avoimesta saatavasta tai palautetaan tilillenne.',
+
+        paymentDetails: 'Maksutiedot',
+        account: 'Tilinumero (IBAN)',
+        scanToPay: 'Skannaa maksaaksesi',
+        virtualBarcode: 'Virtuaaliviivakoodi',
+        copyBarcode: 'Kopioi numero verkkopankkiisi',
+
+        notes: 'Lisätiedot',
+        paymentTerms: (days) => `Maksuehdot: ${days} päivää netto`,
+        created: 'Luotu',
+        page: (page, pageCount) => `Sivu ${page}/${pageCount}`,
+        vatRegistered: 'Merkitty arvonlisäverorekisteriin',
+        tradeRegistered: 'Merkitty kaupparekisteriin',
+        homeMunicipality: 'Kotipaikka',
+
+        emailInvoiceSubject: (invoiceNumber, companyName) => `Lasku ${invoiceNumber} - ${companyName}`,
+        emailCreditNoteSubject: (invoiceNumber, companyName) => `Hyvityslasku ${invoiceNumber} - ${companyName}`,
+        emailGreeting: 'Hei,',
+        emailInvoiceIntro: (invoiceNumber) => `ohessa lasku ${invoiceNumber}.`,
+        emailCreditNoteIntro: (invoiceNumber) => `ohessa hyvityslasku ${invoiceNumber}.`,
+        emailAmount: 'Summa',
+        emailClosing: 'Ystävällisin terveisin',
+    },
+    sv: {
+        invoiceTitle: 'FAKTURA',
+        creditNoteTitle: 'KREDITFAKTURA',
+        invoiceFileName: 'Faktura',
+        creditNoteFileName: 'Kreditfaktura',
+        invoiceNumber: 'Fakturanummer',
+        invoiceDate: 'Fakturadatum',
+        dueDate: 'Förfallodag',
+        creditsInvoice: 'Krediterar faktura',
+        reference: 'Referensnummer',
+
+        seller: 'Fakturerare',
+        buyer: 'Kund',
+        businessId: 'FO-nummer',
+        attention: 'Att.',
+        deliveryAddress: 'Leveransadress',
+
+        description: 'Beskrivning',
+        quantity: 'Antal',
+        unitPrice: 'À-pris (€)',
+        vat: 'Moms',
+        lineTotal: 'Totalt (€)',
+
+        vatRate: 'Momssats',
+        netAmount: 'Exkl. moms (€)',
+        vatAmount: 'Moms (€)',
+        grossAmount: 'Inkl. moms (€)',
+
+        subtotal: 'Belopp exkl. moms',
+        vatTotal: 'Moms totalt',
+        total: 'TOTALT',
+        reverseChargeNote: 'Omvänd skattskyldighet',
+        exportNote: 'Moms 0 %, export utanför EU (MomsL 70 §)',
+
+        credit: 'Kredit',
+        originalInvoice: 'Ursprunglig faktura',
+        creditAmount: 'Kreditbelopp',
+        creditInfo: 'Krediten dras av från den öppna fordran eller återbetalas till ert konto.',
+
+        paymentDetails: 'Betalningsuppgifter',
+        account: 'Kontonummer (IBAN)',
+        scanToPay: 'Skanna för att betala',
+        virtualBarcode: 'Virtuell streckkod',
+        copyBarcode: 'Kopiera numret till din nätbank',
+
+        notes: 'Tilläggsuppgifter',
+        paymentTerms: (days) => `Betalningsvillkor: ${days} dagar netto`,
+        created: 'Skapad',
+        page: (page, pageCount) => `Sida ${page}/${pageCount}`,
+        vatRegistered: 'Införd i mervärdesskatteregistret',
+        tradeRegistered: 'Införd i handelsregistret',
+        homeMunicipality: 'Hemort',
+
+        emailInvoiceSubject: (invoiceNumber, companyName) => `Faktura ${invoiceNumber} - ${companyName}`,
+        emailCreditNoteSubject: (invoiceNumber, companyName) => `Kreditfaktura ${invoiceNumber} - ${companyName}`,
+        emailGreeting: 'Hej,',
+        emailInvoiceIntro: (invoiceNumber) => `bifogat finns faktura ${invoiceNumber}.`,
+        emailCreditNoteIntro: (invoiceNumber) => `bifogat finns kreditfaktura ${invoiceNumber}.`,
+        emailAmount: 'Belopp',
+        emailClosing: 'Med vänliga hälsningar',
+    },
+    en: {
+        invoiceTitle: 'INVOICE',
+        creditNoteTitle: 'CREDIT NOTE',
+        invoiceFileName: 'Invoice',
+        creditNoteFileName: 'CreditNote',
+        invoiceNumber: 'Invoice number',
+        invoiceDate: 'Invoice date',
+        dueDate: 'Due date',
+        creditsInvoice: 'Credits invoice',
+        reference: 'Reference number',
+
+        seller: 'Seller',
+        buyer: 'Customer',
+        businessId: 'Business ID',
+        attention: 'Attn.',
+        deliveryAddress: 'Delivery address',
+
+        description: 'Description',
+        quantity: 'Qty',
+        unitPrice: 'Unit price (€)',
+        vat: 'VAT',
+        lineTotal: 'Total (€)',
+
+        vatRate: 'VAT rate',
+        netAmount: 'Net (€)',
+        vatAmount: 'VAT (€)',
+        grossAmount: 'Gross (€)',
+
+        subtotal: 'Subtotal',
+        vatTotal: 'Total VAT',
+        total: 'TOTAL',
+        reverseChargeNote: 'Reverse charge',
+        exportNote: 'VAT 0 %, export outside the EU',
+
+        credit: 'Credit',
+        originalInvoice: 'Original invoice',
+        creditAmount: 'Credit amount',
+        creditInfo: 'The credit is deducted from the open balance or refunded to your account.',
+
+        paymentDetails: 'Payment details',
+        account: 'Account (IBAN)',
+        scanToPay: 'Scan to pay',
+        virtualBarcode: 'Virtual barcode',
+        copyBarcode: 'Copy the number to your online bank',
+
+        notes: 'Additional information',
+        paymentTerms: (days) => `Payment terms: ${days} days net`,
+        created: 'Created',
+        page: (page, pageCount) => `Page ${page}/${pageCount}`,
+        vatRegistered: 'Registered for VAT',
+        tradeRegistered: 'Registered in the Finnish Trade Register',
+        homeMunicipality: 'Domicile',
+
+        emailInvoiceSubject: (invoiceNumber, companyName) => `Invoice ${invoiceNumber} - ${companyName}`,
+        emailCreditNoteSubject: (invoiceNumber, companyName) => `Credit note ${invoiceNumber} - ${companyName}`,
+        emailGreeting: 'Hello,',
+        emailInvoiceIntro: (invoiceNumber) => `please find attached invoice ${invoiceNumber}.`,
+        emailCreditNoteIntro: (invoiceNumber) => `please find attached credit note ${invoiceNumber}.`,
+        emailAmount: 'Amount',
+        emailClosing: 'Kind regards',
+    },
+}
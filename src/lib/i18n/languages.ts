@@ -0,0 +1,82 @@
+// Invoice languages and locale formatting
+// Customers receive their invoices (PDF and email) in their own language,
+// dates and numbers follow the conventions of that language's locale
+
+import { Cents, centsToEuros } from '@/lib/money'
+
+export const INVOICE_LANGUAGES = ['fi', 'sv', 'en'] as const
+
+export type InvoiceLanguage = typeof INVOICE_LANGUAGES[number]
+
+export const DEFAULT_INVOICE_LANGUAGE: InvoiceLanguage = 'fi'
+
+// Finnish display labels for the customer form
+export const INVOICE_LANGUAGE_LABELS: Record<InvoiceLanguage, string> = {
+    fi: 'Suomi',
+    sv: 'Ruotsi',
+    en: 'Englanti',
+}
+
+// Finland-Swedish and British English (day before month) formatting
+const LOCALES: Record<InvoiceLanguage, string> = {
+    fi: 'fi-FI',
+    sv: 'sv-FI',
+    en: 'en-GB',
+}
+
+/**
+ * Check if a value is a supported invoice language
+ */
+export function isInvoiceLanguage(value: unknown): value is InvoiceLanguage {
+    return typeof value === 'string' && (INVOICE_LANGUAGES as readonly string[]).includes(value)
+}
+
+/**
+ * Language of a customer, Finnish for unknown values
+ */
+export function toInvoiceLanguage(value: string | null | undefined): InvoiceLanguage {
+    return isInvoiceLanguage(value) ? value : DEFAULT_INVOICE_LANGUAGE
+}
+
+/**
+ * Replace the typographic minus (U+2212) some locales use with a hyphen,
+ * the standard PDF fonts have no glyph for it
+ */
+function plainMinus(text: string): string {
+    return text.replace(/\u2212/g, '-')
+}
+
+/**
+ * Format a date in the language's locale (fi: 31.1.2026, sv: 2026-01-31, en: 31/01/2026)
+ * Invoice dates are calendar dates stored as UTC midnight, so they are formatted in UTC
+ */
+export function formatDate(date: Date, language: InvoiceLanguage): string {
+    return new Intl.DateTimeFormat(LOCALES[language], { timeZone: 'UTC' }).format(new Date(date))
+}
+
+/**
+ * Format a number in the language's locale (fi/sv: 1,5, en: 1.5)
+ */
+export function formatNumber(value: number, language: InvoiceLanguage): string {
+    return plainMinus(new Intl.NumberFormat(LOCALES[language], { maximumFractionDigits: 2 }).format(value))
+}
+
+/**
+ * Format an amount with two decimals, without currency (fi/sv: 1 234,50, en: 1,234.50)
+ */
+export function formatAmount(cents: Cents, language: InvoiceLanguage): string {
+    return plainMinus(new Intl.NumberFormat(LOCALES[language], {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    }).format(centsToEuros(cents)))
+}
+
+/**
+ * Format a VAT rate (fi/sv: 25,5 %, en: 25.5%)
+ */
+export function formatPercent(rate: number, language: InvoiceLanguage): string {
+    return new Intl.NumberFormat(LOCALES[language], {
+        style: 'percent',
+        maximumFractionDigits: 2,
+    }).format(rate / 100)
+}
@@ -0,0 +1,124 @@
+// Immutable PDF archive of issued invoices
+// When an invoice is issued its PDF is rendered once and stored with a snapshot of the
+// seller and buyer data and a SHA-256 checksum. Downloads of issued invoices serve this file,
+// so later changes to the company or customer never alter a document already sent
+// (Finnish bookkeeping act: documents are kept as they were issued)
+
+import { createHash } from 'crypto'
+import { Company, Customer, InvoiceArchive, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/client'
+import { renderStoredInvoicePDF } from '@/lib/invoices/pdf'
+import { getInvoicePDFFileName } from '@/utils/pdf/renderInvoicePDF'
+import { INVOICE_RECIPIENT_INCLUDE, InvoiceRecipient, withInvoiceRecipient } from '@/lib/invoices/recipient'
+
+// Transactions that archive an invoice render its PDF as well,
+// which can take longer than the 5 second default of interactive transactions
+export const ARCHIVE_TRANSACTION_TIMEOUT_MS = 20000
+
+// Seller data at issue time
+export type SellerSnapshot = Pick<Company,
+    'name' | 'businessId' | 'address' | 'postalCode' | 'city' | 'country' | 'email' | 'phone' | 'iban' | 'bic'>
+
+// Buyer data at issue time, with the contact and addresses selected on the invoice
+export type BuyerSnapshot = Pick<Customer,
+    'name' | 'businessId' | 'vatNumber' | 'address' | 'postalCode' | 'city' | 'country' | 'email' | 'peppolId' | 'einvoiceAddress' | 'language'>
+    & Required<InvoiceRecipient>
+
+/**
+ * Calculate the hex SHA-256 checksum of a file
+ */
+export function sha256(data: Uint8Array): string {
+    return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * Check that an archived PDF still matches its checksum
+ */
+export function verifyInvoiceArchive(archive: Pick<InvoiceArchive, 'pdf' | 'sha256'>): boolean {
+    return sha256(archive.pdf) === archive.sha256
+}
+
+/**
+ * Archive the PDF of an issued invoice
+ * Renders the invoice from the current company and customer data, so call it when the
+ * invoice is issued, in the same transaction as the status change
+ * An existing archive is returned unchanged, archives are never replaced
+ *
+ * @param invoiceId - Issued invoice
+ * @param db - Prisma client or transaction client
+ * @returns Archive of the invoice
+ */
+export async function archiveInvoice(
+    invoiceId: string,
+    db: Prisma.TransactionClient = prisma
+): Promise<InvoiceArchive> {
+    const existing = await db.invoiceArchive.findUnique({
+        where: { invoiceId }
+    })
+
+    if (existing) {
+        return existing
+    }
+
+    const storedInvoice = await db.invoice.findUniqueOrThrow({
+        where: { id: invoiceId },
+        include: {
+            company: true,
+            customer: true,
+            ...INVOICE_RECIPIENT_INCLUDE,
+            lineItems: {
+                orderBy: { order: 'asc' }
+            },
+            creditedInvoice: {
+                select: { invoiceNumber: true, invoiceDate: true }
+            }
+        }
+    })
+
+    const invoice = withInvoiceRecipient(storedInvoice)
+    const { company, customer } = invoice
+
+    const seller: SellerSnapshot = {
+        name: company.name,
+        businessId: company.businessId,
+        address: company.address,
+        postalCode: company.postalCode,
+        city: company.city,
+        country: company.country,
+        email: company.email,
+        phone: company.phone,
+        iban: company.iban,
+        bic: company.bic,
+    }
+
+    const buyer: BuyerSnapshot = {
+        name: customer.name,
+        businessId: customer.businessId,
+        vatNumber: customer.vatNumber,
+        address: customer.address,
+        postalCode: customer.postalCode,
+        city: customer.city,
+        country: customer.country,
+        email: customer.email,
+        peppolId: customer.peppolId,
+        einvoiceAddress: customer.einvoiceAddress,
+        language: customer.language,
+        contactName: customer.contactName ?? null,
+        addressName: customer.addressName ?? null,
+        deliveryAddress: customer.deliveryAddress ?? null,
+    }
+
+    // Archived as PDF/A-3 with the Finvoice XML, the archival format with machine-readable data
+    const pdf = await renderStoredInvoicePDF(invoice, 'finvoice', db)
+
+    return db.invoiceArchive.create({
+        data: {
+            invoiceId,
+            fileName: getInvoicePDFFileName(invoice),
+            pdf,
+            sha256: sha256(pdf),
+            sellerSnapshot: JSON.stringify(seller),
+            buyerSnapshot: JSON.stringify(buyer),
+        }
+    })
+}
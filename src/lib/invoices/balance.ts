@@ -0,0 +1,74 @@
+// Open balance of an invoice
+// Derived from the invoice total and everything that reduces it,
+// so it is never stored and can't drift out of sync
+
+import { Cents, sumCents } from '@/lib/money'
+
+/**
+ * Calculate the amount still to be paid on an invoice
+ * Credit notes have negative totals, so they reduce the balance like payments do
+ *
+ * @param invoice - Invoice with total in cents
+ * @param creditNotes - Credit notes issued against the invoice
+ * @param payments - Payments received for the invoice
+ * @returns Open balance in cents (0 or less when nothing is left to pay,
+ * negative when the customer has paid too much)
+ */
+export function calculateOpenBalanceCents(
+    invoice: { totalCents: Cents },
+    creditNotes: { totalCents: Cents }[] = [],
+    payments: { amountCents: Cents }[] = []
+): Cents {
+    return invoice.totalCents
+        + sumCents(creditNotes.map(note => note.totalCents))
+        - calculatePaidCents(payments)
+}
+
+/**
+ * Calculate the total amount paid on an invoice
+ * @param payments - Payments received for the invoice
+ */
+export function calculatePaidCents(payments: { amountCents: Cents }[]): Cents {
+    return sumCents(payments.map(payment => payment.amountCents))
+}
+
+// Issued invoices still waiting for payment
+// Drafts are not yet owed, paid, cancelled and credited invoices are settled
+export const OPEN_BALANCE_STATUSES = ['sent', 'partially_paid', 'overdue']
+
+// Invoice of a customer with everything that reduces its balance
+interface CustomerInvoiceBalance {
+    type: string
+    status: string
+    totalCents: Cents
+    creditNotes: { totalCents: Cents }[]
+    payments: { amountCents: Cents }[]
+}
+
+/**
+ * Calculate the total amount a customer still owes
+ * Sums the open balances of the customer's unpaid invoices,
+ * credit notes are included through the invoices they credit
+ *
+ * @param invoices - Invoices of the customer with their credit notes and payments
+ * @returns Open balance in cents
+ */
+export function calculateCustomerOpenBalanceCents(invoices: CustomerInvoiceBalance[]): Cents {
+    return sumCents(invoices
+        .filter(invoice => invoice.type === 'invoice' && OPEN_BALANCE_STATUSES.includes(invoice.status))
+        .map(invoice => Math.max(0, calculateOpenBalanceCents(invoice, invoice.creditNotes, invoice.payments))))
+}
+
+/**
+ * Calculate the credit a customer has from overpayments
+ * An invoice paid beyond its credited total leaves the excess to the customer,
+ * e.g. a paid invoice that is credited afterwards
+ *
+ * @param invoices - Invoices of the customer with their credit notes and payments
+ * @returns Credit in cents, to be refunded or deducted from later invoices
+ */
+export function calculateCustomerCreditCents(invoices: CustomerInvoiceBalance[]): Cents {
+    return sumCents(invoices
+        .filter(invoice => invoice.type === 'invoice')
+        .map(invoice => Math.max(0, -calculateOpenBalanceCents(invoice, invoice.creditNotes, invoice.payments))))
+}
@@ -0,0 +1,89 @@
+// Credit notes (hyvityslasku)
+// A credit note is an Invoice with type "credit_note" that references the original invoice
+// Its line items are copies of the original lines with negative quantities
+
+import { Cents } from '@/lib/money'
+import type { DocumentType } from '@/lib/invoices/numbering'
+
+export const CREDIT_NOTE_TYPE: DocumentType = 'credit_note'
+
+// Only issued invoices can be credited, drafts are simply edited
+export const CREDITABLE_STATUSES = ['sent', 'partially_paid', 'paid', 'overdue']
+
+// Original line item with the quantities already credited on earlier credit notes
+export interface CreditableLineItem {
+    id: string
+    description: string
+    quantity: number
+    unitPriceCents: Cents
+    vatRate: number
+    creditLineItems: { quantity: number }[]
+}
+
+// Line selected for crediting, quantity defaults to everything not yet credited
+export interface CreditLineSelection {
+    lineItemId: string
+    quantity?: number
+}
+
+export interface CreditNoteLineItem {
+    description: string
+    quantity: number
+    unitPriceCents: Cents
+    vatRate: number
+    creditedLineItemId: string
+}
+
+/**
+ * Quantity of an original line that can still be credited
+ * Credit note lines have negative quantities, so they are added back
+ */
+export function getRemainingCreditQuantity(lineItem: CreditableLineItem): number {
+    const credited = lineItem.creditLineItems.reduce((sum, line) => sum - line.quantity, 0)
+    return lineItem.quantity - credited
+}
+
+/**
+ * Build credit note lines from the selected original lines
+ *
+ * @param originalLines - Line items of the original invoice
+ * @param selections - Untrusted selection from the request body
+ * @returns Credit note lines with negative quantities, or an error message
+ */
+export function buildCreditNoteLineItems(
+    originalLines: CreditableLineItem[],
+    selections: unknown
+): { lineItems: CreditNoteLineItem[] } | { error: string } {
+    if (!Array.isArray(selections) || selections.length === 0) {
+        return { error: 'Select at least one line item to credit' }
+    }
+
+    const lineItems: CreditNoteLineItem[] = []
+
+    for (const selection of selections as CreditLineSelection[]) {
+        const original = originalLines.find(line => line.id === selection?.lineItemId)
+        if (!original) {
+            return { error: 'Line item does not belong to the invoice' }
+        }
+        if (lineItems.some(line => line.creditedLineItemId === original.id)) {
+            return { error: 'Line item selected more than once' }
+        }
+
+        const remaining = getRemainingCreditQuantity(original)
+        const quantity = selection.quantity ?? remaining
+
+        if (!Number.isFinite(quantity) || quantity <= 0 || quantity > remaining) {
+            return { error: `Invalid credit quantity for "${original.description}"` }
+        }
+
+        lineItems.push({
+            description: original.description,
+            quantity: -quantity,
+            unitPriceCents: original.unitPriceCents,
+            vatRate: original.vatRate,
+            creditedLineItemId: original.id,
+        })
+    }
+
+    return { lineItems }
+}
@@ -0,0 +1,31 @@
+// Invoice delivery methods
+// How an invoice reaches the customer: the invoice email, an e-invoice (Finvoice / Peppol)
+// or a printed paper invoice. Customers carry a preferred method that new invoices start with
+
+export const DELIVERY_METHODS = ['email', 'einvoice', 'print'] as const
+
+export type DeliveryMethod = typeof DELIVERY_METHODS[number]
+
+export const DEFAULT_DELIVERY_METHOD: DeliveryMethod = 'email'
+
+// Finnish display labels for each method
+export const DELIVERY_METHOD_LABELS: Record<DeliveryMethod, string> = {
+    email: 'Sähköposti',
+    einvoice: 'Verkkolasku',
+    print: 'Paperilasku',
+}
+
+/**
+ * Check if a value is a known delivery method
+ */
+export function isDeliveryMethod(value: unknown): value is DeliveryMethod {
+    return typeof value === 'string' && (DELIVERY_METHODS as readonly string[]).includes(value)
+}
+
+/**
+ * Get Finnish label for a delivery method, falls back to the raw value
+ * @param method - Delivery method stored on the invoice or customer
+ */
+export function getDeliveryMethodLabel(method: string): string {
+    return isDeliveryMethod(method) ? DELIVERY_METHOD_LABELS[method] : method
+}
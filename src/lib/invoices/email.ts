@@ -0,0 +1,76 @@
+// Invoice email in the customer's language
+// The app has no mail delivery of its own, the email is opened in the user's
+// mail client (mailto link) with the PDF downloaded separately as an attachment
+
+import { INVOICE_TRANSLATIONS } from '@/lib/i18n/invoice-translations'
+import { formatAmount, formatDate, toInvoiceLanguage } from '@/lib/i18n/languages'
+import { formatIban } from '@/utils/eu/iban'
+
+export interface InvoiceEmail {
+    to: string
+    subject: string
+    body: string
+}
+
+interface InvoiceEmailSource {
+    invoiceNumber: string
+    type?: string
+    dueDate: Date
+    rfReference: string
+    totalCents: number
+    company: {
+        name: string
+        iban: string
+    }
+    customer: {
+        email: string
+        language?: string
+    }
+}
+
+/**
+ * Build the email sent with an invoice
+ * @param invoice - Invoice with company and customer
+ * @returns Recipient, subject and plain text body
+ */
+export function buildInvoiceEmail(invoice: InvoiceEmailSource): InvoiceEmail {
+    const language = toInvoiceLanguage(invoice.customer.language)
+    const t = INVOICE_TRANSLATIONS[language]
+    const isCreditNote = invoice.type === 'credit_note'
+
+    const subject = isCreditNote
+        ? t.emailCreditNoteSubject(invoice.invoiceNumber, invoice.company.name)
+        : t.emailInvoiceSubject(invoice.invoiceNumber, invoice.company.name)
+
+    const lines = [
+        t.emailGreeting,
+        '',
+        isCreditNote ? t.emailCreditNoteIntro(invoice.invoiceNumber) : t.emailInvoiceIntro(invoice.invoiceNumber),
+        '',
+        `${t.emailAmount}: ${formatAmount(invoice.totalCents, language)} €`,
+    ]
+
+    // Credit notes are not paid, so payment details only go with invoices
+    if (!isCreditNote) {
+        lines.push(
+            `${t.dueDate}: ${formatDate(invoice.dueDate, language)}`,
+            `${t.account}: ${formatIban(invoice.company.iban)}`,
+            `${t.reference}: ${invoice.rfReference}`,
+        )
+    }
+
+    lines.push('', t.emailClosing, invoice.company.name)
+
+    return {
+        to: invoice.customer.email,
+        subject,
+        body: lines.join('\n'),
+    }
+}
+
+/**
+ * mailto link that opens the invoice email in the user's mail client
+ */
+export function getInvoiceMailtoLink(email: InvoiceEmail): string {
+    return `mailto:${email.to}?subject=${encodeURIComponent(email.subject)}&body=${encodeURIComponent(email.body)}`
+}
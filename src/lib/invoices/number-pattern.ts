@@ -0,0 +1,118 @@
+// Document number patterns
+// A number is built from a prefix, an optional year and a zero-padded running number:
+// INV-001, INV-2026-001, HYV-2026-0001 ...
+// Pure functions only, shared by the numbering service and the settings form preview
+
+export type DocumentType = 'invoice' | 'credit_note'
+
+export const DOCUMENT_TYPES: DocumentType[] = ['invoice', 'credit_note']
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+    invoice: 'Laskut',
+    credit_note: 'Hyvityslaskut',
+}
+
+export interface NumberPattern {
+    prefix: string
+    includeYear: boolean
+    padding: number       // Minimum digits of the running number
+    yearlyReset: boolean  // Restart from 1 every calendar year
+}
+
+// Defaults for companies that have not configured their numbering
+export const DEFAULT_NUMBER_PATTERNS: Record<DocumentType, NumberPattern> = {
+    invoice: { prefix: 'INV', includeYear: false, padding: 3, yearlyReset: false },
+    credit_note: { prefix: 'HYV', includeYear: false, padding: 3, yearlyReset: false },  // Hyvityslasku
+}
+
+export const MAX_PREFIX_LENGTH = 10
+export const MAX_PADDING = 8
+
+/**
+ * Format a document number
+ * Numbers wider than the padding are never truncated (INV-1000 after INV-999)
+ *
+ * @param pattern - Number pattern of the sequence
+ * @param year - Year of the number, used when the pattern includes the year
+ * @param number - Running number
+ * @returns Document number (e.g., "INV-2026-001")
+ */
+export function formatDocumentNumber(pattern: NumberPattern, year: number, number: number): string {
+    const parts = [pattern.prefix]
+    if (pattern.includeYear) {
+        parts.push(String(year))
+    }
+    parts.push(String(number).padStart(pattern.padding, '0'))
+    return parts.join('-')
+}
+
+/**
+ * Running number the next document of a sequence will get
+ * @param sequence - Pattern and state of the sequence
+ * @param year - Year the document is numbered in
+ */
+export function getNextRunningNumber(
+    sequence: NumberPattern & { nextNumber: number, currentYear: number },
+    year: number
+): number {
+    return sequence.yearlyReset && sequence.currentYear !== year ? 1 : sequence.nextNumber
+}
+
+/**
+ * Parse the running number from the end of a document number
+ * Used to continue numbering from documents created before sequences existed
+ *
+ * @param documentNumber - Document number (e.g., "INV-012")
+ * @returns Running number (e.g., 12), or null if the number has no trailing digits
+ */
+export function parseRunningNumber(documentNumber: string): number | null {
+    const match = documentNumber.match(/(\d+)$/)
+    return match ? parseInt(match[1], 10) : null
+}
+
+/**
+ * Parse the running number of a document number written with a pattern
+ * Used to find existing numbers a reconfigured sequence would repeat
+ *
+ * @param pattern - Number pattern of the sequence
+ * @param year - Year of the number, used when the pattern includes the year
+ * @param documentNumber - Document number (e.g., "INV-2026-012")
+ * @returns Running number (e.g., 12), or null if the number doesn't follow the pattern
+ */
+export function parsePatternRunningNumber(pattern: NumberPattern, year: number, documentNumber: string): number | null {
+    const start = pattern.includeYear ? `${pattern.prefix}-${year}-` : `${pattern.prefix}-`
+    if (!documentNumber.startsWith(start)) {
+        return null
+    }
+
+    const rest = documentNumber.slice(start.length)
+    return /^\d+$/.test(rest) ? parseInt(rest, 10) : null
+}
+
+/**
+ * Validate a number pattern from a request body
+ * @param pattern - Untrusted value from the request
+ * @returns Error message, or null if the pattern is valid
+ */
+export function validateNumberPattern(pattern: unknown): string | null {
+    const value = pattern as Partial<NumberPattern> | null
+
+    if (!value || typeof value.prefix !== 'string' || !/^[A-Za-z0-9]+$/.test(value.prefix)) {
+        return 'Prefix must contain only letters A-Z and digits'
+    }
+    if (value.prefix.length > MAX_PREFIX_LENGTH) {
+        return `Prefix can be at most ${MAX_PREFIX_LENGTH} characters`
+    }
+    if (typeof value.includeYear !== 'boolean' || typeof value.yearlyReset !== 'boolean') {
+        return 'includeYear and yearlyReset must be booleans'
+    }
+    if (!Number.isInteger(value.padding) || value.padding! < 1 || value.padding! > MAX_PADDING) {
+        return `Padding must be between 1 and ${MAX_PADDING}`
+    }
+    // Without the year a yearly reset would repeat last year's numbers
+    if (value.yearlyReset && !value.includeYear) {
+        return 'Yearly reset requires the year to be part of the number'
+    }
+
+    return null
+}
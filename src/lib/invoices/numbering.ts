@@ -0,0 +1,143 @@
+// Invoice number generation
+// Each company has its own number sequence per document type (invoices, credit notes)
+// Numbers are allocated by incrementing the sequence row, so they are never sorted or parsed
+
+import { NumberSequence, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/client'
+import {
+    DEFAULT_NUMBER_PATTERNS,
+    DocumentType,
+    formatDocumentNumber,
+    NumberPattern,
+    parsePatternRunningNumber,
+    parseRunningNumber,
+} from '@/lib/invoices/number-pattern'
+
+export type { DocumentType } from '@/lib/invoices/number-pattern'
+
+/**
+ * Get the number sequence of a company, creating it with defaults on first use
+ * A new sequence continues after the highest existing document number,
+ * so companies with documents from before sequences existed get no duplicates
+ *
+ * @param companyId - Company the sequence belongs to
+ * @param type - Document type of the sequence
+ * @param db - Prisma client or transaction client
+ */
+export async function getNumberSequence(
+    companyId: string,
+    type: DocumentType,
+    db: Prisma.TransactionClient = prisma
+): Promise<NumberSequence> {
+    const existing = await db.numberSequence.findUnique({
+        where: {
+            companyId_documentType: { companyId, documentType: type }
+        }
+    })
+
+    if (existing) {
+        return existing
+    }
+
+    const documents = await db.invoice.findMany({
+        where: { companyId, type },
+        select: { invoiceNumber: true }
+    })
+    const highest = documents.reduce(
+        (max, document) => Math.max(max, parseRunningNumber(document.invoiceNumber) ?? 0),
+        0
+    )
+
+    return db.numberSequence.upsert({
+        where: {
+            companyId_documentType: { companyId, documentType: type }
+        },
+        update: {},
+        create: {
+            companyId,
+            documentType: type,
+            ...DEFAULT_NUMBER_PATTERNS[type],
+            nextNumber: highest + 1,
+            currentYear: new Date().getFullYear(),
+        }
+    })
+}
+
+/**
+ * Allocate the next document number for a company
+ * Call inside the transaction that creates the document, so a failed create
+ * rolls the sequence back and no number is skipped
+ *
+ * @param companyId - Company the document belongs to
+ * @param type - Document type, selects the number sequence
+ * @param db - Prisma client or transaction client
+ * @param date - Allocation date, selects the year for yearly sequences
+ * @returns Next number in the sequence (e.g., "INV-2026-004")
+ */
+export async function generateDocumentNumber(
+    companyId: string,
+    type: DocumentType,
+    db: Prisma.TransactionClient = prisma,
+    date: Date = new Date()
+): Promise<string> {
+    const sequence = await getNumberSequence(companyId, type, db)
+    const year = date.getFullYear()
+
+    // First number of a new year: reset guarded by the old year, so only one request resets
+    if (sequence.yearlyReset && sequence.currentYear !== year) {
+        const reset = await db.numberSequence.updateMany({
+            where: {
+                id: sequence.id,
+                currentYear: sequence.currentYear
+            },
+            data: {
+                currentYear: year,
+                nextNumber: 2
+            }
+        })
+
+        if (reset.count === 1) {
+            return formatDocumentNumber(sequence, year, 1)
+        }
+    }
+
+    // Atomic increment, the number taken is the value before the increment
+    const updated = await db.numberSequence.update({
+        where: { id: sequence.id },
+        data: {
+            nextNumber: { increment: 1 }
+        }
+    })
+
+    return formatDocumentNumber(updated, year, updated.nextNumber - 1)
+}
+
+/**
+ * Highest running number of the company's documents that follow a pattern
+ * Documents of both types count, they share the company's number space
+ *
+ * @param companyId - Company whose documents are checked
+ * @param pattern - Number pattern of the sequence
+ * @param year - Year of the numbers, used when the pattern includes the year
+ * @param db - Prisma client or transaction client
+ * @returns Highest used running number, 0 if no document follows the pattern
+ */
+export async function findHighestUsedNumber(
+    companyId: string,
+    pattern: NumberPattern,
+    year: number,
+    db: Prisma.TransactionClient = prisma
+): Promise<number> {
+    const documents = await db.invoice.findMany({
+        where: {
+            companyId,
+            invoiceNumber: { startsWith: `${pattern.prefix}-` }
+        },
+        select: { invoiceNumber: true }
+    })
+
+    return documents.reduce(
+        (max, document) => Math.max(max, parsePatternRunningNumber(pattern, year, document.invoiceNumber) ?? 0),
+        0
+    )
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { calculateDueDate, isDateString, validateInvoiceDates } from '@/lib/invoices/payment-terms'
+
+describe('invoice dates', () => {
+    it('accept calendar dates as YYYY-MM-DD', () => {
+        expect(isDateString('2026-02-28')).toBe(true)
+        expect(isDateString('2028-02-29')).toBe(true)
+    })
+
+    it('reject dates that roll over or carry a time', () => {
+        expect(isDateString('2026-02-29')).toBe(false)
+        expect(isDateString('2026-13-01')).toBe(false)
+        expect(isDateString('2026-01-15T10:00:00Z')).toBe(false)
+        expect(isDateString(20260115)).toBe(false)
+    })
+
+    it('are required on create and optional on partial updates', () => {
+        expect(validateInvoiceDates({ invoiceDate: '2026-01-15' })).toBe('Due date must be a date (YYYY-MM-DD)')
+        expect(validateInvoiceDates({ invoiceDate: '2026-01-15' }, false)).toBeNull()
+        expect(validateInvoiceDates({ dueDate: 'tomorrow' }, false)).toBe('Due date must be a date (YYYY-MM-DD)')
+    })
+
+    it('give the due date after the payment term', () => {
+        expect(calculateDueDate('2026-01-15', 14)).toBe('2026-01-29')
+        expect(calculateDueDate('2026-02-20', 14)).toBe('2026-03-06')
+    })
+})
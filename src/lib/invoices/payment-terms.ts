@@ -0,0 +1,56 @@
+// Payment terms
+// Days from the invoice date to the due date, set per customer and used to prefill new invoices
+// Invoice and due dates are calendar dates, sent by the invoice form as YYYY-MM-DD
+
+// Terms of customers without their own setting
+export const DEFAULT_PAYMENT_TERM_DAYS = 30
+
+export const MAX_PAYMENT_TERM_DAYS = 365
+
+/**
+ * Check if a value is a valid number of payment term days (0 = due immediately)
+ */
+export function isPaymentTermDays(value: unknown): value is number {
+    return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_PAYMENT_TERM_DAYS
+}
+
+/**
+ * Due date for an invoice date and payment terms
+ * @param invoiceDate - Invoice date as YYYY-MM-DD
+ * @param days - Payment term days
+ * @returns Due date as YYYY-MM-DD
+ */
+export function calculateDueDate(invoiceDate: string, days: number): string {
+    const date = new Date(`${invoiceDate}T00:00:00Z`)
+    date.setUTCDate(date.getUTCDate() + days)
+    return date.toISOString().split('T')[0]
+}
+
+/**
+ * Check if a value is a calendar date as YYYY-MM-DD
+ * Dates that roll over (e.g., 2026-02-30) are rejected
+ */
+export function isDateString(value: unknown): value is string {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return false
+    }
+    const date = new Date(`${value}T00:00:00Z`)
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+/**
+ * Validate the invoice and due dates of a request body
+ *
+ * @param body - Untrusted value from the request
+ * @param required - Both dates must be given, otherwise omitted dates are left unchanged (partial updates)
+ * @returns Error message, or null if the dates are valid
+ */
+export function validateInvoiceDates(body: { invoiceDate?: unknown, dueDate?: unknown }, required = true): string | null {
+    if ((required || body.invoiceDate !== undefined) && !isDateString(body.invoiceDate)) {
+        return 'Invoice date must be a date (YYYY-MM-DD)'
+    }
+    if ((required || body.dueDate !== undefined) && !isDateString(body.dueDate)) {
+        return 'Due date must be a date (YYYY-MM-DD)'
+    }
+    return null
+}
@@ -0,0 +1,81 @@
+// Payments received for invoices
+// An invoice can be paid in several parts, the invoice status follows the payments
+// (see lib/invoices/settlement). Paying more than is owed leaves the customer a credit
+
+import { Cents, isCents } from '@/lib/money'
+
+export const PAYMENT_METHODS = ['bank_transfer', 'cash', 'card', 'other'] as const
+
+export type PaymentMethod = typeof PAYMENT_METHODS[number]
+
+// Finnish display labels for each method
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    bank_transfer: 'Tilisiirto',
+    cash: 'Käteinen',
+    card: 'Kortti',
+    other: 'Muu',
+}
+
+// Payments are recorded for issued invoices, paid ones included (overpayments)
+// Drafts are not yet owed, cancelled and credited invoices are final
+export const PAYABLE_STATUSES = ['sent', 'partially_paid', 'paid', 'overdue']
+
+// Payment fields as sent by the payment form
+export interface PaymentInput {
+    amountCents: Cents
+    paymentDate: string          // YYYY-MM-DD
+    method?: string | null
+    reference?: string | null
+    note?: string | null
+}
+
+/**
+ * Check if a value is a known payment method
+ */
+export function isPaymentMethod(value: unknown): value is PaymentMethod {
+    return typeof value === 'string' && (PAYMENT_METHODS as readonly string[]).includes(value)
+}
+
+/**
+ * Get Finnish label for a payment method, falls back to the raw value
+ * @param method - Payment method stored on the payment
+ */
+export function getPaymentMethodLabel(method: string): string {
+    return isPaymentMethod(method) ? PAYMENT_METHOD_LABELS[method] : method
+}
+
+/**
+ * Validate payment data from a request body
+ * @param body - Untrusted value from the request
+ * @returns Error message, or null if the payment is valid
+ */
+export function validatePaymentInput(body: unknown): string | null {
+    const value = body as Partial<PaymentInput> | null
+
+    if (!isCents(value?.amountCents) || value.amountCents <= 0) {
+        return 'Payment amount must be a positive integer amount of cents'
+    }
+    if (typeof value.paymentDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value.paymentDate)
+        || isNaN(new Date(value.paymentDate).getTime())) {
+        return 'Payment date must be a date (YYYY-MM-DD)'
+    }
+    if (value.method && !isPaymentMethod(value.method)) {
+        return 'Invalid payment method'
+    }
+
+    return null
+}
+
+/**
+ * Payment fields to store, empty optional fields become null
+ * @param body - Payment data that passed validatePaymentInput
+ */
+export function toPaymentData(body: PaymentInput) {
+    return {
+        amountCents: body.amountCents,
+        paymentDate: new Date(body.paymentDate),
+        method: body.method || 'bank_transfer',
+        reference: body.reference?.replace(/\s/g, '') || null,
+        note: body.note?.trim() || null,
+    }
+}
@@ -0,0 +1,63 @@
+// Server-side invoice PDF rendering
+// Uses the same layout as the browser download (renderInvoicePDF),
+// so PDFs attached to emails or fetched from scripts match what users download
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/client'
+import { generateCIIXML } from '@/utils/einvoice/generateCIIXML'
+import { FinvoiceInvoice, generateFinvoiceXML } from '@/utils/einvoice/generateFinvoiceXML'
+import { HybridFormat, loadPdfAAssets, PdfAAssets } from '@/utils/pdf/pdfa'
+import { renderInvoicePDF } from '@/utils/pdf/renderInvoicePDF'
+import { PdfFont, PdfTemplateSettings, toPdfTemplateSettings } from '@/utils/pdf/template'
+
+// Fonts and colour profile served to the browser from public/pdfa
+const PDFA_ASSET_DIR = path.join(process.cwd(), 'public', 'pdfa')
+
+/**
+ * Read the PDF/A assets from the file system
+ * @param font - Template font, only the matching embedded family is read
+ */
+export async function readPdfAAssets(font: PdfFont): Promise<PdfAAssets> {
+    return loadPdfAAssets(async (fileName) => new Uint8Array(await readFile(path.join(PDFA_ASSET_DIR, fileName))), font)
+}
+
+/**
+ * PDF template of a company, the default layout if the company has not saved one
+ * @param companyId - Company the template belongs to
+ * @param db - Prisma client or transaction client
+ */
+export async function getPdfTemplate(
+    companyId: string,
+    db: Prisma.TransactionClient = prisma
+): Promise<PdfTemplateSettings> {
+    const template = await db.pdfTemplate.findUnique({
+        where: { companyId }
+    })
+
+    return toPdfTemplateSettings(template)
+}
+
+/**
+ * Render an invoice PDF on the server with the company's PDF template
+ * @param invoice - Invoice with company, customer and line items
+ * @param format - Structured invoice to embed as hybrid PDF/A-3, plain PDF if omitted
+ * @param db - Prisma client or transaction client
+ * @returns PDF document bytes
+ */
+export async function renderStoredInvoicePDF(
+    invoice: FinvoiceInvoice,
+    format?: HybridFormat,
+    db: Prisma.TransactionClient = prisma
+): Promise<Uint8Array> {
+    const template = await getPdfTemplate(invoice.companyId, db)
+
+    if (!format) {
+        return renderInvoicePDF(invoice, { template })
+    }
+
+    const xml = format === 'finvoice' ? generateFinvoiceXML(invoice) : generateCIIXML(invoice)
+    const assets = await readPdfAAssets(template.font)
+    return renderInvoicePDF(invoice, { hybrid: { format, xml, assets }, template })
+}
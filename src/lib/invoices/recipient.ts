@@ -0,0 +1,154 @@
+// Invoice recipient
+// An invoice can be addressed to a contact person of the customer and sent to another
+// billing address, with the goods going to a separate delivery address.
+// The selections are resolved into the invoice's customer data once, so the PDF buyer block,
+// the invoice email and the e-invoice messages all address the same recipient
+
+import type { Customer, CustomerAddress, CustomerContact, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/client'
+
+// Relations to include when loading an invoice for rendering or sending
+export const INVOICE_RECIPIENT_INCLUDE = {
+    contact: true,
+    billingAddress: true,
+    deliveryAddress: true,
+} as const
+
+export interface PostalAddress {
+    name: string | null          // Extra recipient line, e.g. department or site name
+    address: string
+    postalCode: string
+    city: string
+    country: string
+}
+
+// Recipient details an invoice adds to the customer data
+export interface InvoiceRecipient {
+    contactName?: string | null              // Person the invoice is addressed to
+    addressName?: string | null              // Extra line of the billing address
+    deliveryAddress?: PostalAddress | null   // Where the goods or services were delivered
+}
+
+// Contact and addresses selected on an invoice, null for the customer's own data
+export interface RecipientSelection {
+    contactId: string | null
+    billingAddressId: string | null
+    deliveryAddressId: string | null
+}
+
+export const RECIPIENT_FIELDS = ['contactId', 'billingAddressId', 'deliveryAddressId'] as const
+
+interface InvoiceRecipientSource {
+    customer: Customer
+    contact?: CustomerContact | null
+    billingAddress?: CustomerAddress | null
+    deliveryAddress?: CustomerAddress | null
+}
+
+/**
+ * Recipient selection from a request body
+ * Fields missing from the body keep their value in fallback, empty values clear the selection
+ *
+ * @param body - Untrusted value from the request
+ * @param fallback - Current selection of the invoice
+ */
+export function toRecipientSelection(
+    body: Partial<Record<keyof RecipientSelection, unknown>>,
+    fallback: RecipientSelection = { contactId: null, billingAddressId: null, deliveryAddressId: null }
+): RecipientSelection {
+    const pick = (field: keyof RecipientSelection) => {
+        const value = body[field]
+        if (value === undefined) {
+            return fallback[field]
+        }
+        return typeof value === 'string' && value ? value : null
+    }
+
+    return {
+        contactId: pick('contactId'),
+        billingAddressId: pick('billingAddressId'),
+        deliveryAddressId: pick('deliveryAddressId'),
+    }
+}
+
+/**
+ * Check that the selected contact and addresses belong to the invoice's customer
+ * and that each address is of the right type
+ *
+ * @param customerId - Customer of the invoice
+ * @param selection - Selection from toRecipientSelection
+ * @param db - Prisma client or transaction client
+ * @returns Error message, or null if the selection is valid
+ */
+export async function validateRecipientSelection(
+    customerId: string,
+    selection: RecipientSelection,
+    db: Prisma.TransactionClient = prisma
+): Promise<string | null> {
+    if (selection.contactId) {
+        const contact = await db.customerContact.findFirst({
+            where: { id: selection.contactId, customerId }
+        })
+        if (!contact) {
+            return 'Invalid contact ID'
+        }
+    }
+
+    const addresses = [
+        { id: selection.billingAddressId, type: 'billing', error: 'Invalid billing address ID' },
+        { id: selection.deliveryAddressId, type: 'delivery', error: 'Invalid delivery address ID' },
+    ]
+    for (const { id, type, error } of addresses) {
+        if (!id) {
+            continue
+        }
+        const address = await db.customerAddress.findFirst({
+            where: { id, customerId, type }
+        })
+        if (!address) {
+            return error
+        }
+    }
+
+    return null
+}
+
+/**
+ * Customer data of an invoice with the selected contact and addresses applied
+ * The billing address replaces the customer's address, the contact's email and phone
+ * replace the customer's when given
+ *
+ * @param invoice - Invoice with customer and the selected contact and addresses
+ */
+export function resolveInvoiceCustomer(invoice: InvoiceRecipientSource): Customer & InvoiceRecipient {
+    const { customer, contact, billingAddress, deliveryAddress } = invoice
+
+    return {
+        ...customer,
+        address: billingAddress?.address ?? customer.address,
+        postalCode: billingAddress?.postalCode ?? customer.postalCode,
+        city: billingAddress?.city ?? customer.city,
+        country: billingAddress?.country ?? customer.country,
+        email: contact?.email || customer.email,
+        phone: contact?.phone || customer.phone,
+        contactName: contact?.name ?? null,
+        addressName: billingAddress?.name ?? null,
+        deliveryAddress: deliveryAddress
+            ? {
+                name: deliveryAddress.name,
+                address: deliveryAddress.address,
+                postalCode: deliveryAddress.postalCode,
+                city: deliveryAddress.city,
+                country: deliveryAddress.country,
+            }
+            : null,
+    }
+}
+
+/**
+ * Invoice with its customer replaced by the resolved recipient
+ * @param invoice - Invoice loaded with INVOICE_RECIPIENT_INCLUDE
+ */
+export function withInvoiceRecipient<T extends InvoiceRecipientSource>(invoice: T): T & { customer: Customer & InvoiceRecipient } {
+    return { ...invoice, customer: resolveInvoiceCustomer(invoice) }
+}
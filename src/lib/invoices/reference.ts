@@ -0,0 +1,50 @@
+// Payment references of invoices
+// Each company chooses which reference type its invoices carry:
+// RF creditor reference (ISO 11649) or the Finnish national reference (7-3-1)
+// Both are derived from the digits of the invoice number
+
+import { calculateRFReference } from '@/utils/finnish/rf-reference'
+import { calculateFinnishReference } from '@/utils/finnish/finnish-reference'
+
+export const REFERENCE_TYPES = ['rf', 'finnish'] as const
+
+export type ReferenceType = typeof REFERENCE_TYPES[number]
+
+export const REFERENCE_TYPE_LABELS: Record<ReferenceType, string> = {
+    rf: 'RF-viite (kansainvälinen)',
+    finnish: 'Kotimainen viitenumero',
+}
+
+// Longest base a Finnish reference accepts (the check digit makes 20)
+const MAX_FINNISH_BASE_LENGTH = 19
+
+// Leading digit of Finnish reference bases. Leading zeros are not part of a Finnish
+// reference, banks drop them, so the invoice number digits never start the base
+const FINNISH_BASE_PREFIX = '1'
+
+/**
+ * Check if a value is a known reference type
+ */
+export function isReferenceType(value: unknown): value is ReferenceType {
+    return typeof value === 'string' && (REFERENCE_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Calculate the payment reference of an invoice
+ *
+ * @param invoiceNumber - Invoice number (e.g., "INV-2026-001")
+ * @param type - Reference type configured for the company
+ * @returns RF reference (e.g., "RF602026001") or Finnish reference (e.g., "120260018")
+ */
+export function calculateInvoiceReference(invoiceNumber: string, type: ReferenceType): string {
+    if (type === 'rf') {
+        return calculateRFReference(invoiceNumber)
+    }
+
+    // Short numbers are padded to the 3 digit minimum, long ones keep the
+    // rightmost digits where the running number is
+    const digits = invoiceNumber.replace(/\D/g, '')
+    const base = FINNISH_BASE_PREFIX + digits.padStart(2, '0').slice(-(MAX_FINNISH_BASE_LENGTH - 1))
+
+    return calculateFinnishReference(base)
+}
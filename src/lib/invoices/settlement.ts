@@ -0,0 +1,90 @@
+// Invoice settlement status
+// The status of an issued invoice follows its payments and credit notes:
+// partially paid while a balance is open, paid once nothing is left, credited when
+// credit notes cover the whole invoice and back to sent when payments are removed
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/client'
+import { Cents, sumCents } from '@/lib/money'
+import { calculateOpenBalanceCents, calculatePaidCents } from '@/lib/invoices/balance'
+import { canSettle, InvoiceStatus, isInvoiceStatus } from '@/lib/invoices/status'
+
+/**
+ * Status an invoice should have after its payments or credit notes changed
+ * Fully credited invoices are credited, fully paid ones paid and
+ * invoices with some payments partially paid, otherwise the status is kept
+ *
+ * @param invoice - Invoice with its current status and total
+ * @param creditNotes - Credit notes issued against the invoice
+ * @param payments - Payments received for the invoice
+ */
+export function getSettlementStatus(
+    invoice: { status: string, totalCents: Cents },
+    creditNotes: { totalCents: Cents }[],
+    payments: { amountCents: Cents }[]
+): InvoiceStatus {
+    const creditedTotalCents = invoice.totalCents + sumCents(creditNotes.map(note => note.totalCents))
+
+    if (creditedTotalCents <= 0) {
+        return 'credited'
+    }
+    if (calculateOpenBalanceCents(invoice, creditNotes, payments) <= 0) {
+        return 'paid'
+    }
+    if (calculatePaidCents(payments) > 0) {
+        return 'partially_paid'
+    }
+    // Without payments a paid invoice is open again
+    return isInvoiceStatus(invoice.status) && invoice.status !== 'partially_paid' && invoice.status !== 'paid'
+        ? invoice.status
+        : 'sent'
+}
+
+/**
+ * Move an invoice to the status its payments and credit notes call for
+ * Records the change in the status history, transitions the settlement rules
+ * don't allow (e.g. out of credited or cancelled) are left alone
+ *
+ * @param invoiceId - Invoice whose payments or credit notes changed
+ * @param userId - User who made the change
+ * @param note - Status history note (e.g. "Maksu 150.00 €")
+ * @param db - Transaction client when called inside a transaction
+ * @returns Status of the invoice after the update
+ */
+export async function settleInvoiceStatus(
+    invoiceId: string,
+    userId: string,
+    note: string,
+    db: Prisma.TransactionClient = prisma
+): Promise<string> {
+    const invoice = await db.invoice.findUniqueOrThrow({
+        where: { id: invoiceId },
+        include: {
+            creditNotes: { select: { totalCents: true } },
+            payments: { select: { amountCents: true } },
+        }
+    })
+
+    const status = getSettlementStatus(invoice, invoice.creditNotes, invoice.payments)
+
+    if (status === invoice.status || !canSettle(invoice.status, status)) {
+        return invoice.status
+    }
+
+    await db.invoice.update({
+        where: { id: invoice.id },
+        data: {
+            status,
+            statusChanges: {
+                create: {
+                    userId,
+                    fromStatus: invoice.status,
+                    toStatus: status,
+                    note,
+                }
+            }
+        }
+    })
+
+    return status
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest'
+import { canSettle, canTransition, getAllowedTransitions, SETTLEMENT_STATUSES } from '@/lib/invoices/status'
+import { getSettlementStatus } from '@/lib/invoices/settlement'
+
+// getSettlementStatus is pure, the database client is not needed
+vi.mock('@/lib/db/client', () => ({ prisma: {} }))
+
+describe('manual status transitions', () => {
+    it('never lead to a payment or credit status', () => {
+        for (const status of ['draft', 'sent', 'partially_paid', 'paid', 'overdue', 'cancelled', 'credited']) {
+            for (const target of SETTLEMENT_STATUSES) {
+                expect(canTransition(status, target)).toBe(false)
+            }
+        }
+    })
+
+    it('issue, cancel and mark invoices overdue', () => {
+        expect(getAllowedTransitions('draft')).toEqual(['sent', 'cancelled'])
+        expect(getAllowedTransitions('sent')).toEqual(['overdue', 'cancelled'])
+        expect(getAllowedTransitions('paid')).toEqual([])
+        expect(canTransition('partially_paid', 'overdue')).toBe(true)
+    })
+})
+
+describe('settlement transitions', () => {
+    it('follow payments and credit notes of issued invoices', () => {
+        expect(canSettle('sent', 'paid')).toBe(true)
+        expect(canSettle('overdue', 'partially_paid')).toBe(true)
+        expect(canSettle('paid', 'sent')).toBe(true)
+        expect(canSettle('partially_paid', 'credited')).toBe(true)
+    })
+
+    it('leave drafts and final invoices alone', () => {
+        expect(canSettle('draft', 'paid')).toBe(false)
+        expect(canSettle('cancelled', 'paid')).toBe(false)
+        expect(canSettle('credited', 'sent')).toBe(false)
+    })
+})
+
+describe('getSettlementStatus', () => {
+    const invoice = { status: 'sent', totalCents: 10000 }
+
+    it('follows the paid amount', () => {
+        expect(getSettlementStatus(invoice, [], [{ amountCents: 4000 }])).toBe('partially_paid')
+        expect(getSettlementStatus(invoice, [], [{ amountCents: 4000 }, { amountCents: 6000 }])).toBe('paid')
+    })
+
+    it('counts credit notes against the open balance', () => {
+        expect(getSettlementStatus(invoice, [{ totalCents: -4000 }], [{ amountCents: 6000 }])).toBe('paid')
+        expect(getSettlementStatus(invoice, [{ totalCents: -10000 }], [])).toBe('credited')
+    })
+
+    it('reopens a paid invoice whose payments were removed', () => {
+        expect(getSettlementStatus({ ...invoice, status: 'paid' }, [], [])).toBe('sent')
+        expect(getSettlementStatus({ ...invoice, status: 'overdue' }, [], [])).toBe('overdue')
+    })
+})
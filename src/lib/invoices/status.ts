@@ -0,0 +1,123 @@
+// Invoice status lifecycle
+// Single definition of invoice statuses, their Finnish labels and allowed transitions
+// Manual status changes go through POST /api/invoices/[id]/status which enforces these rules,
+// payment and credit statuses follow the invoice's payments and credit notes (see lib/invoices/settlement)
+
+export const INVOICE_STATUSES = [
+    'draft',           // Being prepared, fully editable
+    'sent',            // Issued to customer, financial fields locked
+    'partially_paid',  // Some payments received, balance still open
+    'paid',            // Fully paid
+    'overdue',         // Due date passed without full payment
+    'cancelled',       // Voided before payment
+    'credited',        // Reversed with a credit note
+] as const
+
+export type InvoiceStatus = typeof INVOICE_STATUSES[number]
+
+// Finnish display labels for each status
+export const STATUS_LABELS: Record<InvoiceStatus, string> = {
+    draft: 'Luonnos',
+    sent: 'Lähetetty',
+    partially_paid: 'Osittain maksettu',
+    paid: 'Maksettu',
+    overdue: 'Myöhässä',
+    cancelled: 'Peruttu',
+    credited: 'Hyvitetty',
+}
+
+// Tailwind classes for status badges in lists
+export const STATUS_BADGE_CLASSES: Record<InvoiceStatus, string> = {
+    draft: 'bg-gray-100 text-gray-800',
+    sent: 'bg-blue-100 text-blue-800',
+    partially_paid: 'bg-yellow-100 text-yellow-800',
+    paid: 'bg-green-100 text-green-800',
+    overdue: 'bg-red-100 text-red-800',
+    cancelled: 'bg-gray-200 text-gray-600',
+    credited: 'bg-purple-100 text-purple-800',
+}
+
+// Statuses set only from payments and credit notes, never by hand
+export const SETTLEMENT_STATUSES: InvoiceStatus[] = ['partially_paid', 'paid', 'credited']
+
+// Allowed manual transitions from each status
+// Cancelled and credited invoices are final
+export const STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+    draft: ['sent', 'cancelled'],
+    sent: ['overdue', 'cancelled'],
+    partially_paid: ['overdue'],
+    paid: [],
+    overdue: ['cancelled'],
+    cancelled: [],
+    credited: [],
+}
+
+// Transitions made when payments or credit notes of an invoice change
+// Paid states step back when a payment is removed
+export const SETTLEMENT_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+    draft: [],
+    sent: ['partially_paid', 'paid', 'credited'],
+    partially_paid: ['sent', 'paid', 'credited'],
+    paid: ['sent', 'partially_paid', 'credited'],
+    overdue: ['partially_paid', 'paid', 'credited'],
+    cancelled: [],
+    credited: [],
+}
+
+/**
+ * Check if a value is a known invoice status
+ * @param value - Value to check (e.g. from request body or database)
+ */
+export function isInvoiceStatus(value: unknown): value is InvoiceStatus {
+    return typeof value === 'string' && (INVOICE_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * Check if a user may move an invoice from one status to another
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns true if the transition is allowed
+ */
+export function canTransition(from: string, to: string): boolean {
+    if (!isInvoiceStatus(from) || !isInvoiceStatus(to)) {
+        return false
+    }
+    return STATUS_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Check if payments or credit notes may move an invoice from one status to another
+ * @param from - Current status
+ * @param to - Status the payments and credit notes call for
+ * @returns true if the transition is allowed
+ */
+export function canSettle(from: string, to: string): boolean {
+    if (!isInvoiceStatus(from) || !isInvoiceStatus(to)) {
+        return false
+    }
+    return SETTLEMENT_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Get statuses a user can move the invoice to from the current status
+ * @param status - Current status
+ */
+export function getAllowedTransitions(status: string): InvoiceStatus[] {
+    return isInvoiceStatus(status) ? STATUS_TRANSITIONS[status] : []
+}
+
+/**
+ * Get Finnish label for a status, falls back to the raw value
+ * @param status - Status stored on the invoice
+ */
+export function getStatusLabel(status: string): string {
+    return isInvoiceStatus(status) ? STATUS_LABELS[status] : status
+}
+
+/**
+ * Get badge classes for a status, falls back to neutral gray
+ * @param status - Status stored on the invoice
+ */
+export function getStatusBadgeClass(status: string): string {
+    return isInvoiceStatus(status) ? STATUS_BADGE_CLASSES[status] : 'bg-gray-100 text-gray-800'
+}
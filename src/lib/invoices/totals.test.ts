@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { validateLineItems } from '@/lib/invoices/totals'
+
+const line = { description: 'Konsultointi', quantity: 2, unitPriceCents: 10000, vatRate: 25.5 }
+
+describe('validateLineItems', () => {
+    it('accepts the Finnish VAT rates', () => {
+        expect(validateLineItems([line, { ...line, vatRate: 14 }, { ...line, vatRate: 10 }, { ...line, vatRate: 0 }])).toBeNull()
+    })
+
+    it('rejects other VAT rates', () => {
+        const error = 'Line item VAT rate must be one of 25.5, 14, 10, 0'
+
+        expect(validateLineItems([{ ...line, vatRate: 24 }])).toBe(error)   // Rate before 1.9.2024
+        expect(validateLineItems([{ ...line, vatRate: 12.345 }])).toBe(error)
+        expect(validateLineItems([{ ...line, vatRate: '25.5' }])).toBe(error)
+    })
+
+    it('rejects negative amounts', () => {
+        expect(validateLineItems([{ ...line, quantity: -1 }])).toBe('Line item quantity cannot be negative')
+        expect(validateLineItems([{ ...line, unitPriceCents: -100 }])).toMatch('use a credit note instead')
+    })
+})
@@ -0,0 +1,126 @@
+// Invoice totals calculation
+// Single source of truth for line totals, VAT per rate and invoice totals
+// Used by the invoice API (authoritative) and the invoice form (preview)
+// All amounts are integer cents, see @/lib/money for the rounding policy
+
+import { Cents, isCents, multiplyCents, percentOfCents, sumCents } from '@/lib/money'
+import { FINNISH_VAT_RATES, isFinnishVatRate } from '@/utils/finnish/vat-rates'
+
+// Amount fields needed to calculate a line item
+export interface LineItemAmounts {
+    quantity: number
+    unitPriceCents: Cents  // Price per unit excluding VAT
+    vatRate: number        // VAT percentage, e.g. 25.5
+}
+
+// Sums for one VAT rate
+export interface VatBreakdownRow {
+    vatRate: number
+    netCents: Cents        // Amount excluding VAT
+    vatCents: Cents        // VAT amount
+    grossCents: Cents      // Amount including VAT
+}
+
+export interface InvoiceTotals {
+    lineTotalsCents: Cents[]         // Net total of each line, same order as input
+    vatBreakdown: VatBreakdownRow[]  // One row per VAT rate, highest rate first
+    subtotalCents: Cents
+    vatAmountCents: Cents
+    totalCents: Cents
+}
+
+// Totals sent by the client, compared against the calculated ones
+export interface ClientTotals {
+    subtotalCents?: unknown
+    vatAmountCents?: unknown
+    totalCents?: unknown
+}
+
+/**
+ * Calculate all invoice amounts from line items
+ *
+ * Rounding policy:
+ * - Each line total (quantity × unit price) is rounded to cents
+ * - VAT is calculated once per rate from the summed line totals
+ * - Invoice totals are exact sums of the per-rate amounts
+ *
+ * @param lineItems - Line items with quantity, unit price and VAT rate
+ * @returns Line totals, VAT breakdown and invoice totals
+ */
+export function calculateInvoiceTotals(lineItems: LineItemAmounts[]): InvoiceTotals {
+    const lineTotalsCents = lineItems.map(item => multiplyCents(item.unitPriceCents, item.quantity))
+
+    // Group net amounts by VAT rate
+    const netByRate = new Map<number, Cents>()
+    lineItems.forEach((item, index) => {
+        netByRate.set(item.vatRate, (netByRate.get(item.vatRate) ?? 0) + lineTotalsCents[index])
+    })
+
+    const vatBreakdown = Array.from(netByRate.entries())
+        .sort(([a], [b]) => b - a)
+        .map(([vatRate, netCents]) => {
+            const vatCents = percentOfCents(netCents, vatRate)
+            return { vatRate, netCents, vatCents, grossCents: netCents + vatCents }
+        })
+
+    const subtotalCents = sumCents(vatBreakdown.map(row => row.netCents))
+    const vatAmountCents = sumCents(vatBreakdown.map(row => row.vatCents))
+
+    return {
+        lineTotalsCents,
+        vatBreakdown,
+        subtotalCents,
+        vatAmountCents,
+        totalCents: subtotalCents + vatAmountCents,
+    }
+}
+
+/**
+ * Validate line items of a regular invoice from a request body
+ * Quantities and prices can't be negative, amounts are reversed with a credit note
+ *
+ * @param lineItems - Untrusted value from the request
+ * @returns Error message, or null if the line items are valid
+ */
+export function validateLineItems(lineItems: unknown): string | null {
+    if (!Array.isArray(lineItems) || lineItems.length === 0) {
+        return 'Invoice must have at least one line item'
+    }
+
+    for (const item of lineItems) {
+        if (!item || typeof item.description !== 'string' || item.description.trim() === '') {
+            return 'Line item description is required'
+        }
+        if (!Number.isFinite(item.quantity)) {
+            return 'Line item quantity must be a number'
+        }
+        if (item.quantity < 0) {
+            return 'Line item quantity cannot be negative'
+        }
+        if (!isCents(item.unitPriceCents)) {
+            return 'Line item unit price must be an integer amount of cents'
+        }
+        if (item.unitPriceCents < 0) {
+            return 'Line item unit price cannot be negative, use a credit note instead'
+        }
+        if (!isFinnishVatRate(item.vatRate)) {
+            return `Line item VAT rate must be one of ${FINNISH_VAT_RATES.join(', ')}`
+        }
+    }
+
+    return null
+}
+
+/**
+ * Check that totals sent by the client agree with the calculated totals
+ * Missing client values are accepted, they are filled in from the calculation
+ *
+ * @param client - subtotalCents, vatAmountCents and totalCents from the request body
+ * @param calculated - Totals calculated from the line items
+ */
+export function clientTotalsMatch(client: ClientTotals, calculated: InvoiceTotals): boolean {
+    return (['subtotalCents', 'vatAmountCents', 'totalCents'] as const).every(field => {
+        const value = client[field]
+        return value === undefined || value === null || value === calculated[field]
+    })
+}
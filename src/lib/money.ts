@@ -0,0 +1,86 @@
+// Money utilities
+// All amounts are stored and calculated as integer euro cents
+// Floating point euros only appear at the edges (form inputs and API input)
+
+// Amount in euro cents, always a safe integer (e.g. 1505 = 15.05 €)
+export type Cents = number
+
+/**
+ * Round to whole cents, half away from zero
+ * 12.5 → 13, -12.5 → -13
+ *
+ * This is the only rounding step in the app. It is applied:
+ * - once per line item (quantity × unit price)
+ * - once per VAT rate (VAT of the summed net amount of that rate)
+ * Invoice totals are plain integer sums and never rounded again.
+ */
+export function roundCents(value: number): Cents {
+    // Scale by (1 + EPSILON) so values like 12.499999999999998 from
+    // binary floating point still round up as the decimal 12.5 would
+    return Math.sign(value) * Math.round(Math.abs(value) * (1 + Number.EPSILON))
+}
+
+/**
+ * Convert euros to cents
+ * @param euros - Amount in euros (e.g., 15.05)
+ * @returns Amount in cents (e.g., 1505)
+ */
+export function eurosToCents(euros: number): Cents {
+    return roundCents(euros * 100)
+}
+
+/**
+ * Convert cents to euros for display or external formats
+ * @param cents - Amount in cents (e.g., 1505)
+ * @returns Amount in euros (e.g., 15.05)
+ */
+export function centsToEuros(cents: Cents): number {
+    return cents / 100
+}
+
+/**
+ * Format cents as a decimal string with two decimals, without currency
+ * Works on integers only, so no floating point artefacts
+ *
+ * @param cents - Amount in cents (e.g., -1505)
+ * @returns Formatted amount (e.g., "-15.05")
+ */
+export function formatCents(cents: Cents): string {
+    const sign = cents < 0 ? '-' : ''
+    const abs = Math.abs(cents)
+    const euros = Math.floor(abs / 100)
+    const rest = (abs % 100).toString().padStart(2, '0')
+    return `${sign}${euros}.${rest}`
+}
+
+/**
+ * Multiply an amount by a quantity and round to cents
+ * @param cents - Unit price in cents
+ * @param quantity - Quantity, may be fractional (e.g., 1.5 hours)
+ */
+export function multiplyCents(cents: Cents, quantity: number): Cents {
+    return roundCents(cents * quantity)
+}
+
+/**
+ * Calculate a percentage of an amount and round to cents
+ * @param cents - Base amount in cents
+ * @param percent - Percentage (e.g., 25.5 for VAT)
+ */
+export function percentOfCents(cents: Cents, percent: number): Cents {
+    return roundCents(cents * percent / 100)
+}
+
+/**
+ * Sum amounts in cents (exact, no rounding needed)
+ */
+export function sumCents(amounts: Cents[]): Cents {
+    return amounts.reduce((sum, amount) => sum + amount, 0)
+}
+
+/**
+ * Check if a value is a valid amount in cents
+ */
+export function isCents(value: unknown): value is Cents {
+    return typeof value === 'number' && Number.isSafeInteger(value)
+}
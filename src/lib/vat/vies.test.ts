@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { checkVatNumber, createFakeVatLookup, getVatLookup, verifyVatNumberOnSave, viesLookup } from '@/lib/vat/vies'
+
+const registry = {
+    FI01120389: { name: 'Nokia Oyj', address: 'Karakaari 7, 02610 Espoo' },
+    SE556677889901: { name: 'Exempel AB', address: null },
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+})
+
+describe('createFakeVatLookup', () => {
+    it('registers every well-formed number without a registry', async () => {
+        const lookup = createFakeVatLookup()
+
+        expect(await lookup.check('FI', '01120389')).toEqual({ valid: true, name: null, address: null })
+        expect(await lookup.check('FI', '12345678')).toEqual({ valid: false, name: null, address: null })
+    })
+
+    it('registers only the listed numbers with a registry', async () => {
+        const lookup = createFakeVatLookup(registry)
+
+        expect(await lookup.check('FI', '01120389')).toEqual({ valid: true, ...registry.FI01120389 })
+        expect(await lookup.check('FI', '12345671')).toEqual({ valid: false, name: null, address: null })
+    })
+
+    it('fails the lookup of unavailable numbers', async () => {
+        const lookup = createFakeVatLookup(registry, ['SE556677889901'])
+
+        await expect(lookup.check('SE', '556677889901')).rejects.toThrow('unavailable')
+    })
+})
+
+describe('checkVatNumber', () => {
+    it('normalises the number and returns the registered name', async () => {
+        const check = await checkVatNumber('fi 0112038-9', createFakeVatLookup(registry))
+
+        expect(check).toMatchObject({ vatNumber: 'FI01120389', status: 'valid', name: 'Nokia Oyj' })
+    })
+
+    it('rejects malformed numbers without a lookup', async () => {
+        const lookup = { check: vi.fn() }
+
+        expect((await checkVatNumber('FI12345678', lookup)).status).toBe('invalid')   // Wrong check digit
+        expect((await checkVatNumber('US123456789', lookup)).status).toBe('invalid')
+        expect(lookup.check).not.toHaveBeenCalled()
+    })
+
+    it('reports an unregistered number as invalid', async () => {
+        const check = await checkVatNumber('FI12345671', createFakeVatLookup(registry))
+        expect(check.status).toBe('invalid')
+    })
+
+    it('reports a failed lookup as unavailable', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+
+        const check = await checkVatNumber('SE556677889901', createFakeVatLookup(registry, ['SE556677889901']))
+
+        expect(check).toMatchObject({ vatNumber: 'SE556677889901', status: 'unavailable', name: null })
+    })
+})
+
+describe('verifyVatNumberOnSave', () => {
+    const previousCheck = new Date('2026-01-15T10:00:00Z')
+    const down = createFakeVatLookup(registry, ['FI01120389'])
+
+    it('stores the check time of a valid number', async () => {
+        const { check, vatVerifiedAt } = await verifyVatNumberOnSave('FI01120389', undefined, createFakeVatLookup(registry))
+        expect(vatVerifiedAt).toEqual(check?.checkedAt)
+    })
+
+    it('keeps the previous verification of an unchanged number while VIES is down', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+
+        const result = await verifyVatNumberOnSave('FI01120389', { vatNumber: 'FI01120389', vatVerifiedAt: previousCheck }, down)
+
+        expect(result.check?.status).toBe('unavailable')
+        expect(result.vatVerifiedAt).toEqual(previousCheck)
+    })
+
+    it('clears the verification of a changed or unregistered number', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+
+        const changed = await verifyVatNumberOnSave('FI01120389', { vatNumber: 'FI12345671', vatVerifiedAt: previousCheck }, down)
+        const unregistered = await verifyVatNumberOnSave('FI12345671', { vatNumber: 'FI12345671', vatVerifiedAt: previousCheck },
+            createFakeVatLookup(registry))
+
+        expect(changed.vatVerifiedAt).toBeNull()
+        expect(unregistered.vatVerifiedAt).toBeNull()
+    })
+
+    it('skips the check without a VAT number', async () => {
+        expect(await verifyVatNumberOnSave(null)).toEqual({ check: null, vatVerifiedAt: null })
+    })
+})
+
+describe('getVatLookup', () => {
+    it('selects the fake with VAT_LOOKUP=fake', () => {
+        vi.stubEnv('VAT_LOOKUP', 'fake')
+        expect(getVatLookup()).not.toBe(viesLookup)
+
+        vi.stubEnv('VAT_LOOKUP', '')
+        expect(getVatLookup()).toBe(viesLookup)
+    })
+})
+
+describe('viesLookup', () => {
+    it('treats the undisclosed name and address "---" as missing', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => Response.json({ valid: true, name: '---', address: ' Karakaari 7 ' })))
+
+        expect(await viesLookup.check('FI', '01120389')).toEqual({ valid: true, name: null, address: 'Karakaari 7' })
+    })
+
+    it('throws when a member state service answers without a verdict', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => Response.json({ userError: 'MS_UNAVAILABLE' })))
+
+        await expect(viesLookup.check('DE', '123456789')).rejects.toThrow('MS_UNAVAILABLE')
+    })
+})
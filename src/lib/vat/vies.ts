@@ -0,0 +1,172 @@
+// VAT number registration check (VIES)
+// The EU VIES service tells whether a VAT number is registered and to whom.
+// Lookups go through the VatLookup interface so tests and local development can use
+// the fake instead of the real service: set VAT_LOOKUP=fake or pass a lookup explicitly
+// VIES is often down for single member states, an unavailable service never blocks saving
+
+import { normalizeVatNumber, parseVatNumber, validateVatNumber } from '@/utils/eu/vat-number'
+
+// VIES REST endpoint for single VAT number checks
+const VIES_CHECK_URL = 'https://ec.europa.eu/taxation_customs/vies/rest-api/check-vat-number'
+const VIES_TIMEOUT_MS = 10000
+
+export interface VatLookupResult {
+    valid: boolean
+    name: string | null       // Registered name, if the member state discloses it
+    address: string | null
+}
+
+// Registration lookup of a VAT number
+// Throws if the service could not answer
+export interface VatLookup {
+    check(countryCode: string, number: string): Promise<VatLookupResult>
+}
+
+export type VatCheckStatus = 'valid' | 'invalid' | 'unavailable'
+
+export interface VatCheck {
+    vatNumber: string         // Normalised VAT number
+    status: VatCheckStatus
+    name: string | null
+    address: string | null
+    checkedAt: Date
+}
+
+/**
+ * Registered name or address from VIES, which returns "---" when it is not disclosed
+ */
+function disclosed(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() && value.trim() !== '---' ? value.trim() : null
+}
+
+// Lookup against the EU VIES REST API
+export const viesLookup: VatLookup = {
+    async check(countryCode, number) {
+        const res = await fetch(VIES_CHECK_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+            body: JSON.stringify({ countryCode, vatNumber: number }),
+            signal: AbortSignal.timeout(VIES_TIMEOUT_MS),
+        })
+
+        if (!res.ok) {
+            throw new Error(`VIES responded with HTTP ${res.status}`)
+        }
+
+        const data = await res.json()
+
+        // Member state or service errors come back as userError without a verdict
+        if (typeof data.valid !== 'boolean') {
+            throw new Error(`VIES could not check the number: ${data.userError ?? 'unknown error'}`)
+        }
+
+        return {
+            valid: data.valid,
+            name: disclosed(data.name),
+            address: disclosed(data.address),
+        }
+    },
+}
+
+/**
+ * Local fake of the VIES lookup
+ * With a registry only the listed VAT numbers are registered, without one every
+ * well-formed number is. Numbers listed in unavailable make the lookup throw,
+ * like a member state service that is down
+ *
+ * @param registry - Registered VAT numbers with their name and address
+ * @param unavailable - VAT numbers whose lookup fails
+ */
+export function createFakeVatLookup(
+    registry?: Record<string, { name: string | null, address: string | null }>,
+    unavailable: string[] = []
+): VatLookup {
+    return {
+        async check(countryCode, number) {
+            const vatNumber = `${countryCode}${number}`
+
+            if (unavailable.includes(vatNumber)) {
+                throw new Error('VIES member state service unavailable')
+            }
+
+            if (!registry) {
+                return { valid: validateVatNumber(vatNumber), name: null, address: null }
+            }
+
+            const entry = registry[vatNumber]
+            return entry
+                ? { valid: true, name: entry.name, address: entry.address }
+                : { valid: false, name: null, address: null }
+        },
+    }
+}
+
+/**
+ * Lookup selected by the VAT_LOOKUP environment variable: "fake" for the local fake,
+ * the real VIES service otherwise
+ */
+export function getVatLookup(): VatLookup {
+    return process.env.VAT_LOOKUP === 'fake' ? createFakeVatLookup() : viesLookup
+}
+
+/**
+ * Check whether a VAT number is registered
+ * Malformed numbers are invalid without a lookup
+ *
+ * @param vatNumber - VAT number as entered (e.g., "FI 1234567-8")
+ * @param lookup - VIES lookup, selected by getVatLookup if omitted
+ * @returns Result of the check, status "unavailable" if the service could not answer
+ */
+export async function checkVatNumber(vatNumber: string, lookup: VatLookup = getVatLookup()): Promise<VatCheck> {
+    const normalized = normalizeVatNumber(vatNumber)
+    const checkedAt = new Date()
+
+    if (!validateVatNumber(normalized)) {
+        return { vatNumber: normalized, status: 'invalid', name: null, address: null, checkedAt }
+    }
+
+    const { countryCode, number } = parseVatNumber(normalized)
+
+    try {
+        const result = await lookup.check(countryCode, number)
+        return {
+            vatNumber: normalized,
+            status: result.valid ? 'valid' : 'invalid',
+            name: result.name,
+            address: result.address,
+            checkedAt,
+        }
+    } catch (error) {
+        console.error(`VAT number lookup failed for ${normalized}:`, error)
+        return { vatNumber: normalized, status: 'unavailable', name: null, address: null, checkedAt }
+    }
+}
+
+/**
+ * VIES check of a customer or company VAT number when it is saved
+ * While VIES is unavailable an unchanged VAT number keeps its previous verification
+ *
+ * @param vatNumber - VAT number to store (see resolveVatNumber), null if the party has none
+ * @param previous - Stored VAT number and verification time when updating
+ * @param lookup - VIES lookup, selected by getVatLookup if omitted
+ * @returns Check result (null without a VAT number) and the verification time to store
+ */
+export async function verifyVatNumberOnSave(
+    vatNumber: string | null,
+    previous?: { vatNumber: string | null, vatVerifiedAt: Date | null },
+    lookup: VatLookup = getVatLookup()
+): Promise<{ check: VatCheck | null, vatVerifiedAt: Date | null }> {
+    if (!vatNumber) {
+        return { check: null, vatVerifiedAt: null }
+    }
+
+    const check = await checkVatNumber(vatNumber, lookup)
+
+    if (check.status === 'valid') {
+        return { check, vatVerifiedAt: check.checkedAt }
+    }
+    if (check.status === 'unavailable' && previous?.vatNumber === check.vatNumber) {
+        return { check, vatVerifiedAt: previous.vatVerifiedAt }
+    }
+    return { check, vatVerifiedAt: null }
+}
@@ -0,0 +1,79 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { parseCamtStatement } from '@/utils/bank/camt'
+import { parseBankStatement } from '@/utils/bank/parse'
+
+const fixture = (fileName: string) => readFileSync(path.join(__dirname, '__fixtures__', fileName), 'utf-8')
+
+describe('parseCamtStatement', () => {
+    it('reads the booked credits of a camt.053 statement', () => {
+        const statement = parseCamtStatement(fixture('camt053.xml'))
+
+        expect(statement.format).toBe('camt.053')
+        expect(statement.iban).toBe('FI2112345600000785')
+        expect(statement.credits).toEqual([
+            {
+                archiveId: '260129593497B00001/1',
+                amountCents: 164280,
+                bookingDate: '2026-01-29',
+                reference: 'RF741',           // RF74001 without the zeros of the body
+                payerName: 'Asiakas Oy',
+                message: null,
+            },
+            {
+                archiveId: '260129593497B00001/2',
+                amountCents: 10000,
+                bookingDate: '2026-01-29',
+                reference: '10016',
+                payerName: 'Toinen Asiakas Oy',
+                message: null,
+            },
+            {
+                archiveId: '260129593497C00003',
+                amountCents: 5000,
+                bookingDate: '2026-01-29',
+                reference: null,
+                payerName: null,
+                message: 'Lasku INV-002',
+            },
+        ])
+    })
+
+    it('reads a camt.054 notification with transaction references and party names', () => {
+        const statement = parseCamtStatement(fixture('camt054.xml'))
+
+        expect(statement.format).toBe('camt.054')
+        expect(statement.credits).toEqual([
+            {
+                archiveId: '260129593497R00001-1',
+                amountCents: 6000,
+                bookingDate: '2026-01-29',
+                reference: 'RF18539007547034',
+                payerName: 'Maksaja Oy',
+                message: null,
+            },
+            {
+                archiveId: '260129593497R00001-2',
+                amountCents: 4000,
+                bookingDate: '2026-01-29',
+                reference: null,
+                payerName: null,
+                message: 'Lasku INV-003 kiitos',
+            },
+        ])
+    })
+
+    it('rejects payments in other currencies', () => {
+        const xml = fixture('camt053.xml').replace('<Amt Ccy="EUR">50.00</Amt>', '<Amt Ccy="SEK">50.00</Amt>')
+        expect(() => parseCamtStatement(xml)).toThrow('Only euro payments are supported, found SEK')
+    })
+
+    it('rejects other XML documents', () => {
+        expect(() => parseCamtStatement('<Document><pain.001/></Document>')).toThrow('Not a camt.053 or camt.054 message')
+    })
+
+    it('is recognised from the file content', () => {
+        expect(parseBankStatement(fixture('camt054.xml')).format).toBe('camt.054')
+    })
+})
@@ -0,0 +1,143 @@
+/**
+ * ISO 20022 bank to customer statements
+ *
+ * camt.053: account statement (tiliote), camt.054: debit/credit notification,
+ * which Finnish banks use for incoming reference payments (saapuvat viitemaksut)
+ * Both list entries (Ntry) of an account, an entry can be a batch of several
+ * transactions (TxDtls), e.g. all reference payments of a day
+ * Only booked, non-reversed credits in euros are read, debits are ignored
+ */
+
+import { elementText, findElement, findElements, parseXml, XmlElement } from '@/utils/bank/xml-reader'
+import { BankCredit, BankStatement, normalizeBankReference, parseAmountCents } from '@/utils/bank/statement'
+
+// Message root element and the element of each statement in it
+const CAMT_MESSAGES = {
+    BkToCstmrStmt: { format: 'camt.053', statement: 'Stmt' },
+    BkToCstmrDbtCdtNtfctn: { format: 'camt.054', statement: 'Ntfctn' },
+} as const
+
+/**
+ * Date of a camt date element, which has either a date or a date and time
+ */
+function entryDate(element: XmlElement | null): string | null {
+    return (elementText(element, 'Dt') ?? elementText(element, 'DtTm'))?.slice(0, 10) ?? null
+}
+
+/**
+ * Euro amount of an Amt element in cents
+ * @throws Error if the amount is in another currency
+ */
+function euroAmountCents(amount: XmlElement): number {
+    const currency = amount.attributes.Ccy
+    if (currency && currency !== 'EUR') {
+        throw new Error(`Only euro payments are supported, found ${currency}`)
+    }
+    return parseAmountCents(amount.text)
+}
+
+/**
+ * Amount of a transaction in a batch entry
+ * The transaction amount is in Amt (camt.05x.001.04 and later) or AmtDtls/TxAmt/Amt
+ */
+function transactionAmount(transaction: XmlElement): XmlElement | null {
+    return findElement(transaction, 'Amt') ?? findElement(transaction, 'AmtDtls/TxAmt/Amt')
+}
+
+/**
+ * Payer of a transaction, Dbtr/Nm or Dbtr/Pty/Nm (camt.05x.001.08 and later)
+ */
+function payerName(transaction: XmlElement): string | null {
+    return elementText(transaction, 'RltdPties/Dbtr/Nm') ?? elementText(transaction, 'RltdPties/Dbtr/Pty/Nm')
+}
+
+/**
+ * Read the credits of one entry
+ *
+ * @param entry - Ntry element
+ * @returns Credits of the entry, empty for debits, reversals and pending entries
+ */
+function readEntryCredits(entry: XmlElement): BankCredit[] {
+    // Status is a code (BOOK) before camt.05x.001.08 and Sts/Cd after
+    const status = elementText(entry, 'Sts/Cd') ?? elementText(entry, 'Sts')
+    if (elementText(entry, 'CdtDbtInd') !== 'CRDT' || elementText(entry, 'RvslInd') === 'true' || (status && status !== 'BOOK')) {
+        return []
+    }
+
+    const entryAmount = findElement(entry, 'Amt')
+    const bookingDate = entryDate(findElement(entry, 'BookgDt')) ?? entryDate(findElement(entry, 'ValDt'))
+    const entryReference = elementText(entry, 'AcctSvcrRef') ?? elementText(entry, 'NtryRef')
+
+    if (!entryAmount || !bookingDate) {
+        throw new Error('Statement entry without an amount or booking date')
+    }
+
+    const transactions = findElements(entry, 'NtryDtls').flatMap(details => findElements(details, 'TxDtls'))
+
+    // Entry without transaction details is a single payment
+    if (transactions.length === 0) {
+        if (!entryReference) {
+            throw new Error('Statement entry without an archive reference')
+        }
+        return [{
+            archiveId: entryReference,
+            amountCents: euroAmountCents(entryAmount),
+            bookingDate,
+            reference: null,
+            payerName: null,
+            message: elementText(entry, 'AddtlNtryInf'),
+        }]
+    }
+
+    return transactions.flatMap((transaction, index) => {
+        // Returned payments in a batch are debits
+        if ((elementText(transaction, 'CdtDbtInd') ?? 'CRDT') !== 'CRDT') {
+            return []
+        }
+
+        const amount = transactionAmount(transaction) ?? (transactions.length === 1 ? entryAmount : null)
+        // Transactions of a batch without their own reference are numbered within the entry
+        const archiveId = elementText(transaction, 'Refs/AcctSvcrRef')
+            ?? (transactions.length === 1 ? entryReference : entryReference && `${entryReference}/${index + 1}`)
+
+        if (!amount || !archiveId) {
+            throw new Error('Statement transaction without an amount or archive reference')
+        }
+
+        const message = findElements(findElement(transaction, 'RmtInf'), 'Ustrd').map(line => line.text).join(' ')
+
+        return [{
+            archiveId,
+            amountCents: euroAmountCents(amount),
+            bookingDate,
+            reference: normalizeBankReference(elementText(transaction, 'RmtInf/Strd/CdtrRefInf/Ref')),
+            payerName: payerName(transaction),
+            message: message || null,
+        }]
+    })
+}
+
+/**
+ * Parse a camt.053 statement or camt.054 notification
+ *
+ * @param xml - camt message as text
+ * @returns Format, account IBAN and the incoming credits of all statements in the message
+ * @throws Error if the file is not a supported camt message or an entry can't be read
+ */
+export function parseCamtStatement(xml: string): BankStatement {
+    const document = parseXml(xml)
+    const message = document.children.find(child => child.name in CAMT_MESSAGES)
+
+    if (document.name !== 'Document' || !message) {
+        throw new Error('Not a camt.053 or camt.054 message')
+    }
+
+    const { format, statement } = CAMT_MESSAGES[message.name as keyof typeof CAMT_MESSAGES]
+    const statements = findElements(message, statement)
+
+    return {
+        format,
+        iban: elementText(statements[0], 'Acct/Id/IBAN'),
+        credits: statements.flatMap(item => findElements(item, 'Ntry').flatMap(readEntryCredits)),
+    }
+}
@@ -0,0 +1,65 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { isKtlFile, parseKtlStatement } from '@/utils/bank/ktl'
+import { parseBankStatement } from '@/utils/bank/parse'
+
+const fixture = (fileName: string) => readFileSync(path.join(__dirname, '__fixtures__', fileName), 'latin1')
+
+describe('parseKtlStatement', () => {
+    it('reads the reference payments of a batch', () => {
+        const statement = parseKtlStatement(fixture('ktl-valid.txt'))
+
+        expect(statement.format).toBe('ktl')
+        expect(statement.iban).toBe('FI2112345600000785')
+        expect(statement.credits).toEqual([
+            {
+                archiveId: '2601295934970001',
+                amountCents: 164280,
+                bookingDate: '2026-01-29',
+                reference: '10016',
+                payerName: 'ASIAKAS OY',
+                message: null,
+            },
+            {
+                archiveId: '2601295934970002',
+                amountCents: 10000,
+                bookingDate: '2026-01-29',
+                reference: '120260018',
+                payerName: 'TOINEN OY',
+                message: null,
+            },
+        ])
+    })
+
+    it('leaves corrections out of the credits and counts them in the sum record', () => {
+        const statement = parseKtlStatement(fixture('ktl-correction.txt'))
+
+        expect(statement.credits.map(credit => credit.archiveId)).toEqual(['2601295934970001', '2601295934970002'])
+    })
+
+    it('rejects a batch whose sum record does not match its payments', () => {
+        expect(() => parseKtlStatement(fixture('ktl-sum-mismatch.txt')))
+            .toThrow('Line 4: sum record payment total 174281 does not match the batch (174280)')
+    })
+
+    it('rejects a record longer than 90 characters', () => {
+        expect(() => parseKtlStatement(fixture('ktl-record-length.txt')))
+            .toThrow('Line 3: record is longer than 90 characters')
+    })
+
+    it('reads records with their trailing spaces trimmed', () => {
+        const trimmed = fixture('ktl-valid.txt').replace(/ +\r\n/g, '\r\n')
+        expect(parseKtlStatement(trimmed).credits).toHaveLength(2)
+    })
+
+    it('rejects a batch without a sum record', () => {
+        const content = fixture('ktl-valid.txt').split('\r\n').slice(0, 3).join('\r\n')
+        expect(() => parseKtlStatement(content)).toThrow('Last batch has no sum record')
+    })
+
+    it('is recognised from the file content', () => {
+        expect(isKtlFile(fixture('ktl-valid.txt'))).toBe(true)
+        expect(parseBankStatement(fixture('ktl-correction.txt')).format).toBe('ktl')
+    })
+})
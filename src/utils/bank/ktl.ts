@@ -0,0 +1,200 @@
+/**
+ * Finnish reference payment file (KTL, saapuvat viitesiirrot)
+ *
+ * Fixed-width records of 90 characters, one per line:
+ * - 0 batch record (erätietue): creation date, bank and the biller's service ID
+ * - 3 reference payment, 5 direct debit (viitetapahtumatietue)
+ * - 9 sum record (summatietue): count and total of the batch's payments and corrections
+ * Amounts are in cents, dates YYMMDD. The reference field only holds numeric
+ * (Finnish) references, zero padded to 20 digits
+ * Corrections (oikaisutunnus 1) reverse an earlier payment and are not read as credits
+ */
+
+import { BankCredit, BankStatement, normalizeBankReference } from '@/utils/bank/statement'
+import { calculateIbanCheckDigits } from '@/utils/eu/iban'
+
+const RECORD_LENGTH = 90
+
+// Currency code of euro amounts (rahayksikön koodi)
+const EURO_CURRENCY_CODE = '1'
+
+// Payment record with the account it was paid to
+interface PaymentRecord {
+    account: string
+    credit: BankCredit
+    isCorrection: boolean
+}
+
+/**
+ * Field of a record by its 1-based start and end position, as in the KTL specification
+ */
+function field(record: string, start: number, end: number): string {
+    return record.slice(start - 1, end)
+}
+
+/**
+ * Parse a numeric field
+ * @throws Error if the field is not all digits
+ */
+function numericField(record: string, start: number, end: number, line: number): number {
+    const value = field(record, start, end)
+    if (!/^\d+$/.test(value)) {
+        throw new Error(`Line ${line}: expected digits at positions ${start}-${end}, found "${value}"`)
+    }
+    return parseInt(value, 10)
+}
+
+/**
+ * Parse a YYMMDD date field into YYYY-MM-DD
+ * @throws Error if the date is not valid
+ */
+function dateField(record: string, start: number, line: number): string {
+    const value = field(record, start, start + 5)
+    const match = value.match(/^(\d{2})(\d{2})(\d{2})$/)
+    const date = match && new Date(Date.UTC(2000 + parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)))
+
+    if (!match || !date || date.getUTCDate() !== parseInt(match[3], 10)) {
+        throw new Error(`Line ${line}: invalid date "${value}"`)
+    }
+
+    return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Read a reference payment or direct debit record
+ */
+function readPaymentRecord(record: string, line: number): PaymentRecord {
+    if (field(record, 76, 76) !== EURO_CURRENCY_CODE) {
+        throw new Error(`Line ${line}: only euro payments are supported`)
+    }
+
+    const correction = field(record, 88, 88)
+    if (correction !== '0' && correction !== '1') {
+        throw new Error(`Line ${line}: invalid correction code "${correction}"`)
+    }
+
+    const archiveId = field(record, 28, 43).trim()
+    if (!archiveId) {
+        throw new Error(`Line ${line}: payment without an archive reference`)
+    }
+
+    // Validates the digits, the reference itself is read as text to keep all 20 digits
+    numericField(record, 44, 63, line)
+
+    return {
+        account: field(record, 2, 15),
+        credit: {
+            archiveId,
+            amountCents: numericField(record, 78, 87, line),
+            bookingDate: dateField(record, 16, line),
+            reference: normalizeBankReference(field(record, 44, 63)),
+            payerName: field(record, 64, 75).trim() || null,
+            message: null,
+        },
+        isCorrection: correction === '1',
+    }
+}
+
+/**
+ * Check a batch against its sum record
+ * @throws Error if the counts or totals differ
+ */
+function validateSumRecord(record: string, line: number, payments: PaymentRecord[]) {
+    const credits = payments.filter(payment => !payment.isCorrection)
+    const corrections = payments.filter(payment => payment.isCorrection)
+    const total = (records: PaymentRecord[]) => records.reduce((sum, payment) => sum + payment.credit.amountCents, 0)
+
+    const checks = [
+        { name: 'payment count', expected: numericField(record, 2, 7, line), actual: credits.length },
+        { name: 'payment total', expected: numericField(record, 8, 18, line), actual: total(credits) },
+        { name: 'correction count', expected: numericField(record, 19, 24, line), actual: corrections.length },
+        { name: 'correction total', expected: numericField(record, 25, 35, line), actual: total(corrections) },
+    ]
+
+    for (const check of checks) {
+        if (check.expected !== check.actual) {
+            throw new Error(`Line ${line}: sum record ${check.name} ${check.expected} does not match the batch (${check.actual})`)
+        }
+    }
+}
+
+/**
+ * Check if a file looks like a KTL reference payment file
+ * @param content - File content as text
+ */
+export function isKtlFile(content: string): boolean {
+    return /^0\d{10}/.test(content.replace(/^\uFEFF/, ''))
+}
+
+/**
+ * Parse a KTL reference payment file
+ * Every batch must end with a sum record that agrees with its payments
+ *
+ * @param content - File content as text
+ * @returns Account IBAN and the reference payments of all batches
+ * @throws Error if a record is malformed or a sum record doesn't match
+ */
+export function parseKtlStatement(content: string): BankStatement {
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+    const payments: PaymentRecord[] = []
+    let batch: PaymentRecord[] | null = null
+
+    lines.forEach((text, index) => {
+        const line = index + 1
+
+        // Trailing spaces of a record are often trimmed, empty lines end the file
+        if (!text.trim()) {
+            return
+        }
+        if (text.length > RECORD_LENGTH) {
+            throw new Error(`Line ${line}: record is longer than ${RECORD_LENGTH} characters`)
+        }
+        const record = text.padEnd(RECORD_LENGTH, ' ')
+
+        switch (record[0]) {
+            case '0':
+                if (batch) {
+                    throw new Error(`Line ${line}: batch starts before the previous one has a sum record`)
+                }
+                if (field(record, 23, 23) !== EURO_CURRENCY_CODE) {
+                    throw new Error(`Line ${line}: only euro batches are supported`)
+                }
+                dateField(record, 2, line)
+                batch = []
+                break
+            case '3':
+            case '5':
+                if (!batch) {
+                    throw new Error(`Line ${line}: payment record outside a batch`)
+                }
+                batch.push(readPaymentRecord(record, line))
+                break
+            case '9':
+                if (!batch) {
+                    throw new Error(`Line ${line}: sum record outside a batch`)
+                }
+                validateSumRecord(record, line, batch)
+                payments.push(...batch)
+                batch = null
+                break
+            default:
+                throw new Error(`Line ${line}: unknown record type "${record[0]}"`)
+        }
+    })
+
+    if (batch) {
+        throw new Error('Last batch has no sum record')
+    }
+    if (payments.length === 0 && !lines.some(text => text.startsWith('0'))) {
+        throw new Error('File has no KTL batches')
+    }
+
+    // Account is the machine format BBAN of a Finnish account
+    const account = payments.find(payment => /^\d{14}$/.test(payment.account))?.account
+
+    return {
+        format: 'ktl',
+        iban: account ? `FI${calculateIbanCheckDigits('FI', account)}${account}` : null,
+        credits: payments.filter(payment => !payment.isCorrection).map(payment => payment.credit),
+    }
+}
@@ -0,0 +1,39 @@
+// Bank statement file import
+// Recognises the format of an uploaded statement file and reads its incoming payments
+
+import { parseCamtStatement } from '@/utils/bank/camt'
+import { isKtlFile, parseKtlStatement } from '@/utils/bank/ktl'
+import { BankStatement } from '@/utils/bank/statement'
+
+/**
+ * Decode an uploaded statement file
+ * XML files are UTF-8, KTL files usually ISO-8859-1 (Latin-1) from the bank
+ *
+ * @param bytes - File content
+ * @returns File content as text
+ */
+export function decodeBankStatement(bytes: ArrayBuffer): string {
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    } catch {
+        return new TextDecoder('latin1').decode(bytes)
+    }
+}
+
+/**
+ * Parse a bank statement file
+ *
+ * @param content - File content as text
+ * @returns Statement with its incoming credits
+ * @throws Error if the format is not recognised or the file can't be read
+ */
+export function parseBankStatement(content: string): BankStatement {
+    if (content.trimStart().startsWith('<')) {
+        return parseCamtStatement(content)
+    }
+    if (isKtlFile(content)) {
+        return parseKtlStatement(content)
+    }
+
+    throw new Error('Unsupported bank statement format, expected camt.053 / camt.054 XML or a KTL reference payment file')
+}
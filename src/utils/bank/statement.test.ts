@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeBankReference, parseAmountCents } from '@/utils/bank/statement'
+
+describe('normalizeBankReference', () => {
+    it('drops the zeros banks pad Finnish references with', () => {
+        expect(normalizeBankReference('00000000000000012345')).toBe('12345')
+        expect(normalizeBankReference('1 2345')).toBe('12345')
+    })
+
+    it('drops leading zeros of the RF reference body, which keep the same check digits', () => {
+        expect(normalizeBankReference('RF18000000539007547034')).toBe('RF18539007547034')
+        expect(normalizeBankReference('rf18 5390 0754 7034')).toBe('RF18539007547034')
+        expect(normalizeBankReference('RF74001')).toBe('RF741')
+        expect(normalizeBankReference('RF7400000001')).toBe(normalizeBankReference('RF74001'))
+    })
+
+    it('keeps a reference that is all zeros after the check digits', () => {
+        expect(normalizeBankReference('RF0500')).toBe('RF050')
+    })
+
+    it('returns null for an empty reference', () => {
+        expect(normalizeBankReference('  ')).toBeNull()
+        expect(normalizeBankReference('000')).toBeNull()
+        expect(normalizeBankReference(null)).toBeNull()
+    })
+})
+
+describe('parseAmountCents', () => {
+    it('parses decimal amounts without rounding errors', () => {
+        expect(parseAmountCents('1642.80')).toBe(164280)
+        expect(parseAmountCents('0.1')).toBe(10)
+        expect(parseAmountCents('19.99')).toBe(1999)
+    })
+
+    it('rejects negative amounts and extra decimals', () => {
+        expect(() => parseAmountCents('-1.00')).toThrow('Invalid amount')
+        expect(() => parseAmountCents('1.005')).toThrow('Invalid amount')
+    })
+})
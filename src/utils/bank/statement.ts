@@ -0,0 +1,64 @@
+/**
+ * Incoming payments read from bank statement files
+ *
+ * The statement parsers (camt.053 / camt.054, KTL) reduce each file to the credits
+ * booked to the account, which are then matched to open invoices by reference
+ * Amounts are integer cents, dates YYYY-MM-DD strings as in the files
+ */
+
+import { Cents } from '@/lib/money'
+
+export type BankStatementFormat = 'camt.053' | 'camt.054' | 'ktl'
+
+// Incoming payment booked to the account
+export interface BankCredit {
+    archiveId: string            // Bank's unique entry reference (arkistointitunnus)
+    amountCents: Cents
+    bookingDate: string          // YYYY-MM-DD
+    reference: string | null     // Structured RF or Finnish reference, normalised
+    payerName: string | null
+    message: string | null       // Free text message when paid without a reference
+}
+
+export interface BankStatement {
+    format: BankStatementFormat
+    iban: string | null          // Account the statement is for
+    credits: BankCredit[]
+}
+
+/**
+ * Normalise a payment reference for matching
+ * Spaces are removed, RF references uppercased and the leading zeros
+ * banks pad Finnish references and RF reference bodies with are dropped.
+ * Leading zeros of the body don't change the RF check digits, so both forms are the same reference
+ *
+ * @param reference - Reference as paid (e.g., "00000000000000012345" or "rf18 0000 5390 0754 7034")
+ * @returns Normalised reference (e.g., "12345" or "RF18539007547034"), or null if empty
+ */
+export function normalizeBankReference(reference: string | null | undefined): string | null {
+    const cleaned = (reference ?? '').replace(/\s/g, '').toUpperCase()
+
+    if (/^\d+$/.test(cleaned)) {
+        return cleaned.replace(/^0+/, '') || null
+    }
+
+    return cleaned.replace(/^(RF\d{2})0+(?=[0-9A-Z])/, '$1') || null
+}
+
+/**
+ * Parse a decimal amount of a bank file into cents
+ * Works on the digits only, so no floating point rounding
+ *
+ * @param amount - Amount with a dot as decimal separator (e.g., "1234.5")
+ * @returns Amount in cents (e.g., 123450)
+ * @throws Error if the amount is not a non-negative decimal with at most two decimals
+ */
+export function parseAmountCents(amount: string): Cents {
+    const match = amount.trim().match(/^(\d+)(?:\.(\d{1,2}))?$/)
+
+    if (!match) {
+        throw new Error(`Invalid amount "${amount}"`)
+    }
+
+    return parseInt(match[1], 10) * 100 + parseInt((match[2] ?? '').padEnd(2, '0'), 10)
+}
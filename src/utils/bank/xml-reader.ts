@@ -0,0 +1,147 @@
+// Minimal XML reader for bank statement messages
+// Reads elements, attributes and text into a tree, which is all the ISO 20022
+// camt messages need. Namespace prefixes are dropped and document type
+// declarations are rejected, so no entities are ever expanded
+
+export interface XmlElement {
+    name: string                          // Local name without namespace prefix
+    attributes: Record<string, string>
+    children: XmlElement[]
+    text: string                          // Text directly inside the element, trimmed
+}
+
+// Comments, CDATA, processing instructions, closing tags, opening tags and text
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/y
+
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+const ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+}
+
+/**
+ * Replace the predefined entities and character references of XML text
+ */
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+        if (entity.startsWith('#x')) {
+            return String.fromCodePoint(parseInt(entity.slice(2), 16))
+        }
+        if (entity.startsWith('#')) {
+            return String.fromCodePoint(parseInt(entity.slice(1), 10))
+        }
+        return ENTITIES[entity] ?? match
+    })
+}
+
+/**
+ * Drop the namespace prefix of an element or attribute name
+ */
+function localName(name: string): string {
+    return name.slice(name.indexOf(':') + 1)
+}
+
+/**
+ * Parse an XML document
+ *
+ * @param xml - XML document as text
+ * @returns Root element
+ * @throws Error if the document is not well-formed
+ */
+export function parseXml(xml: string): XmlElement {
+    if (/<!DOCTYPE/i.test(xml)) {
+        throw new Error('XML document type declarations are not supported')
+    }
+
+    const root: XmlElement = { name: '', attributes: {}, children: [], text: '' }
+    const stack: XmlElement[] = [root]
+    const texts: string[][] = [[]]
+
+    // Byte order mark of UTF-8 files read as text
+    const content = xml.replace(/^\uFEFF/, '')
+    let position = 0
+
+    while (position < content.length) {
+        TOKEN_PATTERN.lastIndex = position
+        const match = TOKEN_PATTERN.exec(content)
+
+        if (!match) {
+            throw new Error(`Malformed XML at position ${position}`)
+        }
+        position = TOKEN_PATTERN.lastIndex
+
+        const [, cdata, closingName, openingName, attributeText, selfClosing, text] = match
+
+        if (cdata !== undefined) {
+            texts[texts.length - 1].push(cdata)
+        } else if (text !== undefined) {
+            texts[texts.length - 1].push(decodeEntities(text))
+        } else if (closingName !== undefined) {
+            const element = stack.pop()
+            const elementTexts = texts.pop()
+            if (!element || stack.length === 0 || element.name !== localName(closingName)) {
+                throw new Error(`Unexpected closing tag </${closingName}>`)
+            }
+            element.text = (elementTexts ?? []).join('').trim()
+        } else if (openingName !== undefined) {
+            const attributes: Record<string, string> = {}
+            for (const [, name, doubleQuoted, singleQuoted] of (attributeText ?? '').matchAll(ATTRIBUTE_PATTERN)) {
+                attributes[localName(name)] = decodeEntities(doubleQuoted ?? singleQuoted)
+            }
+
+            const element: XmlElement = { name: localName(openingName), attributes, children: [], text: '' }
+            stack[stack.length - 1].children.push(element)
+
+            if (!selfClosing) {
+                stack.push(element)
+                texts.push([])
+            }
+        }
+        // Comments and processing instructions are skipped
+    }
+
+    if (stack.length !== 1 || root.children.length !== 1) {
+        throw new Error('XML document must have exactly one root element')
+    }
+
+    return root.children[0]
+}
+
+/**
+ * Find a descendant element by a path of local names
+ *
+ * @param element - Element to start from
+ * @param path - Child names separated by slashes (e.g., "Acct/Id/IBAN")
+ * @returns First matching element, or null
+ */
+export function findElement(element: XmlElement | null | undefined, path: string): XmlElement | null {
+    let current: XmlElement | null = element ?? null
+
+    for (const name of path.split('/')) {
+        current = current?.children.find(child => child.name === name) ?? null
+    }
+
+    return current
+}
+
+/**
+ * Find all children of an element with a local name
+ */
+export function findElements(element: XmlElement | null | undefined, name: string): XmlElement[] {
+    return element?.children.filter(child => child.name === name) ?? []
+}
+
+/**
+ * Text of a descendant element
+ *
+ * @param element - Element to start from
+ * @param path - Child names separated by slashes (e.g., "BookgDt/Dt")
+ * @returns Trimmed text, or null if the element is missing or empty
+ */
+export function elementText(element: XmlElement | null | undefined, path: string): string | null {
+    return findElement(element, path)?.text || null
+}
@@ -0,0 +1,135 @@
+// Sample invoices for the e-invoice serializer tests
+// A domestic invoice with two VAT rates and a credit note of its first line,
+// shaped like the invoices the routes load with company, customer and line items
+
+import type { Company, Customer, Invoice, LineItem } from '@prisma/client'
+import type { EN16931Invoice } from '@/utils/einvoice/en16931'
+
+const CREATED_AT = new Date('2026-01-15T00:00:00Z')
+
+export const sampleCompany: Company = {
+    id: 'company-1',
+    userId: 'user-1',
+    name: 'Testi Konsultointi Oy',
+    businessId: '1234567-1',
+    address: 'Mannerheimintie 1',
+    city: 'Helsinki',
+    postalCode: '00100',
+    country: 'Finland',
+    phone: '+358 40 123 4567',
+    email: 'laskutus@testikonsultointi.fi',
+    website: 'https://testikonsultointi.fi',
+    iban: 'FI2112345600000785',
+    bic: 'NDEAFIHH',
+    vatRate: 25.5,
+    referenceType: 'rf',
+    vatVerifiedAt: null,
+    createdAt: CREATED_AT,
+    updatedAt: CREATED_AT,
+}
+
+export const sampleCustomer: Customer = {
+    id: 'customer-1',
+    companyId: sampleCompany.id,
+    name: 'Asiakas & Kumppanit Oy',
+    businessId: '0112038-9',
+    vatNumber: null,
+    vatVerifiedAt: null,
+    vatRegistered: true,
+    address: 'Hämeenkatu 10',
+    city: 'Tampere',
+    postalCode: '33100',
+    country: 'Finland',
+    phone: null,
+    email: 'ostolaskut@asiakas.fi',
+    peppolId: '0216:003701120389',
+    einvoiceAddress: '003701120389',
+    einvoiceOperator: '003721291126',
+    language: 'fi',
+    paymentTermDays: 14,
+    vatTreatment: 'domestic',
+    deliveryMethod: 'einvoice',
+    defaultNotes: null,
+    archivedAt: null,
+    createdAt: CREATED_AT,
+    updatedAt: CREATED_AT,
+}
+
+function lineItem(invoiceId: string, order: number, values: Pick<LineItem, 'description' | 'quantity' | 'unitPriceCents' | 'vatRate' | 'totalCents'>): LineItem {
+    return {
+        id: `${invoiceId}-line-${order}`,
+        invoiceId,
+        order,
+        creditedLineItemId: null,
+        createdAt: CREATED_AT,
+        ...values,
+    }
+}
+
+const invoiceFields: Invoice = {
+    id: 'invoice-1',
+    invoiceNumber: 'INV-001',
+    companyId: sampleCompany.id,
+    customerId: sampleCustomer.id,
+    invoiceDate: new Date('2026-01-15T00:00:00Z'),
+    dueDate: new Date('2026-01-29T00:00:00Z'),
+    rfReference: 'RF74001',
+    subtotalCents: 132000,
+    vatAmountCents: 32280,
+    totalCents: 164280,
+    status: 'draft',
+    type: 'invoice',
+    creditedInvoiceId: null,
+    buyerReference: 'KP-4410',
+    notes: 'Kiitos tilauksesta',
+    vatTreatment: 'domestic',
+    deliveryMethod: 'einvoice',
+    contactId: null,
+    billingAddressId: null,
+    deliveryAddressId: null,
+    createdAt: CREATED_AT,
+    updatedAt: CREATED_AT,
+}
+
+/**
+ * Domestic invoice: 12 h consulting at 25,5 % and a book at 14 %
+ */
+export function sampleInvoice(): EN16931Invoice {
+    return {
+        ...invoiceFields,
+        company: sampleCompany,
+        customer: sampleCustomer,
+        lineItems: [
+            lineItem(invoiceFields.id, 1, { description: 'Konsultointi', quantity: 12, unitPriceCents: 10000, vatRate: 25.5, totalCents: 120000 }),
+            lineItem(invoiceFields.id, 2, { description: 'Käsikirja', quantity: 2, unitPriceCents: 6000, vatRate: 14, totalCents: 12000 }),
+        ],
+        creditedInvoice: null,
+    }
+}
+
+/**
+ * Credit note of the consulting line of sampleInvoice
+ */
+export function sampleCreditNote(): EN16931Invoice {
+    const original = sampleInvoice()
+    const id = 'credit-note-1'
+
+    return {
+        ...original,
+        id,
+        invoiceNumber: 'HYV-001',
+        invoiceDate: new Date('2026-01-20T00:00:00Z'),
+        dueDate: new Date('2026-01-20T00:00:00Z'),
+        subtotalCents: -120000,
+        vatAmountCents: -30600,
+        totalCents: -150600,
+        status: 'sent',
+        type: 'credit_note',
+        creditedInvoiceId: original.id,
+        notes: null,
+        lineItems: [
+            { ...lineItem(id, 1, { description: 'Konsultointi', quantity: -12, unitPriceCents: 10000, vatRate: 25.5, totalCents: -120000 }), creditedLineItemId: original.lineItems[0].id },
+        ],
+        creditedInvoice: { invoiceNumber: original.invoiceNumber, invoiceDate: original.invoiceDate },
+    }
+}
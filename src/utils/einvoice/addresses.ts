@@ -0,0 +1,50 @@
+// E-invoice addresses
+// Peppol participant IDs and Finnish OVT codes used to route e-invoices
+
+// Peppol EAS code of Finnish OVT codes
+export const OVT_SCHEME = '0216'
+
+/**
+ * Validate a Finnish OVT code
+ * Format: 0037 + 8 digit Y-tunnus without dash + optional 1-5 character suffix
+ *
+ * @param ovt - OVT code (e.g., "003712345678" or "0037123456781001")
+ */
+export function validateOvtCode(ovt: string): boolean {
+    return /^0037\d{8}[A-Za-z0-9]{0,5}$/.test(ovt.replace(/\s/g, ''))
+}
+
+/**
+ * Validate a Peppol participant ID
+ * Format: 4 digit scheme (EAS code) + ":" + identifier (e.g., "0216:003712345678")
+ */
+export function validatePeppolId(peppolId: string): boolean {
+    return /^\d{4}:[A-Za-z0-9.\-_]{1,50}$/.test(peppolId.trim())
+}
+
+/**
+ * Split a Peppol participant ID into scheme and identifier
+ * @param peppolId - Participant ID (e.g., "0216:003712345678")
+ * @returns Scheme and identifier (e.g., { scheme: "0216", id: "003712345678" })
+ */
+export function parsePeppolId(peppolId: string): { scheme: string, id: string } {
+    const [scheme, ...rest] = peppolId.trim().split(':')
+    return { scheme, id: rest.join(':') }
+}
+
+/**
+ * Derive the OVT code of an organisation from its Y-tunnus
+ * @param businessId - Y-tunnus (e.g., "1234567-8")
+ * @returns OVT code (e.g., "003712345678"), or null if the Y-tunnus is malformed
+ */
+export function ovtFromBusinessId(businessId: string): string | null {
+    const digits = businessId.replace(/\D/g, '')
+    return digits.length === 8 ? `0037${digits}` : null
+}
+
+/**
+ * Check if a customer receives e-invoices (has a Peppol ID or an OVT e-invoice address)
+ */
+export function hasEInvoiceAddress(customer: { peppolId: string | null, einvoiceAddress: string | null }): boolean {
+    return !!(customer.peppolId || customer.einvoiceAddress)
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { buildEN16931Document, validateEN16931, validateInvoiceEN16931 } from '@/utils/einvoice/en16931'
+import { sampleCreditNote, sampleCustomer, sampleInvoice } from '@/utils/einvoice/__fixtures__/invoices'
+
+/**
+ * Rule IDs of the failed rules
+ */
+function failedRules(invoice: ReturnType<typeof sampleInvoice>): string[] {
+    return validateInvoiceEN16931(invoice).map(error => error.rule)
+}
+
+describe('buildEN16931Document', () => {
+    it('maps an invoice with its VAT breakdown and totals', () => {
+        const document = buildEN16931Document(sampleInvoice())
+
+        expect(document.typeCode).toBe('380')
+        expect(document.seller.endpoint).toEqual({ scheme: '0216', id: '003712345671' })
+        expect(document.buyer.endpoint).toEqual({ scheme: '0216', id: '003701120389' })
+        expect(document.seller.vatId).toBe('FI12345671')
+        expect(document.vatBreakdown).toEqual([
+            expect.objectContaining({ vatCategory: 'S', vatRate: 25.5, taxableCents: 120000, taxCents: 30600 }),
+            expect.objectContaining({ vatCategory: 'S', vatRate: 14, taxableCents: 12000, taxCents: 1680 }),
+        ])
+        expect(document.totals.payableCents).toBe(164280)
+    })
+
+    it('turns the negative amounts of a credit note positive', () => {
+        const document = buildEN16931Document(sampleCreditNote())
+
+        expect(document.typeCode).toBe('381')
+        expect(document.precedingInvoice?.number).toBe('INV-001')
+        expect(document.lines[0]).toEqual(expect.objectContaining({ quantity: 12, netAmountCents: 120000 }))
+        expect(document.totals.payableCents).toBe(150600)
+    })
+})
+
+describe('validateEN16931', () => {
+    it('accepts the sample invoice and credit note', () => {
+        expect(failedRules(sampleInvoice())).toEqual([])
+        expect(failedRules(sampleCreditNote())).toEqual([])
+    })
+
+    it('requires the Peppol buyer reference and buyer electronic address', () => {
+        const invoice = {
+            ...sampleInvoice(),
+            buyerReference: null,
+            customer: { ...sampleCustomer, peppolId: null, einvoiceAddress: null },
+        }
+
+        expect(failedRules(invoice)).toEqual(['PEPPOL-EN16931-R003', 'PEPPOL-EN16931-R010'])
+    })
+
+    it('catches totals that do not add up', () => {
+        expect(failedRules({ ...sampleInvoice(), totalCents: 164281 })).toEqual(['BR-CO-15'])
+    })
+
+    it('requires a buyer identifier for reverse charge', () => {
+        const invoice = sampleInvoice()
+        const reverseCharge = {
+            ...invoice,
+            vatTreatment: 'reverse_charge',
+            subtotalCents: 132000,
+            vatAmountCents: 0,
+            totalCents: 132000,
+            lineItems: invoice.lineItems.map(item => ({ ...item, vatRate: 0 })),
+            customer: { ...sampleCustomer, businessId: null },
+        }
+
+        expect(failedRules(reverseCharge)).toEqual(['BR-AE-02'])
+    })
+
+    it('requires a known country for every address', () => {
+        const deliveryAddress = { name: null, address: 'Rue de Rivoli 1', postalCode: '75001', city: 'Paris', country: 'Ranska' }
+
+        expect(failedRules({ ...sampleInvoice(), customer: { ...sampleCustomer, country: 'Ranska' } })).toEqual(['BR-11'])
+        expect(failedRules({ ...sampleInvoice(), customer: { ...sampleCustomer, deliveryAddress } })).toEqual(['BR-57'])
+    })
+
+    it('accepts ISO country codes as they are', () => {
+        const invoice = { ...sampleInvoice(), customer: { ...sampleCustomer, country: 'fr' } }
+
+        expect(buildEN16931Document(invoice).buyer.countryCode).toBe('FR')
+        expect(failedRules(invoice)).toEqual([])
+    })
+
+    it('requires a positive rate on standard rated lines', () => {
+        const document = buildEN16931Document(sampleInvoice())
+        document.lines[0] = { ...document.lines[0], vatRate: 0 }
+
+        expect(validateEN16931(document).map(error => error.rule)).toContain('BR-S-05')
+    })
+})
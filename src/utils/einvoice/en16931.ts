@@ -0,0 +1,407 @@
+// EN 16931 invoice model and business rule validation
+// The invoice is first mapped to the business terms of EN 16931 (the European e-invoice
+// semantic model), then serialized (UBL) and validated from the same data,
+// so the validation sees exactly what is sent
+//
+// Rules follow the EN 16931 schematron (BR-*, BR-CO-*, BR-S-*, BR-Z-*, BR-AE-*, BR-G-*)
+// and the Peppol BIS Billing 3.0 rules (PEPPOL-EN16931-*) that concern our data
+
+import type { Company, Customer, Invoice, LineItem } from '@prisma/client'
+import { calculateInvoiceTotals } from '@/lib/invoices/totals'
+import { Cents, percentOfCents, sumCents } from '@/lib/money'
+import { resolveVatNumber } from '@/utils/eu/vat-number'
+import { OVT_SCHEME, ovtFromBusinessId, parsePeppolId } from '@/utils/einvoice/addresses'
+import { toCountryCode } from '@/lib/i18n/countries'
+import type { InvoiceRecipient } from '@/lib/invoices/recipient'
+
+// Invoice with the relations needed for the document
+// The customer may carry the invoice's contact and addresses (see withInvoiceRecipient)
+export type EN16931Invoice = Invoice & {
+    company: Company
+    customer: Customer & InvoiceRecipient
+    lineItems: LineItem[]
+    creditedInvoice?: Pick<Invoice, 'invoiceNumber' | 'invoiceDate'> | null
+}
+
+// VAT category codes (UNCL5305): S = standard rate, Z = zero rated,
+// AE = reverse charge, G = export outside the EU
+export type VatCategory = 'S' | 'Z' | 'AE' | 'G'
+
+// Exemption reasons (VATEX code list) of the categories without Finnish VAT
+const VAT_EXEMPTION_REASONS: Partial<Record<VatCategory, { code: string, text: string }>> = {
+    AE: { code: 'VATEX-EU-AE', text: 'Reverse charge' },
+    G: { code: 'VATEX-EU-G', text: 'Export outside the EU' },
+}
+
+export interface EN16931Party {
+    name: string
+    endpoint: { scheme: string, id: string } | null  // Electronic address (BT-34 / BT-49)
+    legalId: string | null                            // Y-tunnus (BT-30 / BT-47)
+    vatId: string | null                              // VAT identifier (BT-31 / BT-48)
+    street: string
+    additionalStreet: string | null                   // BT-36 / BT-51, e.g. department
+    city: string
+    postalCode: string
+    countryCode: string | null                        // BT-40 / BT-55, null for unknown countries
+    contactName: string | null                        // Contact point (BT-41 / BT-56)
+    phone: string | null
+    email: string | null
+}
+
+// Deliver to location (BT-70 - BT-80)
+export interface EN16931Delivery {
+    name: string
+    street: string
+    additionalStreet: string | null
+    city: string
+    postalCode: string
+    countryCode: string | null
+}
+
+export interface EN16931Line {
+    id: string
+    name: string
+    quantity: number
+    netAmountCents: Cents
+    priceCents: Cents
+    vatCategory: VatCategory
+    vatRate: number
+}
+
+export interface EN16931VatBreakdown {
+    vatCategory: VatCategory
+    vatRate: number
+    taxableCents: Cents
+    taxCents: Cents
+    exemptionReasonCode: string | null  // BT-121, required for AE and G
+    exemptionReason: string | null      // BT-120
+}
+
+// Credit notes carry positive amounts, the document type gives the sign
+export interface EN16931Document {
+    isCreditNote: boolean
+    number: string
+    issueDate: Date
+    dueDate: Date | null
+    typeCode: '380' | '381'  // 380 = commercial invoice, 381 = credit note
+    currency: 'EUR'
+    buyerReference: string | null
+    note: string | null
+    precedingInvoice: { number: string, issueDate: Date } | null
+    seller: EN16931Party
+    buyer: EN16931Party
+    delivery: EN16931Delivery | null
+    payment: {
+        meansCode: '58'  // SEPA credit transfer
+        paymentId: string
+        iban: string
+        bic: string | null
+    }
+    paymentTerms: string | null
+    lines: EN16931Line[]
+    vatBreakdown: EN16931VatBreakdown[]
+    totals: {
+        lineExtensionCents: Cents
+        taxExclusiveCents: Cents
+        taxTotalCents: Cents
+        taxInclusiveCents: Cents
+        payableCents: Cents
+    }
+}
+
+// Failed business rule, e.g. { rule: 'BR-CO-15', message: '...' }
+export interface EN16931ValidationError {
+    rule: string
+    message: string
+}
+
+/**
+ * VAT category of a line
+ * Reverse charge and export follow the invoice's VAT treatment,
+ * domestic zero rate is zero rated supply
+ *
+ * @param vatRate - Line VAT rate
+ * @param vatTreatment - VAT treatment of the invoice (domestic | reverse_charge | export)
+ */
+export function vatCategoryOf(vatRate: number, vatTreatment: string): VatCategory {
+    if (vatTreatment === 'reverse_charge') {
+        return 'AE'
+    }
+    if (vatTreatment === 'export') {
+        return 'G'
+    }
+    return vatRate > 0 ? 'S' : 'Z'
+}
+
+/**
+ * Days between invoice date and due date, for the payment terms text
+ */
+function paymentTermDays(invoice: EN16931Invoice): number {
+    const dayMs = 24 * 60 * 60 * 1000
+    return Math.round((invoice.dueDate.getTime() - invoice.invoiceDate.getTime()) / dayMs)
+}
+
+/**
+ * Map an invoice or credit note to the EN 16931 model
+ * Amounts come from the stored invoice, so inconsistent data is caught by validation
+ *
+ * @param invoice - Invoice with company, customer and line items
+ */
+export function buildEN16931Document(invoice: EN16931Invoice): EN16931Document {
+    const { company, customer } = invoice
+    const isCreditNote = invoice.type === 'credit_note'
+
+    // Credit notes are stored with negative amounts, EN 16931 wants them positive
+    const sign = isCreditNote ? -1 : 1
+    const breakdown = calculateInvoiceTotals(invoice.lineItems).vatBreakdown
+    const termDays = paymentTermDays(invoice)
+
+    const sellerOvt = company.businessId ? ovtFromBusinessId(company.businessId) : null
+    const buyerEndpoint = customer.peppolId
+        ? parsePeppolId(customer.peppolId)
+        : customer.einvoiceAddress
+            ? { scheme: OVT_SCHEME, id: customer.einvoiceAddress }
+            : null
+
+    return {
+        isCreditNote,
+        number: invoice.invoiceNumber,
+        issueDate: invoice.invoiceDate,
+        dueDate: invoice.dueDate,
+        typeCode: isCreditNote ? '381' : '380',
+        currency: 'EUR',
+        buyerReference: invoice.buyerReference,
+        note: invoice.notes,
+        precedingInvoice: invoice.creditedInvoice
+            ? { number: invoice.creditedInvoice.invoiceNumber, issueDate: invoice.creditedInvoice.invoiceDate }
+            : null,
+        seller: {
+            name: company.name,
+            endpoint: sellerOvt ? { scheme: OVT_SCHEME, id: sellerOvt } : null,
+            legalId: company.businessId || null,
+            vatId: resolveVatNumber(company),
+            street: company.address,
+            additionalStreet: null,
+            city: company.city,
+            postalCode: company.postalCode,
+            countryCode: toCountryCode(company.country),
+            contactName: null,
+            phone: company.phone,
+            email: company.email,
+        },
+        buyer: {
+            name: customer.name,
+            endpoint: buyerEndpoint,
+            legalId: customer.businessId,
+            vatId: resolveVatNumber(customer),
+            street: customer.address,
+            additionalStreet: customer.addressName ?? null,
+            city: customer.city,
+            postalCode: customer.postalCode,
+            countryCode: toCountryCode(customer.country),
+            contactName: customer.contactName ?? null,
+            phone: customer.phone,
+            email: customer.email,
+        },
+        delivery: customer.deliveryAddress
+            ? {
+                name: customer.name,
+                street: customer.deliveryAddress.address,
+                additionalStreet: customer.deliveryAddress.name,
+                city: customer.deliveryAddress.city,
+                postalCode: customer.deliveryAddress.postalCode,
+                countryCode: toCountryCode(customer.deliveryAddress.country),
+            }
+            : null,
+        payment: {
+            meansCode: '58',
+            paymentId: invoice.rfReference.replace(/\s/g, ''),
+            iban: company.iban.replace(/\s/g, ''),
+            bic: company.bic || null,
+        },
+        paymentTerms: termDays > 0 ? `${termDays} päivää netto` : 'Heti netto',
+        lines: invoice.lineItems.map((item, index) => ({
+            id: String(index + 1),
+            name: item.description,
+            quantity: item.quantity * sign,
+            netAmountCents: item.totalCents * sign,
+            priceCents: item.unitPriceCents,
+            vatCategory: vatCategoryOf(item.vatRate, invoice.vatTreatment),
+            vatRate: item.vatRate,
+        })),
+        vatBreakdown: breakdown.map(row => {
+            const vatCategory = vatCategoryOf(row.vatRate, invoice.vatTreatment)
+            const exemption = VAT_EXEMPTION_REASONS[vatCategory]
+            return {
+                vatCategory,
+                vatRate: row.vatRate,
+                taxableCents: row.netCents * sign,
+                taxCents: row.vatCents * sign,
+                exemptionReasonCode: exemption?.code ?? null,
+                exemptionReason: exemption?.text ?? null,
+            }
+        }),
+        totals: {
+            lineExtensionCents: invoice.subtotalCents * sign,
+            taxExclusiveCents: invoice.subtotalCents * sign,
+            taxTotalCents: invoice.vatAmountCents * sign,
+            taxInclusiveCents: invoice.totalCents * sign,
+            payableCents: invoice.totalCents * sign,
+        },
+    }
+}
+
+/**
+ * Validate a document against the EN 16931 business rules
+ *
+ * @param document - Document built with buildEN16931Document
+ * @returns Failed rules, empty if the document is valid
+ */
+export function validateEN16931(document: EN16931Document): EN16931ValidationError[] {
+    const errors: EN16931ValidationError[] = []
+    const fail = (rule: string, message: string) => errors.push({ rule, message })
+    const { seller, buyer, totals } = document
+
+    // Document level
+    if (!document.number.trim()) {
+        fail('BR-02', 'Invoice number is required')
+    }
+    if (isNaN(document.issueDate.getTime())) {
+        fail('BR-03', 'Invoice issue date is required')
+    }
+    if (!seller.name.trim()) {
+        fail('BR-06', 'Seller name is required')
+    }
+    if (!buyer.name.trim()) {
+        fail('BR-07', 'Buyer name is required')
+    }
+    if (!seller.street.trim() || !seller.city.trim() || !seller.postalCode.trim()) {
+        fail('BR-08', 'Seller postal address is required')
+    }
+    if (!seller.countryCode) {
+        fail('BR-09', 'Seller country code is required')
+    }
+    if (!buyer.street.trim() || !buyer.city.trim() || !buyer.postalCode.trim()) {
+        fail('BR-10', 'Buyer postal address is required')
+    }
+    if (!buyer.countryCode) {
+        fail('BR-11', 'Buyer country code is required')
+    }
+    if (document.delivery && !document.delivery.countryCode) {
+        fail('BR-57', 'Deliver to country code is required')
+    }
+    if (document.lines.length === 0) {
+        fail('BR-16', 'Invoice must have at least one line')
+    }
+    if (!document.payment.iban) {
+        fail('BR-50', 'Payment account identifier (IBAN) is required for credit transfers')
+    }
+
+    // Lines
+    document.lines.forEach(line => {
+        if (!line.name.trim()) {
+            fail('BR-25', `Line ${line.id}: item name is required`)
+        }
+        if (!Number.isFinite(line.quantity)) {
+            fail('BR-22', `Line ${line.id}: invoiced quantity is required`)
+        }
+        if (line.priceCents < 0) {
+            fail('BR-27', `Line ${line.id}: item net price must not be negative`)
+        }
+        if (line.vatCategory === 'S' && line.vatRate <= 0) {
+            fail('BR-S-05', `Line ${line.id}: standard rated line must have a VAT rate above zero`)
+        }
+        if (line.vatCategory === 'Z' && line.vatRate !== 0) {
+            fail('BR-Z-05', `Line ${line.id}: zero rated line must have VAT rate 0`)
+        }
+        if (line.vatCategory === 'AE' && line.vatRate !== 0) {
+            fail('BR-AE-05', `Line ${line.id}: reverse charge line must have VAT rate 0`)
+        }
+        if (line.vatCategory === 'G' && line.vatRate !== 0) {
+            fail('BR-G-05', `Line ${line.id}: export line must have VAT rate 0`)
+        }
+    })
+
+    // VAT identifiers
+    const categories = new Set(document.lines.map(line => line.vatCategory))
+    if (categories.has('S') && !seller.vatId) {
+        fail('BR-S-02', 'Seller VAT identifier is required for standard rated lines')
+    }
+    if (categories.has('Z') && !seller.vatId) {
+        fail('BR-Z-02', 'Seller VAT identifier is required for zero rated lines')
+    }
+    if (categories.has('AE') && (!seller.vatId || (!buyer.vatId && !buyer.legalId))) {
+        fail('BR-AE-02', 'Seller VAT identifier and buyer VAT or legal identifier are required for reverse charge')
+    }
+    if (categories.has('G') && !seller.vatId) {
+        fail('BR-G-02', 'Seller VAT identifier is required for export lines')
+    }
+    for (const party of [seller, buyer]) {
+        if (party.vatId && !/^[A-Z]{2}/.test(party.vatId)) {
+            fail('BR-CO-09', `VAT identifier ${party.vatId} must start with a country code`)
+        }
+    }
+
+    // VAT breakdown
+    if (document.vatBreakdown.length === 0) {
+        fail('BR-CO-18', 'Invoice must have at least one VAT breakdown')
+    }
+    document.vatBreakdown.forEach(row => {
+        const lineNet = sumCents(document.lines
+            .filter(line => line.vatCategory === row.vatCategory && line.vatRate === row.vatRate)
+            .map(line => line.netAmountCents))
+        if (row.taxableCents !== lineNet) {
+            fail(`BR-${row.vatCategory}-08`, `VAT ${row.vatRate} %: taxable amount must equal the sum of line net amounts`)
+        }
+        if (row.taxCents !== percentOfCents(row.taxableCents, row.vatRate)) {
+            fail('BR-CO-17', `VAT ${row.vatRate} %: VAT amount must equal taxable amount × rate`)
+        }
+        if ((row.vatCategory === 'AE' || row.vatCategory === 'G') && !row.exemptionReasonCode && !row.exemptionReason) {
+            fail(`BR-${row.vatCategory}-10`, `VAT category ${row.vatCategory}: exemption reason is required`)
+        }
+    })
+
+    // Totals
+    const lineNetTotal = sumCents(document.lines.map(line => line.netAmountCents))
+    const vatTotal = sumCents(document.vatBreakdown.map(row => row.taxCents))
+    if (totals.lineExtensionCents !== lineNetTotal) {
+        fail('BR-CO-10', 'Sum of line net amounts must equal the line net total')
+    }
+    if (totals.taxExclusiveCents !== totals.lineExtensionCents) {
+        fail('BR-CO-13', 'Total without VAT must equal the sum of line net amounts')
+    }
+    if (totals.taxTotalCents !== vatTotal) {
+        fail('BR-CO-14', 'Total VAT must equal the sum of VAT breakdown amounts')
+    }
+    if (totals.taxInclusiveCents !== totals.taxExclusiveCents + totals.taxTotalCents) {
+        fail('BR-CO-15', 'Total with VAT must equal total without VAT plus total VAT')
+    }
+    if (totals.payableCents !== totals.taxInclusiveCents) {
+        fail('BR-CO-16', 'Amount due must equal total with VAT')
+    }
+    if (totals.payableCents > 0 && !document.dueDate && !document.paymentTerms) {
+        fail('BR-CO-25', 'Due date or payment terms are required when an amount is due')
+    }
+
+    // Peppol BIS Billing 3.0
+    if (!document.buyerReference) {
+        fail('PEPPOL-EN16931-R003', 'Buyer reference is required')
+    }
+    if (!buyer.endpoint) {
+        fail('PEPPOL-EN16931-R010', 'Buyer electronic address (Peppol ID or OVT code) is required')
+    }
+    if (!seller.endpoint) {
+        fail('PEPPOL-EN16931-R020', 'Seller electronic address is required (derived from the Y-tunnus)')
+    }
+
+    return errors
+}
+
+/**
+ * Build and validate an invoice in one step
+ * @param invoice - Invoice with company, customer and line items
+ * @returns Failed rules, empty if the invoice can be sent as an e-invoice
+ */
+export function validateInvoiceEN16931(invoice: EN16931Invoice): EN16931ValidationError[] {
+    return validateEN16931(buildEN16931Document(invoice))
+}
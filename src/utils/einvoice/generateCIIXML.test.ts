@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { generateCIIXML } from '@/utils/einvoice/generateCIIXML'
+import { elementText, findElement, findElements, parseXml } from '@/utils/bank/xml-reader'
+import { sampleCreditNote, sampleInvoice } from '@/utils/einvoice/__fixtures__/invoices'
+
+describe('generateCIIXML', () => {
+    it('writes a Factur-X EN 16931 invoice', () => {
+        const root = parseXml(generateCIIXML(sampleInvoice()))
+        const settlement = findElement(root, 'SupplyChainTradeTransaction/ApplicableHeaderTradeSettlement')
+
+        expect(root.name).toBe('CrossIndustryInvoice')
+        expect(elementText(root, 'ExchangedDocumentContext/GuidelineSpecifiedDocumentContextParameter/ID'))
+            .toBe('urn:cen.eu:en16931:2017')
+        expect(elementText(root, 'ExchangedDocument/ID')).toBe('INV-001')
+        expect(elementText(root, 'ExchangedDocument/TypeCode')).toBe('380')
+        expect(elementText(root, 'ExchangedDocument/IssueDateTime/DateTimeString')).toBe('20260115')
+        expect(elementText(settlement, 'PaymentReference')).toBe('RF74001')
+        expect(elementText(settlement, 'SpecifiedTradeSettlementPaymentMeans/PayeePartyCreditorFinancialAccount/IBANID'))
+            .toBe('FI2112345600000785')
+        expect(elementText(settlement, 'SpecifiedTradeSettlementHeaderMonetarySummation/GrandTotalAmount')).toBe('1642.80')
+        expect(findElements(settlement, 'ApplicableTradeTax').map(tax => elementText(tax, 'CalculatedAmount')))
+            .toEqual(['306.00', '16.80'])
+    })
+
+    it('writes the trade lines and parties', () => {
+        const root = parseXml(generateCIIXML(sampleInvoice()))
+        const transaction = findElement(root, 'SupplyChainTradeTransaction')
+        const lines = findElements(transaction, 'IncludedSupplyChainTradeLineItem')
+
+        expect(lines.map(line => elementText(line, 'SpecifiedTradeProduct/Name'))).toEqual(['Konsultointi', 'Käsikirja'])
+        expect(elementText(lines[0], 'SpecifiedLineTradeDelivery/BilledQuantity')).toBe('12')
+        expect(elementText(transaction, 'ApplicableHeaderTradeAgreement/BuyerReference')).toBe('KP-4410')
+        expect(elementText(transaction, 'ApplicableHeaderTradeAgreement/SellerTradeParty/Name')).toBe('Testi Konsultointi Oy')
+        expect(findElement(transaction, 'ApplicableHeaderTradeDelivery')).not.toBeNull()
+    })
+
+    it('writes a credit note with positive amounts and the original invoice', () => {
+        const root = parseXml(generateCIIXML(sampleCreditNote()))
+        const settlement = findElement(root, 'SupplyChainTradeTransaction/ApplicableHeaderTradeSettlement')
+
+        expect(elementText(root, 'ExchangedDocument/TypeCode')).toBe('381')
+        expect(elementText(settlement, 'InvoiceReferencedDocument/IssuerAssignedID')).toBe('INV-001')
+        expect(elementText(settlement, 'SpecifiedTradeSettlementHeaderMonetarySummation/DuePayableAmount')).toBe('1506.00')
+    })
+})
@@ -0,0 +1,204 @@
+// UN/CEFACT Cross Industry Invoice (CII) XML generator (ZUGFeRD 2 / Factur-X, EN 16931 profile)
+// Serializes the EN 16931 model of an invoice, the same model the UBL generator uses
+// The document is embedded in hybrid PDF/A-3 invoices as factur-x.xml
+//
+// Reference: Factur-X 1.0 / ZUGFeRD 2.x specification
+// https://fnfe-mpe.org/factur-x/
+
+import { formatCents } from '@/lib/money'
+import { buildEN16931Document, EN16931Document, EN16931Invoice, EN16931Party } from '@/utils/einvoice/en16931'
+import { element, formatCompactDate } from '@/utils/einvoice/xml'
+
+// Guideline of the Factur-X EN 16931 (COMFORT) profile
+const GUIDELINE_ID = 'urn:cen.eu:en16931:2017'
+
+// Scheme of the Finnish organisation identifier (Y-tunnus)
+const Y_TUNNUS_SCHEME = '0212'
+
+// UN/ECE rec 20 unit code: C62 = one (unit)
+const UNIT_CODE = 'C62'
+
+/**
+ * Build a date element (format 102 = CCYYMMDD)
+ */
+function dateTime(name: string, date: Date, prefix: 'udt' | 'qdt' = 'udt'): string {
+    return element(name, [
+        element(`${prefix}:DateTimeString`, formatCompactDate(date), { format: '102' }),
+    ])
+}
+
+/**
+ * Build the trade party element shared by seller and buyer
+ */
+function tradeParty(name: string, details: EN16931Party): string {
+    return element(name, [
+        element('ram:Name', details.name),
+        details.legalId
+            ? element('ram:SpecifiedLegalOrganization', [
+                element('ram:ID', details.legalId, { schemeID: Y_TUNNUS_SCHEME }),
+            ])
+            : '',
+        element('ram:DefinedTradeContact', [
+            element('ram:PersonName', details.contactName),
+            element('ram:TelephoneUniversalCommunication', [
+                element('ram:CompleteNumber', details.phone),
+            ]),
+            element('ram:EmailURIUniversalCommunication', [
+                element('ram:URIID', details.email),
+            ]),
+        ]),
+        element('ram:PostalTradeAddress', [
+            element('ram:PostcodeCode', details.postalCode),
+            element('ram:LineOne', details.street),
+            element('ram:LineTwo', details.additionalStreet),
+            element('ram:CityName', details.city),
+            element('ram:CountryID', details.countryCode),
+        ]),
+        details.endpoint
+            ? element('ram:URIUniversalCommunication', [
+                element('ram:URIID', details.endpoint.id, { schemeID: details.endpoint.scheme }),
+            ])
+            : '',
+        details.vatId
+            ? element('ram:SpecifiedTaxRegistration', [
+                element('ram:ID', details.vatId, { schemeID: 'VA' }),
+            ])
+            : '',
+    ])
+}
+
+/**
+ * Serialize an EN 16931 document as CII
+ * Credit notes keep positive amounts, type code 381 gives the sign
+ *
+ * @param document - Document built with buildEN16931Document
+ * @returns CrossIndustryInvoice XML document
+ */
+export function serializeCII(document: EN16931Document): string {
+    const { currency } = document
+
+    const children = [
+        element('rsm:ExchangedDocumentContext', [
+            element('ram:GuidelineSpecifiedDocumentContextParameter', [
+                element('ram:ID', GUIDELINE_ID),
+            ]),
+        ]),
+        element('rsm:ExchangedDocument', [
+            element('ram:ID', document.number),
+            element('ram:TypeCode', document.typeCode),
+            dateTime('ram:IssueDateTime', document.issueDate),
+            document.note
+                ? element('ram:IncludedNote', [element('ram:Content', document.note)])
+                : '',
+        ]),
+        element('rsm:SupplyChainTradeTransaction', [
+            ...document.lines.map(line => element('ram:IncludedSupplyChainTradeLineItem', [
+                element('ram:AssociatedDocumentLineDocument', [
+                    element('ram:LineID', line.id),
+                ]),
+                element('ram:SpecifiedTradeProduct', [
+                    element('ram:Name', line.name),
+                ]),
+                element('ram:SpecifiedLineTradeAgreement', [
+                    element('ram:NetPriceProductTradePrice', [
+                        element('ram:ChargeAmount', formatCents(line.priceCents)),
+                    ]),
+                ]),
+                element('ram:SpecifiedLineTradeDelivery', [
+                    element('ram:BilledQuantity', String(line.quantity), { unitCode: UNIT_CODE }),
+                ]),
+                element('ram:SpecifiedLineTradeSettlement', [
+                    element('ram:ApplicableTradeTax', [
+                        element('ram:TypeCode', 'VAT'),
+                        element('ram:CategoryCode', line.vatCategory),
+                        element('ram:RateApplicablePercent', String(line.vatRate)),
+                    ]),
+                    element('ram:SpecifiedTradeSettlementLineMonetarySummation', [
+                        element('ram:LineTotalAmount', formatCents(line.netAmountCents)),
+                    ]),
+                ]),
+            ])),
+            element('ram:ApplicableHeaderTradeAgreement', [
+                element('ram:BuyerReference', document.buyerReference),
+                tradeParty('ram:SellerTradeParty', document.seller),
+                tradeParty('ram:BuyerTradeParty', document.buyer),
+            ]),
+            // Required by the schema even without delivery details
+            document.delivery
+                ? element('ram:ApplicableHeaderTradeDelivery', [
+                    element('ram:ShipToTradeParty', [
+                        element('ram:Name', document.delivery.name),
+                        element('ram:PostalTradeAddress', [
+                            element('ram:PostcodeCode', document.delivery.postalCode),
+                            element('ram:LineOne', document.delivery.street),
+                            element('ram:LineTwo', document.delivery.additionalStreet),
+                            element('ram:CityName', document.delivery.city),
+                            element('ram:CountryID', document.delivery.countryCode),
+                        ]),
+                    ]),
+                ])
+                : '<ram:ApplicableHeaderTradeDelivery/>',
+            element('ram:ApplicableHeaderTradeSettlement', [
+                element('ram:PaymentReference', document.payment.paymentId),
+                element('ram:InvoiceCurrencyCode', currency),
+                element('ram:SpecifiedTradeSettlementPaymentMeans', [
+                    element('ram:TypeCode', document.payment.meansCode),
+                    element('ram:PayeePartyCreditorFinancialAccount', [
+                        element('ram:IBANID', document.payment.iban),
+                    ]),
+                    document.payment.bic
+                        ? element('ram:PayeeSpecifiedCreditorFinancialInstitution', [
+                            element('ram:BICID', document.payment.bic),
+                        ])
+                        : '',
+                ]),
+                ...document.vatBreakdown.map(row => element('ram:ApplicableTradeTax', [
+                    element('ram:CalculatedAmount', formatCents(row.taxCents)),
+                    element('ram:TypeCode', 'VAT'),
+                    element('ram:ExemptionReason', row.exemptionReason),
+                    element('ram:BasisAmount', formatCents(row.taxableCents)),
+                    element('ram:CategoryCode', row.vatCategory),
+                    element('ram:ExemptionReasonCode', row.exemptionReasonCode),
+                    element('ram:RateApplicablePercent', String(row.vatRate)),
+                ])),
+                element('ram:SpecifiedTradePaymentTerms', [
+                    element('ram:Description', document.paymentTerms),
+                    document.dueDate ? dateTime('ram:DueDateDateTime', document.dueDate) : '',
+                ]),
+                element('ram:SpecifiedTradeSettlementHeaderMonetarySummation', [
+                    element('ram:LineTotalAmount', formatCents(document.totals.lineExtensionCents)),
+                    element('ram:TaxBasisTotalAmount', formatCents(document.totals.taxExclusiveCents)),
+                    element('ram:TaxTotalAmount', formatCents(document.totals.taxTotalCents), { currencyID: currency }),
+                    element('ram:GrandTotalAmount', formatCents(document.totals.taxInclusiveCents)),
+                    element('ram:DuePayableAmount', formatCents(document.totals.payableCents)),
+                ]),
+                document.precedingInvoice
+                    ? element('ram:InvoiceReferencedDocument', [
+                        element('ram:IssuerAssignedID', document.precedingInvoice.number),
+                        dateTime('ram:FormattedIssueDateTime', document.precedingInvoice.issueDate, 'qdt'),
+                    ])
+                    : '',
+            ]),
+        ]),
+    ]
+
+    const root = element('rsm:CrossIndustryInvoice', children, {
+        'xmlns:rsm': 'urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100',
+        'xmlns:ram': 'urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100',
+        'xmlns:qdt': 'urn:un:unece:uncefact:data:standard:QualifiedDataType:100',
+        'xmlns:udt': 'urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100',
+    })
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${root}\n`
+}
+
+/**
+ * Generate Factur-X (EN 16931 profile) CII XML for an invoice or credit note
+ * Validate with validateInvoiceEN16931 before sending
+ *
+ * @param invoice - Invoice with company, customer and line items
+ * @returns CII XML document
+ */
+export function generateCIIXML(invoice: EN16931Invoice): string {
+    return serializeCII(buildEN16931Document(invoice))
+}
@@ -0,0 +1,90 @@
+import { existsSync, readFileSync } from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { validateXML } from 'xmllint-wasm'
+import { generateFinvoiceXML, FinvoiceInvoice } from '@/utils/einvoice/generateFinvoiceXML'
+import { sampleCreditNote, sampleInvoice } from '@/utils/einvoice/__fixtures__/invoices'
+
+type Schema = { fileName: string, contents: string }
+
+const schema: Schema = {
+    fileName: 'finvoice-3.0-subset.xsd',
+    contents: readFileSync(path.join(__dirname, '__fixtures__', 'finvoice-3.0-subset.xsd'), 'utf-8'),
+}
+
+// Official Finvoice3.0.xsd from Finanssiala, not in the repository (see the subset schema's header)
+const officialSchemaPath = process.env.FINVOICE_XSD ?? path.join(__dirname, '__fixtures__', 'Finvoice3.0.xsd')
+const officialSchema: Schema | null = existsSync(officialSchemaPath)
+    ? { fileName: 'Finvoice3.0.xsd', contents: readFileSync(officialSchemaPath, 'utf-8') }
+    : null
+
+/**
+ * Validate a message against a Finvoice schema, returning the schema errors
+ */
+async function schemaErrors(xml: string, against: Schema = schema): Promise<string[]> {
+    const result = await validateXML({ xml: { fileName: 'finvoice.xml', contents: xml }, schema: against })
+    return result.errors.map(error => error.message)
+}
+
+/**
+ * Sample invoice with reverse charge VAT
+ */
+function reverseChargeInvoice(): FinvoiceInvoice {
+    const invoice = sampleInvoice()
+    return {
+        ...invoice,
+        vatTreatment: 'reverse_charge',
+        lineItems: invoice.lineItems.map(item => ({ ...item, vatRate: 0 })),
+    }
+}
+
+describe('generateFinvoiceXML', () => {
+    it('writes an invoice that is valid against the schema', async () => {
+        expect(await schemaErrors(generateFinvoiceXML(sampleInvoice()))).toEqual([])
+    })
+
+    it('writes a credit note that is valid against the schema', async () => {
+        expect(await schemaErrors(generateFinvoiceXML(sampleCreditNote()))).toEqual([])
+    })
+
+    it('refers to the original invoice after the credit note number and date', () => {
+        const xml = generateFinvoiceXML(sampleCreditNote())
+
+        expect(xml).toContain('<InvoiceTypeCode>INV02</InvoiceTypeCode>')
+        expect(xml).toMatch(/<InvoiceNumber>HYV-001<\/InvoiceNumber>\s*<InvoiceDate Format="CCYYMMDD">20260120<\/InvoiceDate>\s*<OriginalInvoiceNumber>INV-001<\/OriginalInvoiceNumber>\s*<OriginalInvoiceDate Format="CCYYMMDD">20260115<\/OriginalInvoiceDate>/)
+        expect(xml).toContain('<InvoiceTotalVatIncludedAmount AmountCurrencyIdentifier="EUR">-1506,00</InvoiceTotalVatIncludedAmount>')
+    })
+
+    it('writes the totals, VAT breakdown and RF reference', () => {
+        const xml = generateFinvoiceXML(sampleInvoice())
+
+        expect(xml).toContain('<InvoiceTotalVatExcludedAmount AmountCurrencyIdentifier="EUR">1320,00</InvoiceTotalVatExcludedAmount>')
+        expect(xml).toContain('<InvoiceTotalVatIncludedAmount AmountCurrencyIdentifier="EUR">1642,80</InvoiceTotalVatIncludedAmount>')
+        expect(xml).toContain('<VatRatePercent>25,5</VatRatePercent>')
+        expect(xml).toContain('<VatRatePercent>14</VatRatePercent>')
+        expect(xml).toContain('<EpiRemittanceInfoIdentifier IdentificationSchemeName="ISO">RF74001</EpiRemittanceInfoIdentifier>')
+        expect(xml).toContain('<BuyerOrganisationName>Asiakas &amp; Kumppanit Oy</BuyerOrganisationName>')
+    })
+
+    it('sends a Finnish reference with scheme SPY', () => {
+        const xml = generateFinvoiceXML({ ...sampleInvoice(), rfReference: '10016' })
+        expect(xml).toContain('<EpiRemittanceInfoIdentifier IdentificationSchemeName="SPY">10016</EpiRemittanceInfoIdentifier>')
+    })
+
+    it('writes reverse charge with its VAT code and legal text', async () => {
+        const xml = generateFinvoiceXML(reverseChargeInvoice())
+
+        expect(await schemaErrors(xml)).toEqual([])
+        expect(xml).toContain('<VatCode>AE</VatCode>')
+        expect(xml).toContain('<RowVatCode>AE</RowVatCode>')
+    })
+})
+
+// Runs when the official schema is available, e.g. FINVOICE_XSD=/path/to/Finvoice3.0.xsd npm test
+describe.skipIf(!officialSchema)('generateFinvoiceXML against the official Finvoice 3.0 schema', () => {
+    it('writes an invoice, a credit note and a reverse charge invoice that are valid', async () => {
+        for (const invoice of [sampleInvoice(), sampleCreditNote(), reverseChargeInvoice()]) {
+            expect(await schemaErrors(generateFinvoiceXML(invoice), officialSchema!)).toEqual([])
+        }
+    })
+})
@@ -0,0 +1,200 @@
+// Finvoice 3.0 XML generator
+// Maps an invoice with its company, customer and line items to a Finvoice 3.0 message
+// Finvoice is the Finnish e-invoice format used between banks and e-invoice operators
+//
+// Reference: Finanssiala, Finvoice 3.0 implementation guidelines and Finvoice3.0.xsd
+// https://www.finanssiala.fi/finvoice/
+
+import type { Company, Customer, Invoice, LineItem } from '@prisma/client'
+import { calculateInvoiceTotals } from '@/lib/invoices/totals'
+import { formatCents } from '@/lib/money'
+import { resolveVatNumber } from '@/utils/eu/vat-number'
+import { element, formatCompactDate } from '@/utils/einvoice/xml'
+import { toCountryCode } from '@/lib/i18n/countries'
+import { vatCategoryOf } from '@/utils/einvoice/en16931'
+import { isVatTreatment, VAT_TREATMENT_LABELS } from '@/utils/finnish/vat-rates'
+import type { InvoiceRecipient } from '@/lib/invoices/recipient'
+
+// Invoice with the relations needed for the message
+// The customer may carry the invoice's contact and addresses (see withInvoiceRecipient)
+export type FinvoiceInvoice = Invoice & {
+    company: Company
+    customer: Customer & InvoiceRecipient
+    lineItems: LineItem[]
+    creditedInvoice?: Pick<Invoice, 'invoiceNumber' | 'invoiceDate'> | null
+}
+
+const CURRENCY = { AmountCurrencyIdentifier: 'EUR' }
+const DATE_FORMAT = { Format: 'CCYYMMDD' }
+
+/**
+ * Format amount in Finvoice notation, decimal comma (e.g., "-15,05")
+ */
+function formatAmount(cents: number): string {
+    return formatCents(cents).replace('.', ',')
+}
+
+/**
+ * Format a decimal number with decimal comma (e.g., 25.5 → "25,5")
+ */
+function formatDecimal(value: number): string {
+    return String(value).replace('.', ',')
+}
+
+/**
+ * Days between invoice date and due date, for the payment terms text
+ */
+function paymentTermDays(invoice: FinvoiceInvoice): number {
+    const dayMs = 24 * 60 * 60 * 1000
+    return Math.round((invoice.dueDate.getTime() - invoice.invoiceDate.getTime()) / dayMs)
+}
+
+/**
+ * Generate Finvoice 3.0 XML for an invoice or credit note
+ *
+ * Credit notes use type code INV02, negative amounts and refer to the original invoice.
+ * RF references are sent with scheme ISO, Finnish national references with scheme SPY.
+ * The transmission envelope (SOAP frame) is added by the e-invoice operator.
+ *
+ * @param invoice - Invoice with company, customer and line items
+ * @returns Finvoice XML document
+ */
+export function generateFinvoiceXML(invoice: FinvoiceInvoice): string {
+    const { company, customer } = invoice
+    const isCreditNote = invoice.type === 'credit_note'
+    const totals = calculateInvoiceTotals(invoice.lineItems)
+
+    // Reverse charge and export are marked with their VAT code and the legal text
+    const vatFreeText = isVatTreatment(invoice.vatTreatment) && invoice.vatTreatment !== 'domestic'
+        ? VAT_TREATMENT_LABELS[invoice.vatTreatment]
+        : null
+    const vatCode = (vatRate: number) => vatFreeText ? vatCategoryOf(vatRate, invoice.vatTreatment) : null
+    const isRFReference = invoice.rfReference.toUpperCase().startsWith('RF')
+    const termDays = paymentTermDays(invoice)
+
+    const seller = [
+        element('SellerPartyDetails', [
+            element('SellerPartyIdentifier', company.businessId),
+            element('SellerOrganisationName', company.name),
+            element('SellerOrganisationTaxCode', resolveVatNumber(company)),
+            element('SellerPostalAddressDetails', [
+                element('SellerStreetName', company.address),
+                element('SellerTownName', company.city),
+                element('SellerPostCodeIdentifier', company.postalCode),
+                element('CountryCode', toCountryCode(company.country)),
+            ]),
+        ]),
+        element('SellerCommunicationDetails', [
+            element('SellerPhoneNumberIdentifier', company.phone),
+            element('SellerEmailaddressIdentifier', company.email),
+        ]),
+        element('SellerInformationDetails', [
+            element('SellerWebaddressIdentifier', company.website),
+            element('SellerAccountDetails', [
+                element('SellerAccountID', company.iban.replace(/\s/g, ''), { IdentificationSchemeName: 'IBAN' }),
+                element('SellerBic', company.bic, { IdentificationSchemeName: 'BIC' }),
+            ]),
+        ]),
+    ]
+
+    const buyer = [
+        element('BuyerPartyDetails', [
+            element('BuyerPartyIdentifier', customer.businessId),
+            element('BuyerOrganisationName', customer.name),
+            element('BuyerOrganisationDepartment', customer.addressName),
+            element('BuyerOrganisationTaxCode', resolveVatNumber(customer)),
+            element('BuyerPostalAddressDetails', [
+                element('BuyerStreetName', customer.address),
+                element('BuyerTownName', customer.city),
+                element('BuyerPostCodeIdentifier', customer.postalCode),
+                element('CountryCode', toCountryCode(customer.country)),
+            ]),
+        ]),
+        element('BuyerContactPersonName', customer.contactName),
+        element('BuyerCommunicationDetails', [
+            element('BuyerPhoneNumberIdentifier', customer.phone),
+            element('BuyerEmailaddressIdentifier', customer.email),
+        ]),
+        customer.deliveryAddress
+            ? element('DeliveryPartyDetails', [
+                element('DeliveryOrganisationName', customer.name),
+                element('DeliveryOrganisationDepartment', customer.deliveryAddress.name),
+                element('DeliveryPostalAddressDetails', [
+                    element('DeliveryStreetName', customer.deliveryAddress.address),
+                    element('DeliveryTownName', customer.deliveryAddress.city),
+                    element('DeliveryPostCodeIdentifier', customer.deliveryAddress.postalCode),
+                    element('CountryCode', toCountryCode(customer.deliveryAddress.country)),
+                ]),
+            ])
+            : '',
+    ]
+
+    const invoiceDetails = element('InvoiceDetails', [
+        element('InvoiceTypeCode', isCreditNote ? 'INV02' : 'INV01'),
+        element('InvoiceTypeText', isCreditNote ? 'HYVITYSLASKU' : 'LASKU'),
+        element('OriginCode', 'Original'),
+        element('InvoiceNumber', invoice.invoiceNumber),
+        element('InvoiceDate', formatCompactDate(invoice.invoiceDate), DATE_FORMAT),
+        element('OriginalInvoiceNumber', invoice.creditedInvoice?.invoiceNumber),
+        element('OriginalInvoiceDate', invoice.creditedInvoice && formatCompactDate(invoice.creditedInvoice.invoiceDate), DATE_FORMAT),
+        element('BuyerReferenceIdentifier', invoice.buyerReference),
+        element('InvoiceTotalVatExcludedAmount', formatAmount(totals.subtotalCents), CURRENCY),
+        element('InvoiceTotalVatAmount', formatAmount(totals.vatAmountCents), CURRENCY),
+        element('InvoiceTotalVatIncludedAmount', formatAmount(totals.totalCents), CURRENCY),
+        ...totals.vatBreakdown.map(row => element('VatSpecificationDetails', [
+            element('VatBaseAmount', formatAmount(row.netCents), CURRENCY),
+            element('VatRatePercent', formatDecimal(row.vatRate)),
+            element('VatCode', vatCode(row.vatRate)),
+            element('VatRateAmount', formatAmount(row.vatCents), CURRENCY),
+            element('VatFreeText', vatFreeText),
+        ])),
+        element('InvoiceFreeText', invoice.notes),
+        element('PaymentTermsDetails', [
+            element('PaymentTermsFreeText', termDays > 0 ? `${termDays} päivää netto` : 'Heti netto'),
+            element('InvoiceDueDate', formatCompactDate(invoice.dueDate), DATE_FORMAT),
+        ]),
+    ])
+
+    const rows = invoice.lineItems.map(item => element('InvoiceRow', [
+        element('ArticleName', item.description),
+        element('DeliveredQuantity', formatDecimal(item.quantity), { QuantityUnitCode: 'kpl' }),
+        element('UnitPriceAmount', formatAmount(item.unitPriceCents), CURRENCY),
+        element('RowVatRatePercent', formatDecimal(item.vatRate)),
+        element('RowVatCode', vatCode(item.vatRate)),
+        element('RowVatExcludedAmount', formatAmount(item.totalCents), CURRENCY),
+    ]))
+
+    // Payment instructions (EPI), used by the buyer's bank to pay the invoice
+    const epi = element('EpiDetails', [
+        element('EpiIdentificationDetails', [
+            element('EpiDate', formatCompactDate(invoice.invoiceDate), DATE_FORMAT),
+            element('EpiReference', invoice.invoiceNumber),
+        ]),
+        element('EpiPartyDetails', [
+            element('EpiBfiPartyDetails', [
+                element('EpiBfiIdentifier', company.bic, { IdentificationSchemeName: 'BIC' }),
+            ]),
+            element('EpiBeneficiaryPartyDetails', [
+                element('EpiNameAddressDetails', company.name),
+                element('EpiBei', company.businessId),
+                element('EpiAccountID', company.iban.replace(/\s/g, ''), { IdentificationSchemeName: 'IBAN' }),
+            ]),
+        ]),
+        element('EpiPaymentInstructionDetails', [
+            element('EpiRemittanceInfoIdentifier', invoice.rfReference.replace(/\s/g, ''), {
+                IdentificationSchemeName: isRFReference ? 'ISO' : 'SPY'
+            }),
+            element('EpiInstructedAmount', formatAmount(totals.totalCents), CURRENCY),
+            element('EpiCharge', 'SHA', { ChargeOption: 'SHA' }),
+            element('EpiDateOptionDate', formatCompactDate(invoice.dueDate), DATE_FORMAT),
+        ]),
+    ])
+
+    const root = element('Finvoice', [...seller, ...buyer, invoiceDetails, ...rows, epi], {
+        Version: '3.0',
+        'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+        'xsi:noNamespaceSchemaLocation': 'Finvoice3.0.xsd',
+    })
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${root}\n`
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { generateUBLXML } from '@/utils/einvoice/generateUBLXML'
+import { elementText, findElement, findElements, parseXml } from '@/utils/bank/xml-reader'
+import { sampleCreditNote, sampleInvoice } from '@/utils/einvoice/__fixtures__/invoices'
+
+describe('generateUBLXML', () => {
+    it('writes a Peppol BIS 3.0 invoice', () => {
+        const root = parseXml(generateUBLXML(sampleInvoice()))
+
+        expect(root.name).toBe('Invoice')
+        expect(root.attributes.xmlns).toBe('urn:oasis:names:specification:ubl:schema:xsd:Invoice-2')
+        expect(elementText(root, 'CustomizationID')).toBe('urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0')
+        expect(elementText(root, 'InvoiceTypeCode')).toBe('380')
+        expect(elementText(root, 'DueDate')).toBe('2026-01-29')
+        expect(elementText(root, 'BuyerReference')).toBe('KP-4410')
+        expect(elementText(root, 'PaymentMeans/PaymentID')).toBe('RF74001')
+        expect(elementText(root, 'PaymentMeans/PayeeFinancialAccount/ID')).toBe('FI2112345600000785')
+        expect(elementText(root, 'LegalMonetaryTotal/PayableAmount')).toBe('1642.80')
+        expect(findElement(root, 'LegalMonetaryTotal/PayableAmount')?.attributes.currencyID).toBe('EUR')
+    })
+
+    it('writes the seller and buyer electronic addresses', () => {
+        const root = parseXml(generateUBLXML(sampleInvoice()))
+        const sellerEndpoint = findElement(root, 'AccountingSupplierParty/Party/EndpointID')
+        const buyerEndpoint = findElement(root, 'AccountingCustomerParty/Party/EndpointID')
+
+        expect(sellerEndpoint?.attributes.schemeID).toBe('0216')
+        expect(sellerEndpoint?.text).toBe('003712345671')
+        expect(buyerEndpoint?.text).toBe('003701120389')
+        expect(elementText(root, 'AccountingCustomerParty/Party/PartyName/Name')).toBe('Asiakas & Kumppanit Oy')
+    })
+
+    it('writes one tax subtotal per VAT rate and one line per line item', () => {
+        const root = parseXml(generateUBLXML(sampleInvoice()))
+        const subtotals = findElements(findElement(root, 'TaxTotal'), 'TaxSubtotal')
+
+        expect(subtotals.map(subtotal => elementText(subtotal, 'TaxCategory/Percent'))).toEqual(['25.5', '14'])
+        expect(subtotals.map(subtotal => elementText(subtotal, 'TaxAmount'))).toEqual(['306.00', '16.80'])
+        expect(findElements(root, 'InvoiceLine')).toHaveLength(2)
+    })
+
+    it('writes a credit note with positive amounts and the original invoice', () => {
+        const root = parseXml(generateUBLXML(sampleCreditNote()))
+        const line = findElements(root, 'CreditNoteLine')[0]
+
+        expect(root.name).toBe('CreditNote')
+        expect(elementText(root, 'CreditNoteTypeCode')).toBe('381')
+        expect(elementText(root, 'BillingReference/InvoiceDocumentReference/ID')).toBe('INV-001')
+        expect(elementText(root, 'PaymentMeans/PaymentDueDate')).toBe('2026-01-20')
+        expect(elementText(line, 'CreditedQuantity')).toBe('12')
+        expect(elementText(root, 'LegalMonetaryTotal/PayableAmount')).toBe('1506.00')
+    })
+})
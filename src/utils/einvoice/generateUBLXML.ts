@@ -0,0 +1,192 @@
+// UBL 2.1 XML generator (Peppol BIS Billing 3.0 / EN 16931)
+// Serializes the EN 16931 model of an invoice as a UBL Invoice or CreditNote document
+//
+// Reference: Peppol BIS Billing 3.0
+// https://docs.peppol.eu/poacc/billing/3.0/
+
+import { formatCents } from '@/lib/money'
+import { buildEN16931Document, EN16931Document, EN16931Invoice, EN16931Party } from '@/utils/einvoice/en16931'
+import { element } from '@/utils/einvoice/xml'
+
+const CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0'
+const PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0'
+
+// Peppol EAS code of the Finnish organisation identifier (Y-tunnus)
+const Y_TUNNUS_SCHEME = '0212'
+
+// UN/ECE rec 20 unit code: C62 = one (unit)
+const UNIT_CODE = 'C62'
+
+/**
+ * Format date as YYYY-MM-DD
+ */
+function formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Build a currency amount element (e.g., <cbc:TaxAmount currencyID="EUR">25.50</cbc:TaxAmount>)
+ */
+function amount(name: string, cents: number, currency: string): string {
+    return element(name, formatCents(cents), { currencyID: currency })
+}
+
+/**
+ * Build the party element shared by seller and buyer
+ */
+function party(details: EN16931Party): string {
+    return element('cac:Party', [
+        details.endpoint
+            ? element('cbc:EndpointID', details.endpoint.id, { schemeID: details.endpoint.scheme })
+            : '',
+        element('cac:PartyName', [
+            element('cbc:Name', details.name),
+        ]),
+        element('cac:PostalAddress', [
+            element('cbc:StreetName', details.street),
+            element('cbc:AdditionalStreetName', details.additionalStreet),
+            element('cbc:CityName', details.city),
+            element('cbc:PostalZone', details.postalCode),
+            element('cac:Country', [
+                element('cbc:IdentificationCode', details.countryCode),
+            ]),
+        ]),
+        details.vatId
+            ? element('cac:PartyTaxScheme', [
+                element('cbc:CompanyID', details.vatId),
+                element('cac:TaxScheme', [element('cbc:ID', 'VAT')]),
+            ])
+            : '',
+        element('cac:PartyLegalEntity', [
+            element('cbc:RegistrationName', details.name),
+            details.legalId ? element('cbc:CompanyID', details.legalId, { schemeID: Y_TUNNUS_SCHEME }) : '',
+        ]),
+        element('cac:Contact', [
+            element('cbc:Name', details.contactName),
+            element('cbc:Telephone', details.phone),
+            element('cbc:ElectronicMail', details.email),
+        ]),
+    ])
+}
+
+/**
+ * Serialize an EN 16931 document as UBL 2.1
+ * @param document - Document built with buildEN16931Document
+ * @returns UBL Invoice or CreditNote XML document
+ */
+export function serializeUBL(document: EN16931Document): string {
+    const { currency, isCreditNote } = document
+    const rootName = isCreditNote ? 'CreditNote' : 'Invoice'
+    const lineName = isCreditNote ? 'cac:CreditNoteLine' : 'cac:InvoiceLine'
+    const quantityName = isCreditNote ? 'cbc:CreditedQuantity' : 'cbc:InvoicedQuantity'
+
+    const children = [
+        element('cbc:CustomizationID', CUSTOMIZATION_ID),
+        element('cbc:ProfileID', PROFILE_ID),
+        element('cbc:ID', document.number),
+        element('cbc:IssueDate', formatDate(document.issueDate)),
+        // Credit notes carry the due date in the payment means
+        !isCreditNote && document.dueDate ? element('cbc:DueDate', formatDate(document.dueDate)) : '',
+        element(isCreditNote ? 'cbc:CreditNoteTypeCode' : 'cbc:InvoiceTypeCode', document.typeCode),
+        element('cbc:Note', document.note),
+        element('cbc:DocumentCurrencyCode', currency),
+        element('cbc:BuyerReference', document.buyerReference),
+        document.precedingInvoice
+            ? element('cac:BillingReference', [
+                element('cac:InvoiceDocumentReference', [
+                    element('cbc:ID', document.precedingInvoice.number),
+                    element('cbc:IssueDate', formatDate(document.precedingInvoice.issueDate)),
+                ]),
+            ])
+            : '',
+        element('cac:AccountingSupplierParty', [party(document.seller)]),
+        element('cac:AccountingCustomerParty', [party(document.buyer)]),
+        document.delivery
+            ? element('cac:Delivery', [
+                element('cac:DeliveryLocation', [
+                    element('cac:Address', [
+                        element('cbc:StreetName', document.delivery.street),
+                        element('cbc:AdditionalStreetName', document.delivery.additionalStreet),
+                        element('cbc:CityName', document.delivery.city),
+                        element('cbc:PostalZone', document.delivery.postalCode),
+                        element('cac:Country', [
+                            element('cbc:IdentificationCode', document.delivery.countryCode),
+                        ]),
+                    ]),
+                ]),
+                element('cac:DeliveryParty', [
+                    element('cac:PartyName', [element('cbc:Name', document.delivery.name)]),
+                ]),
+            ])
+            : '',
+        element('cac:PaymentMeans', [
+            element('cbc:PaymentMeansCode', document.payment.meansCode),
+            isCreditNote && document.dueDate ? element('cbc:PaymentDueDate', formatDate(document.dueDate)) : '',
+            element('cbc:PaymentID', document.payment.paymentId),
+            element('cac:PayeeFinancialAccount', [
+                element('cbc:ID', document.payment.iban),
+                document.payment.bic
+                    ? element('cac:FinancialInstitutionBranch', [element('cbc:ID', document.payment.bic)])
+                    : '',
+            ]),
+        ]),
+        element('cac:PaymentTerms', [
+            element('cbc:Note', document.paymentTerms),
+        ]),
+        element('cac:TaxTotal', [
+            amount('cbc:TaxAmount', document.totals.taxTotalCents, currency),
+            ...document.vatBreakdown.map(row => element('cac:TaxSubtotal', [
+                amount('cbc:TaxableAmount', row.taxableCents, currency),
+                amount('cbc:TaxAmount', row.taxCents, currency),
+                element('cac:TaxCategory', [
+                    element('cbc:ID', row.vatCategory),
+                    element('cbc:Percent', String(row.vatRate)),
+                    element('cbc:TaxExemptionReasonCode', row.exemptionReasonCode),
+                    element('cbc:TaxExemptionReason', row.exemptionReason),
+                    element('cac:TaxScheme', [element('cbc:ID', 'VAT')]),
+                ]),
+            ])),
+        ]),
+        element('cac:LegalMonetaryTotal', [
+            amount('cbc:LineExtensionAmount', document.totals.lineExtensionCents, currency),
+            amount('cbc:TaxExclusiveAmount', document.totals.taxExclusiveCents, currency),
+            amount('cbc:TaxInclusiveAmount', document.totals.taxInclusiveCents, currency),
+            amount('cbc:PayableAmount', document.totals.payableCents, currency),
+        ]),
+        ...document.lines.map(line => element(lineName, [
+            element('cbc:ID', line.id),
+            element(quantityName, String(line.quantity), { unitCode: UNIT_CODE }),
+            amount('cbc:LineExtensionAmount', line.netAmountCents, currency),
+            element('cac:Item', [
+                element('cbc:Name', line.name),
+                element('cac:ClassifiedTaxCategory', [
+                    element('cbc:ID', line.vatCategory),
+                    element('cbc:Percent', String(line.vatRate)),
+                    element('cac:TaxScheme', [element('cbc:ID', 'VAT')]),
+                ]),
+            ]),
+            element('cac:Price', [
+                amount('cbc:PriceAmount', line.priceCents, currency),
+            ]),
+        ])),
+    ]
+
+    const root = element(rootName, children, {
+        xmlns: `urn:oasis:names:specification:ubl:schema:xsd:${rootName}-2`,
+        'xmlns:cac': 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+        'xmlns:cbc': 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+    })
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${root}\n`
+}
+
+/**
+ * Generate Peppol BIS Billing 3.0 UBL XML for an invoice or credit note
+ * Validate with validateInvoiceEN16931 before sending
+ *
+ * @param invoice - Invoice with company, customer and line items
+ * @returns UBL XML document
+ */
+export function generateUBLXML(invoice: EN16931Invoice): string {
+    return serializeUBL(buildEN16931Document(invoice))
+}
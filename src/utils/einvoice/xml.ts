@@ -0,0 +1,62 @@
+// Shared helpers for e-invoice XML messages
+// Escaping, element building and value formats used by the Finvoice and UBL serializers
+
+/**
+ * Escape text for XML element content and attribute values
+ */
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+}
+
+/**
+ * Build an XML element
+ * Returns an empty string for null, undefined and empty values,
+ * so optional elements can be listed unconditionally
+ *
+ * @param name - Element name
+ * @param content - Text content (escaped) or child elements (array, not escaped)
+ * @param attributes - Attribute values (escaped)
+ */
+export function element(
+    name: string,
+    content: string | number | null | undefined | string[],
+    attributes: Record<string, string> = {}
+): string {
+    if (content === null || content === undefined || content === '') {
+        return ''
+    }
+
+    const attributeText = Object.entries(attributes)
+        .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+        .join('')
+
+    if (Array.isArray(content)) {
+        const children = content.filter(child => child !== '')
+        if (children.length === 0) {
+            return ''
+        }
+        return `<${name}${attributeText}>\n${indent(children.join('\n'))}\n</${name}>`
+    }
+
+    return `<${name}${attributeText}>${escapeXml(String(content))}</${name}>`
+}
+
+/**
+ * Indent every line of a block by two spaces
+ */
+function indent(block: string): string {
+    return block.split('\n').map(line => `  ${line}`).join('\n')
+}
+
+/**
+ * Format date as CCYYMMDD (e.g., 20260131)
+ * Uses the UTC date, invoice dates are stored as UTC midnight
+ */
+export function formatCompactDate(date: Date): string {
+    return date.toISOString().slice(0, 10).replace(/-/g, '')
+}
@@ -0,0 +1,111 @@
+/**
+ * IBAN (International Bank Account Number) and BIC utilities
+ *
+ * Format: 2 letter country code + 2 check digits + national account number (BBAN)
+ * Check digits: with the first 4 characters moved to the end and letters replaced
+ * by numbers (A = 10 ... Z = 35), the number modulo 97 must be 1 (ISO 13616)
+ * IBANs are stored normalised (FI2112345600000785) and shown in groups of four
+ */
+
+// IBAN length of the SEPA countries, other countries only get the general 15-34 check
+export const IBAN_LENGTHS: Record<string, number> = {
+    AD: 24, AT: 20, BE: 16, BG: 22, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18, EE: 20,
+    ES: 24, FI: 18, FR: 27, GB: 22, GI: 23, GR: 27, HR: 21, HU: 28, IE: 22, IS: 26,
+    IT: 27, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28,
+    PT: 25, RO: 24, SE: 24, SI: 19, SK: 24, SM: 27, VA: 22,
+}
+
+/**
+ * Modulo 97 of an IBAN rearranged for the check
+ * Letters are converted to two digit numbers and the remainder is
+ * calculated digit by digit to avoid BigInt
+ */
+function ibanMod97(rearranged: string): number {
+    let remainder = 0
+
+    for (const char of rearranged) {
+        const value = parseInt(char, 36)
+        // Letters (10-35) add two digits, numbers one
+        remainder = value >= 10
+            ? (remainder * 100 + value) % 97
+            : (remainder * 10 + value) % 97
+    }
+
+    return remainder
+}
+
+/**
+ * Calculate the check digits of an IBAN
+ *
+ * @param countryCode - Country code (e.g., "FI")
+ * @param bban - National account number (e.g., "12345600000785")
+ * @returns Two check digits (e.g., "21")
+ */
+export function calculateIbanCheckDigits(countryCode: string, bban: string): string {
+    const remainder = ibanMod97(`${bban}${countryCode}00`.toUpperCase())
+    return (98 - remainder).toString().padStart(2, '0')
+}
+
+/**
+ * Normalise an IBAN: uppercase without spaces or dashes
+ *
+ * @param iban - IBAN as entered (e.g., "fi21 1234 5600 0007 85")
+ * @returns Normalised IBAN (e.g., "FI2112345600000785")
+ */
+export function normalizeIban(iban: string): string {
+    return iban.replace(/[\s\-]/g, '').toUpperCase()
+}
+
+/**
+ * Validate an IBAN
+ * Checks the format, the length of the country and the mod-97 check digits,
+ * input is normalised first
+ *
+ * @param iban - IBAN to validate (e.g., "FI21 1234 5600 0007 85")
+ * @returns true if valid, false otherwise
+ */
+export function validateIban(iban: string): boolean {
+    const normalized = normalizeIban(iban)
+
+    if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(normalized)) {
+        return false
+    }
+
+    const expectedLength = IBAN_LENGTHS[normalized.slice(0, 2)]
+    if (expectedLength && normalized.length !== expectedLength) {
+        return false
+    }
+
+    return ibanMod97(normalized.slice(4) + normalized.slice(0, 4)) === 1
+}
+
+/**
+ * Format an IBAN for display in groups of four characters
+ *
+ * @param iban - IBAN (e.g., "FI2112345600000785")
+ * @returns Formatted IBAN (e.g., "FI21 1234 5600 0007 85")
+ */
+export function formatIban(iban: string): string {
+    return normalizeIban(iban).replace(/(.{4})(?=.)/g, '$1 ')
+}
+
+/**
+ * Normalise a BIC: uppercase without spaces
+ *
+ * @param bic - BIC as entered (e.g., "ndea fihh")
+ * @returns Normalised BIC (e.g., "NDEAFIHH")
+ */
+export function normalizeBic(bic: string): string {
+    return bic.replace(/\s/g, '').toUpperCase()
+}
+
+/**
+ * Validate the format of a BIC (ISO 9362)
+ * 4 letter bank code + 2 letter country code + 2 character location + optional 3 character branch
+ *
+ * @param bic - BIC to validate (e.g., "NDEAFIHH"), input is normalised first
+ * @returns true if valid, false otherwise
+ */
+export function validateBic(bic: string): boolean {
+    return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(normalizeBic(bic))
+}
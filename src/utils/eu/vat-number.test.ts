@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeVatNumber, resolveVatNumber, validateVatNumber } from '@/utils/eu/vat-number'
+
+describe('validateVatNumber', () => {
+    it('checks the national format of each member state', () => {
+        expect(validateVatNumber('SE556677889901')).toBe(true)
+        expect(validateVatNumber('DE123456789')).toBe(true)
+        expect(validateVatNumber('NL123456789B01')).toBe(true)
+        expect(validateVatNumber('DE12345678')).toBe(false)
+        expect(validateVatNumber('US123456789')).toBe(false)
+    })
+
+    it('checks Finnish numbers against the Y-tunnus check digit', () => {
+        expect(validateVatNumber('FI01120389')).toBe(true)
+        expect(validateVatNumber('FI12345678')).toBe(false)
+    })
+
+    it('uses the VAT prefix EL for Greece', () => {
+        expect(normalizeVatNumber('gr 123.456.789')).toBe('EL123456789')
+        expect(validateVatNumber('GR123456789')).toBe(true)
+    })
+
+    it('derives the VAT number from a valid Y-tunnus when none is given', () => {
+        expect(resolveVatNumber({ businessId: '0112038-9', country: 'FI' })).toBe('FI01120389')
+        expect(resolveVatNumber({ businessId: '0112038-9', country: 'Finland', vatRegistered: true })).toBe('FI01120389')
+        expect(resolveVatNumber({ businessId: '0112038-9', vatNumber: 'se 5566778899 01', country: 'FI' })).toBe('SE556677889901')
+        expect(resolveVatNumber({ businessId: '1234567-8', country: 'FI' })).toBeNull()
+        expect(resolveVatNumber({ businessId: null, country: 'FI' })).toBeNull()
+    })
+
+    it('derives no VAT number for Finnish parties outside the VAT register', () => {
+        expect(resolveVatNumber({ businessId: '0112038-9', country: 'FI', vatRegistered: false })).toBeNull()
+    })
+
+    it('keeps the VAT number entered for foreign parties', () => {
+        // Estonian registry code that happens to pass the Y-tunnus check
+        expect(resolveVatNumber({ businessId: '0112038-9', country: 'EE' })).toBeNull()
+        expect(resolveVatNumber({ businessId: '0112038-9', vatNumber: 'EE101234567', country: 'EE' })).toBe('EE101234567')
+    })
+})
@@ -0,0 +1,114 @@
+/**
+ * EU VAT numbers (VAT identification numbers)
+ *
+ * Format: 2 letter country prefix + national number (e.g., FI12345678, SE556677889901)
+ * Greece uses the prefix EL, Northern Ireland XI
+ * Only the format is checked here, see @/lib/vat/vies for the registration check
+ */
+
+import { businessIdToVatNumber, validateBusinessId } from '@/utils/finnish/business-id'
+import { DEFAULT_COUNTRY, toCountryCode } from '@/lib/i18n/countries'
+
+// National number format of each member state (without the country prefix)
+export const EU_VAT_NUMBER_PATTERNS: Record<string, RegExp> = {
+    AT: /^U\d{8}$/,
+    BE: /^[01]\d{9}$/,
+    BG: /^\d{9,10}$/,
+    CY: /^\d{8}[A-Z]$/,
+    CZ: /^\d{8,10}$/,
+    DE: /^\d{9}$/,
+    DK: /^\d{8}$/,
+    EE: /^\d{9}$/,
+    EL: /^\d{9}$/,
+    ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+    FI: /^\d{8}$/,
+    FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+    HR: /^\d{11}$/,
+    HU: /^\d{8}$/,
+    IE: /^\d[A-Z0-9+*]\d{5}[A-W][A-I]?$/,
+    IT: /^\d{11}$/,
+    LT: /^(\d{9}|\d{12})$/,
+    LU: /^\d{8}$/,
+    LV: /^\d{11}$/,
+    MT: /^\d{8}$/,
+    NL: /^\d{9}B\d{2}$/,
+    PL: /^\d{10}$/,
+    PT: /^\d{9}$/,
+    RO: /^[1-9]\d{1,9}$/,
+    SE: /^\d{10}01$/,
+    SI: /^\d{8}$/,
+    SK: /^\d{10}$/,
+    XI: /^(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/,
+}
+
+/**
+ * Normalise a VAT number: uppercase without spaces, dots or dashes
+ * The ISO code GR is replaced with the VAT prefix EL
+ *
+ * @param vatNumber - VAT number as entered (e.g., "se 5566-7788-9901")
+ * @returns Normalised VAT number (e.g., "SE556677889901")
+ */
+export function normalizeVatNumber(vatNumber: string): string {
+    const cleaned = vatNumber.replace(/[\s.\-]/g, '').toUpperCase()
+    return cleaned.startsWith('GR') ? `EL${cleaned.slice(2)}` : cleaned
+}
+
+/**
+ * Split a VAT number into country prefix and national number
+ * @param vatNumber - VAT number (e.g., "FI12345678")
+ * @returns Prefix and number (e.g., { countryCode: "FI", number: "12345678" })
+ */
+export function parseVatNumber(vatNumber: string): { countryCode: string, number: string } {
+    const normalized = normalizeVatNumber(vatNumber)
+    return { countryCode: normalized.slice(0, 2), number: normalized.slice(2) }
+}
+
+/**
+ * Validate the format of an EU VAT number
+ * Finnish numbers are also checked against the Y-tunnus check digit
+ *
+ * @param vatNumber - VAT number to validate (e.g., "FI12345678"), input is normalised first
+ * @returns true if valid, false otherwise
+ */
+export function validateVatNumber(vatNumber: string): boolean {
+    const { countryCode, number } = parseVatNumber(vatNumber)
+    const pattern = EU_VAT_NUMBER_PATTERNS[countryCode]
+
+    if (!pattern || !pattern.test(number)) {
+        return false
+    }
+
+    if (countryCode === 'FI') {
+        return validateBusinessId(`${number.slice(0, 7)}-${number.slice(7)}`)
+    }
+
+    return true
+}
+
+// Customer or company whose VAT number is resolved
+export interface VatParty {
+    businessId: string | null
+    vatNumber?: string | null
+    country: string | null      // Country as stored, the default country (Finland) if empty
+    vatRegistered?: boolean     // In the Finnish VAT register, companies are unless told otherwise
+}
+
+/**
+ * VAT number of a customer or company
+ * A given VAT number wins, otherwise the Y-tunnus of a Finnish party in the VAT register
+ * gives the Finnish VAT number. Foreign parties only have the VAT number entered for them.
+ *
+ * @param party - Customer or company
+ * @returns VAT number (e.g., "FI12345678"), or null if the party has none (e.g., private persons)
+ */
+export function resolveVatNumber(party: VatParty): string | null {
+    if (party.vatNumber) {
+        return normalizeVatNumber(party.vatNumber)
+    }
+
+    const isFinnish = toCountryCode(party.country || DEFAULT_COUNTRY) === 'FI'
+    if (isFinnish && party.vatRegistered !== false && party.businessId && validateBusinessId(party.businessId)) {
+        return businessIdToVatNumber(party.businessId)
+    }
+    return null
+}
@@ -0,0 +1,69 @@
+/**
+ * Finnish bank identifiers and BIC codes
+ *
+ * The bank is identified by the first digits of the account number, i.e. the BBAN
+ * after the country code and check digits of the IBAN (FI21 1234 5600 0007 85 → 1, Nordea)
+ * Source: Finance Finland, "Suomalaiset rahalaitostunnukset ja BIC-koodit"
+ */
+
+import { normalizeIban, validateIban } from '@/utils/eu/iban'
+
+// Bank ID (leading account number digits) → BIC, the longest matching ID wins
+export const FINNISH_BANK_BICS: Record<string, string> = {
+    '1': 'NDEAFIHH',      // Nordea
+    '2': 'NDEAFIHH',      // Nordea
+    '31': 'HANDFIHH',     // Handelsbanken
+    '33': 'ESSEFIHX',     // SEB
+    '34': 'DABAFIHX',     // Danske Bank
+    '36': 'SBANFIHH',     // S-Pankki
+    '37': 'DNBAFIHX',     // DNB
+    '38': 'SWEDFIHH',     // Swedbank
+    '39': 'SBANFIHH',     // S-Pankki
+    '4': 'ITELFIHH',      // Säästöpankit and Oma Säästöpankki
+    '405': 'HELSFIHH',    // Aktia
+    '497': 'HELSFIHH',    // Aktia
+    '470': 'POPFFI22',    // POP Pankit
+    '471': 'POPFFI22',
+    '472': 'POPFFI22',
+    '473': 'POPFFI22',
+    '474': 'POPFFI22',
+    '475': 'POPFFI22',
+    '476': 'POPFFI22',
+    '477': 'POPFFI22',
+    '478': 'POPFFI22',
+    '479': 'POPFFI22',    // Bonum Pankki
+    '5': 'OKOYFIHH',      // OP
+    '6': 'AABAFI22',      // Ålandsbanken
+    '711': 'BSUIFIHH',    // Crédit Agricole CIB
+    '713': 'CITIFIHX',    // Citibank
+    '715': 'ITELFIHH',    // Säästöpankit
+    '717': 'BIGKFIH1',    // Bigbank
+    '798': 'VPAYFIH2',    // Viva Payment Services
+    '799': 'HOLVFIHH',    // Holvi
+    '8': 'DABAFIHH',      // Danske Bank
+}
+
+/**
+ * Look up the BIC of a Finnish bank account
+ *
+ * @param iban - Finnish IBAN (e.g., "FI21 1234 5600 0007 85")
+ * @returns BIC (e.g., "NDEAFIHH"), or null if the IBAN is not a valid
+ * Finnish IBAN or the bank ID is not in the table
+ */
+export function bicFromFinnishIban(iban: string): string | null {
+    const normalized = normalizeIban(iban)
+
+    if (!normalized.startsWith('FI') || !validateIban(normalized)) {
+        return null
+    }
+
+    const account = normalized.slice(4)
+    for (let length = 3; length >= 1; length--) {
+        const bic = FINNISH_BANK_BICS[account.slice(0, length)]
+        if (bic) {
+            return bic
+        }
+    }
+
+    return null
+}
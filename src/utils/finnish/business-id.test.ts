@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import {
+    businessIdToVatNumber,
+    normalizeBusinessId,
+    validateBusinessId,
+    vatNumberToBusinessId,
+} from '@/utils/finnish/business-id'
+
+describe('Y-tunnus', () => {
+    it('accepts IDs with a correct check digit', () => {
+        expect(validateBusinessId('0112038-9')).toBe(true)
+        expect(validateBusinessId('1234567-1')).toBe(true)
+        expect(validateBusinessId('1234562-0')).toBe(true)    // Remainder 0 gives check digit 0
+    })
+
+    it('rejects a wrong check digit and bases that give remainder 1', () => {
+        expect(validateBusinessId('1234567-8')).toBe(false)
+        expect(validateBusinessId('1234568-0')).toBe(false)
+        expect(validateBusinessId('1234568-1')).toBe(false)
+    })
+
+    it('normalises the dash, spaces and old 6 digit IDs', () => {
+        expect(normalizeBusinessId(' 01120389 ')).toBe('0112038-9')
+        expect(normalizeBusinessId('112038-9')).toBe('0112038-9')
+        expect(normalizeBusinessId(' FI01120389 ')).toBe('FI01120389')
+        expect(validateBusinessId('112038-9')).toBe(true)
+    })
+
+    it('converts between Y-tunnus and the Finnish VAT number', () => {
+        expect(businessIdToVatNumber('0112038-9')).toBe('FI01120389')
+        expect(vatNumberToBusinessId('fi 01120389')).toBe('0112038-9')
+        expect(vatNumberToBusinessId('SE556677889901')).toBeNull()
+    })
+})
@@ -0,0 +1,85 @@
+/**
+ * Finnish business ID (Y-tunnus) utilities
+ *
+ * Format: 7 digits + dash + check digit (e.g., 1234567-8)
+ * Check digit: the 7 digits are multiplied with weights 7, 9, 10, 5, 8, 4, 2 and summed,
+ * remainder 0 gives check digit 0, remainder 1 is never issued, otherwise 11 - remainder
+ * The Finnish VAT number is FI + the same 8 digits without the dash (e.g., FI12345678)
+ */
+
+const WEIGHTS = [7, 9, 10, 5, 8, 4, 2]
+
+/**
+ * Calculate the check digit of a Y-tunnus
+ * @param base - First 7 digits of the Y-tunnus
+ * @returns Check digit, or null if no Y-tunnus can have this base (remainder 1)
+ */
+function checkDigit(base: string): number | null {
+    let sum = 0
+    for (let i = 0; i < WEIGHTS.length; i++) {
+        sum += parseInt(base[i]) * WEIGHTS[i]
+    }
+
+    const remainder = sum % 11
+    if (remainder === 1) {
+        return null
+    }
+    return remainder === 0 ? 0 : 11 - remainder
+}
+
+/**
+ * Normalise a Y-tunnus to the standard 1234567-8 form
+ * Spaces are removed, the dash is added if missing and
+ * old 6 digit IDs (123456-7) get their leading zero
+ *
+ * @param businessId - Y-tunnus as entered (e.g., "12345678" or "123456-7")
+ * @returns Normalised Y-tunnus, or the trimmed input if it isn't one
+ */
+export function normalizeBusinessId(businessId: string): string {
+    const cleaned = businessId.replace(/\s/g, '')
+    const match = cleaned.match(/^(\d{6,7})-?(\d)$/)
+
+    if (!match) {
+        return businessId.trim()
+    }
+
+    return `${match[1].padStart(7, '0')}-${match[2]}`
+}
+
+/**
+ * Validate a Y-tunnus
+ * Checks the format and the check digit, input is normalised first
+ *
+ * @param businessId - Y-tunnus to validate (e.g., "1234567-8")
+ * @returns true if valid, false otherwise
+ */
+export function validateBusinessId(businessId: string): boolean {
+    const normalized = normalizeBusinessId(businessId)
+
+    if (!/^\d{7}-\d$/.test(normalized)) {
+        return false
+    }
+
+    return checkDigit(normalized.slice(0, 7)) === parseInt(normalized.slice(-1))
+}
+
+/**
+ * Convert a Y-tunnus to the Finnish VAT number
+ *
+ * @param businessId - Y-tunnus (e.g., "1234567-8")
+ * @returns VAT number (e.g., "FI12345678")
+ */
+export function businessIdToVatNumber(businessId: string): string {
+    return `FI${normalizeBusinessId(businessId).replace(/\D/g, '')}`
+}
+
+/**
+ * Convert a Finnish VAT number to the Y-tunnus
+ *
+ * @param vatNumber - VAT number (e.g., "FI12345678")
+ * @returns Y-tunnus (e.g., "1234567-8"), or null if not a Finnish VAT number
+ */
+export function vatNumberToBusinessId(vatNumber: string): string | null {
+    const match = vatNumber.replace(/\s/g, '').toUpperCase().match(/^FI(\d{7})(\d)$/)
+    return match ? `${match[1]}-${match[2]}` : null
+}
@@ -0,0 +1,61 @@
+/**
+ * Finnish national reference number (kotimainen viitenumero)
+ * Domestic reference used by Finnish banks before RF references
+ *
+ * Format: 3-19 digit base + 1 check digit (4-20 digits total)
+ * Check digit: base digits are multiplied from right to left with weights 7, 3, 1, 7, 3, 1 ...
+ * and the check digit is the difference of the sum to the next full ten (10 → 0)
+ * Example: 123 → 1232
+ */
+
+const WEIGHTS = [7, 3, 1]
+
+/**
+ * Calculate the 7-3-1 check digit of a reference base
+ * @param base - Reference base digits
+ */
+function checkDigit(base: string): number {
+    let sum = 0
+
+    // Weights run from the rightmost digit
+    for (let i = 0; i < base.length; i++) {
+        const digit = parseInt(base[base.length - 1 - i])
+        sum += digit * WEIGHTS[i % 3]
+    }
+
+    return (10 - (sum % 10)) % 10
+}
+
+/**
+ * Generate Finnish reference number from a reference base
+ *
+ * @param base - Base number, 3-19 digits (e.g., "123"), non-digits are ignored
+ * @returns Reference with check digit appended (e.g., "1232")
+ */
+export function calculateFinnishReference(base: string): string {
+    const digits = base.replace(/\D/g, '')
+
+    if (digits.length < 3 || digits.length > 19) {
+        throw new Error(`Reference base must be 3-19 digits, got ${digits.length}`)
+    }
+
+    return `${digits}${checkDigit(digits)}`
+}
+
+/**
+ * Validate Finnish reference number
+ * Checks length and check digit, spaces are allowed (e.g., "12345 67897")
+ *
+ * @param reference - Reference to validate (e.g., "1232")
+ * @returns true if valid, false otherwise
+ */
+export function validateFinnishReference(reference: string): boolean {
+    const cleaned = reference.replace(/\s/g, '')
+
+    if (!/^\d{4,20}$/.test(cleaned)) {
+        return false
+    }
+
+    const base = cleaned.slice(0, -1)
+    return checkDigit(base) === parseInt(cleaned.slice(-1))
+}
@@ -0,0 +1,65 @@
+/**
+ * Finnish VAT rates (arvonlisävero, ALV)
+ *
+ * 25.5 % - General rate (from 1.9.2024)
+ * 14 %   - Food, restaurant and catering services
+ * 10 %   - Books, medicines, passenger transport, cultural events
+ * 0 %    - Zero-rated sales (e.g. reverse charge, exports)
+ */
+
+export const FINNISH_VAT_RATES = [25.5, 14, 10, 0] as const
+
+// Rate used for new line items unless the user picks another one
+export const DEFAULT_VAT_RATE = 25.5
+
+/**
+ * Check if a value is one of the Finnish VAT rates
+ */
+export function isFinnishVatRate(value: unknown): value is typeof FINNISH_VAT_RATES[number] {
+    return typeof value === 'number' && (FINNISH_VAT_RATES as readonly number[]).includes(value)
+}
+
+/**
+ * Format VAT rate in Finnish notation
+ *
+ * @param vatRate - VAT percentage (e.g., 25.5)
+ * @returns Formatted rate (e.g., "25,5 %")
+ */
+export function formatVatRate(vatRate: number): string {
+    return `${vatRate.toString().replace('.', ',')} %`
+}
+
+/**
+ * VAT treatment of an invoice
+ *
+ * domestic       - Finnish VAT at the line rates
+ * reverse_charge - Buyer pays the VAT (käännetty verovelvollisuus, AVL 8 c § and EU B2B services)
+ * export         - Export outside the EU, VAT 0 % (AVL 70 §)
+ */
+export const VAT_TREATMENTS = ['domestic', 'reverse_charge', 'export'] as const
+
+export type VatTreatment = typeof VAT_TREATMENTS[number]
+
+export const DEFAULT_VAT_TREATMENT: VatTreatment = 'domestic'
+
+// Finnish display labels for each treatment
+export const VAT_TREATMENT_LABELS: Record<VatTreatment, string> = {
+    domestic: 'Kotimaan myynti',
+    reverse_charge: 'Käännetty verovelvollisuus',
+    export: 'Vienti EU:n ulkopuolelle',
+}
+
+/**
+ * Check if a value is a known VAT treatment
+ */
+export function isVatTreatment(value: unknown): value is VatTreatment {
+    return typeof value === 'string' && (VAT_TREATMENTS as readonly string[]).includes(value)
+}
+
+/**
+ * Check if line VAT rates are allowed for a treatment
+ * Reverse charge and export invoices carry no Finnish VAT, so all lines must be 0 %
+ */
+export function isVatRateAllowed(vatRate: number, treatment: string): boolean {
+    return treatment === 'domestic' || vatRate === 0
+}
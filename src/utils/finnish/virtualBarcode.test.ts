@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import { generateVirtualBarcode, isVirtualBarcodeAccount, parseVirtualBarcode } from '@/utils/finnish/virtualBarcode'
+
+// Samples of the Finanssiala bank barcode guide (Pankkiviivakoodi-opas)
+const SAMPLES = [
+    {
+        iban: 'FI79 4405 2020 0360 82',
+        amountCents: 488315,
+        reference: '86851 62596 19897',
+        dueDate: new Date(2010, 5, 12),
+        barcode: '479440520200360820048831500000000868516259619897100612',
+    },
+    {
+        iban: 'FI58 1017 1000 0001 22',
+        amountCents: 48299,
+        reference: '55958 22432 94671',
+        dueDate: new Date(2012, 0, 31),
+        barcode: '458101710000001220004829900000000559582243294671120131',
+    },
+    {
+        iban: 'FI02 5000 4640 0013 02',
+        amountCents: 69380,
+        reference: '69 87567 20834 35364',
+        dueDate: new Date(2011, 6, 24),
+        barcode: '402500046400013020006938000000069875672083435364110724',
+    },
+    {
+        iban: 'FI16 8000 1400 0502 67',
+        amountCents: 93585,
+        reference: '78 77767 96566 28687',
+        dueDate: null,
+        barcode: '416800014000502670009358500000078777679656628687000000',
+    },
+    {
+        iban: 'FI79 4405 2020 0360 82',
+        amountCents: 488315,
+        reference: 'RF09 8685 1625 9619 897',
+        dueDate: new Date(2010, 5, 12),
+        barcode: '579440520200360820048831509000000868516259619897100612',
+    },
+]
+
+describe('generateVirtualBarcode', () => {
+    it.each(SAMPLES)('encodes the guide sample $barcode', (sample) => {
+        expect(generateVirtualBarcode(sample.iban, sample.amountCents, sample.reference, sample.dueDate))
+            .toBe(sample.barcode)
+    })
+
+    it('writes zeros for amounts over 999 999,99 €', () => {
+        const barcode = generateVirtualBarcode('FI79 4405 2020 0360 82', 100000000, '86851 62596 19897', null)
+        expect(barcode.slice(17, 25)).toBe('00000000')
+    })
+
+    it('keeps the largest amount that fits', () => {
+        const barcode = generateVirtualBarcode('FI79 4405 2020 0360 82', 99999999, '86851 62596 19897', null)
+        expect(barcode.slice(17, 25)).toBe('99999999')
+    })
+
+    it('rejects an IBAN of another country', () => {
+        expect(() => generateVirtualBarcode('DE89 3704 0044 0532 0130 00', 100, '86851 62596 19897', null))
+            .toThrow('Finnish IBAN')
+    })
+
+    it('rejects a Finnish reference with a wrong check digit', () => {
+        expect(() => generateVirtualBarcode('FI79 4405 2020 0360 82', 100, '86851 62596 19898', null))
+            .toThrow('Finnish reference')
+    })
+
+    it('rejects an RF reference with wrong check digits', () => {
+        expect(() => generateVirtualBarcode('FI79 4405 2020 0360 82', 100, 'RF10 8685 1625 9619 897', null))
+            .toThrow('RF reference')
+    })
+
+    it('rejects a negative amount', () => {
+        expect(() => generateVirtualBarcode('FI79 4405 2020 0360 82', -1, '86851 62596 19897', null))
+            .toThrow('non-negative')
+    })
+})
+
+describe('isVirtualBarcodeAccount', () => {
+    it('accepts only Finnish IBANs', () => {
+        expect(isVirtualBarcodeAccount('FI79 4405 2020 0360 82')).toBe(true)
+        expect(isVirtualBarcodeAccount('fi7944052020036082')).toBe(true)
+        expect(isVirtualBarcodeAccount('DE89 3704 0044 0532 0130 00')).toBe(false)
+        expect(isVirtualBarcodeAccount('SE45 5000 0000 0583 9825 7466')).toBe(false)
+    })
+})
+
+describe('parseVirtualBarcode', () => {
+    it.each(SAMPLES)('decodes the guide sample $barcode', (sample) => {
+        expect(parseVirtualBarcode(sample.barcode)).toEqual({
+            version: sample.reference.startsWith('RF') ? 5 : 4,
+            iban: sample.iban.replace(/\s/g, ''),
+            amountCents: sample.amountCents,
+            reference: sample.reference.replace(/\s/g, ''),
+            dueDate: sample.dueDate,
+        })
+    })
+
+    it('reads a zero amount as not given', () => {
+        const barcode = generateVirtualBarcode('FI79 4405 2020 0360 82', 100000000, '86851 62596 19897', null)
+        expect(parseVirtualBarcode(barcode).amountCents).toBeNull()
+    })
+
+    it('rejects a barcode of the wrong length or version', () => {
+        expect(() => parseVirtualBarcode('47944052020036082004883150000000086851625961989710061'))
+            .toThrow('54 digits')
+        expect(() => parseVirtualBarcode('679440520200360820048831500000000868516259619897100612'))
+            .toThrow('54 digits')
+    })
+
+    it('rejects a barcode with a bad reference', () => {
+        expect(() => parseVirtualBarcode('479440520200360820048831500000000868516259619898100612'))
+            .toThrow('invalid Finnish reference')
+        expect(() => parseVirtualBarcode('579440520200360820048831510000000868516259619897100612'))
+            .toThrow('invalid RF reference')
+    })
+
+    it('rejects a due date that does not exist', () => {
+        expect(() => parseVirtualBarcode('479440520200360820048831500000000868516259619897100231'))
+            .toThrow('invalid due date')
+    })
+})
@@ -1,98 +1,163 @@
-// Finnish virtual barcode generator (Virtuaaliviivakoodi)
-// Generates 54-digit numeric string for Finnish online banking
-// Format: Version 4 with RF reference (structured reference)
+// Finnish virtual barcode (Virtuaaliviivakoodi)
+// 54-digit numeric string for Finnish online banking, encoded and decoded
+// Format: Version 4 with Finnish national reference, version 5 with RF reference
 // Customer can copy-paste this into their online bank to auto-fill payment details
+//
+// Reference: Finanssiala, Pankkiviivakoodi-opas (bank barcode guide)
+// https://www.finanssiala.fi/maksujenvalitys/dokumentit/virtuaaliviivakoodi_opas.pdf
+
+import { validateRFReference } from '@/utils/finnish/rf-reference'
+import { validateFinnishReference } from '@/utils/finnish/finnish-reference'
+
+export type VirtualBarcodeVersion = 4 | 5
+
+// Payment details carried by a virtual barcode
+export interface VirtualBarcodeData {
+    version: VirtualBarcodeVersion
+    iban: string               // Finnish IBAN without spaces (e.g., "FI7944052020036082")
+    amountCents: number | null // null = amount not given (zeros in the barcode)
+    reference: string          // RF reference (version 5) or Finnish reference (version 4)
+    dueDate: Date | null       // null = due date not given (zeros in the barcode)
+}
+
+// Largest amount that fits the 6 + 2 digit amount field (999 999,99 €)
+const MAX_AMOUNT_CENTS = 99999999
+
+/**
+ * Check if payments to an account can be made with a virtual barcode
+ * The barcode carries the account as the 16 digits of a Finnish IBAN, so other accounts have none
+ *
+ * @param iban - IBAN, spaces allowed (e.g., "FI79 4405 2020 0360 82")
+ */
+export function isVirtualBarcodeAccount(iban: string): boolean {
+    return /^FI\d{16}$/.test(iban.replace(/\s/g, '').toUpperCase())
+}
 
 /**
- * Generate Finnish virtual barcode (Version 4 - RF reference)
+ * Generate Finnish virtual barcode
+ * The version is chosen from the reference: RF references use version 5,
+ * Finnish national references use version 4
  *
  * Structure (54 digits total):
- * - Version: 4 (1 digit)
- * - IBAN: 16 digits (without FI prefix, padded with zeros)
- * - Amount: 8 digits (euros + cents, e.g., 00001505 = 15.05€)
- * - Reserved: 3 zeros
- * - RF Reference: 2-23 digits (without RF prefix)
- * - Due date: 6 digits (DDMMYY format)
+ * - Version: 4 or 5 (1 digit)
+ * - Account: 16 digits, the Finnish IBAN without the FI country code (check digits + BBAN)
+ * - Amount: 6 digits euros + 2 digits cents, zeros if over 999 999,99 €
+ * - Version 4: reserved 3 zeros + reference 20 digits (padded with zeros)
+ * - Version 5: RF check digits 2 digits + reference 21 digits (without RF prefix, padded with zeros)
+ * - Due date: 6 digits YYMMDD, zeros if not given
+ *
+ * Official samples from the guide:
+ * - FI79 4405 2020 0360 82, 4 883,15 €, reference 86851 62596 19897, due 12.6.2010
+ *   → 479440520200360820048831500000000868516259619897100612
+ * - FI58 1017 1000 0001 22, 482,99 €, reference 55958 22432 94671, due 31.1.2012
+ *   → 458101710000001220004829900000000559582243294671120131
+ * - FI79 4405 2020 0360 82, 4 883,15 €, reference RF09 8685 1625 9619 897, due 12.6.2010
+ *   → 579440520200360820048831509000000868516259619897100612
  *
- * Reference: Finnish Federation of Financial Services
- * https://www.finanssiala.fi/maksujenvalitys/dokumentit/virtuaaliviivakoodi_opas.pdf
+ * @param iban - Finnish IBAN, spaces allowed (e.g., "FI79 4405 2020 0360 82")
+ * @param amountCents - Payment amount in cents (e.g., 488315 = 4 883,15 €)
+ * @param reference - RF reference (e.g., "RF09 8685 1625 9619 897") or Finnish reference (e.g., "86851 62596 19897")
+ * @param dueDate - Payment due date, or null if there is none
+ * @returns 54-digit barcode
+ * @throws Error if the IBAN, amount, reference or due date is invalid
  */
 export function generateVirtualBarcode(
-    iban: string,           // Finnish IBAN (e.g., "FI1234567890123456")
-    amount: number,         // Payment amount in euros (e.g., 150.50)
-    rfReference: string,    // RF reference (e.g., "RF123456789")
-    dueDate: Date          // Payment due date
+    iban: string,
+    amountCents: number,
+    reference: string,
+    dueDate: Date | null
 ): string {
-    // Version 4 = RF reference format
-    const version = '4'
-
-    // Extract IBAN account number (remove "FI" prefix, keep only digits)
-    // Pad with leading zeros to exactly 16 digits
-    const ibanDigits = iban.replace(/[^0-9]/g, '')
-    const paddedIban = ibanDigits.padStart(16, '0').slice(0, 16)
-
-    // Convert amount to cents and format as 8 digits
-    // Example: 150.50€ → 00015050
-    const amountInCents = Math.round(amount * 100)
-    const paddedAmount = amountInCents.toString().padStart(8, '0')
-
-    // Reserved field (always 3 zeros)
-    const reserved = '000'
-
-    // Extract RF reference number (remove "RF" prefix, keep only digits)
-    // Finnish virtual barcode standard requires 20 digits for RF reference
-    // Pad with zeros on the LEFT if reference is shorter than 20 digits
-    const rfDigits = rfReference.replace(/[^0-9]/g, '')
-
-    // Pad to exactly 20 digits (standard length for virtual barcode)
-    // Example: "74001" → "00000000000000074001"
-    const paddedReference = rfDigits.padStart(20, '0').slice(0, 23)
-
-    // Format due date as DDMMYY (Finnish banking standard)
-    // Example: 2024-12-15 → 151224
-    // NOTE: This is DDMMYY, not YYMMDD!
-    const year = dueDate.getFullYear().toString().slice(2) // Last 2 digits
-    const month = (dueDate.getMonth() + 1).toString().padStart(2, '0')
-    const day = dueDate.getDate().toString().padStart(2, '0')
-    const formattedDate = day + month + year  // DDMMYY format!
-
-    // Combine all parts into 54-digit barcode
-    const barcode = version + paddedIban + paddedAmount + reserved + paddedReference + formattedDate
-
-    // DEBUG: Print all parts to see what went wrong
-    console.log('Virtual Barcode Debug:')
-    console.log('Version:', version, 'Length:', version.length)
-    console.log('IBAN:', paddedIban, 'Length:', paddedIban.length)
-    console.log('Amount:', paddedAmount, 'Length:', paddedAmount.length)
-    console.log('Reserved:', reserved, 'Length:', reserved.length)
-    console.log('Reference:', paddedReference, 'Length:', paddedReference.length)
-    console.log('Date:', formattedDate, 'Length:', formattedDate.length)
-    console.log('Total barcode:', barcode)
-    console.log('Total length:', barcode.length)
-    console.log('Expected: 54 digits')
-
-    // Validate final length (must be exactly 54 digits)
-    if (barcode.length !== 54) {
-        console.error('Virtual barcode generation error:', {
-            version,
-            paddedIban,
-            paddedAmount,
-            reserved,
-            paddedReference,
-            formattedDate,
-            totalLength: barcode.length
-        })
-        throw new Error(`Virtual barcode must be 54 digits, got ${barcode.length}`)
+    // Account: Finnish IBAN without the country code, 16 digits
+    if (!isVirtualBarcodeAccount(iban)) {
+        throw new Error('Virtual barcode requires a Finnish IBAN (FI + 16 digits)')
     }
+    const account = iban.replace(/\s/g, '').slice(2)
 
-    return barcode
+    // Amount: 8 digits, amounts that do not fit are left for the payer to fill in
+    if (!Number.isSafeInteger(amountCents) || amountCents < 0) {
+        throw new Error('Virtual barcode amount must be a non-negative integer amount of cents')
+    }
+    const amount = amountCents > MAX_AMOUNT_CENTS
+        ? '00000000'
+        : amountCents.toString().padStart(8, '0')
+
+    // Reference: version follows the reference type
+    const cleanedReference = reference.replace(/\s/g, '').toUpperCase()
+    let version: VirtualBarcodeVersion
+    let referenceField: string
+
+    if (cleanedReference.startsWith('RF')) {
+        // Version 5: RF check digits + reference body padded to 21 digits
+        const body = cleanedReference.slice(4)
+        if (!validateRFReference(cleanedReference) || !/^\d{1,21}$/.test(body)) {
+            throw new Error('Virtual barcode requires a numeric RF reference of at most 21 digits')
+        }
+        version = 5
+        referenceField = cleanedReference.slice(2, 4) + body.padStart(21, '0')
+    } else {
+        // Version 4: reserved field (3 zeros) + reference padded to 20 digits
+        if (!validateFinnishReference(cleanedReference)) {
+            throw new Error('Virtual barcode requires a valid Finnish reference number')
+        }
+        version = 4
+        referenceField = '000' + cleanedReference.padStart(20, '0')
+    }
+
+    return `${version}${account}${amount}${referenceField}${formatBarcodeDate(dueDate)}`
+}
+
+/**
+ * Parse a Finnish virtual barcode back into payment details
+ * Leading zeros of the reference are removed, as payers type the reference without them
+ *
+ * @param barcode - 54-digit barcode, spaces allowed
+ * @returns Decoded payment details
+ * @throws Error if the barcode is malformed or contains an invalid reference or date
+ */
+export function parseVirtualBarcode(barcode: string): VirtualBarcodeData {
+    const cleaned = barcode.replace(/\s/g, '')
+
+    if (!/^[45]\d{53}$/.test(cleaned)) {
+        throw new Error('Virtual barcode must be 54 digits starting with version 4 or 5')
+    }
+
+    const version: VirtualBarcodeVersion = cleaned[0] === '5' ? 5 : 4
+    const iban = `FI${cleaned.slice(1, 17)}`
+
+    const amountField = cleaned.slice(17, 25)
+    const amountCents = /^0+$/.test(amountField) ? null : parseInt(amountField, 10)
+
+    let reference: string
+    if (version === 5) {
+        const checkDigits = cleaned.slice(25, 27)
+        reference = `RF${checkDigits}${cleaned.slice(27, 48).replace(/^0+/, '')}`
+        if (!validateRFReference(reference)) {
+            throw new Error('Virtual barcode contains an invalid RF reference')
+        }
+    } else {
+        if (cleaned.slice(25, 28) !== '000') {
+            throw new Error('Virtual barcode version 4 reserved field must be zeros')
+        }
+        reference = cleaned.slice(28, 48).replace(/^0+/, '')
+        if (!validateFinnishReference(reference)) {
+            throw new Error('Virtual barcode contains an invalid Finnish reference')
+        }
+    }
+
+    return {
+        version,
+        iban,
+        amountCents,
+        reference,
+        dueDate: parseBarcodeDate(cleaned.slice(48, 54)),
+    }
 }
 
 /**
  * Format virtual barcode with spaces for better readability
  * Splits 54 digits into groups of 5 digits
- * Example: 412345678901234567890000123456789012345151224
- * Becomes: 4 12345 67890 12345 67890 00001 23456 78901 23451 51224
+ * Example: 479440520200360820048831500000000868516259619897100612
+ * Becomes: 4 79440 52020 03608 20048 83150 00000 00868 51625 96198 97100 612
  */
 export function formatVirtualBarcode(barcode: string): string {
     // First digit alone (version), then groups of 5
@@ -104,3 +169,42 @@ export function formatVirtualBarcode(barcode: string): string {
 
     return parts.join(' ')
 }
+
+/**
+ * Format due date as YYMMDD, or zeros when there is no due date
+ * Example: 2010-06-12 → 100612
+ */
+function formatBarcodeDate(date: Date | null): string {
+    if (!date) {
+        return '000000'
+    }
+    if (isNaN(date.getTime())) {
+        throw new Error('Virtual barcode due date is invalid')
+    }
+
+    const year = (date.getFullYear() % 100).toString().padStart(2, '0')
+    const month = (date.getMonth() + 1).toString().padStart(2, '0')
+    const day = date.getDate().toString().padStart(2, '0')
+    return year + month + day
+}
+
+/**
+ * Parse YYMMDD due date, zeros mean no due date
+ */
+function parseBarcodeDate(field: string): Date | null {
+    if (field === '000000') {
+        return null
+    }
+
+    const year = 2000 + parseInt(field.slice(0, 2), 10)
+    const month = parseInt(field.slice(2, 4), 10)
+    const day = parseInt(field.slice(4, 6), 10)
+    const date = new Date(year, month - 1, day)
+
+    // Reject dates that roll over, e.g. 310231 → 3.3.2031
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) {
+        throw new Error('Virtual barcode contains an invalid due date')
+    }
+
+    return date
+}
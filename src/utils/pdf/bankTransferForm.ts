@@ -0,0 +1,122 @@
+// Finnish bank transfer form (tilisiirtolomake)
+// Bottom part of an A4 invoice page laid out after the Finance Finland (FFI) bank transfer
+// form standard: receiver and payer on the left, reference, due date and amount on the right,
+// bank barcode at the bottom. Field labels are bilingual Finnish/Swedish as the standard requires
+
+import jsPDF from 'jspdf'
+import { drawBarcode } from '@/utils/pdf/barcode'
+
+// Form height and position on an A4 page (mm)
+export const BANK_TRANSFER_FORM_HEIGHT = 101.6
+export const BANK_TRANSFER_FORM_TOP = 297 - BANK_TRANSFER_FORM_HEIGHT
+
+// Horizontal lines of the form, from the top of the form (mm)
+const RECEIVER_ACCOUNT_BOTTOM = 16.9
+const RECEIVER_BOTTOM = 31.7
+const SIGNATURE_TOP = 63.3
+const ACCOUNT_FROM_TOP = 71.9
+const BARCODE_AREA_TOP = 80.5
+
+// Vertical lines of the form (mm)
+const LABEL_COLUMN_RIGHT = 20
+const RIGHT_PART_LEFT = 111.2
+const RIGHT_LABEL_COLUMN_RIGHT = 130
+const AMOUNT_LEFT = 159
+const FORM_RIGHT = 205
+
+export interface BankTransferFormData {
+    iban: string
+    bic: string
+    receiver: string[]          // Name and address lines of the receiver (company)
+    payer: string[]             // Name and address lines of the payer (customer)
+    information: string[]       // Free text in the top right part (e.g. invoice number)
+    reference: string           // RF or Finnish national reference
+    dueDate: string             // Formatted due date
+    amount: string              // Formatted amount without currency
+    virtualBarcode: string | null  // 54-digit bank barcode, no barcode if null
+}
+
+/**
+ * Draw a label of the form in small print, Finnish and Swedish on separate lines
+ */
+function drawLabel(doc: jsPDF, font: string, lines: string[], x: number, y: number) {
+    doc.setFont(font, 'normal')
+    doc.setFontSize(6)
+    doc.text(lines, x, y + 2.5)
+}
+
+/**
+ * Draw the bank transfer form at the bottom of the current page
+ * @param doc - PDF document
+ * @param font - Font family of the invoice
+ * @param data - Payment details printed on the form
+ */
+export function drawBankTransferForm(doc: jsPDF, font: string, data: BankTransferFormData) {
+    const top = BANK_TRANSFER_FORM_TOP
+    const y = (offset: number) => top + offset
+
+    doc.setDrawColor(0, 0, 0)
+    doc.setTextColor(0, 0, 0)
+
+    // Dashed cut line above the form
+    doc.setLineWidth(0.2)
+    for (let x = 0; x < 210; x += 3) {
+        doc.line(x, top, x + 2, top)
+    }
+
+    // Form lines
+    doc.setLineWidth(0.5)
+    doc.line(LABEL_COLUMN_RIGHT, top, LABEL_COLUMN_RIGHT, y(ACCOUNT_FROM_TOP))
+    doc.line(0, y(RECEIVER_ACCOUNT_BOTTOM), RIGHT_PART_LEFT, y(RECEIVER_ACCOUNT_BOTTOM))
+    doc.line(0, y(RECEIVER_BOTTOM), RIGHT_PART_LEFT, y(RECEIVER_BOTTOM))
+    doc.line(RIGHT_PART_LEFT, top, RIGHT_PART_LEFT, y(BARCODE_AREA_TOP))
+    doc.line(0, y(SIGNATURE_TOP), FORM_RIGHT, y(SIGNATURE_TOP))
+    doc.line(0, y(ACCOUNT_FROM_TOP), FORM_RIGHT, y(ACCOUNT_FROM_TOP))
+    doc.line(0, y(BARCODE_AREA_TOP), FORM_RIGHT, y(BARCODE_AREA_TOP))
+    doc.line(RIGHT_LABEL_COLUMN_RIGHT, y(SIGNATURE_TOP), RIGHT_LABEL_COLUMN_RIGHT, y(BARCODE_AREA_TOP))
+    doc.line(AMOUNT_LEFT, y(ACCOUNT_FROM_TOP), AMOUNT_LEFT, y(BARCODE_AREA_TOP))
+    doc.setLineWidth(0.2)
+    doc.line(LABEL_COLUMN_RIGHT + 2, y(SIGNATURE_TOP) - 2, RIGHT_PART_LEFT - 4, y(SIGNATURE_TOP) - 2)
+
+    // Labels
+    drawLabel(doc, font, ['Saajan', 'tilinumero', 'Mottagarens', 'kontonummer'], 2, top)
+    drawLabel(doc, font, ['Saaja', 'Mottagare'], 2, y(RECEIVER_ACCOUNT_BOTTOM))
+    drawLabel(doc, font, ['Maksajan', 'nimi ja', 'osoite', 'Betalarens', 'namn och', 'adress'], 2, y(RECEIVER_BOTTOM))
+    drawLabel(doc, font, ['Allekirjoitus', 'Underskrift'], 2, y(SIGNATURE_TOP) - 6)
+    drawLabel(doc, font, ['Tililtä nro', 'Från konto nr'], 2, y(SIGNATURE_TOP))
+    drawLabel(doc, font, ['Viitenro', 'Ref.nr'], RIGHT_PART_LEFT + 2, y(SIGNATURE_TOP))
+    drawLabel(doc, font, ['Eräpäivä', 'Förfallodag'], RIGHT_PART_LEFT + 2, y(ACCOUNT_FROM_TOP))
+    drawLabel(doc, font, ['Euro'], AMOUNT_LEFT + 2, y(ACCOUNT_FROM_TOP))
+
+    // Form title, left of the barcode
+    doc.setFont(font, 'bold')
+    doc.setFontSize(8)
+    doc.text(['TILISIIRTO', 'GIRERING'], 2, y(BARCODE_AREA_TOP) + 5)
+
+    // Receiver account and BIC
+    doc.setFont(font, 'normal')
+    doc.setFontSize(10)
+    doc.text(`IBAN ${data.iban}`, LABEL_COLUMN_RIGHT + 2, top + 6)
+    doc.text(`BIC ${data.bic}`, LABEL_COLUMN_RIGHT + 2, top + 12)
+
+    // Receiver and payer
+    doc.text(data.receiver, LABEL_COLUMN_RIGHT + 2, y(RECEIVER_ACCOUNT_BOTTOM) + 4.5)
+    doc.text(data.payer, LABEL_COLUMN_RIGHT + 2, y(RECEIVER_BOTTOM) + 5)
+
+    // Free information in the top right part
+    doc.setFontSize(9)
+    doc.text(data.information, RIGHT_PART_LEFT + 3, top + 6)
+
+    // Reference, due date and amount
+    doc.setFontSize(10)
+    doc.text(data.reference, RIGHT_LABEL_COLUMN_RIGHT + 3, y(SIGNATURE_TOP) + 5.5)
+    doc.text(data.dueDate, RIGHT_LABEL_COLUMN_RIGHT + 3, y(ACCOUNT_FROM_TOP) + 5.5)
+    doc.text(data.amount, FORM_RIGHT - 2, y(ACCOUNT_FROM_TOP) + 5.5, { align: 'right' })
+
+    // Bank barcode below the form fields
+    if (data.virtualBarcode) {
+        drawBarcode(doc, data.virtualBarcode, LABEL_COLUMN_RIGHT, y(BARCODE_AREA_TOP) + 3, 120, 13)
+        doc.setFontSize(7)
+        doc.text(data.virtualBarcode, LABEL_COLUMN_RIGHT + 60, y(BARCODE_AREA_TOP) + 19, { align: 'center' })
+    }
+}
@@ -0,0 +1,30 @@
+// Vector barcode drawing for invoice PDFs
+// Drawn as filled rectangles so it works in the browser and on the server without a canvas
+
+import jsPDF from 'jspdf'
+import JsBarcode from 'jsbarcode'
+
+// Draw a virtual barcode as Code 128 vector bars
+// Quiet zone of ten modules on both sides, bars fill the given height
+export function drawBarcode(doc: jsPDF, value: string, x: number, y: number, width: number, height: number) {
+    // JsBarcode renders into a plain object as bar patterns ('1' = bar, '0' = space),
+    // its typings only list DOM targets
+    const target: { encodings?: Array<{ data: string }> } = {}
+    JsBarcode(target as unknown as SVGElement, value, { format: 'CODE128' })
+
+    const bars = (target.encodings ?? []).map(encoding => encoding.data).join('')
+    const quietZone = 10
+    const moduleWidth = width / (bars.length + 2 * quietZone)
+
+    doc.setFillColor(0, 0, 0)
+    let start = -1
+    for (let i = 0; i <= bars.length; i++) {
+        if (bars[i] === '1' && start < 0) {
+            start = i
+        } else if (bars[i] !== '1' && start >= 0) {
+            // Draw each run of bar modules as one rectangle
+            doc.rect(x + (quietZone + start) * moduleWidth, y, (i - start) * moduleWidth, height, 'F')
+            start = -1
+        }
+    }
+}
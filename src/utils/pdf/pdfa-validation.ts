@@ -0,0 +1,343 @@
+// PDF/A-3 validation of hybrid invoices
+// Checks the PDF/A-3 rules that can be verified offline from the file structure:
+// header, trailer, output intent, metadata, embedded fonts, forbidden actions and associated files
+// Colour and glyph level checks need a full validator (e.g. veraPDF)
+//
+// Rule numbers refer to the clauses of ISO 19005-3
+
+import {
+    PDFArray,
+    PDFDict,
+    PDFDocument,
+    PDFHexString,
+    PDFName,
+    PDFObject,
+    PDFRawStream,
+    PDFStream,
+    PDFString,
+} from 'pdf-lib'
+
+// Failed rule, e.g. { rule: '6.2.11.4.1', message: '...' }
+export interface PdfAValidationError {
+    rule: string
+    message: string
+}
+
+const name = (value: string) => PDFName.of(value)
+
+/**
+ * Look up a dictionary entry, following indirect references
+ */
+function lookup(dict: PDFDict, key: string): PDFObject | undefined {
+    return dict.context.lookup(dict.get(name(key)))
+}
+
+/**
+ * Decode a PDF text string (literal or hex)
+ */
+function decodeText(value: PDFObject | undefined): string | null {
+    if (value instanceof PDFString || value instanceof PDFHexString) {
+        return value.decodeText()
+    }
+    return null
+}
+
+/**
+ * Decode a name object (e.g., /Type0 -> "Type0")
+ */
+function decodeName(value: PDFObject | undefined): string | null {
+    return value instanceof PDFName ? value.decodeText() : null
+}
+
+/**
+ * Unescape the XML entities used in XMP text
+ */
+function unescapeXml(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&amp;/g, '&')
+}
+
+/**
+ * Read an XMP property, in element or attribute form
+ */
+function xmpProperty(xmp: string, property: string): string | null {
+    const elementMatch = xmp.match(new RegExp(`<${property}>([^<]*)</${property}>`))
+    if (elementMatch) {
+        return unescapeXml(elementMatch[1].trim())
+    }
+    const attributeMatch = xmp.match(new RegExp(`${property}="([^"]*)"`))
+    return attributeMatch ? unescapeXml(attributeMatch[1]) : null
+}
+
+/**
+ * Read the first list item of an XMP array property (dc:title, dc:creator)
+ */
+function xmpListItem(xmp: string, property: string): string | null {
+    const match = xmp.match(new RegExp(`<${property}>\\s*<rdf:(?:Alt|Seq|Bag)>\\s*<rdf:li[^>]*>([^<]*)</rdf:li>`))
+    return match ? unescapeXml(match[1].trim()) : null
+}
+
+/**
+ * Collect the fonts of a resource dictionary, including fonts of form XObjects
+ */
+function collectFonts(resources: PDFDict | undefined, fonts: Map<string, PDFDict>, visited: Set<PDFDict>) {
+    if (!resources || visited.has(resources)) {
+        return
+    }
+    visited.add(resources)
+
+    const fontDict = lookup(resources, 'Font')
+    if (fontDict instanceof PDFDict) {
+        for (const [key, value] of fontDict.entries()) {
+            const font = resources.context.lookup(value)
+            if (font instanceof PDFDict) {
+                fonts.set(`${key.decodeText()} (${decodeName(lookup(font, 'BaseFont')) ?? 'unnamed'})`, font)
+            }
+        }
+    }
+
+    const xObjects = lookup(resources, 'XObject')
+    if (xObjects instanceof PDFDict) {
+        for (const value of xObjects.values()) {
+            const xObject = resources.context.lookup(value)
+            if (xObject instanceof PDFStream && decodeName(lookup(xObject.dict, 'Subtype')) === 'Form') {
+                const formResources = lookup(xObject.dict, 'Resources')
+                collectFonts(formResources instanceof PDFDict ? formResources : undefined, fonts, visited)
+            }
+        }
+    }
+}
+
+/**
+ * Check if a font program is embedded
+ * Composite (Type0) fonts carry the program in their descendant font
+ */
+function isFontEmbedded(font: PDFDict): boolean {
+    const subtype = decodeName(lookup(font, 'Subtype'))
+
+    // Type 3 glyphs are content streams inside the font dictionary
+    if (subtype === 'Type3') {
+        return true
+    }
+
+    if (subtype === 'Type0') {
+        const descendants = lookup(font, 'DescendantFonts')
+        const descendant = descendants instanceof PDFArray ? font.context.lookup(descendants.get(0)) : undefined
+        return descendant instanceof PDFDict && isFontEmbedded(descendant)
+    }
+
+    const descriptor = lookup(font, 'FontDescriptor')
+    if (!(descriptor instanceof PDFDict)) {
+        return false
+    }
+    return ['FontFile', 'FontFile2', 'FontFile3'].some(key => lookup(descriptor, key) instanceof PDFStream)
+}
+
+/**
+ * Collect the file specifications of the embedded files name tree
+ */
+function collectEmbeddedFiles(node: PDFDict, files: Array<{ name: string, fileSpec: PDFDict, ref: PDFObject }>) {
+    const names = lookup(node, 'Names')
+    if (names instanceof PDFArray) {
+        for (let i = 0; i + 1 < names.size(); i += 2) {
+            const fileSpec = node.context.lookup(names.get(i + 1))
+            if (fileSpec instanceof PDFDict) {
+                files.push({ name: decodeText(names.get(i)) ?? '', fileSpec, ref: names.get(i + 1) })
+            }
+        }
+    }
+
+    const kids = lookup(node, 'Kids')
+    if (kids instanceof PDFArray) {
+        for (const kid of kids.asArray()) {
+            const child = node.context.lookup(kid)
+            if (child instanceof PDFDict) {
+                collectEmbeddedFiles(child, files)
+            }
+        }
+    }
+}
+
+/**
+ * Check if a file specification is listed in an associated files (AF) array
+ */
+function isAssociated(af: PDFObject | undefined, ref: PDFObject): boolean {
+    if (!(af instanceof PDFArray)) {
+        return false
+    }
+    // References are interned, the same object number gives the same PDFRef
+    return af.asArray().includes(ref)
+}
+
+/**
+ * Validate a PDF against the offline checkable PDF/A-3 rules
+ * @param pdf - PDF document bytes
+ * @returns Failed rules, empty array if the document passes
+ */
+export async function validatePdfA3(pdf: ArrayBuffer | Uint8Array): Promise<PdfAValidationError[]> {
+    const errors: PdfAValidationError[] = []
+    const fail = (rule: string, message: string) => errors.push({ rule, message })
+
+    const bytes = pdf instanceof Uint8Array ? pdf : new Uint8Array(pdf)
+
+    // 6.1.2 File header: %PDF-1.n followed by a comment of at least four binary bytes
+    const header = String.fromCharCode(...bytes.subarray(0, 8))
+    if (!/^%PDF-1\.[0-7]$/.test(header)) {
+        fail('6.1.2', 'File header must be %PDF-1.n')
+    }
+    const secondLine = bytes.subarray(bytes.indexOf(0x0a) + 1, bytes.indexOf(0x0a) + 6)
+    if (secondLine[0] !== 0x25 || secondLine.subarray(1).some(byte => byte < 128)) {
+        fail('6.1.2', 'File header must be followed by a comment of four binary bytes')
+    }
+
+    let pdfDoc: PDFDocument
+    try {
+        // Encrypted documents are loaded to report the encryption below
+        pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false, ignoreEncryption: true, throwOnInvalidObject: true })
+    } catch (error) {
+        fail('6.1.1', `Document cannot be parsed: ${error instanceof Error ? error.message : String(error)}`)
+        return errors
+    }
+
+    const { context, catalog } = pdfDoc
+
+    // 6.1.3 File trailer: ID required, encryption forbidden
+    if (!context.trailerInfo.ID) {
+        fail('6.1.3', 'File trailer must contain an ID')
+    }
+    if (context.trailerInfo.Encrypt) {
+        fail('6.1.3', 'Document must not be encrypted')
+    }
+
+    // 6.1.7.2 LZW compression is forbidden
+    for (const [, object] of context.enumerateIndirectObjects()) {
+        if (object instanceof PDFRawStream) {
+            const filter = lookup(object.dict, 'Filter')
+            const filters = filter instanceof PDFArray ? filter.asArray() : [filter]
+            if (filters.some(value => decodeName(value) === 'LZWDecode')) {
+                fail('6.1.7.2', 'Streams must not use LZWDecode')
+                break
+            }
+        }
+    }
+
+    // 6.2.2 Output intent with an embedded ICC profile
+    const outputIntents = lookup(catalog, 'OutputIntents')
+    const pdfaIntent = outputIntents instanceof PDFArray
+        ? outputIntents.asArray()
+            .map(intent => context.lookup(intent))
+            .find((intent): intent is PDFDict => intent instanceof PDFDict && decodeName(lookup(intent, 'S')) === 'GTS_PDFA1')
+        : undefined
+    if (!pdfaIntent) {
+        fail('6.2.2', 'Catalog must contain a GTS_PDFA1 output intent')
+    } else if (!(lookup(pdfaIntent, 'DestOutputProfile') instanceof PDFStream)) {
+        fail('6.2.2', 'Output intent must embed an ICC profile (DestOutputProfile)')
+    }
+
+    // 6.2.11.4.1 All fonts must be embedded
+    const fonts = new Map<string, PDFDict>()
+    const visited = new Set<PDFDict>()
+    for (const page of pdfDoc.getPages()) {
+        collectFonts(page.node.Resources(), fonts, visited)
+    }
+    for (const [fontName, font] of fonts) {
+        if (!isFontEmbedded(font)) {
+            fail('6.2.11.4.1', `Font ${fontName} is not embedded`)
+        }
+    }
+
+    // 6.6.1 JavaScript and launch actions are forbidden
+    const names = lookup(catalog, 'Names')
+    if (names instanceof PDFDict && names.has(name('JavaScript'))) {
+        fail('6.6.1', 'Document must not contain JavaScript')
+    }
+    const openAction = lookup(catalog, 'OpenAction')
+    if (openAction instanceof PDFDict && ['JavaScript', 'Launch'].includes(decodeName(lookup(openAction, 'S')) ?? '')) {
+        fail('6.6.1', 'Document open action must not run JavaScript or launch applications')
+    }
+    if (catalog.has(name('AA'))) {
+        fail('6.6.2', 'Catalog must not contain additional actions (AA)')
+    }
+
+    // 6.6.2.1 XMP metadata with PDF/A identification
+    const metadata = lookup(catalog, 'Metadata')
+    if (!(metadata instanceof PDFRawStream)) {
+        fail('6.6.2.1', 'Catalog must contain an XMP metadata stream')
+    } else if (metadata.dict.has(name('Filter'))) {
+        fail('6.6.2.1', 'Metadata stream must not be compressed')
+    } else {
+        const xmp = new TextDecoder().decode(metadata.getContents())
+
+        if (!xmp.includes('<?xpacket begin=')) {
+            fail('6.6.2.1', 'Metadata must be an XMP packet')
+        }
+        if (xmpProperty(xmp, 'pdfaid:part') !== '3') {
+            fail('6.6.4', 'Metadata must identify the document as PDF/A-3 (pdfaid:part)')
+        }
+        if (!['A', 'B', 'U'].includes(xmpProperty(xmp, 'pdfaid:conformance') ?? '')) {
+            fail('6.6.4', 'Metadata must give the PDF/A conformance level (pdfaid:conformance)')
+        }
+
+        // 6.6.2.3.1 Document information entries must match their XMP equivalents
+        const info = context.lookup(context.trailerInfo.Info)
+        if (info instanceof PDFDict) {
+            const equivalents: Array<[string, string | null]> = [
+                ['Title', xmpListItem(xmp, 'dc:title')],
+                ['Author', xmpListItem(xmp, 'dc:creator')],
+                ['Producer', xmpProperty(xmp, 'pdf:Producer')],
+            ]
+            for (const [key, xmpValue] of equivalents) {
+                const infoValue = decodeText(lookup(info, key))
+                if (infoValue !== null && infoValue !== xmpValue) {
+                    fail('6.6.2.3.1', `Document information ${key} does not match the XMP metadata`)
+                }
+            }
+            if (info.has(name('CreationDate')) && !xmpProperty(xmp, 'xmp:CreateDate')) {
+                fail('6.6.2.3.1', 'Document information CreationDate does not match the XMP metadata')
+            }
+        }
+    }
+
+    // 6.8 Embedded files must be associated files with a MIME type and modification date
+    const embeddedFilesTree = names instanceof PDFDict ? lookup(names, 'EmbeddedFiles') : undefined
+    const embeddedFiles: Array<{ name: string, fileSpec: PDFDict, ref: PDFObject }> = []
+    if (embeddedFilesTree instanceof PDFDict) {
+        collectEmbeddedFiles(embeddedFilesTree, embeddedFiles)
+    }
+    const documentAF = lookup(catalog, 'AF')
+    const pageAFs = pdfDoc.getPages().map(page => page.node.lookup(name('AF')))
+
+    for (const file of embeddedFiles) {
+        const { fileSpec } = file
+
+        if (!fileSpec.has(name('F')) || !fileSpec.has(name('UF'))) {
+            fail('6.8', `Embedded file ${file.name} must have F and UF file names`)
+        }
+        if (!fileSpec.has(name('AFRelationship'))) {
+            fail('6.8', `Embedded file ${file.name} must have an AFRelationship`)
+        }
+        if (!isAssociated(documentAF, file.ref) && !pageAFs.some(af => isAssociated(af, file.ref))) {
+            fail('6.8', `Embedded file ${file.name} must be referenced from an AF array`)
+        }
+
+        const ef = lookup(fileSpec, 'EF')
+        const stream = ef instanceof PDFDict ? lookup(ef, 'F') : undefined
+        if (!(stream instanceof PDFStream)) {
+            fail('6.8', `Embedded file ${file.name} has no file stream`)
+            continue
+        }
+        if (!decodeName(lookup(stream.dict, 'Subtype'))) {
+            fail('6.8', `Embedded file ${file.name} must have a MIME type (Subtype)`)
+        }
+        const params = lookup(stream.dict, 'Params')
+        if (!(params instanceof PDFDict) || !params.has(name('ModDate'))) {
+            fail('6.8', `Embedded file ${file.name} must have a modification date (Params/ModDate)`)
+        }
+    }
+
+    return errors
+}
@@ -0,0 +1,80 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFString } from 'pdf-lib'
+import { describe, expect, it } from 'vitest'
+import { generateCIIXML } from '@/utils/einvoice/generateCIIXML'
+import { generateFinvoiceXML } from '@/utils/einvoice/generateFinvoiceXML'
+import { sampleInvoice } from '@/utils/einvoice/__fixtures__/invoices'
+import { HybridFormat, loadPdfAAssets } from '@/utils/pdf/pdfa'
+import { validatePdfA3 } from '@/utils/pdf/pdfa-validation'
+import { renderInvoicePDF } from '@/utils/pdf/renderInvoicePDF'
+import { DEFAULT_PDF_TEMPLATE, PdfFont } from '@/utils/pdf/template'
+
+const readAsset = async (fileName: string) =>
+    new Uint8Array(await readFile(path.join(process.cwd(), 'public', 'pdfa', fileName)))
+
+/**
+ * Render the sample invoice as a hybrid PDF/A-3 with the given structured invoice
+ */
+async function renderHybrid(format: HybridFormat, font: PdfFont = DEFAULT_PDF_TEMPLATE.font): Promise<Uint8Array> {
+    const invoice = sampleInvoice()
+    const xml = format === 'finvoice' ? generateFinvoiceXML(invoice) : generateCIIXML(invoice)
+    const assets = await loadPdfAAssets(readAsset, font)
+    return renderInvoicePDF(invoice, { hybrid: { format, xml, assets }, template: { ...DEFAULT_PDF_TEMPLATE, font } })
+}
+
+/**
+ * Base font names of the fonts in a document, without the subset prefix
+ * jsPDF names embedded fonts after the registered family, so normal and bold share a name
+ */
+async function fontNames(pdf: Uint8Array): Promise<string[]> {
+    const { context } = await PDFDocument.load(pdf)
+    const names = context.enumerateIndirectObjects()
+        .map(([, object]) => object)
+        .filter(object => object instanceof PDFDict && object.get(PDFName.of('Type')) === PDFName.of('Font'))
+        .map(font => (font as PDFDict).lookupMaybe(PDFName.of('BaseFont'), PDFName)?.decodeText().replace(/^[A-Z]{6}\+/, ''))
+    return [...new Set(names.filter(name => name !== undefined))].sort()
+}
+
+/**
+ * File names of the associated files (AF) of a document
+ */
+async function associatedFiles(pdf: Uint8Array): Promise<string[]> {
+    const { catalog } = await PDFDocument.load(pdf)
+    const files = catalog.lookupMaybe(PDFName.of('AF'), PDFArray)?.asArray() ?? []
+    return files.map(file => {
+        const fileName = catalog.context.lookup(file, PDFDict).lookup(PDFName.of('UF'))
+        return fileName instanceof PDFString || fileName instanceof PDFHexString ? fileName.decodeText() : ''
+    })
+}
+
+describe('hybrid PDF/A-3 invoices', () => {
+    it.each(['finvoice', 'cii'] as const)('passes the offline PDF/A-3 checks with %s embedded', async (format) => {
+        const pdf = await renderHybrid(format)
+        expect(await validatePdfA3(pdf)).toEqual([])
+    })
+
+    it.each([
+        ['helvetica', 'DejaVuSans'],
+        ['times', 'DejaVuSerif'],
+        ['courier', 'DejaVuSansMono'],
+    ] as const)('embeds the DejaVu family matching the %s template font', async (font, family) => {
+        const pdf = await renderHybrid('cii', font)
+        expect(await fontNames(pdf)).toEqual([family])
+        expect(await validatePdfA3(pdf)).toEqual([])
+    })
+
+    it('embeds the structured invoice under its Factur-X file name', async () => {
+        expect(await associatedFiles(await renderHybrid('cii'))).toEqual(['factur-x.xml'])
+        expect(await associatedFiles(await renderHybrid('finvoice'))).toEqual(['finvoice.xml'])
+    })
+
+    it('reports the rules a plain PDF breaks', async () => {
+        const pdf = await renderInvoicePDF(sampleInvoice())
+        const rules = (await validatePdfA3(pdf)).map(error => error.rule)
+
+        expect(rules).toContain('6.2.2')          // No output intent
+        expect(rules).toContain('6.2.11.4.1')     // Standard fonts are not embedded
+        expect(rules).toContain('6.6.2.1')        // No XMP metadata
+    })
+})
@@ -0,0 +1,289 @@
+// PDF/A-3 conversion for hybrid invoices
+// jsPDF output is post-processed with pdf-lib: the structured invoice XML is embedded as an
+// associated file and the document gets the XMP metadata and output intent PDF/A-3 requires
+//
+// PDF/A forbids non-embedded fonts, so hybrid invoices are drawn with the DejaVu family matching
+// the template font instead of the standard font. Fonts and the sRGB colour profile are served
+// from public/pdfa
+//
+// Reference: ISO 19005-3 (PDF/A-3), Factur-X 1.0 specification
+
+import jsPDF from 'jspdf'
+import { AFRelationship, PDFArray, PDFDict, PDFDocument, PDFHeader, PDFName, PDFString } from 'pdf-lib'
+import { escapeXml } from '@/utils/einvoice/xml'
+import { DEFAULT_PDF_TEMPLATE, PdfFont } from '@/utils/pdf/template'
+
+// Structured invoice formats that can be embedded
+export type HybridFormat = 'finvoice' | 'cii'
+
+export const HYBRID_FORMATS: HybridFormat[] = ['finvoice', 'cii']
+
+export const HYBRID_FORMAT_LABELS: Record<HybridFormat, string> = {
+    finvoice: 'Finvoice',
+    cii: 'Factur-X (CII)',
+}
+
+/**
+ * Check if a value is a known hybrid format
+ */
+export function isHybridFormat(value: unknown): value is HybridFormat {
+    return typeof value === 'string' && (HYBRID_FORMATS as readonly string[]).includes(value)
+}
+
+// Attachment file names, Factur-X readers look for factur-x.xml
+const ATTACHMENT_FILE_NAMES: Record<HybridFormat, string> = {
+    finvoice: 'finvoice.xml',
+    cii: 'factur-x.xml',
+}
+
+const ATTACHMENT_DESCRIPTIONS: Record<HybridFormat, string> = {
+    finvoice: 'Finvoice 3.0 invoice',
+    cii: 'Factur-X invoice (EN 16931)',
+}
+
+// Font family registered to jsPDF for hybrid invoices in place of each standard font
+export const PDFA_FONT_FAMILIES: Record<PdfFont, string> = {
+    helvetica: 'DejaVuSans',
+    times: 'DejaVuSerif',
+    courier: 'DejaVuSansMono',
+}
+
+// Files in public/pdfa
+const PDFA_FONT_FILES: Record<PdfFont, { regular: string, bold: string }> = {
+    helvetica: { regular: 'DejaVuSans.ttf', bold: 'DejaVuSans-Bold.ttf' },
+    times: { regular: 'DejaVuSerif.ttf', bold: 'DejaVuSerif-Bold.ttf' },
+    courier: { regular: 'DejaVuSansMono.ttf', bold: 'DejaVuSansMono-Bold.ttf' },
+}
+const PDFA_ICC_PROFILE_FILE = 'sRGB_IEC61966_2_1.icc'
+
+const ICC_PROFILE_NAME = 'sRGB IEC61966-2.1'
+
+const PRODUCER = 'jsPDF + pdf-lib'
+
+// Fonts and colour profile embedded in PDF/A documents
+export interface PdfAAssets {
+    font: PdfFont                // Standard font the embedded fonts replace
+    regularFont: Uint8Array
+    boldFont: Uint8Array
+    iccProfile: Uint8Array
+}
+
+export interface PdfA3Options {
+    title: string
+    author: string
+    format: HybridFormat
+    xml: string
+    date?: Date   // Creation date of the document and the attachment, defaults to now
+}
+
+/**
+ * Load the PDF/A assets with the given file reader
+ * @param readAsset - Reads a file of public/pdfa by name
+ * @param font - Template font, only the matching embedded family is loaded
+ */
+export async function loadPdfAAssets(
+    readAsset: (fileName: string) => Promise<Uint8Array>,
+    font: PdfFont = DEFAULT_PDF_TEMPLATE.font
+): Promise<PdfAAssets> {
+    const [regularFont, boldFont, iccProfile] = await Promise.all([
+        readAsset(PDFA_FONT_FILES[font].regular),
+        readAsset(PDFA_FONT_FILES[font].bold),
+        readAsset(PDFA_ICC_PROFILE_FILE),
+    ])
+
+    return { font, regularFont, boldFont, iccProfile }
+}
+
+/**
+ * Load the PDF/A assets in the browser
+ * @param font - Template font, only the matching embedded family is loaded
+ * @param baseUrl - URL of the public/pdfa directory
+ */
+export async function fetchPdfAAssets(font: PdfFont, baseUrl = '/pdfa'): Promise<PdfAAssets> {
+    return loadPdfAAssets(async (fileName) => {
+        const res = await fetch(`${baseUrl}/${fileName}`)
+        if (!res.ok) {
+            throw new Error(`Failed to load ${fileName}`)
+        }
+        return new Uint8Array(await res.arrayBuffer())
+    }, font)
+}
+
+/**
+ * Convert bytes to a binary string, the form jsPDF accepts for TrueType fonts
+ */
+function toBinaryString(bytes: Uint8Array): string {
+    let result = ''
+    // Chunked to stay below the argument limit of String.fromCharCode
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        result += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    }
+    return result
+}
+
+/**
+ * Register the embedded fonts to a jsPDF document (normal and bold)
+ * @returns Font family of the registered fonts
+ */
+export function registerPdfAFonts(doc: jsPDF, assets: PdfAAssets): string {
+    const family = PDFA_FONT_FAMILIES[assets.font]
+    const files = PDFA_FONT_FILES[assets.font]
+
+    doc.addFileToVFS(files.regular, toBinaryString(assets.regularFont))
+    doc.addFont(files.regular, family, 'normal')
+    doc.addFileToVFS(files.bold, toBinaryString(assets.boldFont))
+    doc.addFont(files.bold, family, 'bold')
+
+    return family
+}
+
+/**
+ * Format date for XMP (e.g., 2026-01-31T12:00:00Z)
+ * Seconds precision, the same the PDF document information dictionary has
+ */
+function formatXmpDate(date: Date): string {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z')
+}
+
+/**
+ * Build the Factur-X XMP properties and the PDF/A extension schema describing them
+ */
+function facturXMetadata(): string {
+    const properties = [
+        ['DocumentFileName', 'Name of the embedded XML invoice file'],
+        ['DocumentType', 'Type of the hybrid document'],
+        ['Version', 'Version of the Factur-X XML schema'],
+        ['ConformanceLevel', 'Conformance level of the embedded XML invoice'],
+    ]
+
+    return `
+    <rdf:Description rdf:about="" xmlns:fx="urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#">
+      <fx:DocumentType>INVOICE</fx:DocumentType>
+      <fx:DocumentFileName>${ATTACHMENT_FILE_NAMES.cii}</fx:DocumentFileName>
+      <fx:Version>1.0</fx:Version>
+      <fx:ConformanceLevel>EN 16931</fx:ConformanceLevel>
+    </rdf:Description>
+    <rdf:Description rdf:about=""
+        xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"
+        xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"
+        xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+      <pdfaExtension:schemas>
+        <rdf:Bag>
+          <rdf:li rdf:parseType="Resource">
+            <pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>
+            <pdfaSchema:namespaceURI>urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#</pdfaSchema:namespaceURI>
+            <pdfaSchema:prefix>fx</pdfaSchema:prefix>
+            <pdfaSchema:property>
+              <rdf:Seq>${properties.map(([name, description]) => `
+                <rdf:li rdf:parseType="Resource">
+                  <pdfaProperty:name>${name}</pdfaProperty:name>
+                  <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                  <pdfaProperty:category>external</pdfaProperty:category>
+                  <pdfaProperty:description>${description}</pdfaProperty:description>
+                </rdf:li>`).join('')}
+              </rdf:Seq>
+            </pdfaSchema:property>
+          </rdf:li>
+        </rdf:Bag>
+      </pdfaExtension:schemas>
+    </rdf:Description>`
+}
+
+/**
+ * Build the XMP metadata packet of a PDF/A-3B document
+ * Values must match the document information dictionary
+ */
+function buildXmpMetadata(options: PdfA3Options, date: Date): string {
+    const xmpDate = formatXmpDate(date)
+
+    return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+      <pdfaid:part>3</pdfaid:part>
+      <pdfaid:conformance>B</pdfaid:conformance>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <dc:format>application/pdf</dc:format>
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(options.title)}</rdf:li></rdf:Alt></dc:title>
+      <dc:creator><rdf:Seq><rdf:li>${escapeXml(options.author)}</rdf:li></rdf:Seq></dc:creator>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/">
+      <pdf:Producer>${PRODUCER}</pdf:Producer>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/">
+      <xmp:CreateDate>${xmpDate}</xmp:CreateDate>
+      <xmp:ModifyDate>${xmpDate}</xmp:ModifyDate>
+    </rdf:Description>${options.format === 'cii' ? facturXMetadata() : ''}
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`
+}
+
+/**
+ * Convert a jsPDF document to a hybrid PDF/A-3B invoice
+ * The document must be drawn with embedded fonts only (see registerPdfAFonts)
+ * Check the result with validatePdfA3
+ *
+ * @param pdf - PDF document bytes
+ * @param options - Metadata and the structured invoice to embed
+ * @param iccProfile - sRGB ICC profile for the output intent
+ * @returns PDF/A-3 document bytes
+ */
+export async function convertToPdfA3(
+    pdf: ArrayBuffer | Uint8Array,
+    options: PdfA3Options,
+    iccProfile: Uint8Array
+): Promise<Uint8Array> {
+    const date = new Date(Math.floor((options.date ?? new Date()).getTime() / 1000) * 1000)
+    const pdfDoc = await PDFDocument.load(pdf, { updateMetadata: false })
+    const { context, catalog } = pdfDoc
+
+    // Associated files need PDF 1.7
+    context.header = PDFHeader.forVersion(1, 7)
+
+    // Document information dictionary, mirrored in the XMP metadata
+    pdfDoc.setTitle(options.title)
+    pdfDoc.setAuthor(options.author)
+    pdfDoc.setProducer(PRODUCER)
+    pdfDoc.setCreationDate(date)
+    pdfDoc.setModificationDate(date)
+
+    await pdfDoc.attach(new TextEncoder().encode(options.xml), ATTACHMENT_FILE_NAMES[options.format], {
+        mimeType: 'text/xml',
+        description: ATTACHMENT_DESCRIPTIONS[options.format],
+        creationDate: date,
+        modificationDate: date,
+        afRelationship: AFRelationship.Alternative,
+    })
+    // Embed the attachment now so its file specification can be referenced
+    await pdfDoc.flush()
+
+    // PDF/A-3 requires embedded files to be associated files (AF) of the document
+    const names = catalog.lookup(PDFName.of('Names'), PDFDict)
+    const embeddedFiles = names.lookup(PDFName.of('EmbeddedFiles'), PDFDict)
+    const nameArray = embeddedFiles.lookup(PDFName.of('Names'), PDFArray)
+    const fileSpecs = nameArray.asArray().filter((_, index) => index % 2 === 1)
+    catalog.set(PDFName.of('AF'), context.obj(fileSpecs))
+
+    // Output intent with the sRGB profile, the document uses device colours
+    const iccStream = context.flateStream(iccProfile, { N: 3 })
+    catalog.set(PDFName.of('OutputIntents'), context.obj([
+        context.obj({
+            Type: 'OutputIntent',
+            S: 'GTS_PDFA1',
+            OutputConditionIdentifier: PDFString.of(ICC_PROFILE_NAME),
+            Info: PDFString.of(ICC_PROFILE_NAME),
+            DestOutputProfile: context.register(iccStream),
+        }),
+    ]))
+
+    // XMP metadata stream must not be compressed
+    const metadata = context.stream(new TextEncoder().encode(buildXmpMetadata(options, date)), {
+        Type: 'Metadata',
+        Subtype: 'XML',
+    })
+    catalog.set(PDFName.of('Metadata'), context.register(metadata))
+
+    return pdfDoc.save({ useObjectStreams: false })
+}
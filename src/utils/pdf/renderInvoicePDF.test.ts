@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { sampleInvoice } from '@/utils/einvoice/__fixtures__/invoices'
+import { generateVirtualBarcode } from '@/utils/finnish/virtualBarcode'
+import { renderInvoicePDF } from '@/utils/pdf/renderInvoicePDF'
+import { DEFAULT_PDF_TEMPLATE } from '@/utils/pdf/template'
+
+const template = { ...DEFAULT_PDF_TEMPLATE, showBarcode: true, showTransferForm: true }
+
+/**
+ * Virtual barcode of the sample invoice, the number printed below the bars
+ */
+function sampleBarcode(): string {
+    const invoice = sampleInvoice()
+    return generateVirtualBarcode(invoice.company.iban, invoice.totalCents, invoice.rfReference, invoice.dueDate)
+}
+
+describe('renderInvoicePDF payment slips', () => {
+    it('prints the virtual barcode for a Finnish account', async () => {
+        const pdf = Buffer.from(await renderInvoicePDF(sampleInvoice(), { template })).toString('latin1')
+        expect(pdf).toContain(sampleBarcode())
+    })
+
+    it('leaves out the barcode and the transfer form for a foreign account', async () => {
+        const invoice = sampleInvoice()
+        invoice.company = { ...invoice.company, iban: 'DE89370400440532013000', bic: 'COBADEFFXXX' }
+
+        const pdf = Buffer.from(await renderInvoicePDF(invoice, { template })).toString('latin1')
+
+        expect(pdf).toContain('DE89 3704 0044 0532 0130 00')
+        expect(pdf).not.toContain(sampleBarcode().slice(17))
+    })
+})
@@ -0,0 +1,701 @@
+// PDF rendering for Finnish invoices
+// Generates A4-sized PDF with company details, line items, SEPA QR code, and payment info
+// Following Finnish invoice standards and SEPA payment QR code specification (EPC QR standard)
+// Hybrid mode produces a PDF/A-3 document with the structured invoice XML embedded
+// Texts, dates and numbers follow the customer's language (fi/sv/en)
+// Long invoices continue on further pages, the payment details always end up on the last page
+// Logo, colours, font, legal footer and payment blocks follow the company's PDF template
+//
+// The layout runs both in the browser (DownloadPDFButton) and on the server (PDF API),
+// so it must not use DOM APIs: the barcode is drawn as vector bars instead of a canvas image
+
+import jsPDF from 'jspdf'
+import autoTable, { HookData } from 'jspdf-autotable'
+import QRCode from 'qrcode'
+import { generateVirtualBarcode, formatVirtualBarcode, isVirtualBarcodeAccount } from '@/utils/finnish/virtualBarcode'
+import { calculateInvoiceTotals } from '@/lib/invoices/totals'
+import { formatCents } from '@/lib/money'
+import { INVOICE_TRANSLATIONS, InvoiceTranslations } from '@/lib/i18n/invoice-translations'
+import { formatAmount, formatDate, formatNumber, formatPercent, toInvoiceLanguage } from '@/lib/i18n/languages'
+import { convertToPdfA3, HybridFormat, PdfAAssets, registerPdfAFonts } from '@/utils/pdf/pdfa'
+import { validatePdfA3 } from '@/utils/pdf/pdfa-validation'
+import { drawBarcode } from '@/utils/pdf/barcode'
+import { BANK_TRANSFER_FORM_TOP, drawBankTransferForm } from '@/utils/pdf/bankTransferForm'
+import { DEFAULT_PDF_TEMPLATE, getLogoFormat, hexToRgb, PdfTemplateSettings } from '@/utils/pdf/template'
+import type { PostalAddress } from '@/lib/invoices/recipient'
+import { formatIban, normalizeIban } from '@/utils/eu/iban'
+
+// Interface for invoice data structure
+// Defines all required fields for generating a complete Finnish invoice PDF
+export interface InvoiceData {
+    invoiceNumber: string
+    invoiceDate: Date
+    dueDate: Date
+    rfReference: string          // Payment reference (RF or Finnish national reference)
+    status: string               // draft | sent | paid | overdue
+    type?: string                // invoice | credit_note
+    creditedInvoice?: {          // Original invoice of a credit note
+        invoiceNumber: string
+        invoiceDate: Date
+    } | null
+    subtotalCents: number        // Amount before VAT, in cents
+    vatAmountCents: number       // VAT amount over all VAT rates, in cents
+    totalCents: number           // Total amount including VAT, in cents
+    notes?: string | null        // Optional additional notes
+    vatTreatment?: string        // domestic | reverse_charge | export (domestic if missing)
+    company: {
+        name: string
+        businessId: string       // Y-tunnus (Finnish business ID)
+        address: string
+        postalCode: string
+        city: string
+        email: string
+        phone: string | null     // Optional phone number
+        iban: string             // International Bank Account Number
+        bic: string              // Bank Identifier Code
+    }
+    customer: {
+        name: string
+        businessId?: string | null  // Optional Y-tunnus for business customers
+        address: string
+        postalCode: string
+        city: string
+        email: string
+        language?: string        // Invoice language: fi | sv | en (Finnish if missing)
+        contactName?: string | null         // Contact person the invoice is addressed to
+        addressName?: string | null         // Extra line of the billing address
+        deliveryAddress?: PostalAddress | null  // Printed when it differs from the billing address
+    }
+    lineItems: Array<{
+        description: string      // Product/service description
+        quantity: number         // Amount of items
+        unitPriceCents: number   // Price per unit in cents
+        vatRate: number          // VAT percentage (25.5, 14, 10 or 0)
+        totalCents: number       // Line total in cents (quantity * unitPrice)
+    }>
+}
+
+// Page geometry of the A4 layout (mm)
+const PAGE_HEIGHT = 297
+const CONTINUATION_PAGE_TOP = 20      // Content start on pages after the first, below the repeated header
+const FOOTER_HEIGHT = 22              // Payment terms, page number and legal footer
+const PAGE_FOOTER_TOP = PAGE_HEIGHT - FOOTER_HEIGHT
+
+// Heights of the blocks after the tables, used to keep each block on one page (mm)
+const TOTALS_HEIGHT = 22
+const NOTES_HEADING_HEIGHT = 6
+const NOTES_LINE_HEIGHT = 5
+const CREDIT_INFO_HEIGHT = 22
+const PAYMENT_DETAILS_HEIGHT = 34     // Payment details only
+const QR_BLOCK_HEIGHT = 56            // Payment details with the QR code
+const PAYMENT_BLOCK_HEIGHT = 104      // Payment details, QR code and virtual barcode
+
+// Hybrid PDF/A-3 output with an embedded structured invoice
+export interface HybridOptions {
+    format: HybridFormat
+    xml: string                  // Finvoice or CII XML document to embed
+    assets: PdfAAssets           // Embedded fonts (loaded for the template font) and colour profile
+}
+
+export interface InvoicePDFOptions {
+    hybrid?: HybridOptions
+    template?: PdfTemplateSettings   // Company's PDF template, default layout if omitted
+}
+
+/**
+ * PDF file name in the customer's language (e.g., Lasku_INV-001.pdf or Faktura_INV-001.pdf)
+ */
+export function getInvoicePDFFileName(invoice: {
+    type?: string
+    invoiceNumber: string
+    customer: { language?: string }
+}): string {
+    const t = INVOICE_TRANSLATIONS[toInvoiceLanguage(invoice.customer.language)]
+    return `${invoice.type === 'credit_note' ? t.creditNoteFileName : t.invoiceFileName}_${invoice.invoiceNumber}.pdf`
+}
+
+/**
+ * Legal footer line of the company (e.g., "Yritys Oy | Y-tunnus 1234567-8 | Kotipaikka: Helsinki | ...")
+ */
+function legalFooter(invoice: InvoiceData, template: PdfTemplateSettings, t: InvoiceTranslations): string {
+    const parts = [invoice.company.name, `${t.businessId} ${invoice.company.businessId}`]
+    if (template.homeMunicipality) {
+        parts.push(`${t.homeMunicipality}: ${template.homeMunicipality}`)
+    }
+    if (template.vatRegistered) {
+        parts.push(t.vatRegistered)
+    }
+    if (template.tradeRegistered) {
+        parts.push(t.tradeRegistered)
+    }
+    return parts.join(' | ')
+}
+
+/**
+ * Draw the company logo into a box, keeping its aspect ratio
+ * A logo jsPDF cannot decode is left out instead of failing the whole invoice
+ */
+function drawLogo(doc: jsPDF, logo: string, x: number, y: number, maxWidth: number, maxHeight: number) {
+    const format = getLogoFormat(logo)
+    if (!format) {
+        return
+    }
+
+    try {
+        // getImageProperties is missing from the typings @types/jspdf merges in
+        const { width, height } = (doc as typeof doc & {
+            getImageProperties: (imageData: string) => { width: number, height: number }
+        }).getImageProperties(logo)
+        const scale = Math.min(maxWidth / width, maxHeight / height)
+        doc.addImage(logo, format, x, y, width * scale, height * scale)
+    } catch (error) {
+        console.error('Error drawing logo:', error)
+    }
+}
+
+/**
+ * Payment term in days between invoice date and due date
+ */
+function paymentTermDays(invoiceDate: Date, dueDate: Date): number {
+    return Math.round((new Date(dueDate).getTime() - new Date(invoiceDate).getTime()) / (24 * 60 * 60 * 1000))
+}
+
+// Generate SEPA payment QR code data string
+// Format follows European Payments Council (EPC) QR code standard
+// When scanned, this QR code auto-fills payment details in banking apps
+// Reference: https://www.europeanpaymentscouncil.eu/document-library/guidance-documents/quick-response-code-guidelines-enable-data-capture-initiation
+function generateSEPAString(
+    iban: string,              // Beneficiary IBAN
+    bic: string,               // Beneficiary BIC
+    amountCents: number,       // Payment amount in cents
+    reference: string,         // Payment reference (RF or Finnish national reference)
+    beneficiaryName: string    // Company name
+): string {
+    // Only ISO 11649 RF references fit the structured field,
+    // Finnish national references go to the unstructured remittance
+    const isRFReference = reference.toUpperCase().startsWith('RF')
+
+    return [
+        'BCD',                          // Service Tag (constant)
+        '002',                          // Version (constant)
+        '1',                            // Character set: 1 = UTF-8
+        'SCT',                          // Identification: SCT = SEPA Credit Transfer
+        bic,                            // BIC of beneficiary bank
+        beneficiaryName,                // Name of the beneficiary (company)
+        iban,                           // Beneficiary account (IBAN)
+        `EUR${formatCents(amountCents)}`, // Amount with currency code (e.g., EUR150.00)
+        '',                             // Purpose code (optional, leave empty)
+        isRFReference ? reference : '', // Structured reference (RF reference number)
+        isRFReference ? '' : reference, // Unstructured remittance (Finnish reference)
+        ''                              // Beneficiary to originator info (optional, leave empty)
+    ].join('\n')
+}
+
+// Main PDF rendering function
+// Renders a complete Finnish invoice PDF with all required elements
+// Returns a Promise because QR code generation and PDF/A conversion are async
+export async function renderInvoicePDF(invoice: InvoiceData, options: InvoicePDFOptions = {}): Promise<Uint8Array> {
+    const { hybrid, template = DEFAULT_PDF_TEMPLATE } = options
+    const accentColor = hexToRgb(template.accentColor)
+
+    // Create new PDF document with A4 portrait orientation
+    // Unit: millimeters for precise positioning
+    const doc = new jsPDF({
+        orientation: 'portrait',
+        unit: 'mm',
+        format: 'a4',
+        putOnlyUsedFonts: true      // Leave out the unused standard fonts
+    })
+
+    // PDF/A requires embedded fonts, the standard fonts are not embedded
+    const font = hybrid ? registerPdfAFonts(doc, hybrid.assets) : template.font
+
+    // Set default font family
+    doc.setFont(font)
+
+    // Customer's language for texts, dates and numbers
+    const language = toInvoiceLanguage(invoice.customer.language)
+    const t = INVOICE_TRANSLATIONS[language]
+    const amount = (cents: number) => `${formatAmount(cents, language)} €`
+
+    // ============================================
+    // HEADER SECTION
+    // ============================================
+
+    // Credit notes share the layout but replace payment details with credit info
+    const isCreditNote = invoice.type === 'credit_note'
+
+    // Company logo - top left, the title moves below it
+    if (template.logo) {
+        drawLogo(doc, template.logo, 20, 8, 60, 14)
+    }
+
+    // Main title - top left, in the accent colour
+    doc.setFontSize(24)
+    doc.setTextColor(...accentColor)
+    doc.text(isCreditNote ? t.creditNoteTitle : t.invoiceTitle, 20, template.logo ? 34 : 20)
+    doc.setTextColor(0, 0, 0)
+
+    // Invoice metadata - top right
+    doc.setFontSize(11)
+    doc.text(`${t.invoiceNumber}: ${invoice.invoiceNumber}`, 140, 20)
+    doc.text(`${t.invoiceDate}: ${formatDate(invoice.invoiceDate, language)}`, 140, 27)
+    if (isCreditNote && invoice.creditedInvoice) {
+        // Credit note has no due date, it refers to the original invoice instead
+        doc.text(`${t.creditsInvoice}: ${invoice.creditedInvoice.invoiceNumber}`, 140, 34)
+    } else {
+        doc.text(`${t.dueDate}: ${formatDate(invoice.dueDate, language)}`, 140, 34)
+    }
+    doc.text(`${t.reference}: ${invoice.rfReference}`, 140, 41)
+
+    // ============================================
+    // COMPANY (SENDER) INFORMATION - LEFT SIDE
+    // ============================================
+
+    doc.setFontSize(10)
+    doc.setFont(font, 'bold')
+    doc.text(`${t.seller}:`, 20, 50)
+
+    doc.setFont(font, 'normal')
+    doc.text(invoice.company.name, 20, 56)
+    doc.text(`${t.businessId}: ${invoice.company.businessId}`, 20, 62)
+    doc.text(invoice.company.address, 20, 68)
+    doc.text(`${invoice.company.postalCode} ${invoice.company.city}`, 20, 74)
+    doc.text(invoice.company.email, 20, 80)
+
+    // Phone number is optional - only add if provided
+    if (invoice.company.phone) {
+        doc.text(invoice.company.phone, 20, 86)
+    }
+
+    // ============================================
+    // CUSTOMER (RECIPIENT) INFORMATION - RIGHT SIDE
+    // ============================================
+
+    doc.setFont(font, 'bold')
+    doc.text(`${t.buyer}:`, 110, 50)
+
+    // Business customer has Y-tunnus, private customer doesn't
+    // Contact person and address name are only printed when selected on the invoice
+    const buyerLines = [
+        invoice.customer.name,
+        invoice.customer.businessId ? `${t.businessId}: ${invoice.customer.businessId}` : null,
+        invoice.customer.contactName ? `${t.attention} ${invoice.customer.contactName}` : null,
+        invoice.customer.addressName,
+        invoice.customer.address,
+        `${invoice.customer.postalCode} ${invoice.customer.city}`,
+        invoice.customer.email,
+    ].filter((line): line is string => !!line)
+
+    doc.setFont(font, 'normal')
+    let buyerY = 50
+    for (const line of buyerLines) {
+        buyerY += 6
+        doc.text(line, 110, buyerY)
+    }
+
+    // Separate delivery address below the buyer
+    const delivery = invoice.customer.deliveryAddress
+    if (delivery) {
+        buyerY += 9
+        doc.setFont(font, 'bold')
+        doc.text(`${t.deliveryAddress}:`, 110, buyerY)
+
+        doc.setFont(font, 'normal')
+        const deliveryLines = [
+            delivery.name,
+            delivery.address,
+            `${delivery.postalCode} ${delivery.city}`,
+        ].filter((line): line is string => !!line)
+        for (const line of deliveryLines) {
+            buyerY += 6
+            doc.text(line, 110, buyerY)
+        }
+    }
+
+    // ============================================
+    // PAGE LAYOUT
+    // ============================================
+
+    // The virtual barcode and the bank transfer form are Finnish domestic payment slips,
+    // invoices paid to a foreign account leave them out and keep the IBAN and QR code
+    const finnishAccount = isVirtualBarcodeAccount(invoice.company.iban)
+
+    // The bank transfer form fills the bottom of page one, credit notes are not paid
+    const showTransferForm = template.showTransferForm && !isCreditNote && finnishAccount
+
+    // Lowest position of content on a page, the footer (and the form) go below it
+    const contentBottom = (page: number) =>
+        page === 1 && showTransferForm ? BANK_TRANSFER_FORM_TOP - FOOTER_HEIGHT - 2 : PAGE_FOOTER_TOP - 2
+
+    // Continue on a new page when the next block does not fit on the current one
+    let y = 0
+    const ensureSpace = (height: number) => {
+        if (y + height > contentBottom(doc.internal.getNumberOfPages())) {
+            doc.addPage()
+            y = CONTINUATION_PAGE_TOP
+        }
+    }
+
+    // Tables break pages on their own, keeping clear of the footer and the form of each page
+    const tablePaging = () => ({
+        margin: { top: CONTINUATION_PAGE_TOP, bottom: PAGE_HEIGHT - contentBottom(doc.internal.getNumberOfPages()) },
+        willDrawPage: (data: HookData) => {
+            data.settings.margin.bottom = PAGE_HEIGHT - contentBottom(doc.internal.getNumberOfPages())
+        },
+    })
+    const lastTableY = () => (doc as typeof doc & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY
+
+    // ============================================
+    // LINE ITEMS TABLE
+    // ============================================
+
+    // Table starts below the longer of the seller and buyer blocks
+    const tableStartY = Math.max(90, buyerY + 15)
+
+    // Use jspdf-autotable for professional table layout
+    // The header row is repeated on every page the table continues to
+    autoTable(doc, {
+        startY: tableStartY,
+        head: [[t.description, t.quantity, t.unitPrice, t.vat, t.lineTotal]],
+        body: invoice.lineItems.map(item => [
+            item.description,
+            formatNumber(item.quantity, language),
+            formatAmount(item.unitPriceCents, language),
+            formatPercent(item.vatRate, language),
+            formatAmount(item.totalCents, language)
+        ]),
+        showHead: 'everyPage',
+        ...tablePaging(),
+        theme: 'striped',                                           // Alternating row colors
+        headStyles: {
+            fillColor: accentColor,                                // Header background in the accent colour
+            textColor: 255,                                         // White text
+            fontStyle: 'bold'
+        },
+        styles: { font, fontSize: 10 },
+        columnStyles: {
+            0: { cellWidth: 70 },                                  // Description column - wide
+            1: { cellWidth: 20, halign: 'right' },                 // Quantity - right aligned
+            2: { cellWidth: 30, halign: 'right' },                 // Unit price - right aligned
+            3: { cellWidth: 25, halign: 'right' },                 // VAT rate - right aligned
+            4: { cellWidth: 35, halign: 'right' }                  // Total - right aligned
+        }
+    })
+
+    // ============================================
+    // VAT BREAKDOWN TABLE (ALV-erittely)
+    // ============================================
+
+    // Finnish invoices must show net, VAT and gross amount for each VAT rate
+    const { vatBreakdown } = calculateInvoiceTotals(invoice.lineItems)
+
+    autoTable(doc, {
+        startY: lastTableY() + 6,
+        head: [[t.vatRate, t.netAmount, t.vatAmount, t.grossAmount]],
+        body: vatBreakdown.map(row => [
+            formatPercent(row.vatRate, language),
+            formatAmount(row.netCents, language),
+            formatAmount(row.vatCents, language),
+            formatAmount(row.grossCents, language)
+        ]),
+        theme: 'plain',
+        ...tablePaging(),
+        margin: { ...tablePaging().margin, left: 95 },             // Right half of the page
+        rowPageBreak: 'avoid',
+        pageBreak: 'avoid',                                        // Keep the breakdown in one piece
+        headStyles: { fontStyle: 'bold' },
+        styles: { font, fontSize: 9 },
+        columnStyles: {
+            0: { cellWidth: 25 },
+            1: { cellWidth: 25, halign: 'right' },
+            2: { cellWidth: 20, halign: 'right' },
+            3: { cellWidth: 30, halign: 'right' }
+        }
+    })
+
+    // Continue below the tables
+    y = lastTableY() + 10
+
+    // ============================================
+    // TOTALS SECTION - RIGHT ALIGNED
+    // ============================================
+
+    ensureSpace(TOTALS_HEIGHT)
+
+    doc.setFontSize(10)
+    doc.setFont(font, 'normal')
+
+    // Subtotal (amount before VAT)
+    doc.text(`${t.subtotal}:`, 140, y)
+    doc.text(amount(invoice.subtotalCents), 185, y, { align: 'right' })
+
+    // VAT amount, all rates combined (per-rate amounts in the table above)
+    doc.text(`${t.vatTotal}:`, 140, y + 6)
+    doc.text(amount(invoice.vatAmountCents), 185, y + 6, { align: 'right' })
+
+    // Total amount (bold and larger)
+    doc.setFont(font, 'bold')
+    doc.setFontSize(12)
+    doc.text(`${t.total}:`, 140, y + 14)
+    doc.text(amount(invoice.totalCents), 185, y + 14, { align: 'right' })
+
+    y += TOTALS_HEIGHT
+
+    // Invoices without Finnish VAT must state why
+    const vatTreatmentNote = invoice.vatTreatment === 'reverse_charge'
+        ? t.reverseChargeNote
+        : invoice.vatTreatment === 'export' ? t.exportNote : null
+    if (vatTreatmentNote) {
+        ensureSpace(NOTES_LINE_HEIGHT)
+        doc.setFont(font, 'bold')
+        doc.setFontSize(10)
+        doc.text(vatTreatmentNote, 20, y)
+        y += NOTES_LINE_HEIGHT + 4
+    }
+
+    // ============================================
+    // NOTES SECTION (IF PROVIDED)
+    // ============================================
+
+    if (invoice.notes) {
+        ensureSpace(NOTES_HEADING_HEIGHT + NOTES_LINE_HEIGHT)
+
+        doc.setFont(font, 'bold')
+        doc.setFontSize(10)
+        doc.text(`${t.notes}:`, 20, y)
+        y += NOTES_HEADING_HEIGHT
+
+        // Split long notes text to fit within margins, long notes continue on the next page
+        doc.setFont(font, 'normal')
+        for (const line of doc.splitTextToSize(invoice.notes, 170) as string[]) {
+            ensureSpace(NOTES_LINE_HEIGHT)
+            doc.text(line, 20, y)
+            y += NOTES_LINE_HEIGHT
+        }
+        y += 6
+    }
+
+    // Virtual barcode for the payment block and the transfer form
+    let virtualBarcodeNumber: string | null = null
+    if (!isCreditNote && template.showBarcode && finnishAccount) {
+        // Due date is a calendar date stored as UTC midnight, the barcode reads local date parts
+        const dueDate = new Date(invoice.dueDate)
+
+        // Generate 54-digit virtual barcode number
+        virtualBarcodeNumber = generateVirtualBarcode(
+            invoice.company.iban,
+            invoice.totalCents,
+            invoice.rfReference,
+            new Date(dueDate.getUTCFullYear(), dueDate.getUTCMonth(), dueDate.getUTCDate())
+        )
+    }
+
+    // On a single page invoice the transfer form is the payment block,
+    // when the invoice continues further the payment block follows on the last page
+    const paymentOnForm = showTransferForm && doc.internal.getNumberOfPages() === 1
+
+    if (isCreditNote) {
+        // ============================================
+        // CREDIT NOTE: NO PAYMENT DETAILS
+        // ============================================
+
+        // Credit notes are not paid, so no QR code or virtual barcode
+        ensureSpace(CREDIT_INFO_HEIGHT)
+
+        doc.setFont(font, 'bold')
+        doc.setFontSize(11)
+        doc.text(`${t.credit}:`, 20, y)
+
+        doc.setFont(font, 'normal')
+        doc.setFontSize(10)
+        if (invoice.creditedInvoice) {
+            const originalDate = formatDate(invoice.creditedInvoice.invoiceDate, language)
+            doc.text(`${t.originalInvoice}: ${invoice.creditedInvoice.invoiceNumber} (${originalDate})`, 20, y + 7)
+        }
+        doc.text(`${t.creditAmount}: ${amount(-invoice.totalCents)}`, 20, y + 13)
+        doc.text(t.creditInfo, 20, y + 19)
+    } else if (!paymentOnForm) {
+        // ============================================
+        // PAYMENT BLOCK - ALWAYS ON THE LAST PAGE
+        // ============================================
+
+        // The transfer form already carries the barcode, the block repeats it only without the form
+        const showBarcodeBlock = virtualBarcodeNumber !== null && !showTransferForm
+        ensureSpace(showBarcodeBlock ? PAYMENT_BLOCK_HEIGHT : template.showQrCode ? QR_BLOCK_HEIGHT : PAYMENT_DETAILS_HEIGHT)
+
+        // ============================================
+        // PAYMENT DETAILS SECTION (LEFT SIDE)
+        // ============================================
+
+        doc.setFont(font, 'bold')
+        doc.setFontSize(11)
+        doc.text(`${t.paymentDetails}:`, 20, y + 5)
+
+        doc.setFont(font, 'normal')
+        doc.setFontSize(10)
+        doc.text(`${t.account}: ${formatIban(invoice.company.iban)}`, 20, y + 12)
+        doc.text(`BIC: ${invoice.company.bic}`, 20, y + 18)
+        doc.text(`${t.reference}: ${invoice.rfReference}`, 20, y + 24)
+        doc.text(`${t.dueDate}: ${formatDate(invoice.dueDate, language)}`, 20, y + 30)
+
+        // ============================================
+        // QR CODE (RIGHT SIDE OF PAYMENT DETAILS)
+        // ============================================
+
+        if (template.showQrCode) {
+            // Generate SEPA payment string according to EPC standard
+            const sepaString = generateSEPAString(
+                normalizeIban(invoice.company.iban),
+                invoice.company.bic,
+                invoice.totalCents,
+                invoice.rfReference,
+                invoice.company.name
+            )
+
+            // Convert SEPA string to QR code image (base64 data URL)
+            // Customer can scan this with their banking app to auto-fill payment
+            const qrCodeDataUrl = await QRCode.toDataURL(sepaString, {
+                width: 200,                    // QR code size in pixels
+                margin: 1,                     // Quiet zone around QR code
+                color: {
+                    dark: '#000000',           // Black modules
+                    light: '#ffffff'           // White background
+                }
+            })
+
+            // Add QR code image to PDF
+            // Position: right side, 50x50mm size
+            doc.addImage(qrCodeDataUrl, 'PNG', 130, y, 50, 50)
+
+            // Add instruction text below QR code
+            doc.setFontSize(8)
+            doc.setTextColor(100, 100, 100)  // Gray color
+            doc.text(t.scanToPay, 155, y + 53, { align: 'center' })
+            doc.setTextColor(0, 0, 0)        // Reset to black
+        }
+
+        // ============================================
+        // VIRTUAL BARCODE (Finnish banking)
+        // ============================================
+
+        if (showBarcodeBlock && virtualBarcodeNumber) {
+            // Format barcode with spaces for readability (4 12345 67890...)
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const barcodeForDisplay = formatVirtualBarcode(virtualBarcodeNumber)
+
+            doc.setFont(font, 'bold')
+            doc.setFontSize(11)
+            doc.text(`${t.virtualBarcode}:`, 20, y + 65)
+
+            // Add barcode bars, Code 128 is the standard format for Finnish virtual barcodes
+            drawBarcode(doc, virtualBarcodeNumber, 20, y + 72.5, 170, 15)
+
+            // Add barcode number below the bars (monospace font for easy copying)
+            doc.setFont(hybrid ? font : 'courier', 'normal')
+            doc.setFontSize(10)
+            doc.text(virtualBarcodeNumber, 105, y + 95, { align: 'center' })  // No spaces!
+
+            doc.setFont(font, 'normal')
+            doc.setFontSize(8)
+            doc.setTextColor(100, 100, 100)
+            doc.text(t.copyBarcode, 105, y + 101, { align: 'center' })
+            doc.setTextColor(0, 0, 0)
+        }
+    }
+
+    // ============================================
+    // BANK TRANSFER FORM (TILISIIRTOLOMAKE) - PAGE ONE
+    // ============================================
+
+    if (showTransferForm) {
+        doc.setPage(1)
+        drawBankTransferForm(doc, font, {
+            iban: formatIban(invoice.company.iban),
+            bic: invoice.company.bic,
+            receiver: [
+                invoice.company.name,
+                invoice.company.address,
+                `${invoice.company.postalCode} ${invoice.company.city}`,
+            ],
+            payer: [
+                invoice.customer.name,
+                invoice.customer.address,
+                `${invoice.customer.postalCode} ${invoice.customer.city}`,
+            ],
+            information: [`${t.invoiceNumber}: ${invoice.invoiceNumber}`],
+            reference: invoice.rfReference,
+            // The form is a Finnish/Swedish standard, so its dates and amounts use Finnish formatting
+            dueDate: formatDate(invoice.dueDate, 'fi'),
+            amount: formatAmount(invoice.totalCents, 'fi'),
+            virtualBarcode: virtualBarcodeNumber,
+        })
+    }
+
+    // ============================================
+    // PAGE HEADERS AND FOOTERS
+    // ============================================
+
+    const pageCount = doc.internal.getNumberOfPages()
+    const termsText = t.paymentTerms(paymentTermDays(invoice.invoiceDate, invoice.dueDate))
+    const createdText = `${t.created}: ${formatDate(new Date(), language)}`
+    const footerText = legalFooter(invoice, template, t)
+
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page)
+
+        // Continuation pages repeat the document title and number at the top
+        if (page > 1) {
+            doc.setFont(font, 'bold')
+            doc.setFontSize(9)
+            doc.setTextColor(...accentColor)
+            doc.text(`${isCreditNote ? t.creditNoteTitle : t.invoiceTitle} ${invoice.invoiceNumber}`, 20, 12)
+            doc.setFont(font, 'normal')
+            doc.setTextColor(100, 100, 100)
+            doc.text(invoice.company.name, 190, 12, { align: 'right' })
+        }
+
+        // Footer sits above the transfer form on page one
+        const footerTop = page === 1 && showTransferForm ? BANK_TRANSFER_FORM_TOP - FOOTER_HEIGHT : PAGE_FOOTER_TOP
+
+        doc.setFont(font, 'normal')
+        doc.setFontSize(8)
+        doc.setTextColor(128, 128, 128)  // Gray color
+        doc.text(termsText, 20, footerTop + 3)
+        doc.text(createdText, 105, footerTop + 3, { align: 'center' })
+        doc.text(t.page(page, pageCount), 190, footerTop + 3, { align: 'right' })
+
+        // Legal footer of the company template, centered below a thin accent line
+        doc.setDrawColor(...accentColor)
+        doc.setLineWidth(0.3)
+        doc.line(20, footerTop + 5.5, 190, footerTop + 5.5)
+        doc.text(footerText, 105, footerTop + 9, { align: 'center' })
+        if (template.footerText) {
+            doc.text(doc.splitTextToSize(template.footerText, 170), 105, footerTop + 13, { align: 'center' })
+        }
+        doc.setTextColor(0, 0, 0)
+    }
+
+    if (!hybrid) {
+        return new Uint8Array(doc.output('arraybuffer'))
+    }
+
+    // ============================================
+    // PDF/A-3 CONVERSION
+    // ============================================
+
+    const pdfA = await convertToPdfA3(doc.output('arraybuffer'), {
+        title: `${isCreditNote ? t.creditNoteFileName : t.invoiceFileName} ${invoice.invoiceNumber}`,
+        author: invoice.company.name,
+        format: hybrid.format,
+        xml: hybrid.xml,
+    }, hybrid.assets.iccProfile)
+
+    // Refuse to hand out a document that claims PDF/A conformance without meeting it
+    const validationErrors = await validatePdfA3(pdfA)
+    if (validationErrors.length > 0) {
+        throw new Error(`PDF/A-3 validation failed: ${validationErrors.map(error => `${error.rule} ${error.message}`).join('; ')}`)
+    }
+
+    return pdfA
+}
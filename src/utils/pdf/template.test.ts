@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { sampleInvoice } from '@/utils/einvoice/__fixtures__/invoices'
+import { renderInvoicePDF } from '@/utils/pdf/renderInvoicePDF'
+import { DEFAULT_PDF_TEMPLATE, getLogoFormat, validatePdfTemplate } from '@/utils/pdf/template'
+
+// 1x1 pixel PNG
+const PNG_LOGO = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+
+// Start of a JFIF file, the signature check reads only the first bytes
+const JPEG_LOGO = 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQAAAQABAAD'
+
+// PNG signature followed by bytes that are not a PNG image
+const BROKEN_PNG_LOGO = 'data:image/png;base64,iVBORw0KGgoAAAAAAAAAAAAAAAAAAAAA'
+
+afterEach(() => {
+    vi.restoreAllMocks()
+})
+
+describe('getLogoFormat', () => {
+    it('detects PNG and JPEG data URLs', () => {
+        expect(getLogoFormat(PNG_LOGO)).toBe('PNG')
+        expect(getLogoFormat(JPEG_LOGO)).toBe('JPEG')
+    })
+
+    it('rejects data whose bytes do not match the declared format', () => {
+        expect(getLogoFormat(PNG_LOGO.replace('image/png', 'image/jpeg'))).toBeNull()
+        expect(getLogoFormat(JPEG_LOGO.replace('image/jpeg', 'image/png'))).toBeNull()
+        expect(getLogoFormat(`data:image/png;base64,${btoa('<svg xmlns="http://www.w3.org/2000/svg"/>')}`)).toBeNull()
+    })
+
+    it('rejects other data URLs and payloads too short for a signature', () => {
+        expect(getLogoFormat('data:image/gif;base64,R0lGODlhAQABAAAAACw=')).toBeNull()
+        expect(getLogoFormat('data:image/png;base64,iVBORw==')).toBeNull()
+        expect(getLogoFormat('not a data url')).toBeNull()
+    })
+})
+
+describe('validatePdfTemplate', () => {
+    it('accepts the default template and a PNG logo', () => {
+        expect(validatePdfTemplate(DEFAULT_PDF_TEMPLATE)).toBeNull()
+        expect(validatePdfTemplate({ ...DEFAULT_PDF_TEMPLATE, logo: PNG_LOGO })).toBeNull()
+    })
+
+    it('rejects a logo that is not a PNG or JPEG image', () => {
+        const logo = `data:image/png;base64,${btoa('GIF89a, renamed to a PNG')}`
+        expect(validatePdfTemplate({ ...DEFAULT_PDF_TEMPLATE, logo })).toBe('Logo must be a PNG or JPEG image')
+    })
+})
+
+describe('renderInvoicePDF logo', () => {
+    it('draws a valid logo', async () => {
+        const pdf = await renderInvoicePDF(sampleInvoice(), { template: { ...DEFAULT_PDF_TEMPLATE, logo: PNG_LOGO } })
+        expect(pdf.length).toBeGreaterThan(0)
+    })
+
+    it('renders the invoice without a logo that cannot be decoded', async () => {
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+        const pdf = await renderInvoicePDF(sampleInvoice(), { template: { ...DEFAULT_PDF_TEMPLATE, logo: BROKEN_PNG_LOGO } })
+
+        expect(pdf.length).toBeGreaterThan(0)
+        expect(consoleError).toHaveBeenCalledWith('Error drawing logo:', expect.anything())
+    })
+})
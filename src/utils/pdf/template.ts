@@ -0,0 +1,169 @@
+// PDF template settings of a company
+// Branding (logo, accent colour, font), legal footer and the optional payment blocks
+// Pure functions only, shared by the PDF renderer, the settings API and the settings form preview
+
+export const PDF_FONTS = ['helvetica', 'times', 'courier'] as const
+
+export type PdfFont = typeof PDF_FONTS[number]
+
+export const PDF_FONT_LABELS: Record<PdfFont, string> = {
+    helvetica: 'Helvetica (groteski)',
+    times: 'Times (antiikva)',
+    courier: 'Courier (tasalevyinen)',
+}
+
+export interface PdfTemplateSettings {
+    logo: string | null             // PNG or JPEG data URL
+    accentColor: string             // Hex colour of the title and table headers (#rrggbb)
+    font: PdfFont                   // Standard font, hybrid PDF/A-3 embeds the matching DejaVu family
+    vatRegistered: boolean          // Footer: entered in the VAT register
+    tradeRegistered: boolean        // Footer: entered in the Trade Register
+    homeMunicipality: string | null // Footer: registered office (kotipaikka)
+    footerText: string | null       // Footer: additional legal text
+    showQrCode: boolean             // SEPA payment QR code
+    showBarcode: boolean            // Finnish virtual barcode
+    showTransferForm: boolean       // Bank transfer form (tilisiirtolomake) at the bottom of page one
+}
+
+// Layout of companies that have not configured their template
+export const DEFAULT_PDF_TEMPLATE: PdfTemplateSettings = {
+    logo: null,
+    accentColor: '#428bca',
+    font: 'helvetica',
+    vatRegistered: true,
+    tradeRegistered: true,
+    homeMunicipality: null,
+    footerText: null,
+    showQrCode: true,
+    showBarcode: true,
+    showTransferForm: false,
+}
+
+// Logos are stored in the database as data URLs, so keep them small
+export const MAX_LOGO_BYTES = 200 * 1024
+export const MAX_HOME_MUNICIPALITY_LENGTH = 50
+export const MAX_FOOTER_TEXT_LENGTH = 300
+
+const LOGO_DATA_URL_PATTERN = /^data:image\/(png|jpeg);base64,([A-Za-z0-9+/]+={0,2})$/
+
+// File signatures (magic bytes) of the supported logo formats
+const LOGO_SIGNATURES: Record<'PNG' | 'JPEG', number[]> = {
+    PNG: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+    JPEG: [0xff, 0xd8, 0xff],
+}
+
+/**
+ * Check if a value is a supported PDF font
+ */
+export function isPdfFont(value: unknown): value is PdfFont {
+    return typeof value === 'string' && (PDF_FONTS as readonly string[]).includes(value)
+}
+
+/**
+ * Check if a value is a #rrggbb colour
+ */
+export function isHexColor(value: unknown): value is string {
+    return typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value)
+}
+
+/**
+ * Convert a #rrggbb colour to RGB components (0-255)
+ */
+export function hexToRgb(hex: string): [number, number, number] {
+    const value = parseInt(hex.slice(1), 16)
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+/**
+ * Image format of a logo data URL for jsPDF
+ * The decoded bytes must start with the signature of the declared format
+ * @returns 'PNG' or 'JPEG', or null if the value is not a PNG or JPEG data URL
+ */
+export function getLogoFormat(logo: string): 'PNG' | 'JPEG' | null {
+    const match = logo.match(LOGO_DATA_URL_PATTERN)
+    if (!match) {
+        return null
+    }
+
+    const format = match[1] === 'png' ? 'PNG' : 'JPEG'
+    // 12 base64 characters decode to the first 9 bytes, enough for both signatures
+    const base64 = match[2]
+    if (base64.length < 12) {
+        return null
+    }
+    const header = atob(base64.slice(0, 12))
+    const matchesSignature = LOGO_SIGNATURES[format].every((byte, i) => header.charCodeAt(i) === byte)
+
+    return matchesSignature ? format : null
+}
+
+/**
+ * Decoded size of a base64 data URL in bytes
+ */
+function dataUrlSize(dataUrl: string): number {
+    const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1)
+    return Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0)
+}
+
+/**
+ * Template settings from a stored template, unknown fonts fall back to the default
+ * @param template - Stored template, or null if the company has not configured one
+ */
+export function toPdfTemplateSettings(template: Omit<PdfTemplateSettings, 'font'> & { font: string } | null): PdfTemplateSettings {
+    if (!template) {
+        return DEFAULT_PDF_TEMPLATE
+    }
+
+    return {
+        logo: template.logo,
+        accentColor: isHexColor(template.accentColor) ? template.accentColor : DEFAULT_PDF_TEMPLATE.accentColor,
+        font: isPdfFont(template.font) ? template.font : DEFAULT_PDF_TEMPLATE.font,
+        vatRegistered: template.vatRegistered,
+        tradeRegistered: template.tradeRegistered,
+        homeMunicipality: template.homeMunicipality,
+        footerText: template.footerText,
+        showQrCode: template.showQrCode,
+        showBarcode: template.showBarcode,
+        showTransferForm: template.showTransferForm,
+    }
+}
+
+/**
+ * Validate template settings from a request body
+ * @param template - Untrusted value from the request
+ * @returns Error message, or null if the settings are valid
+ */
+export function validatePdfTemplate(template: unknown): string | null {
+    const value = template as Partial<PdfTemplateSettings> | null
+
+    if (!value) {
+        return 'Missing template settings'
+    }
+    if (value.logo !== null && (typeof value.logo !== 'string' || !getLogoFormat(value.logo))) {
+        return 'Logo must be a PNG or JPEG image'
+    }
+    if (value.logo && dataUrlSize(value.logo) > MAX_LOGO_BYTES) {
+        return `Logo can be at most ${MAX_LOGO_BYTES / 1024} kB`
+    }
+    if (!isHexColor(value.accentColor)) {
+        return 'Accent colour must be a #rrggbb colour'
+    }
+    if (!isPdfFont(value.font)) {
+        return 'Invalid font'
+    }
+    if (typeof value.vatRegistered !== 'boolean' || typeof value.tradeRegistered !== 'boolean'
+        || typeof value.showQrCode !== 'boolean' || typeof value.showBarcode !== 'boolean'
+        || typeof value.showTransferForm !== 'boolean') {
+        return 'vatRegistered, tradeRegistered, showQrCode, showBarcode and showTransferForm must be booleans'
+    }
+    if (value.homeMunicipality !== null && (typeof value.homeMunicipality !== 'string'
+        || value.homeMunicipality.length > MAX_HOME_MUNICIPALITY_LENGTH)) {
+        return `Home municipality can be at most ${MAX_HOME_MUNICIPALITY_LENGTH} characters`
+    }
+    if (value.footerText !== null && (typeof value.footerText !== 'string'
+        || value.footerText.length > MAX_FOOTER_TEXT_LENGTH)) {
+        return `Footer text can be at most ${MAX_FOOTER_TEXT_LENGTH} characters`
+    }
+
+    return null
+}